@@ -1,3 +1,11 @@
+/**
+ * Configuration for the bazelrc feature.
+ */
+export interface BazelrcConfiguration {
+  // if true, the flags of the bazel release of the workspace are loaded
+  releaseFlags: boolean;
+}
+
 /**
  * Returns true if the argument is a valid bazel command name.
  *
@@ -30,3 +38,50 @@ export const BazelCommands = new Set<string>([
   'test',
   'version',
 ]);
+
+/**
+ * Returns true if the argument may start an rc file line: a bazel command or
+ * one of the pseudo-commands that only exist in rc files.
+ *
+ * @param token the token to check
+ */
+export function isBazelrcCommand(token: string): boolean {
+  return isBazelCommand(token) || BazelrcCommands.has(token);
+}
+
+/**
+ * The commands of rc file lines that are not bazel commands.  'codesearch' is
+ * the bzl alias of query.
+ */
+export const BazelrcCommands = new Set<string>(['always', 'codesearch', 'common', 'startup']);
+
+/**
+ * The commands whose rc file options a command inherits, outermost first.
+ * test, for example, applies the build options of the rc files before its
+ * own.
+ */
+export const BazelCommandInheritance: { [command: string]: string[] } = {
+  aquery: ['build'],
+  clean: ['build'],
+  config: ['build'],
+  coverage: ['build', 'test'],
+  cquery: ['build', 'test'],
+  info: ['build'],
+  'mobile-install': ['build'],
+  print_action: ['build'],
+  run: ['build'],
+  test: ['build'],
+};
+
+/**
+ * Returns the rc file sections that apply to the command, in the order bazel
+ * applies them.
+ *
+ * @param command the bazel command, or 'startup'
+ */
+export function bazelrcSections(command: string): string[] {
+  if (command === 'startup') {
+    return ['startup'];
+  }
+  return ['always', 'common', ...(BazelCommandInheritance[command] || []), command];
+}
@@ -1,4 +1,5 @@
 export enum CommandName {
   RunCommand = 'bsv.bazelrc.runCommand',
   RerunCommand = 'bsv.bazelrc.rerunCommand',
+  EffectiveOptions = 'bsv.bazelrc.effectiveOptions',
 }
@@ -0,0 +1,331 @@
+import * as vscode from 'vscode';
+import { BazelConfiguration } from '../bezel/configuration';
+import { Settings } from '../bezel/settings';
+import { bazelrcSections, isBazelCommand } from './configuration';
+import { CommandName } from './constants';
+import { loadDocumentScope } from './language';
+import {
+  BazelrcLocation,
+  BazelrcScope,
+  configNameAt,
+  flattenBazelrc,
+  formatOrigin,
+  tokenizeBazelrc,
+} from './rcfile';
+
+/**
+ * An option of the effective command line.
+ */
+export interface EffectiveOption {
+  // the option as bazel sees it, e.g. --compilation_mode=opt
+  text: string;
+  // where the option is set: file:line, or the name of a setting
+  origin: string;
+  // the rc file section, such as build:ci
+  section?: string;
+  location?: BazelrcLocation;
+  // the names of the --config options the option was expanded from,
+  // outermost first
+  via: string[];
+}
+
+/**
+ * The options of a bazel invocation, in the order bazel applies them.
+ */
+export interface EffectiveCommandLine {
+  command: string;
+  options: EffectiveOption[];
+  // arguments that are not options, such as target patterns
+  residue: string[];
+  errors: string[];
+}
+
+/**
+ * A command line argument and where it comes from.
+ */
+export interface InvocationArgument {
+  text: string;
+  origin: string;
+}
+
+/**
+ * Splits a command line such as 'bazel test --config=ci //...' into the
+ * command and the arguments.  The leading 'bazel' is optional.
+ */
+export function parseInvocation(text: string): { command: string; args: string[] } {
+  const words = ([] as string[]).concat(
+    ...tokenizeBazelrc(text).map(tokens => tokens.map(t => t.value))
+  );
+  if (words[0] === 'bazel' || words[0] === 'bazelisk') {
+    words.shift();
+  }
+  return { command: words.shift() || '', args: words };
+}
+
+/**
+ * Returns the settings flags bazel is invoked with by the build, test and run
+ * commands of the extension.
+ */
+export function settingsArguments(
+  command: string,
+  cfg: Pick<BazelConfiguration, 'buildFlags' | 'testFlags' | 'runFlags'>
+): InvocationArgument[] {
+  const args = (setting: string, flags: string[]) =>
+    flags.map(text => ({ text, origin: `bsv.bazel.${setting}` }));
+  switch (command) {
+    case 'build':
+      return args('buildFlags', cfg.buildFlags);
+    case 'test':
+    case 'coverage':
+      return [...args('buildFlags', cfg.buildFlags), ...args('testFlags', cfg.testFlags)];
+    case 'run':
+      return args('runFlags', cfg.runFlags);
+  }
+  return [];
+}
+
+/**
+ * Returns the name of the config selected by a --config argument.
+ */
+function configArgument(text: string): string | undefined {
+  const match = /^--config=(.*)$/.exec(text);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Returns functions that append the options of the rc file sections that
+ * apply to the command to the result.
+ */
+function newResolver(scope: BazelrcScope, command: string) {
+  const sections = bazelrcSections(command);
+  const entries = flattenBazelrc(scope);
+  const result: EffectiveCommandLine = { command, options: [], residue: [], errors: [] };
+
+  // appends the options of the lines of the config, or of the lines without
+  // config if undefined.
+  const addSections = (config: string | undefined, via: string[]) => {
+    for (const section of sections) {
+      for (const { path, line } of entries) {
+        if (line.command !== section || line.config !== config) {
+          continue;
+        }
+        for (const option of line.options) {
+          const value = option.value === undefined ? '' : (option.short ? ' ' : '=') + option.value;
+          result.options.push({
+            text: (option.short ? '-' : '--') + option.name + value,
+            origin: formatOrigin(scope.workspaceDirectory, path, option.range.start),
+            section: config ? `${section}:${config}` : section,
+            location: { path, range: option.range },
+            via,
+          });
+          if (option.name === 'config' && option.value !== undefined) {
+            expandConfig(option.value, via);
+          }
+        }
+      }
+    }
+  };
+
+  const expandConfig = (name: string, via: string[]) => {
+    if (via.includes(name)) {
+      result.errors.push(`Config expansion loop: --config=${[...via, name].join(' --config=')}`);
+      return;
+    }
+    if (!entries.some(e => e.line.config === name)) {
+      result.errors.push(`Config value '${name}' is not defined in any rc file`);
+      return;
+    }
+    addSections(name, [...via, name]);
+  };
+
+  return { result, addSections, expandConfig };
+}
+
+/**
+ * Computes the options of a bazel invocation as bazel does: the rc file lines
+ * of the sections of the command (common, then the inherited commands, then
+ * the command itself) in the order of the files, followed by the arguments.
+ * Each --config is replaced by the lines of its sections, recursively.
+ *
+ * @param args the arguments of the invocation, including settings flags
+ */
+export function resolveEffectiveOptions(
+  scope: BazelrcScope,
+  command: string,
+  args: InvocationArgument[]
+): EffectiveCommandLine {
+  const { result, addSections, expandConfig } = newResolver(scope, command);
+  addSections(undefined, []);
+
+  for (let i = 0; i < args.length; i++) {
+    let { text } = args[i];
+    const { origin } = args[i];
+    if (!text.startsWith('-')) {
+      result.residue.push(text);
+      continue;
+    }
+    if (text === '--config' && i + 1 < args.length) {
+      text = `--config=${args[++i].text}`;
+    }
+    result.options.push({ text, origin, via: [] });
+    const config = configArgument(text);
+    if (config !== undefined) {
+      expandConfig(config, []);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Returns the options --config=name expands to for the command.
+ */
+export function resolveConfigExpansion(
+  scope: BazelrcScope,
+  command: string,
+  name: string
+): EffectiveCommandLine {
+  const { result, expandConfig } = newResolver(scope, command);
+  expandConfig(name, []);
+  return result;
+}
+
+/**
+ * Formats the effective command line as rc file text: one option per line,
+ * annotated with its origin.  Options expanded from a config are indented.
+ */
+export function formatEffectiveCommandLine(cmdline: EffectiveCommandLine): string {
+  const lines = [
+    `# Effective options of 'bazel ${cmdline.command}', in the order bazel applies them.`,
+    '# Later options override earlier ones.',
+  ];
+  for (const error of cmdline.errors) {
+    lines.push(`# ERROR: ${error}`);
+  }
+  const texts = cmdline.options.map(o => '  '.repeat(o.via.length) + o.text);
+  const width = Math.max(0, ...texts.map(t => t.length));
+  cmdline.options.forEach((option, i) => {
+    const where = option.section ? `${option.origin} ${option.section}` : option.origin;
+    lines.push(`${texts[i].padEnd(width)}  # ${where}`);
+  });
+  if (cmdline.residue.length) {
+    lines.push(cmdline.residue.join(' '));
+  }
+  return lines.join('\n') + '\n';
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_{}[\]()#+\-.!|<>]/g, '\\$&');
+}
+
+/**
+ * Formats the options a config expands to as markdown.
+ */
+export function formatConfigExpansion(name: string, cmdline: EffectiveCommandLine): string {
+  const lines = [`\`--config=${name}\` expands to, for \`${cmdline.command}\`:`, ''];
+  for (const error of cmdline.errors) {
+    lines.push(`- ${escapeMarkdown(error)}`);
+  }
+  for (const option of cmdline.options) {
+    const indent = '  '.repeat(option.via.length - 1);
+    lines.push(
+      `${indent}- \`${option.text}\` ${escapeMarkdown(option.origin)} \`${option.section}\``
+    );
+  }
+  if (!(cmdline.options.length || cmdline.errors.length)) {
+    lines.push('_no options_');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * BazelrcEffectiveOptions shows the options bazel applies for an invocation,
+ * as --announce_rc does, without running bazel.  Hovering a --config value
+ * shows what it expands to.
+ */
+export class BazelrcEffectiveOptions implements vscode.HoverProvider, vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly bazelSettings: Settings<BazelConfiguration>) {
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        CommandName.EffectiveOptions,
+        this.handleCommandEffectiveOptions,
+        this
+      ),
+      vscode.languages.registerHoverProvider([{ language: 'bazelrc', scheme: 'file' }], this)
+    );
+  }
+
+  async handleCommandEffectiveOptions(invocation?: string): Promise<void> {
+    if (!invocation) {
+      invocation = await vscode.window.showInputBox({
+        prompt: 'Bazel command line to show the effective options of',
+        placeHolder: 'test --config=ci',
+        value: 'build',
+      });
+    }
+    if (!invocation) {
+      return;
+    }
+    const { command, args } = parseInvocation(invocation);
+    if (!(isBazelCommand(command) || command === 'startup')) {
+      vscode.window.showErrorMessage(`Unknown bazel command '${command}'`);
+      return;
+    }
+    const uri = this.workspaceRc();
+    if (!uri) {
+      vscode.window.showWarningMessage('Open a workspace folder to resolve its rc files');
+      return;
+    }
+    const scope = await loadDocumentScope(uri);
+    const cfg = await this.bazelSettings.get();
+    const cmdline = resolveEffectiveOptions(scope, command, [
+      ...settingsArguments(command, cfg),
+      ...args.map(text => ({ text, origin: 'command line' })),
+    ]);
+    const doc = await vscode.workspace.openTextDocument({
+      language: 'bazelrc',
+      content: formatEffectiveCommandLine(cmdline),
+    });
+    await vscode.window.showTextDocument(doc, { preview: true });
+  }
+
+  async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.Hover | undefined> {
+    const scope = await loadDocumentScope(document.uri);
+    const lines = scope.files.get(document.uri.fsPath) || [];
+    const name = configNameAt(lines, position);
+    const line = lines.find(
+      l => l.range.start.line <= position.line && l.range.end.line >= position.line
+    );
+    if (!(name && line)) {
+      return undefined;
+    }
+    // common options are shown as they apply to build
+    const command = isBazelCommand(line.command) ? line.command : 'build';
+    const cmdline = resolveConfigExpansion(scope, command, name);
+    return new vscode.Hover(new vscode.MarkdownString(formatConfigExpansion(name, cmdline)));
+  }
+
+  /**
+   * Returns the workspace rc file of the active editor's workspace, or the
+   * first workspace folder.
+   */
+  private workspaceRc(): vscode.Uri | undefined {
+    const active = vscode.window.activeTextEditor?.document.uri;
+    const folder =
+      (active && vscode.workspace.getWorkspaceFolder(active)) ||
+      vscode.workspace.workspaceFolders?.[0];
+    return folder ? vscode.Uri.joinPath(folder.uri, '.bazelrc') : undefined;
+  }
+
+  public dispose() {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables.length = 0;
+  }
+}
@@ -1,17 +1,45 @@
 import * as vscode from 'vscode';
 import { ConfigurationContext } from '../common';
+import { BazelConfiguration } from '../bezel/configuration';
+import { Settings } from '../bezel/settings';
 import { Reconfigurable } from '../reconfigurable';
+import { BazelrcConfiguration } from './configuration';
+import { BazelrcEffectiveOptions } from './effective';
 import { BazelFlagSupport } from './flags';
+import { BazelrcLanguageSupport } from './language';
+import { BazelFlagSettingsSupport } from './settingsFlags';
 
 export const BazelrcFeatureName = 'bsv.bazelrc';
 
-export class BazelrcFeature extends Reconfigurable<void> {
-  constructor(configCtx: ConfigurationContext) {
+export class BazelrcFeature extends Reconfigurable<BazelrcConfiguration> {
+  /**
+   * @param bazelSettings the settings of the bazel component, owned by the
+   * caller.
+   * @param getBazelRelease returns the release reported by bazel info, if
+   * known.
+   */
+  constructor(
+    configCtx: ConfigurationContext,
+    bazelSettings: Settings<BazelConfiguration>,
+    getBazelRelease: () => Promise<string | undefined>
+  ) {
     super(BazelrcFeatureName);
-    this.add(new BazelFlagSupport(configCtx, this.onDidConfigurationChange.event));
+    const flagSupport = this.add(
+      new BazelFlagSupport(
+        configCtx,
+        this.onDidConfigurationChange.event,
+        bazelSettings,
+        getBazelRelease
+      )
+    );
+    this.add(new BazelrcLanguageSupport(flagSupport));
+    this.add(new BazelFlagSettingsSupport(flagSupport));
+    this.add(new BazelrcEffectiveOptions(bazelSettings));
   }
 
-  async configure(config: vscode.WorkspaceConfiguration): Promise<void> {
-    return;
+  async configure(config: vscode.WorkspaceConfiguration): Promise<BazelrcConfiguration> {
+    return {
+      releaseFlags: config.get<boolean>('releaseFlags', true),
+    };
   }
 }
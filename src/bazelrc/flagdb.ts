@@ -0,0 +1,239 @@
+import * as child_process from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as protobuf from 'protobufjs';
+import { FlagCollection } from '../proto/bazel_flags/FlagCollection';
+import { FlagInfo } from '../proto/bazel_flags/FlagInfo';
+
+/**
+ * The maximum time to wait for bazel to print its version or flags.
+ */
+const BAZEL_TIMEOUT_MILLIS = 2 * 60 * 1000;
+
+/**
+ * Returns the version in the output of 'bazel --version' (bazel 5.0.0) or the
+ * release of 'bazel info' (release 5.0.0), or undefined for a development
+ * build.
+ */
+export function parseBazelVersion(text: string): string | undefined {
+  const match = /^\s*(?:bazel|release)\s+(\d+\.\d+\.\d+[\w.+-]*)/m.exec(text);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Returns the file the flags of the bazel version are cached in.
+ *
+ * @param storageDir the directory of the extension in the global storage
+ */
+export function flagCollectionCacheFile(storageDir: string, version: string): string {
+  return path.join(storageDir, 'flaginfo', `bazel-${version.replace(/[^\w.+-]/g, '_')}.flaginfo`);
+}
+
+/**
+ * Decodes a FlagCollection message.
+ *
+ * @param protofile the path of bazel_flags.proto
+ */
+export async function decodeFlagCollection(
+  protofile: string,
+  data: Uint8Array
+): Promise<FlagCollection> {
+  const options = {
+    keepCase: false,
+    longs: String,
+    enums: String,
+    defaults: false,
+    oneofs: true,
+  };
+
+  return protobuf.load(protofile).then(root => {
+    const FlagCollectionType = root.lookupType('bazel_flags.FlagCollection');
+    if (!FlagCollectionType) {
+      throw new Error('Failed to find FlagCollection FlagCollectionType');
+    }
+    return FlagCollectionType.toObject(FlagCollectionType.decode(data), options);
+  });
+}
+
+function runBazel(executable: string, args: string[], cwd: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    child_process.execFile(
+      executable,
+      args,
+      { cwd, maxBuffer: Number.MAX_SAFE_INTEGER, timeout: BAZEL_TIMEOUT_MILLIS },
+      (error: child_process.ExecException | null, stdout: string, stderr: string) => {
+        if (error) {
+          reject(new Error(`${executable} ${args.join(' ')}: ${stderr || error.message}`));
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+/**
+ * The flags of a bazel release.
+ */
+export interface ReleaseFlagCollection {
+  version: string;
+  collection: FlagCollection;
+}
+
+/**
+ * Loads the flags of the bazel release the executable runs in the workspace
+ * (bazelisk picks the release of .bazelversion).  The flags are read from the
+ * cache of the version, or else asked from bazel with 'bazel help
+ * flags-as-proto' and cached.  Returns undefined for a development build,
+ * whose flags may change without a new version.
+ *
+ * @param protofile the path of bazel_flags.proto
+ * @param storageDir the directory of the extension in the global storage
+ * @param release the release reported by bazel info, if known; otherwise
+ * the version is asked from bazel
+ */
+export async function loadReleaseFlagCollection(
+  protofile: string,
+  storageDir: string,
+  executable: string,
+  cwd: string,
+  release?: string
+): Promise<ReleaseFlagCollection | undefined> {
+  const version = parseBazelVersion(release || (await runBazel(executable, ['--version'], cwd)));
+  if (!version) {
+    return undefined;
+  }
+  const cacheFile = flagCollectionCacheFile(storageDir, version);
+  if (fs.existsSync(cacheFile)) {
+    const collection = await decodeFlagCollection(protofile, await fs.promises.readFile(cacheFile));
+    return { version, collection };
+  }
+
+  // the message is printed base64 encoded
+  const stdout = await runBazel(executable, ['help', 'flags-as-proto'], cwd);
+  const data = Buffer.from(stdout.trim(), 'base64');
+  const collection = await decodeFlagCollection(protofile, data);
+  if (!collection.flagInfos?.length) {
+    throw new Error(`bazel ${version} did not print any flags`);
+  }
+  await fs.promises.mkdir(path.dirname(cacheFile), { recursive: true });
+  await fs.promises.writeFile(cacheFile, data);
+  return { version, collection };
+}
+
+/**
+ * Fills in the effect and metadata tags of flags of a collection that does
+ * not carry them, such as the shipped one, from their names and
+ * documentation.
+ */
+export function annotateFlagTags(flag: FlagInfo): FlagInfo {
+  if (!flag.name || flag.effectTags?.length || flag.metadataTags?.length) {
+    return flag;
+  }
+  const doc = (flag.documentation || '').trim();
+  const effectTags: string[] = [];
+  const metadataTags: string[] = [];
+  if (
+    /^(deprecated[.,]?\s*)?no-?op\b/i.test(doc) ||
+    /^this (flag|option) has no effect\b|\bis deprecated and has no effect\b|\bis a no-?op\b/i.test(
+      doc
+    )
+  ) {
+    effectTags.push('NO_OP');
+  }
+  if (/^deprecated\b|[.;]\s*deprecated\b|\bis deprecated\b/i.test(doc)) {
+    metadataTags.push('DEPRECATED');
+  }
+  if (flag.name.startsWith('experimental_')) {
+    metadataTags.push('EXPERIMENTAL');
+  }
+  if (flag.name.startsWith('incompatible_')) {
+    metadataTags.push('INCOMPATIBLE_CHANGE');
+  }
+  flag.effectTags = effectTags;
+  flag.metadataTags = metadataTags;
+  return flag;
+}
+
+/**
+ * How a flag in an rc file should be changed, if at all.
+ */
+export interface FlagStatus {
+  severity: 'warning' | 'info';
+  message: string;
+  tag?: 'deprecated' | 'unnecessary';
+  // the option to write instead, without dashes
+  replacement?: string;
+  // true if the option may be removed
+  removable?: boolean;
+}
+
+/**
+ * Returns the flag the deprecation of the flag points to, if it is known.
+ */
+function deprecationReplacement(flags: Map<string, FlagInfo>, flag: FlagInfo): string | undefined {
+  const text = flag.deprecationWarning || flag.documentation || '';
+  const match = /\buse\s+['`"]?--([\w-]+)/i.exec(text);
+  const name = match ? match[1] : undefined;
+  return name && name !== flag.name && flags.get(name)?.name === name ? name : undefined;
+}
+
+/**
+ * Returns the status of a flag that is renamed, deprecated, a no-op,
+ * experimental or an incompatible change, or undefined if the flag is
+ * current.
+ *
+ * @param flags the flags by name, negated name, old name and abbreviation
+ * @param name the flag as written, such as 'nokeep_going'
+ */
+export function flagStatus(
+  flags: Map<string, FlagInfo>,
+  flag: FlagInfo,
+  name: string
+): FlagStatus | undefined {
+  if (flag.oldName && (name === flag.oldName || name === 'no' + flag.oldName)) {
+    const replacement = name === flag.oldName ? flag.name! : 'no' + flag.name;
+    return {
+      severity: 'warning',
+      message: `--${name} is deprecated; use --${replacement}`,
+      tag: 'deprecated',
+      replacement,
+    };
+  }
+  const effectTags = flag.effectTags || [];
+  const metadataTags = flag.metadataTags || [];
+  if (effectTags.includes('NO_OP')) {
+    return {
+      severity: 'warning',
+      message: `--${flag.name} has no effect`,
+      tag: 'unnecessary',
+      removable: true,
+    };
+  }
+  if (metadataTags.includes('DEPRECATED') || flag.deprecationWarning) {
+    let replacement = deprecationReplacement(flags, flag);
+    if (replacement && name !== flag.name) {
+      replacement = flags.get(replacement)?.hasNegativeFlag ? 'no' + replacement : undefined;
+    }
+    const reason = flag.deprecationWarning ? `: ${flag.deprecationWarning}` : '';
+    return {
+      severity: 'warning',
+      message: `--${flag.name} is deprecated${reason}`,
+      tag: 'deprecated',
+      replacement,
+    };
+  }
+  if (metadataTags.includes('EXPERIMENTAL')) {
+    return {
+      severity: 'info',
+      message: `--${flag.name} is experimental and may change or be removed in any release`,
+    };
+  }
+  if (metadataTags.includes('INCOMPATIBLE_CHANGE')) {
+    return {
+      severity: 'info',
+      message: `--${flag.name} is an incompatible change flag; it is removed once its change is the default`,
+    };
+  }
+  return undefined;
+}
@@ -1,11 +1,15 @@
 import * as fs from 'graceful-fs';
-import * as protobuf from 'protobufjs';
+import * as path from 'path';
 import * as vscode from 'vscode';
+import { BazelConfiguration } from '../bezel/configuration';
+import { Settings } from '../bezel/settings';
 import { ConfigurationContext } from '../common';
 import { Container } from '../container';
 import { FlagCollection } from '../proto/bazel_flags/FlagCollection';
 import { FlagInfo } from '../proto/bazel_flags/FlagInfo';
-import { isBazelCommand } from './configuration';
+import { BazelrcConfiguration, isBazelCommand } from './configuration';
+import { annotateFlagTags, decodeFlagCollection, loadReleaseFlagCollection } from './flagdb';
+import { annotateFlagInfo } from './values';
 
 const debug = false;
 
@@ -20,9 +24,33 @@ export class BazelFlagSupport
   private disposables: vscode.Disposable[] = [];
   private flagCollection: FlagCollection | undefined;
   private flags: Map<string, FlagInfo> | undefined;
-
-  constructor(private configCtx: ConfigurationContext, onDidConfigurationChange: vscode.Event<void>) {
+  private version: string | undefined;
+  private releaseFlags = true;
+  private onDidChangeFlagsEmitter = new vscode.EventEmitter<Map<string, FlagInfo>>();
+
+  /**
+   * Fires with the flags by name, negated name and abbreviation once they are
+   * loaded.
+   */
+  readonly onDidChangeFlags = this.onDidChangeFlagsEmitter.event;
+
+  /**
+   * @param bazelSettings if given, the flags of the bazel release the
+   * configured executable runs replace the shipped ones once loaded.
+   * @param getBazelRelease returns the release reported by bazel info, if
+   * known, which saves running bazel to ask for its version.
+   */
+  constructor(
+    private configCtx: ConfigurationContext,
+    onDidConfigurationChange: vscode.Event<BazelrcConfiguration | void>,
+    private bazelSettings?: Settings<BazelConfiguration>,
+    private getBazelRelease?: () => Promise<string | undefined>
+  ) {
     onDidConfigurationChange(this.handleConfiguration, this, this.disposables);
+    if (bazelSettings) {
+      bazelSettings.onDidConfigurationChange(this.loadReleaseFlags, this, this.disposables);
+    }
+    this.disposables.push(this.onDidChangeFlagsEmitter);
 
     this.disposables.push(
       vscode.languages.registerHoverProvider([{ language: 'bazelrc', scheme: 'file' }], this)
@@ -37,13 +65,17 @@ export class BazelFlagSupport
     );
   }
 
-  private async handleConfiguration() {
+  private async handleConfiguration(cfg: BazelrcConfiguration | void) {
+    this.releaseFlags = cfg ? cfg.releaseFlags : true;
     const collection = await parseFlagCollection(
       this.configCtx.protoFile('bazel_flags.proto').fsPath,
       this.configCtx.extensionFile('flaginfo', 'bazel.flaginfo').fsPath,
     );
     this.flagCollection = collection;
     this.flags = makeFlagInfoMap(collection);
+    this.version = undefined;
+    this.onDidChangeFlagsEmitter.fire(this.flags);
+    this.loadReleaseFlags();
 
     if (debug) {
       console.log(`${collection.flagInfos?.length} flags, ${this.flags.size} keys`);
@@ -58,6 +90,49 @@ export class BazelFlagSupport
     }
   }
 
+  /**
+   * The bazel version the flags are of, or undefined if they are the shipped
+   * ones.
+   */
+  get bazelVersion(): string | undefined {
+    return this.version;
+  }
+
+  /**
+   * Replaces the flags with those of the bazel release of the workspace.  The
+   * shipped flags are kept if bazel cannot be run, or if the first workspace
+   * folder is not a bazel workspace.
+   */
+  private async loadReleaseFlags() {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!(this.releaseFlags && this.bazelSettings && folder)) {
+      return;
+    }
+    if (!isBazelWorkspace(folder.uri.fsPath)) {
+      return;
+    }
+    try {
+      const bazel = await this.bazelSettings.get();
+      const release = await loadReleaseFlagCollection(
+        this.configCtx.protoFile('bazel_flags.proto').fsPath,
+        path.join(this.configCtx.globalStorageUri.fsPath, 'bsv.bazelrc'),
+        bazel.executable || 'bazel',
+        folder.uri.fsPath,
+        await this.getBazelRelease?.()
+      );
+      if (!release || release.version === this.version) {
+        return;
+      }
+      this.flagCollection = release.collection;
+      this.flags = makeFlagInfoMap(release.collection);
+      this.version = release.version;
+      this.onDidChangeFlagsEmitter.fire(this.flags);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : e;
+      console.warn(`could not load the flags of the bazel release: ${message}`);
+    }
+  }
+
   public async provideCompletionItems(
     document: vscode.TextDocument,
     position: vscode.Position,
@@ -214,6 +289,15 @@ export class BazelFlagSupport
   }
 }
 
+/**
+ * Returns true if the directory is the root of a bazel workspace.
+ */
+function isBazelWorkspace(dir: string): boolean {
+  return ['WORKSPACE', 'WORKSPACE.bazel', 'MODULE.bazel'].some(name =>
+    fs.existsSync(path.join(dir, name))
+  );
+}
+
 function getCommandNameFromLine(text: string): string | undefined {
   let match: RegExpMatchArray | null = null;
   if ((match = text.match(/^\s*([-a-z]+)\s+/))) {
@@ -236,22 +320,7 @@ function makeFlagInfoCompletionItem(name: string, flag: FlagInfo): vscode.Comple
 }
 
 async function parseFlagCollection(protofile: string, infofile: string): Promise<FlagCollection> {
-  const options = {
-    keepCase: false,
-    longs: String,
-    enums: String,
-    defaults: false,
-    oneofs: true,
-  };
-
-  return protobuf.load(protofile).then(root => {
-    const FlagCollectionType = root.lookupType('bazel_flags.FlagCollection');
-    if (!FlagCollectionType) {
-      throw new Error('Failed to find FlagCollection FlagCollectionType');
-    }
-    const data = fs.readFileSync(infofile);
-    return FlagCollectionType.toObject(FlagCollectionType.decode(data), options);
-  });
+  return decodeFlagCollection(protofile, fs.readFileSync(infofile));
 }
 
 /**
@@ -267,10 +336,18 @@ function makeFlagInfoMap(collection: FlagCollection): Map<string, FlagInfo> {
       if (!flag.name) {
         continue;
       }
+      annotateFlagInfo(flag);
+      annotateFlagTags(flag);
       map.set(flag.name, flag);
       if (flag.hasNegativeFlag) {
         map.set('no' + flag.name, flag);
       }
+      if (flag.oldName) {
+        map.set(flag.oldName, flag);
+        if (flag.hasNegativeFlag) {
+          map.set('no' + flag.oldName, flag);
+        }
+      }
       if (flag.abbreviation) {
         map.set(flag.abbreviation, flag);
       }
@@ -304,6 +381,11 @@ function makeFlagInfoMarkdown(flag: FlagInfo): vscode.MarkdownString {
   lines.push(flag.documentation || '');
   lines.push('');
 
+  if (flag.allowedValues?.length) {
+    lines.push('Values: ' + flag.allowedValues.map(v => '`' + v + '`').join(', '));
+    lines.push('');
+  }
+
   if (flag.commands) {
     lines.push(flag.commands.map(c => '`' + c + '`').join(', '));
   }
@@ -0,0 +1,662 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { FlagInfo } from '../proto/bazel_flags/FlagInfo';
+import { BazelFlagSupport } from './flags';
+import { isBazelrcCommand } from './configuration';
+import { flagStatus } from './flagdb';
+import { flagValueCompletions, labelCompletions, validateFlagValue } from './values';
+import {
+  BazelrcLine,
+  BazelrcLocation,
+  BazelrcOption,
+  BazelrcRange,
+  BazelrcScope,
+  bazelrcConfigNames,
+  configDefinitions,
+  configNameAt,
+  configUsages,
+  defaultBazelrcFiles,
+  flattenBazelrc,
+  formatOrigin,
+  isImportLine,
+  loadBazelrcScope,
+  parseBazelrc,
+  rangeContains,
+  resolveImportPath,
+} from './rcfile';
+
+/**
+ * The delay to wait for the user to finish typing before linting.
+ */
+const DIAGNOSTICS_ON_TYPE_DELAY_MILLIS = 500;
+
+const bazelrcSelector: vscode.DocumentSelector = [{ language: 'bazelrc', scheme: 'file' }];
+
+/**
+ * An edit that fixes a problem: the text of the range is replaced by newText.
+ */
+export interface BazelrcFix {
+  title: string;
+  range: BazelrcRange;
+  newText: string;
+}
+
+/**
+ * A problem found in an rc file.
+ */
+export interface BazelrcDiagnostic {
+  path: string;
+  range: BazelrcRange;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  tag?: 'deprecated' | 'unnecessary';
+  fix?: BazelrcFix;
+}
+
+/**
+ * Returns true if the option is a starlark flag such as --//foo:bar or
+ * --@repo//foo:bar, which are not in the flag collection.
+ */
+export function isStarlarkOption(option: BazelrcOption): boolean {
+  return option.name.startsWith('/') || option.name.startsWith('@');
+}
+
+/**
+ * Returns the flag of the option.
+ *
+ * @param flags the flags by name, negated name, old name and abbreviation
+ */
+export function lookupFlag(
+  flags: Map<string, FlagInfo>,
+  option: BazelrcOption
+): FlagInfo | undefined {
+  const flag = flags.get(option.name);
+  if (!flag) {
+    return undefined;
+  }
+  if (option.short) {
+    return flag.abbreviation === option.name ? flag : undefined;
+  }
+  const names = flag.oldName ? [flag.name, flag.oldName] : [flag.name];
+  if (names.some(n => n === option.name || (flag.hasNegativeFlag && 'no' + n === option.name))) {
+    return flag;
+  }
+  return undefined;
+}
+
+/**
+ * Returns the value the option sets the flag to; a negated flag is false and
+ * a flag without value is true.
+ */
+export function optionValue(option: BazelrcOption, flag: FlagInfo): string {
+  if (!option.short && option.name !== flag.name && option.name !== flag.oldName) {
+    return 'false';
+  }
+  const value = flagValue(option, flag);
+  return value === undefined ? 'true' : value;
+}
+
+/**
+ * Returns the command whose flags apply to the line, or undefined if the flags
+ * of any command may be used.
+ */
+function flagCommand(line: BazelrcLine): string | undefined {
+  switch (line.command) {
+    case 'common':
+    case 'always':
+      return undefined;
+    case 'codesearch':
+      return 'query';
+  }
+  return line.command;
+}
+
+/**
+ * Returns the value given to the flag.  The word following a boolean or
+ * negated flag is not its value.
+ */
+function flagValue(option: BazelrcOption, flag: FlagInfo): string | undefined {
+  const negated = !option.short && option.name !== flag.name && option.name !== flag.oldName;
+  const takesWord = flag.valueType !== 'bool' && !negated;
+  return takesWord || !option.valueIsWord ? option.value : undefined;
+}
+
+function formatOption(option: BazelrcOption): string {
+  return (option.short ? '-' : '--') + option.name;
+}
+
+/**
+ * Returns the fix of the status of a flag: the option renamed to the
+ * replacement, or removed along with the whitespace before it.
+ */
+function flagStatusFix(
+  option: BazelrcOption,
+  status: { replacement?: string; removable?: boolean }
+): BazelrcFix | undefined {
+  if (status.replacement) {
+    return {
+      title: `Replace with --${status.replacement}`,
+      range: option.nameRange,
+      newText: '--' + status.replacement,
+    };
+  }
+  if (status.removable) {
+    const { start, end } = option.range;
+    return {
+      title: `Remove ${formatOption(option)}`,
+      range: { start: { line: start.line, character: Math.max(0, start.character - 1) }, end },
+      newText: '',
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Lints the rc files of the scope: unknown commands, flags and configs, flags
+ * that do not apply to the command, renamed, deprecated, no-op, experimental
+ * and incompatible change flags, missing imports and flags that are set more
+ * than once in the same section.
+ *
+ * @param flags the flags by name, negated name, old name and abbreviation;
+ * flags are not checked if undefined.
+ * @param bazelVersion the bazel release the flags are of, if known
+ */
+export function lintBazelrc(
+  scope: BazelrcScope,
+  flags?: Map<string, FlagInfo>,
+  bazelVersion?: string
+): BazelrcDiagnostic[] {
+  const diagnostics: BazelrcDiagnostic[] = [];
+  const configs = bazelrcConfigNames(scope);
+
+  for (const [filename, lines] of scope.files) {
+    const report = (
+      range: BazelrcRange,
+      severity: BazelrcDiagnostic['severity'],
+      message: string,
+      extra?: Pick<BazelrcDiagnostic, 'tag' | 'fix'>
+    ) => diagnostics.push({ path: filename, range, severity, message, ...extra });
+
+    for (const line of lines) {
+      if (isImportLine(line)) {
+        if (!line.importPath) {
+          report(line.range, 'error', `${line.command} requires a file`);
+        } else if (
+          line.command === 'import' &&
+          !scope.files.has(resolveImportPath(line.importPath.value, scope.workspaceDirectory))
+        ) {
+          report(line.importPath.range, 'error', `File not found: ${line.importPath.value}`);
+        }
+        continue;
+      }
+      if (!isBazelrcCommand(line.command)) {
+        report(line.commandRange, 'error', `Unknown command '${line.command}'`);
+        continue;
+      }
+      const command = flagCommand(line);
+      for (const option of line.options) {
+        if (option.name === 'config' && option.value !== undefined && option.valueRange) {
+          if (!configs.has(option.value)) {
+            report(option.valueRange, 'warning', `Config '${option.value}' is not defined`);
+          }
+        }
+        if (!flags || isStarlarkOption(option)) {
+          continue;
+        }
+        const flag = lookupFlag(flags, option);
+        if (!flag) {
+          const release = bazelVersion ? ` in bazel ${bazelVersion}` : '';
+          report(option.nameRange, 'warning', `Unknown flag ${formatOption(option)}${release}`);
+          continue;
+        }
+        const status = flagStatus(flags, flag, option.short ? flag.name! : option.name);
+        if (status) {
+          report(option.nameRange, status.severity, status.message, {
+            tag: status.tag,
+            fix: flagStatusFix(option, status),
+          });
+        }
+        if (command && !flag.commands?.includes(command)) {
+          report(
+            option.nameRange,
+            'warning',
+            `${formatOption(option)} does not apply to the '${line.command}' command`
+          );
+        } else {
+          const message = validateFlagValue(flag, option.name, flagValue(option, flag));
+          if (message) {
+            report(option.valueRange || option.nameRange, 'warning', message);
+          }
+        }
+      }
+    }
+  }
+
+  if (flags) {
+    diagnostics.push(...lintBazelrcSettings(scope, flags));
+  }
+  return diagnostics;
+}
+
+/**
+ * Reports flags that are set more than once in the same section, in the order
+ * bazel evaluates them.  A flag set again to the same value is a duplicate;
+ * set to another value it conflicts, unless it allows multiple values.
+ */
+function lintBazelrcSettings(
+  scope: BazelrcScope,
+  flags: Map<string, FlagInfo>
+): BazelrcDiagnostic[] {
+  const diagnostics: BazelrcDiagnostic[] = [];
+  const settings = new Map<string, { path: string; option: BazelrcOption; value: string }[]>();
+
+  for (const { path: filename, line } of flattenBazelrc(scope)) {
+    for (const option of line.options) {
+      const flag = isStarlarkOption(option) ? undefined : lookupFlag(flags, option);
+      if (!flag) {
+        continue;
+      }
+      const key = `${line.command}:${line.config || ''}:${flag.name}`;
+      const value = optionValue(option, flag);
+      const previous = settings.get(key) || [];
+      const origin = (p: { path: string; option: BazelrcOption }) =>
+        formatOrigin(scope.workspaceDirectory, p.path, p.option.range.start);
+
+      const same = previous.find(p => p.value === value);
+      const last = previous[previous.length - 1];
+      if (same) {
+        diagnostics.push({
+          path: filename,
+          range: option.range,
+          severity: 'warning',
+          message: `--${flag.name} is already set to '${value}' at ${origin(same)}`,
+        });
+      } else if (last && !flag.allowsMultiple) {
+        diagnostics.push({
+          path: filename,
+          range: option.range,
+          severity: 'warning',
+          message: `--${flag.name}=${value} overrides '${last.value}' set at ${origin(last)}`,
+        });
+      }
+      previous.push({ path: filename, option, value });
+      settings.set(key, previous);
+    }
+  }
+  return diagnostics;
+}
+
+function toRange(range: BazelrcRange): vscode.Range {
+  return new vscode.Range(
+    range.start.line,
+    range.start.character,
+    range.end.line,
+    range.end.character
+  );
+}
+
+function toLocation(location: BazelrcLocation): vscode.Location {
+  return new vscode.Location(vscode.Uri.file(location.path), toRange(location.range));
+}
+
+/**
+ * Returns the content of the file, preferring the open document such that
+ * unsaved edits are seen.
+ */
+async function readBazelrc(filename: string): Promise<string | undefined> {
+  const doc = vscode.workspace.textDocuments.find(d => d.uri.fsPath === filename);
+  if (doc) {
+    return doc.getText();
+  }
+  try {
+    return await fs.promises.readFile(filename, 'utf8');
+  } catch (e) {
+    return undefined;
+  }
+}
+
+function isBazelrcFile(doc: vscode.TextDocument): boolean {
+  return doc.languageId === 'bazelrc' && doc.uri.scheme === 'file';
+}
+
+function workspaceDirectoryOf(uri: vscode.Uri): string {
+  const folder = vscode.workspace.getWorkspaceFolder(uri);
+  return folder ? folder.uri.fsPath : path.dirname(uri.fsPath);
+}
+
+/**
+ * Loads the rc files bazel reads for the workspace of the document.  A
+ * document that is neither one of them nor imported is read last.
+ */
+export async function loadDocumentScope(uri: vscode.Uri): Promise<BazelrcScope> {
+  const workspaceDirectory = workspaceDirectoryOf(uri);
+  const roots = defaultBazelrcFiles(workspaceDirectory, os.homedir());
+  const scope = await loadBazelrcScope(workspaceDirectory, roots, readBazelrc);
+  if (scope.files.has(uri.fsPath)) {
+    return scope;
+  }
+  return loadBazelrcScope(workspaceDirectory, [...roots, uri.fsPath], readBazelrc);
+}
+
+/**
+ * Returns the completions of the value of the flag.
+ *
+ * @param partial the value typed so far
+ * @param start the position of the start of the value
+ * @param position the position of the cursor
+ * @param configs the config names, for --config
+ */
+export async function flagValueCompletionItems(
+  flag: FlagInfo,
+  partial: string,
+  start: vscode.Position,
+  position: vscode.Position,
+  workspaceDirectory: string,
+  configs: Iterable<string>
+): Promise<vscode.CompletionItem[]> {
+  const newItem = (label: string, kind: vscode.CompletionItemKind, from = start) => {
+    const item = new vscode.CompletionItem(label, kind);
+    item.range = new vscode.Range(from, position);
+    return item;
+  };
+  if (flag.name === 'config') {
+    return Array.from(configs).map(name => newItem(name, vscode.CompletionItemKind.Module));
+  }
+  if (flag.valueType === 'label') {
+    // complete the last item of a comma separated list
+    const comma = partial.lastIndexOf(',');
+    const from = start.translate(0, comma + 1);
+    const labels = await labelCompletions(workspaceDirectory, partial.slice(comma + 1));
+    return labels.map(l => {
+      const item = newItem(
+        l.label,
+        l.kind === 'target' ? vscode.CompletionItemKind.Value : vscode.CompletionItemKind.Folder,
+        from
+      );
+      if (l.kind === 'directory') {
+        // descend into the directory
+        item.command = { title: '', command: 'editor.action.triggerSuggest' };
+      }
+      return item;
+    });
+  }
+  return flagValueCompletions(flag).map(value =>
+    newItem(value, vscode.CompletionItemKind.EnumMember)
+  );
+}
+
+const diagnosticSeverities: {
+  [severity in BazelrcDiagnostic['severity']]: vscode.DiagnosticSeverity;
+} = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  info: vscode.DiagnosticSeverity.Information,
+};
+
+const diagnosticTags: { [tag in NonNullable<BazelrcDiagnostic['tag']>]: vscode.DiagnosticTag } = {
+  deprecated: vscode.DiagnosticTag.Deprecated,
+  unnecessary: vscode.DiagnosticTag.Unnecessary,
+};
+
+/**
+ * Provides navigation, outline and diagnostics for rc files: --config values
+ * resolve to the lines of their sections, imports link to the imported files.
+ * Renamed, deprecated and no-op flags have quick fixes.
+ */
+export class BazelrcLanguageSupport
+  implements
+    vscode.DefinitionProvider,
+    vscode.ReferenceProvider,
+    vscode.DocumentSymbolProvider,
+    vscode.DocumentLinkProvider,
+    vscode.CompletionItemProvider,
+    vscode.CodeActionProvider,
+    vscode.Disposable
+{
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly diagnostics: vscode.DiagnosticCollection;
+  // the fixes of the published diagnostics, by document
+  private readonly fixes = new Map<string, { diagnostic: vscode.Diagnostic; fix: BazelrcFix }[]>();
+  private flags: Map<string, FlagInfo> | undefined;
+  private lintTimer: NodeJS.Timer | undefined;
+
+  constructor(private readonly flagSupport: BazelFlagSupport) {
+    this.diagnostics = vscode.languages.createDiagnosticCollection('bazelrc');
+    this.disposables.push(
+      this.diagnostics,
+      vscode.languages.registerDefinitionProvider(bazelrcSelector, this),
+      vscode.languages.registerReferenceProvider(bazelrcSelector, this),
+      vscode.languages.registerDocumentSymbolProvider(bazelrcSelector, this),
+      vscode.languages.registerDocumentLinkProvider(bazelrcSelector, this),
+      vscode.languages.registerCompletionItemProvider(bazelrcSelector, this, '=', '/', ':', ','),
+      vscode.languages.registerCodeActionsProvider(bazelrcSelector, this, {
+        providedCodeActionKinds: [vscode.CodeActionKind.QuickFix],
+      }),
+      flagSupport.onDidChangeFlags(flags => {
+        this.flags = flags;
+        this.lintOpenDocuments();
+      }),
+      vscode.workspace.onDidOpenTextDocument(doc => {
+        if (isBazelrcFile(doc)) {
+          this.lintOpenDocuments();
+        }
+      }),
+      vscode.workspace.onDidChangeTextDocument(e => {
+        if (!isBazelrcFile(e.document)) {
+          return;
+        }
+        if (this.lintTimer) {
+          clearTimeout(this.lintTimer);
+        }
+        this.lintTimer = setTimeout(() => {
+          this.lintTimer = undefined;
+          this.lintOpenDocuments();
+        }, DIAGNOSTICS_ON_TYPE_DELAY_MILLIS);
+      }),
+      vscode.workspace.onDidCloseTextDocument(doc => {
+        this.diagnostics.delete(doc.uri);
+        this.fixes.delete(doc.uri.toString());
+      })
+    );
+    this.lintOpenDocuments();
+  }
+
+  /**
+   * Publishes the diagnostics of all open rc files.  Files are linted along
+   * with the files they are read with, as an edit in one may conflict with
+   * another.
+   */
+  async lintOpenDocuments(): Promise<void> {
+    const docs = vscode.workspace.textDocuments.filter(isBazelrcFile);
+    for (const doc of docs) {
+      const scope = await loadDocumentScope(doc.uri);
+      const fixes: { diagnostic: vscode.Diagnostic; fix: BazelrcFix }[] = [];
+      const diagnostics = lintBazelrc(scope, this.flags, this.flagSupport.bazelVersion)
+        .filter(d => d.path === doc.uri.fsPath)
+        .map(d => {
+          const diagnostic = new vscode.Diagnostic(
+            toRange(d.range),
+            d.message,
+            diagnosticSeverities[d.severity]
+          );
+          diagnostic.source = 'bazelrc';
+          if (d.tag) {
+            diagnostic.tags = [diagnosticTags[d.tag]];
+          }
+          if (d.fix) {
+            fixes.push({ diagnostic, fix: d.fix });
+          }
+          return diagnostic;
+        });
+      this.diagnostics.set(doc.uri, diagnostics);
+      this.fixes.set(doc.uri.toString(), fixes);
+    }
+  }
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const fixes = this.fixes.get(document.uri.toString()) || [];
+    const actions: vscode.CodeAction[] = [];
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== 'bazelrc') {
+        continue;
+      }
+      // diagnostics are passed back as copies; match them by range and message.
+      const entry = fixes.find(
+        e =>
+          e.diagnostic.range.isEqual(diagnostic.range) &&
+          e.diagnostic.message === diagnostic.message
+      );
+      if (!entry) {
+        continue;
+      }
+      const { fix } = entry;
+      const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+      action.diagnostics = [diagnostic];
+      action.isPreferred = true;
+      action.edit = new vscode.WorkspaceEdit();
+      action.edit.replace(document.uri, toRange(fix.range), fix.newText);
+      actions.push(action);
+    }
+    return actions;
+  }
+
+  /**
+   * Completes the value of the flag at the position.  Flag names are
+   * completed by BazelFlagSupport.
+   */
+  async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.CompletionItem[] | undefined> {
+    if (!this.flags) {
+      return undefined;
+    }
+    const line = parseBazelrc(document.getText()).find(
+      l => l.range.start.line <= position.line && l.range.end.line >= position.line
+    );
+    const option = line?.options.find(
+      o => o.valueRange && !o.valueIsWord && rangeContains(o.valueRange, position)
+    );
+    const flag = option && lookupFlag(this.flags, option);
+    if (!(option && option.valueRange && flag)) {
+      return undefined;
+    }
+    const start = toRange(option.valueRange).start;
+    const partial = document.getText(new vscode.Range(start, position));
+    const scope = flag.name === 'config' ? await loadDocumentScope(document.uri) : undefined;
+    return flagValueCompletionItems(
+      flag,
+      partial,
+      start,
+      position,
+      workspaceDirectoryOf(document.uri),
+      scope ? bazelrcConfigNames(scope) : []
+    );
+  }
+
+  async provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.Location[] | undefined> {
+    const scope = await loadDocumentScope(document.uri);
+    const name = configNameAt(scope.files.get(document.uri.fsPath) || [], position);
+    if (!name) {
+      return undefined;
+    }
+    return configDefinitions(scope, name).map(toLocation);
+  }
+
+  async provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext
+  ): Promise<vscode.Location[] | undefined> {
+    const scope = await loadDocumentScope(document.uri);
+    const name = configNameAt(scope.files.get(document.uri.fsPath) || [], position);
+    if (!name) {
+      return undefined;
+    }
+    const locations = configUsages(scope, name);
+    if (context.includeDeclaration) {
+      locations.unshift(...configDefinitions(scope, name));
+    }
+    return locations.map(toLocation);
+  }
+
+  provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+    const workspaceDirectory = workspaceDirectoryOf(document.uri);
+    const links: vscode.DocumentLink[] = [];
+    for (const line of parseBazelrc(document.getText())) {
+      if (line.importPath) {
+        const target = resolveImportPath(line.importPath.value, workspaceDirectory);
+        links.push(
+          new vscode.DocumentLink(toRange(line.importPath.range), vscode.Uri.file(target))
+        );
+      }
+    }
+    return links;
+  }
+
+  /**
+   * Returns the outline of the document: a symbol for each command and config
+   * section, with the flags set in it.
+   */
+  provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+    const sections = new Map<string, vscode.DocumentSymbol>();
+    const symbols: vscode.DocumentSymbol[] = [];
+
+    for (const line of parseBazelrc(document.getText())) {
+      const range = toRange(line.range);
+      if (isImportLine(line)) {
+        const file = line.importPath ? line.importPath.value : '';
+        symbols.push(
+          new vscode.DocumentSymbol(file, line.command, vscode.SymbolKind.File, range, range)
+        );
+        continue;
+      }
+      const name = line.config ? `${line.command}:${line.config}` : line.command;
+      let section = sections.get(name);
+      if (!section) {
+        section = new vscode.DocumentSymbol(
+          name,
+          '',
+          line.config ? vscode.SymbolKind.Namespace : vscode.SymbolKind.Module,
+          range,
+          toRange(line.configRange || line.commandRange)
+        );
+        sections.set(name, section);
+        symbols.push(section);
+      } else {
+        section.range = section.range.union(range);
+      }
+      for (const option of line.options) {
+        section.children.push(
+          new vscode.DocumentSymbol(
+            formatOption(option),
+            option.value || '',
+            vscode.SymbolKind.Property,
+            toRange(option.range),
+            toRange(option.nameRange)
+          )
+        );
+      }
+    }
+    return symbols;
+  }
+
+  public dispose() {
+    if (this.lintTimer) {
+      clearTimeout(this.lintTimer);
+    }
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables.length = 0;
+  }
+}
@@ -0,0 +1,474 @@
+import * as path from 'path';
+
+/**
+ * A zero-based position in an rc file.
+ */
+export interface BazelrcPosition {
+  line: number;
+  character: number;
+}
+
+/**
+ * A range in an rc file.
+ */
+export interface BazelrcRange {
+  start: BazelrcPosition;
+  end: BazelrcPosition;
+}
+
+/**
+ * A word of an rc file line, with quotes and escapes removed.
+ */
+export interface BazelrcToken {
+  value: string;
+  // the source text of the token
+  raw: string;
+  range: BazelrcRange;
+}
+
+/**
+ * An option of an rc file line, such as --config=ci, --nokeep_going or -c opt.
+ */
+export interface BazelrcOption {
+  // the flag as written, without the dashes or the value
+  name: string;
+  short: boolean;
+  value?: string;
+  // the range of the dashes and the name
+  nameRange: BazelrcRange;
+  valueRange?: BazelrcRange;
+  // true if the value is the following word rather than given after '='
+  valueIsWord?: boolean;
+  range: BazelrcRange;
+}
+
+/**
+ * A logical line of an rc file.  Lines continued with a trailing backslash
+ * are joined.
+ */
+export interface BazelrcLine {
+  // the bazel command, or 'import' and 'try-import'
+  command: string;
+  commandRange: BazelrcRange;
+  // the name of the config section, as in build:ci
+  config?: string;
+  configRange?: BazelrcRange;
+  options: BazelrcOption[];
+  // arguments that are neither options nor option values
+  residue: BazelrcToken[];
+  // the path of import and try-import lines
+  importPath?: BazelrcToken;
+  range: BazelrcRange;
+}
+
+/**
+ * The rc files read for a workspace.
+ */
+export interface BazelrcScope {
+  // the value of %workspace% in import paths
+  workspaceDirectory: string;
+  // the files in the order bazel reads them, excluding imported files
+  roots: string[];
+  // the parsed lines of every file that was found, including imported ones
+  files: Map<string, BazelrcLine[]>;
+}
+
+/**
+ * A line along with the file it is in.
+ */
+export interface BazelrcEntry {
+  path: string;
+  line: BazelrcLine;
+}
+
+/**
+ * Returns true if the line imports another file.
+ */
+export function isImportLine(line: BazelrcLine): boolean {
+  return line.command === 'import' || line.command === 'try-import';
+}
+
+/**
+ * Splits the text into logical lines of tokens.  Quotes and backslash escapes
+ * are handled as in the shell; a # at the start of a word starts a comment.
+ */
+export function tokenizeBazelrc(text: string): BazelrcToken[][] {
+  const lines: BazelrcToken[][] = [];
+  let tokens: BazelrcToken[] = [];
+  let value = '';
+  let start: BazelrcPosition | undefined;
+  let startOffset = 0;
+  let quote: string | undefined;
+  let line = 0;
+  let character = 0;
+
+  const endToken = (offset: number) => {
+    if (start) {
+      tokens.push({
+        value,
+        raw: text.slice(startOffset, offset),
+        range: { start, end: { line, character } },
+      });
+    }
+    start = undefined;
+    value = '';
+  };
+  const startToken = (offset: number) => {
+    if (!start) {
+      start = { line, character };
+      startOffset = offset;
+    }
+  };
+  const endLine = (offset: number) => {
+    endToken(offset);
+    quote = undefined;
+    if (tokens.length) {
+      lines.push(tokens);
+    }
+    tokens = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '\r' && text[i + 1] === '\n') {
+      continue;
+    }
+    if (c === '\n') {
+      endLine(i);
+      line++;
+      character = 0;
+      continue;
+    }
+    if (c === '\\' && quote !== "'" && i + 1 < text.length) {
+      const crlf = text[i + 1] === '\r' && text[i + 2] === '\n';
+      if (text[i + 1] === '\n' || crlf) {
+        // a line continuation
+        i += crlf ? 2 : 1;
+        line++;
+        character = 0;
+        continue;
+      }
+      startToken(i);
+      value += text[i + 1];
+      i++;
+      character += 2;
+      continue;
+    }
+    if (quote) {
+      if (c === quote) {
+        quote = undefined;
+      } else {
+        value += c;
+      }
+      character++;
+      continue;
+    }
+    if (c === '"' || c === "'") {
+      startToken(i);
+      quote = c;
+      character++;
+      continue;
+    }
+    if (c === ' ' || c === '\t') {
+      endToken(i);
+      character++;
+      continue;
+    }
+    if (c === '#' && !start) {
+      while (i + 1 < text.length && text[i + 1] !== '\n' && text[i + 1] !== '\r') {
+        i++;
+      }
+      continue;
+    }
+    startToken(i);
+    value += c;
+    character++;
+  }
+  endLine(text.length);
+
+  return lines;
+}
+
+/**
+ * Returns the range of the characters [from, to) of the raw token text.
+ * Tokens continued over several lines yield the whole token range.
+ */
+function subRange(token: BazelrcToken, from: number, to?: number): BazelrcRange {
+  const { start, end } = token.range;
+  if (start.line !== end.line) {
+    return token.range;
+  }
+  return {
+    start: { line: start.line, character: start.character + from },
+    end: { line: start.line, character: to === undefined ? end.character : start.character + to },
+  };
+}
+
+function parseOptions(args: BazelrcToken[], line: BazelrcLine) {
+  for (let i = 0; i < args.length; i++) {
+    const token = args[i];
+    const match = /^(--?)([^=]+)(=?)/.exec(token.value);
+    if (!match || token.value === '--') {
+      line.residue.push(token);
+      continue;
+    }
+    const dashes = match[1];
+    const name = match[2];
+    const option: BazelrcOption = {
+      name,
+      short: dashes === '-',
+      nameRange: subRange(token, 0, dashes.length + name.length),
+      range: token.range,
+    };
+    if (match[3]) {
+      option.value = token.value.slice(match[0].length);
+      const eq = token.raw.indexOf('=');
+      option.valueRange = subRange(token, eq + 1);
+    } else {
+      // a following word that is not an option is taken as the value
+      const next = args[i + 1];
+      if (next && !next.value.startsWith('-')) {
+        option.value = next.value;
+        option.valueRange = next.range;
+        option.valueIsWord = true;
+        option.range = { start: token.range.start, end: next.range.end };
+        i++;
+      }
+    }
+    line.options.push(option);
+  }
+}
+
+/**
+ * Parses the text of an rc file.
+ */
+export function parseBazelrc(text: string): BazelrcLine[] {
+  const lines: BazelrcLine[] = [];
+  for (const tokens of tokenizeBazelrc(text)) {
+    const first = tokens[0];
+    const colon = first.value.indexOf(':');
+    const line: BazelrcLine = {
+      command: colon < 0 ? first.value : first.value.slice(0, colon),
+      commandRange: colon < 0 ? first.range : subRange(first, 0, colon),
+      options: [],
+      residue: [],
+      range: { start: first.range.start, end: tokens[tokens.length - 1].range.end },
+    };
+    if (colon >= 0) {
+      line.config = first.value.slice(colon + 1);
+      line.configRange = subRange(first, colon + 1);
+    }
+    if (isImportLine(line)) {
+      line.importPath = tokens[1];
+      line.residue.push(...tokens.slice(2));
+    } else {
+      parseOptions(tokens.slice(1), line);
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Returns the absolute path of an import, substituting %workspace%.  Relative
+ * paths are taken relative to the workspace.
+ */
+export function resolveImportPath(importPath: string, workspaceDirectory: string): string {
+  const substituted = importPath.replace(/%workspace%/g, workspaceDirectory);
+  return path.resolve(workspaceDirectory, substituted);
+}
+
+/**
+ * Returns the rc files bazel reads by default: the system rc, the workspace rc
+ * and the user rc.
+ */
+export function defaultBazelrcFiles(workspaceDirectory: string, homeDirectory: string): string[] {
+  return [
+    '/etc/bazel.bazelrc',
+    path.join(workspaceDirectory, '.bazelrc'),
+    path.join(homeDirectory, '.bazelrc'),
+  ];
+}
+
+/**
+ * Reads and parses the given rc files and the files they import.  Files that
+ * cannot be read are omitted.
+ *
+ * @param read returns the content of a file, or undefined if it does not exist
+ */
+export async function loadBazelrcScope(
+  workspaceDirectory: string,
+  roots: string[],
+  read: (filename: string) => Promise<string | undefined>
+): Promise<BazelrcScope> {
+  const scope: BazelrcScope = { workspaceDirectory, roots, files: new Map() };
+  const visited = new Set<string>();
+
+  const load = async (filename: string) => {
+    if (visited.has(filename)) {
+      return;
+    }
+    visited.add(filename);
+    const text = await read(filename);
+    if (text === undefined) {
+      return;
+    }
+    const lines = parseBazelrc(text);
+    scope.files.set(filename, lines);
+    for (const line of lines) {
+      if (isImportLine(line) && line.importPath) {
+        await load(resolveImportPath(line.importPath.value, workspaceDirectory));
+      }
+    }
+  };
+
+  for (const root of roots) {
+    await load(root);
+  }
+  return scope;
+}
+
+/**
+ * Returns the lines of the scope in the order bazel evaluates them: the
+ * lines of an imported file take the place of the import.  Import cycles are
+ * cut.
+ */
+export function flattenBazelrc(scope: BazelrcScope): BazelrcEntry[] {
+  const entries: BazelrcEntry[] = [];
+  const stack: string[] = [];
+
+  const visit = (filename: string) => {
+    const lines = scope.files.get(filename);
+    if (!lines || stack.includes(filename)) {
+      return;
+    }
+    stack.push(filename);
+    for (const line of lines) {
+      if (isImportLine(line)) {
+        if (line.importPath) {
+          visit(resolveImportPath(line.importPath.value, scope.workspaceDirectory));
+        }
+        continue;
+      }
+      entries.push({ path: filename, line });
+    }
+    stack.pop();
+  };
+
+  for (const root of scope.roots) {
+    visit(root);
+  }
+  return entries;
+}
+
+/**
+ * Returns the names of the config sections defined in the scope.
+ */
+export function bazelrcConfigNames(scope: BazelrcScope): Set<string> {
+  const names = new Set<string>();
+  for (const lines of scope.files.values()) {
+    for (const line of lines) {
+      if (line.config) {
+        names.add(line.config);
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Returns true if the position is within the range, inclusive of the end.
+ */
+export function rangeContains(range: BazelrcRange, pos: BazelrcPosition): boolean {
+  const { start, end } = range;
+  if (pos.line < start.line || pos.line > end.line) {
+    return false;
+  }
+  if (pos.line === start.line && pos.character < start.character) {
+    return false;
+  }
+  if (pos.line === end.line && pos.character > end.character) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * A range in a file of the scope.
+ */
+export interface BazelrcLocation {
+  path: string;
+  range: BazelrcRange;
+}
+
+/**
+ * Returns the name of the config at the position: either the value of a
+ * --config option or the section name of a line such as build:ci.
+ */
+export function configNameAt(lines: BazelrcLine[], pos: BazelrcPosition): string | undefined {
+  for (const line of lines) {
+    if (!rangeContains(line.range, pos)) {
+      continue;
+    }
+    if (line.config && line.configRange && rangeContains(line.configRange, pos)) {
+      return line.config;
+    }
+    for (const option of line.options) {
+      if (
+        option.name === 'config' &&
+        option.value &&
+        option.valueRange &&
+        rangeContains(option.valueRange, pos)
+      ) {
+        return option.value;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the section names of the lines that define the config.
+ */
+export function configDefinitions(scope: BazelrcScope, name: string): BazelrcLocation[] {
+  const locations: BazelrcLocation[] = [];
+  for (const [filename, lines] of scope.files) {
+    for (const line of lines) {
+      if (line.config === name && line.configRange) {
+        locations.push({ path: filename, range: line.configRange });
+      }
+    }
+  }
+  return locations;
+}
+
+/**
+ * Returns the values of the --config options that select the config.
+ */
+export function configUsages(scope: BazelrcScope, name: string): BazelrcLocation[] {
+  const locations: BazelrcLocation[] = [];
+  for (const [filename, lines] of scope.files) {
+    for (const line of lines) {
+      for (const option of line.options) {
+        if (option.name === 'config' && option.value === name && option.valueRange) {
+          locations.push({ path: filename, range: option.valueRange });
+        }
+      }
+    }
+  }
+  return locations;
+}
+
+/**
+ * Formats the location of a line as file:line, with the file relative to the
+ * workspace if it is in it.
+ */
+export function formatOrigin(
+  workspaceDirectory: string,
+  filename: string,
+  pos: BazelrcPosition
+): string {
+  const rel = path.relative(workspaceDirectory, filename);
+  const display = rel && !rel.startsWith('..') && !path.isAbsolute(rel) ? rel : filename;
+  return `${display}:${pos.line + 1}`;
+}
@@ -0,0 +1,300 @@
+import * as vscode from 'vscode';
+import { FlagInfo } from '../proto/bazel_flags/FlagInfo';
+import { BazelFlagSupport } from './flags';
+import {
+  flagValueCompletionItems,
+  loadDocumentScope,
+  lookupFlag,
+  isStarlarkOption,
+} from './language';
+import { bazelrcConfigNames, BazelrcOption, BazelrcPosition } from './rcfile';
+import { validateFlagValue } from './values';
+
+/**
+ * The delay to wait for the user to finish typing before linting.
+ */
+const DIAGNOSTICS_ON_TYPE_DELAY_MILLIS = 500;
+
+/**
+ * The settings that hold bazel flags, and the command they are passed to.
+ */
+export const FlagSettings: { [setting: string]: string } = {
+  'bsv.bazel.buildFlags': 'build',
+  'bsv.bazel.testFlags': 'test',
+  'bsv.bazel.runFlags': 'run',
+};
+
+const settingsSelector: vscode.DocumentSelector = [
+  { language: 'jsonc', pattern: '**/settings.json' },
+  { language: 'jsonc', pattern: '**/*.code-workspace' },
+  { language: 'json', pattern: '**/settings.json' },
+];
+
+/**
+ * A string in one of the flag arrays of a settings file.
+ */
+export interface SettingsFlag {
+  setting: string;
+  value: string;
+  // offsets of the string content, without the quotes
+  start: number;
+  end: number;
+}
+
+/**
+ * Scans JSON with comments for the strings of the flag setting arrays.  An
+ * unterminated string ends at the end of the line such that the string being
+ * typed is found.
+ */
+export function scanSettingsFlags(text: string): SettingsFlag[] {
+  const flags: SettingsFlag[] = [];
+  // the key of each open array or object
+  const stack: (string | undefined)[] = [];
+  let lastString: string | undefined;
+  let key: string | undefined;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') {
+        i++;
+      }
+      continue;
+    }
+    if (c === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end < 0 ? text.length : end + 1;
+      continue;
+    }
+    switch (c) {
+      case '"': {
+        const start = i + 1;
+        let value = '';
+        for (i = start; i < text.length && text[i] !== '"' && text[i] !== '\n'; i++) {
+          if (text[i] === '\\' && i + 1 < text.length) {
+            i++;
+          }
+          value += text[i];
+        }
+        const end = i;
+        lastString = value;
+        const setting = stack[stack.length - 1];
+        if (setting && FlagSettings[setting]) {
+          flags.push({ setting, value, start, end });
+        }
+        if (text[i] !== '"') {
+          // unterminated; continue with the next line
+          i--;
+        }
+        break;
+      }
+      case ':':
+        key = lastString;
+        break;
+      case ',':
+        key = undefined;
+        break;
+      case '[':
+      case '{':
+        stack.push(c === '[' ? key : undefined);
+        key = undefined;
+        break;
+      case ']':
+      case '}':
+        stack.pop();
+        key = undefined;
+        break;
+    }
+  }
+  return flags;
+}
+
+/**
+ * Parses a settings flag such as --compilation_mode=opt into an option,
+ * with ranges relative to the start of the string.
+ */
+export function parseSettingsFlag(value: string): BazelrcOption | undefined {
+  const match = /^(--?)([^=]+)(=(.*))?$/.exec(value);
+  if (!match) {
+    return undefined;
+  }
+  const pos = (character: number): BazelrcPosition => ({ line: 0, character });
+  const nameEnd = match[1].length + match[2].length;
+  const option: BazelrcOption = {
+    name: match[2],
+    short: match[1] === '-',
+    nameRange: { start: pos(0), end: pos(nameEnd) },
+    range: { start: pos(0), end: pos(value.length) },
+  };
+  if (match[3]) {
+    option.value = match[4];
+    option.valueRange = { start: pos(nameEnd + 1), end: pos(value.length) };
+  }
+  return option;
+}
+
+/**
+ * Returns the problems of a settings flag: unknown flags, flags that do not
+ * apply to the command of the setting, and malformed values.  The ranges are
+ * relative to the start of the string.
+ */
+export function lintSettingsFlag(
+  flags: Map<string, FlagInfo>,
+  flag: SettingsFlag
+): { start: number; end: number; message: string } | undefined {
+  const option = parseSettingsFlag(flag.value);
+  if (!option || isStarlarkOption(option)) {
+    return undefined;
+  }
+  const info = lookupFlag(flags, option);
+  const written = (option.short ? '-' : '--') + option.name;
+  const nameRange = { start: 0, end: option.nameRange.end.character };
+  if (!info) {
+    return { ...nameRange, message: `Unknown flag ${written}` };
+  }
+  const command = FlagSettings[flag.setting];
+  if (!info.commands?.includes(command)) {
+    return { ...nameRange, message: `${written} does not apply to the '${command}' command` };
+  }
+  const message = validateFlagValue(info, option.name, option.value);
+  if (message) {
+    return option.valueRange
+      ? { start: option.valueRange.start.character, end: flag.value.length, message }
+      : { ...nameRange, message };
+  }
+  return undefined;
+}
+
+/**
+ * BazelFlagSettingsSupport completes and checks the flags of the
+ * bsv.bazel.buildFlags, testFlags and runFlags settings.
+ */
+export class BazelFlagSettingsSupport implements vscode.CompletionItemProvider, vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly diagnostics: vscode.DiagnosticCollection;
+  private flags: Map<string, FlagInfo> | undefined;
+  private lintTimer: NodeJS.Timer | undefined;
+
+  constructor(flagSupport: BazelFlagSupport) {
+    this.diagnostics = vscode.languages.createDiagnosticCollection('bazel-flags');
+    this.disposables.push(
+      this.diagnostics,
+      vscode.languages.registerCompletionItemProvider(settingsSelector, this, '-', '=', '/', ':'),
+      flagSupport.onDidChangeFlags(flags => {
+        this.flags = flags;
+        vscode.workspace.textDocuments.forEach(doc => this.lint(doc));
+      }),
+      vscode.workspace.onDidOpenTextDocument(this.lint, this),
+      vscode.workspace.onDidChangeTextDocument(e => {
+        if (this.lintTimer) {
+          clearTimeout(this.lintTimer);
+        }
+        this.lintTimer = setTimeout(() => {
+          this.lintTimer = undefined;
+          this.lint(e.document);
+        }, DIAGNOSTICS_ON_TYPE_DELAY_MILLIS);
+      }),
+      vscode.workspace.onDidCloseTextDocument(doc => this.diagnostics.delete(doc.uri))
+    );
+  }
+
+  private lint(document: vscode.TextDocument) {
+    if (!(this.flags && vscode.languages.match(settingsSelector, document))) {
+      return;
+    }
+    const diagnostics: vscode.Diagnostic[] = [];
+    for (const flag of scanSettingsFlags(document.getText())) {
+      const problem = lintSettingsFlag(this.flags, flag);
+      if (problem) {
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(
+            document.positionAt(flag.start + problem.start),
+            document.positionAt(flag.start + problem.end)
+          ),
+          problem.message,
+          vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = 'bazel-flags';
+        diagnostics.push(diagnostic);
+      }
+    }
+    this.diagnostics.set(document.uri, diagnostics);
+  }
+
+  async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.CompletionItem[] | undefined> {
+    if (!this.flags) {
+      return undefined;
+    }
+    const offset = document.offsetAt(position);
+    const flag = scanSettingsFlags(document.getText()).find(
+      f => f.start <= offset && offset <= f.end
+    );
+    if (!flag) {
+      return undefined;
+    }
+    const typed = document.getText(new vscode.Range(document.positionAt(flag.start), position));
+    const command = FlagSettings[flag.setting];
+
+    const eq = typed.indexOf('=');
+    if (eq < 0) {
+      return this.flagNameCompletions(typed, command, document.positionAt(flag.start), position);
+    }
+
+    const option = parseSettingsFlag(typed);
+    const info = option && lookupFlag(this.flags, option);
+    if (!info) {
+      return undefined;
+    }
+    const scope = info.name === 'config' ? await loadDocumentScope(document.uri) : undefined;
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    return flagValueCompletionItems(
+      info,
+      typed.slice(eq + 1),
+      document.positionAt(flag.start + eq + 1),
+      position,
+      folder ? folder.uri.fsPath : '',
+      scope ? bazelrcConfigNames(scope) : []
+    );
+  }
+
+  private flagNameCompletions(
+    typed: string,
+    command: string,
+    start: vscode.Position,
+    position: vscode.Position
+  ): vscode.CompletionItem[] {
+    const items: vscode.CompletionItem[] = [];
+    // the map has an entry per name, negated name and abbreviation
+    for (const flag of new Set(this.flags!.values())) {
+      if (!flag.commands?.includes(command)) {
+        continue;
+      }
+      const text = '--' + flag.name;
+      if (!text.startsWith(typed)) {
+        continue;
+      }
+      const item = new vscode.CompletionItem(text, vscode.CompletionItemKind.Constant);
+      item.documentation = flag.documentation;
+      item.range = new vscode.Range(start, position);
+      if (flag.valueType === 'enum' || flag.valueType === 'label' || flag.name === 'config') {
+        item.insertText = text + '=';
+        item.command = { title: '', command: 'editor.action.triggerSuggest' };
+      }
+      items.push(item);
+    }
+    return items;
+  }
+
+  public dispose() {
+    if (this.lintTimer) {
+      clearTimeout(this.lintTimer);
+    }
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables.length = 0;
+  }
+}
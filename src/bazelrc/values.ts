@@ -0,0 +1,246 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FlagInfo } from '../proto/bazel_flags/FlagInfo';
+
+/**
+ * The type of a flag value, as stored in FlagInfo.valueType.
+ */
+export type FlagValueType = 'bool' | 'enum' | 'label' | 'string';
+
+/**
+ * The values of flags that take one of a fixed set.  The flag collection does
+ * not carry them; they are taken from the flag documentation.
+ */
+export const FlagAllowedValues: { [name: string]: string[] } = {
+  apple_bitcode: ['none', 'embedded_markers', 'embedded'],
+  aspect_deps: ['off', 'conservative', 'precise'],
+  build_python_zip: ['auto', 'yes', 'no'],
+  color: ['yes', 'no', 'auto'],
+  compilation_mode: ['fastbuild', 'dbg', 'opt'],
+  curses: ['yes', 'no', 'auto'],
+  experimental_convenience_symlinks: ['normal', 'clean', 'ignore', 'log_only'],
+  host_compilation_mode: ['fastbuild', 'dbg', 'opt'],
+  macos_qos_class: ['user-interactive', 'user-initiated', 'default', 'utility', 'background'],
+  remote_download_outputs: ['all', 'minimal', 'toplevel'],
+  subcommands: ['true', 'pretty_print', 'false'],
+  test_output: ['summary', 'errors', 'all', 'streamed'],
+  test_summary: ['short', 'terse', 'detailed', 'none', 'testcase'],
+};
+
+/**
+ * The flags whose value is a label, or a comma separated list of labels and
+ * target patterns.
+ */
+export const LabelFlags = new Set<string>([
+  'android_crosstool_top',
+  'apple_crosstool_top',
+  'crosstool_top',
+  'extra_execution_platforms',
+  'extra_toolchains',
+  'grte_top',
+  'host_crosstool_top',
+  'host_java_toolchain',
+  'host_javabase',
+  'host_platform',
+  'java_toolchain',
+  'javabase',
+  'platforms',
+  'proto_compiler',
+  'proto_toolchain_for_cc',
+  'proto_toolchain_for_j2objc',
+  'proto_toolchain_for_java',
+  'proto_toolchain_for_javalite',
+  'python_top',
+  'target_environment',
+  'target_platform_fallback',
+  'xcode_version_config',
+]);
+
+const trueValues = ['true', 'yes', '1', 't', 'y'];
+const falseValues = ['false', 'no', '0', 'f', 'n'];
+
+/**
+ * Fills in the value type and allowed values of the flag, unless they are
+ * set already.  Flags that can be negated are boolean.
+ */
+export function annotateFlagInfo(flag: FlagInfo): FlagInfo {
+  if (flag.valueType || !flag.name) {
+    return flag;
+  }
+  const allowed = FlagAllowedValues[flag.name];
+  if (allowed) {
+    flag.valueType = 'enum';
+    flag.allowedValues = allowed;
+  } else if (LabelFlags.has(flag.name)) {
+    flag.valueType = 'label';
+  } else if (flag.hasNegativeFlag) {
+    flag.valueType = 'bool';
+  } else {
+    flag.valueType = 'string';
+  }
+  return flag;
+}
+
+/**
+ * Returns the values to complete for the flag, if it has a fixed set.
+ */
+export function flagValueCompletions(flag: FlagInfo): string[] {
+  switch (flag.valueType as FlagValueType) {
+    case 'bool':
+      return ['true', 'false'];
+    case 'enum':
+      return flag.allowedValues || [];
+  }
+  return [];
+}
+
+/**
+ * Returns true if the text is a label or a target pattern, such as
+ * //foo:bar, @repo//foo/... or :bar.
+ */
+export function isLabel(text: string): boolean {
+  return /^(@[\w.~+-]*)?\/\/[\w./+-]*(:[^:\s]+)?$/.test(text) || /^:[^:\s]+$/.test(text);
+}
+
+/**
+ * Checks the value given to a flag.  Returns an error message, or undefined
+ * if the value is acceptable.
+ *
+ * @param name the flag as written, such as 'nokeep_going' or 'c'
+ * @param value the value, or undefined if none is given
+ */
+export function validateFlagValue(
+  flag: FlagInfo,
+  name: string,
+  value: string | undefined
+): string | undefined {
+  const negated =
+    flag.hasNegativeFlag && (name === 'no' + flag.name || name === 'no' + flag.oldName);
+  if (negated) {
+    return value === undefined ? undefined : `--${name} does not take a value`;
+  }
+  switch (flag.valueType as FlagValueType) {
+    case 'bool':
+      if (value === undefined || [...trueValues, ...falseValues].includes(value.toLowerCase())) {
+        return undefined;
+      }
+      return `Invalid value '${value}' for --${flag.name}: expected true or false`;
+    case 'enum': {
+      const allowed = flag.allowedValues || [];
+      if (value === undefined) {
+        return `--${flag.name} requires a value: ${allowed.join(', ')}`;
+      }
+      if (allowed.includes(value)) {
+        return undefined;
+      }
+      return `Invalid value '${value}' for --${flag.name}: expected one of ${allowed.join(', ')}`;
+    }
+    case 'label': {
+      if (value === undefined) {
+        return `--${flag.name} requires a label`;
+      }
+      const invalid = value.split(',').find(item => item && !isLabel(item));
+      return invalid === undefined ? undefined : `Invalid label '${invalid}' for --${flag.name}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A completion for a label value.
+ */
+export interface LabelCompletion {
+  label: string;
+  kind: 'package' | 'directory' | 'target';
+}
+
+const buildFileNames = ['BUILD.bazel', 'BUILD'];
+
+/**
+ * The maximum number of label completions.
+ */
+const MAX_LABEL_COMPLETIONS = 200;
+
+async function readBuildFile(dir: string): Promise<string | undefined> {
+  for (const name of buildFileNames) {
+    try {
+      return await fs.promises.readFile(path.join(dir, name), 'utf8');
+    } catch (e) {
+      // try the next name
+    }
+  }
+  return undefined;
+}
+
+function isPackage(dir: string): boolean {
+  return buildFileNames.some(name => fs.existsSync(path.join(dir, name)));
+}
+
+/**
+ * Returns the rule names declared in the text of a BUILD file.
+ */
+export function buildFileTargetNames(text: string): string[] {
+  const names: string[] = [];
+  const re = /\bname\s*=\s*["']([^"']+)["']/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text)) !== null) {
+    names.push(match[1]);
+  }
+  return names;
+}
+
+/**
+ * Completes a label of the main repository by reading the workspace: the
+ * directories below the typed package path, and the rules of the package
+ * after the colon.
+ */
+export async function labelCompletions(
+  workspaceDirectory: string,
+  partial: string
+): Promise<LabelCompletion[]> {
+  const match = /^\/\/([^:]*)(?::(.*))?$/.exec(partial.startsWith('//') ? partial : '//');
+  if (!match) {
+    return [];
+  }
+  const pkg = match[1];
+  if (match[2] !== undefined) {
+    const text = await readBuildFile(path.join(workspaceDirectory, pkg));
+    return buildFileTargetNames(text || '').map(name => ({
+      label: `//${pkg}:${name}`,
+      kind: 'target',
+    }));
+  }
+
+  const slash = pkg.lastIndexOf('/');
+  const parent = slash < 0 ? '' : pkg.slice(0, slash);
+  const base = slash < 0 ? pkg : pkg.slice(slash + 1);
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(path.join(workspaceDirectory, parent), {
+      withFileTypes: true,
+    });
+  } catch (e) {
+    return [];
+  }
+
+  const completions: LabelCompletion[] = [];
+  for (const entry of entries) {
+    if (
+      !entry.isDirectory() ||
+      !entry.name.startsWith(base) ||
+      entry.name.startsWith('.') ||
+      entry.name.startsWith('bazel-')
+    ) {
+      continue;
+    }
+    const dir = parent ? `${parent}/${entry.name}` : entry.name;
+    if (isPackage(path.join(workspaceDirectory, dir))) {
+      completions.push({ label: `//${dir}`, kind: 'package' });
+    }
+    completions.push({ label: `//${dir}/`, kind: 'directory' });
+    if (completions.length >= MAX_LABEL_COMPLETIONS) {
+      break;
+    }
+  }
+  return completions;
+}
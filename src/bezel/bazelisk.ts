@@ -0,0 +1,109 @@
+import * as fs from 'graceful-fs';
+import * as path from 'path';
+
+/**
+ * The bazel version a workspace pins, and the file or variable that pins it.
+ */
+export interface PinnedBazelVersion {
+  version: string;
+  source: string;
+}
+
+/**
+ * Parses the KEY=VALUE lines of a .bazeliskrc file.  Lines starting with '#'
+ * are comments.
+ */
+export function parseBazeliskrc(text: string): Map<string, string> {
+  const vars = new Map<string, string>();
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+    const eq = line.indexOf('=');
+    if (eq <= 0) {
+      continue;
+    }
+    vars.set(line.slice(0, eq).trim(), line.slice(eq + 1).trim());
+  }
+  return vars;
+}
+
+function readFile(filename: string): string | undefined {
+  try {
+    return fs.readFileSync(filename, 'utf8');
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the bazel version of the workspace in the order bazelisk looks for
+ * it: the USE_BAZEL_VERSION environment variable, the .bazeliskrc of the
+ * workspace and of the home directory, then the first line of .bazelversion.
+ * Returns undefined if the workspace does not pin a version.
+ */
+export function readPinnedBazelVersion(
+  workspaceDirectory: string,
+  env: NodeJS.ProcessEnv,
+  homeDirectory: string
+): PinnedBazelVersion | undefined {
+  if (env.USE_BAZEL_VERSION) {
+    return { version: env.USE_BAZEL_VERSION, source: 'USE_BAZEL_VERSION' };
+  }
+  for (const dir of [workspaceDirectory, homeDirectory]) {
+    const filename = path.join(dir, '.bazeliskrc');
+    const text = readFile(filename);
+    const version = text && parseBazeliskrc(text).get('USE_BAZEL_VERSION');
+    if (version) {
+      return { version, source: filename };
+    }
+  }
+  const filename = path.join(workspaceDirectory, '.bazelversion');
+  const version = readFile(filename)?.split(/\r?\n/)[0].trim();
+  return version ? { version, source: filename } : undefined;
+}
+
+/**
+ * Returns true if the version names a release rather than 'latest', a fork
+ * (fork/version) or a commit.
+ */
+export function isConcreteBazelVersion(version: string): boolean {
+  return /^\d+\.\d+\.\d+([-.]?rc\d+|[-.]pre\.[\w.]+)?$/.test(version);
+}
+
+function findOnPath(name: string, env: NodeJS.ProcessEnv, platform: string): string | undefined {
+  const filename = platform === 'win32' ? name + '.exe' : name;
+  const dirs = (env.PATH || env.Path || '').split(platform === 'win32' ? ';' : ':');
+  for (const dir of dirs) {
+    if (!dir) {
+      continue;
+    }
+    const candidate = path.join(dir, filename);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the executable that runs the pinned version: bazelisk if it is on
+ * the PATH, which downloads the version itself, else a 'bazel-<version>'
+ * binary on the PATH, as installed by package managers.  Returns undefined if
+ * neither is found, such that 'bazel' is used.
+ */
+export function findPinnedBazel(
+  pinned: PinnedBazelVersion,
+  env: NodeJS.ProcessEnv,
+  platform: string
+): string | undefined {
+  const bazelisk = findOnPath('bazelisk', env, platform);
+  if (bazelisk) {
+    return bazelisk;
+  }
+  if (isConcreteBazelVersion(pinned.version)) {
+    return findOnPath(`bazel-${pinned.version}`, env, platform);
+  }
+  return undefined;
+}
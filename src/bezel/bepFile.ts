@@ -0,0 +1,208 @@
+import * as protobuf from 'protobufjs';
+import * as fs from 'graceful-fs';
+import * as path from 'path';
+
+/**
+ * The format of a file written by bazel via --build_event_binary_file or
+ * --build_event_json_file.
+ */
+export enum BuildEventFileFormat {
+  Binary = 'binary',
+  Json = 'json',
+}
+
+/**
+ * BuildEventStreamDecoder incrementally decodes varint-delimited
+ * build_event_stream.BuildEvent messages.  Chunks may split messages at
+ * arbitrary boundaries; incomplete trailing data is retained until the next
+ * call to write.
+ */
+export class BuildEventStreamDecoder {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  constructor(private readonly buildEventType: protobuf.Type) {}
+
+  /**
+   * Appends the chunk and returns all messages that are complete.
+   */
+  write(chunk: Buffer): protobuf.Message[] {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    const messages: protobuf.Message[] = [];
+    let offset = 0;
+    while (offset < this.buffer.length) {
+      const header = readVarint(this.buffer, offset);
+      if (!header) {
+        break;
+      }
+      const start = offset + header.bytes;
+      const end = start + header.value;
+      if (end > this.buffer.length) {
+        break;
+      }
+      messages.push(this.buildEventType.decode(this.buffer.subarray(start, end)));
+      offset = end;
+    }
+    this.buffer = this.buffer.subarray(offset);
+
+    return messages;
+  }
+
+  /**
+   * Returns the number of bytes that have been written but not yet decoded.
+   */
+  get pending(): number {
+    return this.buffer.length;
+  }
+}
+
+/**
+ * Decodes newline-delimited JSON build events.
+ */
+export function decodeJsonBuildEvents(
+  buildEventType: protobuf.Type,
+  text: string
+): protobuf.Message[] {
+  const messages: protobuf.Message[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    messages.push(buildEventType.fromObject(JSON.parse(line)));
+  }
+  return messages;
+}
+
+/**
+ * Guesses the format of the given file contents.  JSON is assumed if the
+ * filename has a .json extension or the content starts with a JSON object.
+ */
+export function detectBuildEventFileFormat(filename: string, data: Buffer): BuildEventFileFormat {
+  const ext = path.extname(filename).toLowerCase();
+  if (ext === '.json' || ext === '.ndjson') {
+    return BuildEventFileFormat.Json;
+  }
+  if (/^\s*\{\s*"/.test(data.subarray(0, 16).toString('utf-8'))) {
+    return BuildEventFileFormat.Json;
+  }
+  return BuildEventFileFormat.Binary;
+}
+
+/**
+ * Reads all build events from the given file.
+ */
+export async function readBuildEventFile(
+  buildEventType: protobuf.Type,
+  filename: string
+): Promise<protobuf.Message[]> {
+  const data = await fs.promises.readFile(filename);
+  switch (detectBuildEventFileFormat(filename, data)) {
+    case BuildEventFileFormat.Json:
+      return decodeJsonBuildEvents(buildEventType, data.toString('utf-8'));
+    default: {
+      const decoder = new BuildEventStreamDecoder(buildEventType);
+      const messages = decoder.write(data);
+      if (decoder.pending) {
+        throw new Error(`${filename}: truncated build event (${decoder.pending} trailing bytes)`);
+      }
+      return messages;
+    }
+  }
+}
+
+/**
+ * Prefixes the given serialized message with its varint-encoded length, the
+ * framing used by --build_event_binary_file.
+ */
+export function delimit(data: Uint8Array): Buffer {
+  const header: number[] = [];
+  let n = data.length;
+  while (n > 0x7f) {
+    header.push((n & 0x7f) | 0x80);
+    n = Math.floor(n / 128);
+  }
+  header.push(n);
+  return Buffer.concat([Buffer.from(header), Buffer.from(data)]);
+}
+
+/**
+ * Reads a base-128 varint at the given offset.  Returns undefined if the
+ * buffer does not contain a complete varint.
+ */
+function readVarint(buf: Buffer, offset: number): { value: number; bytes: number } | undefined {
+  let value = 0;
+  let shift = 0;
+  for (let i = offset; i < buf.length && shift < 35; i++) {
+    const b = buf[i];
+    value += (b & 0x7f) * Math.pow(2, shift);
+    shift += 7;
+    if ((b & 0x80) === 0) {
+      return { value, bytes: i - offset + 1 };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * BuildEventFileTailer follows a file that is being written by bazel via
+ * --build_event_binary_file.  The file may not exist when tailing starts.
+ */
+export class BuildEventFileTailer {
+  private readonly decoder: BuildEventStreamDecoder;
+  private handle: fs.promises.FileHandle | undefined;
+  private offset = 0;
+  private reading: Promise<void> = Promise.resolve();
+
+  constructor(
+    buildEventType: protobuf.Type,
+    private readonly filename: string,
+    private readonly callback: (message: protobuf.Message) => void | Promise<void>
+  ) {
+    this.decoder = new BuildEventStreamDecoder(buildEventType);
+  }
+
+  /**
+   * Reads and dispatches all messages that have been appended since the last
+   * poll.  Concurrent calls are serialized.  A failed poll rejects, but does
+   * not fail the polls that follow it.
+   */
+  poll(): Promise<void> {
+    const reading = this.reading.then(() => this.read());
+    this.reading = reading.catch(() => undefined);
+    return reading;
+  }
+
+  private async read(): Promise<void> {
+    if (!this.handle) {
+      try {
+        this.handle = await fs.promises.open(this.filename, 'r');
+      } catch (e) {
+        // not yet created
+        return;
+      }
+    }
+    const chunk = Buffer.alloc(64 * 1024);
+    for (;;) {
+      const { bytesRead } = await this.handle.read(chunk, 0, chunk.length, this.offset);
+      if (bytesRead === 0) {
+        return;
+      }
+      this.offset += bytesRead;
+      for (const message of this.decoder.write(Buffer.from(chunk.subarray(0, bytesRead)))) {
+        await this.callback(message);
+      }
+    }
+  }
+
+  /**
+   * Performs a final read and closes the file.
+   */
+  async close(): Promise<void> {
+    try {
+      await this.poll();
+    } finally {
+      await this.handle?.close();
+      this.handle = undefined;
+    }
+  }
+}
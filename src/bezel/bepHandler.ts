@@ -59,8 +59,23 @@ export class BuildEventProtocolHandler {
     });
   }
 
+  /**
+   * Handles a build_event_stream.BuildEvent that was not delivered via the
+   * build event service (such as one read from a --build_event_binary_file).
+   * The ordered build event envelope is synthesized from the sequence number.
+   */
+  async handleBuildEventStreamMessage(sequenceNumber: number, message: protobuf.Message) {
+    const obe: OrderedBuildEvent = { sequenceNumber };
+    const be: BuildEvent = {};
+    return this.handleBazelBuildEvent(obe, be, this.toBesBuildEvent(message));
+  }
+
   makeBesBuildEvent(data: Uint8Array): BuildEventStreamEvent {
-    return this.buildEventType.toObject(this.buildEventType.decode(data), {
+    return this.toBesBuildEvent(this.buildEventType.decode(data));
+  }
+
+  toBesBuildEvent(message: protobuf.Message): BuildEventStreamEvent {
+    return this.buildEventType.toObject(message, {
       longs: String,
       enums: String,
       defaults: false,
@@ -1,6 +1,11 @@
+import * as cp from 'child_process';
 import * as grpc from '@grpc/grpc-js';
+import * as os from 'os';
+import * as path from 'path';
 import * as protobuf from 'protobufjs';
 import * as vscode from 'vscode';
+import * as fs from 'graceful-fs';
+import fse = require('fs-extra');
 import { BazelBuildEvent, BuildEventProtocolHandler } from './bepHandler';
 import { Container } from '../container';
 import { RunRequest } from '../proto/build/stack/bezel/v1beta1/RunRequest';
@@ -9,8 +14,10 @@ import { Barrier } from 'vscode-common/out/async';
 import { ExecRequest } from '../proto/build/stack/bezel/v1beta1/ExecRequest';
 import { EnvironmentVariable } from '../proto/build/stack/bezel/v1beta1/EnvironmentVariable';
 import { Bzl } from './bzl';
-import { InvocationsConfiguration } from './configuration';
+import { BazelConfiguration, InvocationsConfiguration } from './configuration';
 import { Settings } from './settings';
+import { BuildEventFileTailer, readBuildEventFile } from './bepFile';
+import { BuildEvent as BuildEventStreamEvent } from '../proto/build_event_stream/BuildEvent';
 
 export interface CommandTaskRunner {
   runTask(
@@ -38,6 +45,8 @@ export class BEPRunner implements vscode.Disposable, vscode.Pseudoterminal {
 
   public readonly onDidRunRequest = new vscode.EventEmitter<RunRequest>();
   public readonly onDidReceiveBazelBuildEvent = new vscode.EventEmitter<BazelBuildEvent>();
+  // fired with the contents of the --execution_log_json_file of a local run
+  public readonly onDidReceiveExecutionLog = new vscode.EventEmitter<string>();
 
   private lastLine: string | undefined;
   private disposables: vscode.Disposable[] = [];
@@ -46,10 +55,15 @@ export class BEPRunner implements vscode.Disposable, vscode.Pseudoterminal {
   private terminal: vscode.Terminal | undefined;
   private terminalIsOpen: Barrier | undefined;
 
-  constructor(protected bzl: Bzl, private invocationSettings: Settings<InvocationsConfiguration>) {
+  constructor(
+    protected bzl: Bzl,
+    private invocationSettings: Settings<InvocationsConfiguration>,
+    private bazelSettings: Settings<BazelConfiguration>
+  ) {
     this.disposables.push(this.writeEmitter);
     this.disposables.push(this.closeEmitter);
     this.disposables.push(this.onDidReceiveBazelBuildEvent);
+    this.disposables.push(this.onDidReceiveExecutionLog);
 
     this.buildEventType = new Promise((resolve, reject) => {
       const root = protobuf
@@ -72,6 +86,13 @@ export class BEPRunner implements vscode.Disposable, vscode.Pseudoterminal {
     return this.terminal;
   }
 
+  /**
+   * Returns true if a command is currently being run.
+   */
+  get isRunning(): boolean {
+    return !!this.currentExecution;
+  }
+
   async newBuildEventProtocolHandler(
     token: vscode.CancellationToken
   ): Promise<BuildEventProtocolHandler> {
@@ -88,12 +109,16 @@ export class BEPRunner implements vscode.Disposable, vscode.Pseudoterminal {
       throw new Error('task running, skipping invocation');
     }
 
+    const invocation = await this.invocationSettings.get();
+
     const client = this.bzl.client;
     if (!client) {
+      if (invocation.invokeWithLocalBuildEventStreaming) {
+        return this.runLocal(request);
+      }
       throw new Error('run: Bzl Command Server not available');
     }
 
-    const invocation = await this.invocationSettings.get();
     request.actionEvents = invocation.buildEventPublishAllActions;
 
     const exec = (this.currentExecution = {
@@ -106,14 +131,7 @@ export class BEPRunner implements vscode.Disposable, vscode.Pseudoterminal {
     const bepHandler = await this.newBuildEventProtocolHandler(exec.cancellation.token);
     let commandId = '';
 
-    const terminal = this.getTerminal();
-    this.writeEmitter.fire('\x1bc\x1b[0J\x1b[1J\x1b[2J\x1b[3J\x1b[0;0H');
-    terminal.show();
-    this.writeEmitter.fire(
-      `bazel ${request.arg?.join(' ')}\r\n (to cancel, kill the terminal).\r\n\n`
-    );
-    // use a timeout here?
-    await this.terminalIsOpen!.wait();
+    await this.showTerminal(request);
 
     const clearExecution = () => {
       this.currentExecution = undefined;
@@ -170,6 +188,211 @@ export class BEPRunner implements vscode.Disposable, vscode.Pseudoterminal {
     }).then(clearExecution, clearExecution);
   }
 
+  /**
+   * Runs the request by spawning bazel directly (without the Bzl command
+   * server).  Build events are written to a temporary
+   * --build_event_binary_file which is tailed while the command runs.  For
+   * the 'run' command, the binary is executed as a task via --script_path
+   * once the build succeeds.  If configured, the --execution_log_json_file
+   * is published via onDidReceiveExecutionLog when the command completes.
+   */
+  async runLocal(request: RunRequest): Promise<void> {
+    if (this.currentExecution) {
+      vscode.window.setStatusBarMessage('task already running, skipping', 1500);
+      throw new Error('task running, skipping invocation');
+    }
+
+    const bazel = await this.bazelSettings.get();
+    const invocation = await this.invocationSettings.get();
+    const cwd = request.workspace?.cwd || this.bzl.ws.cwd!;
+    const args = (request.arg || []).slice();
+    const command = args[0];
+
+    const tmpdir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'bsv-bep-'));
+    const bepFile = path.join(tmpdir, 'build_events.bin');
+    const flags = [`--build_event_binary_file=${bepFile}`];
+    if (invocation.buildEventPublishAllActions) {
+      flags.push('--build_event_publish_all_actions');
+    }
+    let executionLog: string | undefined;
+    if (invocation.executionLog) {
+      executionLog = path.join(tmpdir, 'execution_log.json');
+      flags.push(`--execution_log_json_file=${executionLog}`);
+    }
+    let scriptPath: string | undefined;
+    if (command === 'run') {
+      scriptPath = path.join(tmpdir, 'run.sh');
+      flags.push(`--script_path=${scriptPath}`);
+    }
+    insertBazelFlags(args, flags);
+
+    const exec = {
+      request: request,
+      cancellation: new vscode.CancellationTokenSource(),
+    };
+    let tailer: BuildEventFileTailer | undefined;
+    let tailError: Error | undefined;
+    const handleTailError = (err: Error) => {
+      if (!tailError) {
+        tailError = err;
+        vscode.window.showWarningMessage(`Unable to read build events: ${err.message}`);
+      }
+    };
+    let cancellation: vscode.Disposable | undefined;
+    // the temporary directory outlives the invocation only for the run script.
+    let keepTmpdir = false;
+
+    let exitCode: number;
+    try {
+      this.currentExecution = exec;
+      this.onDidRunRequest.fire(request);
+
+      const bepHandler = await this.newBuildEventProtocolHandler(exec.cancellation.token);
+      let sequenceNumber = 0;
+      const bepTailer = (tailer = new BuildEventFileTailer(
+        await this.buildEventType,
+        bepFile,
+        async message => {
+          await bepHandler.handleBuildEventStreamMessage(++sequenceNumber, message);
+        }
+      ));
+
+      await this.showTerminal(request);
+
+      exitCode = await new Promise<number>((resolve, reject) => {
+        const child = cp.spawn(bazel.executable || 'bazel', args, { cwd });
+        const interval = setInterval(() => bepTailer.poll().catch(handleTailError), 250);
+
+        child.stdout.on('data', (chunk: Buffer) => this.writeLines(chunk.toString()));
+        child.stderr.on('data', (chunk: Buffer) => this.writeLines(chunk.toString()));
+        child.on('error', err => {
+          clearInterval(interval);
+          reject(err);
+        });
+        child.on('close', (code: number | null) => {
+          clearInterval(interval);
+          resolve(code === null ? -1 : code);
+        });
+
+        cancellation = exec.cancellation.token.onCancellationRequested(() => child.kill('SIGINT'));
+      });
+      keepTmpdir =
+        !!scriptPath && exitCode === 0 && !exec.cancellation.token.isCancellationRequested;
+    } finally {
+      cancellation?.dispose();
+      await tailer?.close().catch(handleTailError);
+      if (executionLog) {
+        await this.readExecutionLog(executionLog);
+      }
+      this.currentExecution = undefined;
+      if (!keepTmpdir) {
+        await fse.remove(tmpdir).catch(() => undefined);
+      }
+    }
+
+    const cancelled = exec.cancellation.token.isCancellationRequested;
+    if (cancelled) {
+      throw new Error('cancelled');
+    }
+    if (exitCode !== 0) {
+      throw new Error(`bazel exited with code ${exitCode}`);
+    }
+    if (scriptPath) {
+      await this.executeRunScript(scriptPath, cwd, tmpdir);
+    }
+  }
+
+  /**
+   * Executes the --script_path of a run command as a task, and removes its
+   * temporary directory once the task ends.
+   */
+  private async executeRunScript(scriptPath: string, cwd: string, tmpdir: string): Promise<void> {
+    const removeTmpdir = () => fse.remove(tmpdir).catch(() => undefined);
+    let execution: vscode.TaskExecution;
+    try {
+      execution = await vscode.tasks.executeTask(
+        new ExecTask({ argv: [scriptPath], workingDirectory: cwd }).newTask()
+      );
+    } catch (e) {
+      await removeTmpdir();
+      throw e;
+    }
+    const listener = vscode.tasks.onDidEndTask(e => {
+      if (e.execution === execution) {
+        listener.dispose();
+        removeTmpdir();
+      }
+    });
+  }
+
+  private async readExecutionLog(filename: string): Promise<void> {
+    try {
+      this.onDidReceiveExecutionLog.fire(await fs.promises.readFile(filename, 'utf-8'));
+    } catch (e) {
+      // not written, such as when the command failed early
+      return;
+    }
+    await fs.promises.unlink(filename).catch(() => undefined);
+  }
+
+  private async showTerminal(request: RunRequest): Promise<void> {
+    const terminal = this.getTerminal();
+    this.writeEmitter.fire('\x1bc\x1b[0J\x1b[1J\x1b[2J\x1b[3J\x1b[0;0H');
+    terminal.show();
+    this.writeEmitter.fire(
+      `bazel ${request.arg?.join(' ')}\r\n (to cancel, kill the terminal).\r\n\n`
+    );
+    // use a timeout here?
+    await this.terminalIsOpen!.wait();
+  }
+
+  /**
+   * Replays the build events in the given file (as written by
+   * --build_event_binary_file or --build_event_json_file) through the
+   * onDidReceiveBazelBuildEvent emitter.
+   *
+   * @returns the number of events replayed.
+   */
+  async replay(filename: string): Promise<number> {
+    if (this.currentExecution) {
+      throw new Error('cannot replay build events while a command is running');
+    }
+
+    const messages = await readBuildEventFile(await this.buildEventType, filename);
+    const cancellation = new vscode.CancellationTokenSource();
+    try {
+      const bepHandler = await this.newBuildEventProtocolHandler(cancellation.token);
+      for (let i = 0; i < messages.length; i++) {
+        await bepHandler.handleBuildEventStreamMessage(i + 1, messages[i]);
+      }
+    } finally {
+      cancellation.dispose();
+    }
+
+    return messages.length;
+  }
+
+  /**
+   * Reads the build events in the given file without replaying them.
+   */
+  async readBuildEvents(filename: string): Promise<BuildEventStreamEvent[]> {
+    const messages = await readBuildEventFile(await this.buildEventType, filename);
+    const cancellation = new vscode.CancellationTokenSource();
+    try {
+      const bepHandler = await this.newBuildEventProtocolHandler(cancellation.token);
+      return messages.map(m => bepHandler.toBesBuildEvent(m));
+    } finally {
+      cancellation.dispose();
+    }
+  }
+
+  /**
+   * Cancels the current execution, if any.
+   */
+  cancel(): void {
+    this.currentExecution?.cancellation?.cancel();
+  }
+
   private writeLines(chunk: string, reportFirstLine = false): void {
     if (!chunk) {
       return;
@@ -251,6 +474,20 @@ class ExecTask {
   }
 }
 
+/**
+ * Inserts the given flags into the bazel command line, before the '--'
+ * separator of residual (run) arguments, if any.
+ */
+export function insertBazelFlags(args: string[], flags: string[]): string[] {
+  const residual = args.indexOf('--');
+  if (residual === -1) {
+    args.push(...flags);
+  } else {
+    args.splice(residual, 0, ...flags);
+  }
+  return args;
+}
+
 type Env = { [key: string]: string };
 
 function makeEnv(vars: EnvironmentVariable[]): Env {
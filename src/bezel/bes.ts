@@ -12,7 +12,7 @@ import { Empty } from '../proto/google/protobuf/Empty';
 import { PublishLifecycleEventRequest } from '../proto/google/devtools/build/v1/PublishLifecycleEventRequest';
 import { Bzl } from './bzl';
 
-function loadPublishBuildEventServiceProtos(protofile: string): PublishBuildEventServiceProtoType {
+export function loadPublishBuildEventServiceProtos(protofile: string): PublishBuildEventServiceProtoType {
   const protoPackage = loader.loadSync(protofile, {
     keepCase: false,
     defaults: false,
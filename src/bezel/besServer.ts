@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import * as grpc from '@grpc/grpc-js';
+import * as path from 'path';
+import { ProtoGrpcType as PublishBuildEventServiceProtoType } from '../proto/publish_build_event';
+import { PublishBuildEventHandlers } from '../proto/google/devtools/build/v1/PublishBuildEvent';
+import { PublishBuildToolEventStreamRequest__Output } from '../proto/google/devtools/build/v1/PublishBuildToolEventStreamRequest';
+import { PublishBuildToolEventStreamResponse } from '../proto/google/devtools/build/v1/PublishBuildToolEventStreamResponse';
+import { BEPRunner } from './bepRunner';
+import { loadPublishBuildEventServiceProtos } from './bes';
+import {
+  LocalBuildEventServiceConfiguration,
+  LocalBuildEventServiceSettings,
+} from './configuration';
+import { InvocationRecorder, InvocationStore, isInvocationId } from './invocationStore';
+import { RunnableComponent } from './status';
+
+/**
+ * LocalBuildEventService implements the google.devtools.build.v1.PublishBuildEvent
+ * service in-process.  Invocations that use it as their --bes_backend are
+ * recorded to disk and, if no other command is running, streamed into the
+ * current invocation view.
+ */
+export class LocalBuildEventService extends RunnableComponent<LocalBuildEventServiceConfiguration> {
+  public readonly store: InvocationStore;
+  private server: grpc.Server | undefined;
+  private port: number | undefined;
+
+  constructor(
+    public readonly settings: LocalBuildEventServiceSettings,
+    private readonly bepRunner: BEPRunner,
+    private readonly proto: PublishBuildEventServiceProtoType = loadPublishBuildEventServiceProtos(
+      settings.configCtx.protoFile('publish_build_event.proto').fsPath
+    )
+  ) {
+    super('LBS', settings);
+
+    this.store = new InvocationStore(
+      path.join(settings.configCtx.globalStorageUri.fsPath, 'invocations')
+    );
+    this.disposables.push(this.store);
+  }
+
+  /**
+   * Returns the --bes_backend address of the running server.
+   */
+  get backendAddress(): string | undefined {
+    if (!this.port) {
+      return undefined;
+    }
+    return `grpc://localhost:${this.port}`;
+  }
+
+  async startInternal(): Promise<void> {
+    const cfg = await this.settings.get();
+
+    const handlers: PublishBuildEventHandlers = {
+      PublishLifecycleEvent: (call, callback) => callback(null, {}),
+      PublishBuildToolEventStream: call => this.handlePublishBuildToolEventStream(call),
+    };
+
+    const server = (this.server = new grpc.Server());
+    server.addService(this.proto.google.devtools.build.v1.PublishBuildEvent.service, handlers);
+
+    this.port = await new Promise<number>((resolve, reject) => {
+      server.bindAsync(cfg.address, grpc.ServerCredentials.createInsecure(), (err, port) =>
+        err ? reject(err) : resolve(port)
+      );
+    });
+    server.start();
+
+    await this.store.prune(cfg.maxInvocations);
+  }
+
+  async stopInternal(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    this.port = undefined;
+    if (!server) {
+      return;
+    }
+    return new Promise<void>(resolve => server.tryShutdown(() => resolve()));
+  }
+
+  private async handlePublishBuildToolEventStream(
+    call: grpc.ServerDuplexStream<
+      PublishBuildToolEventStreamRequest__Output,
+      PublishBuildToolEventStreamResponse
+    >
+  ): Promise<void> {
+    const cancellation = new vscode.CancellationTokenSource();
+    const bepHandler = await this.bepRunner.newBuildEventProtocolHandler(cancellation.token);
+    let recorder: InvocationRecorder | undefined;
+    let rejected = false;
+    // only forward events to the current invocation view if it is not
+    // otherwise busy at the time the stream started.
+    const forward = !this.bepRunner.isRunning;
+
+    const finish = async () => {
+      cancellation.dispose();
+      await recorder?.close();
+    };
+
+    call.on('data', (req: PublishBuildToolEventStreamRequest__Output) => {
+      const obe = req.orderedBuildEvent;
+      if (!obe) {
+        return;
+      }
+      const any = obe.event?.bazelEvent as
+        | { type_url: string; value: Buffer | Uint8Array }
+        | undefined;
+      if (any && any.type_url === 'type.googleapis.com/build_event_stream.BuildEvent') {
+        const invocationId = obe.streamId?.invocationId;
+        if (!recorder && invocationId) {
+          if (isInvocationId(invocationId)) {
+            recorder = this.store.createRecorder(invocationId);
+          } else if (!rejected) {
+            rejected = true;
+            console.warn(`build event stream: not recording invalid invocation id ${invocationId}`);
+          }
+        }
+        try {
+          const bes = bepHandler.makeBesBuildEvent(any.value);
+          recorder?.append(any.value, bes);
+          if (forward) {
+            bepHandler
+              .handleBazelBuildEvent(obe, obe.event!, bes)
+              .catch(e =>
+                console.warn(
+                  `build event stream: could not handle event: ${
+                    e instanceof Error ? e.message : e
+                  }`
+                )
+              );
+          }
+        } catch (e) {
+          console.warn(
+            `build event stream: could not process event: ${e instanceof Error ? e.message : e}`
+          );
+        }
+      }
+      call.write({
+        streamId: obe.streamId,
+        sequenceNumber: obe.sequenceNumber,
+      });
+    });
+
+    call.on('end', async () => {
+      await finish();
+      call.end();
+    });
+
+    call.on('error', async err => {
+      console.warn(`build event stream error: ${err.message}`);
+      await finish();
+    });
+  }
+
+  async dispose() {
+    await this.stopInternal();
+    super.dispose();
+  }
+}
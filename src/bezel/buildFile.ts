@@ -0,0 +1,183 @@
+/**
+ * A string literal in a BUILD file.  Offsets include the quotes.
+ */
+export interface BuildString {
+  value: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * A keyword argument of a rule call.
+ */
+export interface BuildAttribute {
+  name: string;
+  // offsets of the attribute name
+  start: number;
+  end: number;
+  // the string values, if the value is a string or a list of strings
+  values: BuildString[];
+  // false if the value is not a plain string or list of strings (such as a
+  // glob() or select()), in which case values is empty.
+  literal: boolean;
+}
+
+/**
+ * A top-level rule (or macro) call in a BUILD file.
+ */
+export interface BuildRule {
+  kind: string;
+  // the value of the name attribute, if literal
+  name?: string;
+  // offsets of the call, from the kind to the closing parenthesis
+  start: number;
+  end: number;
+  attrs: Map<string, BuildAttribute>;
+}
+
+interface Token {
+  type: 'ident' | 'string' | 'punct' | 'other';
+  value: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Splits starlark source into tokens, skipping whitespace and comments.
+ */
+function tokenize(content: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < content.length) {
+    const c = content[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === '#') {
+      while (i < content.length && content[i] !== '\n') {
+        i++;
+      }
+    } else if (c === '"' || c === "'") {
+      const start = i;
+      const quote = content.startsWith(c.repeat(3), i) ? c.repeat(3) : c;
+      i += quote.length;
+      let value = '';
+      while (i < content.length && !content.startsWith(quote, i)) {
+        if (content[i] === '\\' && i + 1 < content.length) {
+          value += content[i + 1];
+          i += 2;
+        } else {
+          value += content[i++];
+        }
+      }
+      i += quote.length;
+      tokens.push({ type: 'string', value, start, end: Math.min(i, content.length) });
+    } else if (/[A-Za-z_]/.test(c)) {
+      const start = i;
+      while (i < content.length && /\w/.test(content[i])) {
+        i++;
+      }
+      tokens.push({ type: 'ident', value: content.slice(start, i), start, end: i });
+    } else if ('()[]{},=.:+'.includes(c)) {
+      tokens.push({ type: 'punct', value: c, start: i, end: i + 1 });
+      i++;
+    } else {
+      tokens.push({ type: 'other', value: c, start: i, end: i + 1 });
+      i++;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Returns the string values of the expression tokens if they form a string or
+ * a list of strings.
+ */
+function literalStrings(tokens: Token[]): BuildString[] | undefined {
+  const strings = (list: Token[]) =>
+    list.every((t, i) => (i % 2 === 0 ? t.type === 'string' : t.value === ','))
+      ? list
+          .filter(t => t.type === 'string')
+          .map(t => ({ value: t.value, start: t.start, end: t.end }))
+      : undefined;
+  if (tokens.length === 1) {
+    return strings(tokens);
+  }
+  const first = tokens[0];
+  const last = tokens[tokens.length - 1];
+  if (first?.value === '[' && last?.value === ']') {
+    return strings(tokens.slice(1, -1));
+  }
+  return undefined;
+}
+
+/**
+ * Parses the top-level calls of a BUILD file.  Only keyword arguments are
+ * recorded; this is sufficient for rules and most macros.
+ */
+export function parseBuildRules(content: string): BuildRule[] {
+  const tokens = tokenize(content);
+  const rules: BuildRule[] = [];
+  let depth = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t.type === 'punct' && '([{'.includes(t.value)) {
+      depth++;
+      continue;
+    }
+    if (t.type === 'punct' && ')]}'.includes(t.value)) {
+      depth--;
+      continue;
+    }
+    const prev = tokens[i - 1];
+    if (
+      depth !== 0 ||
+      t.type !== 'ident' ||
+      tokens[i + 1]?.value !== '(' ||
+      (prev && (prev.value === '=' || prev.value === '.'))
+    ) {
+      continue;
+    }
+
+    const rule: BuildRule = { kind: t.value, start: t.start, end: t.end, attrs: new Map() };
+    let j = i + 2;
+    let argDepth = 0;
+    let arg: Token[] = [];
+    const finishArg = () => {
+      if (arg.length >= 3 && arg[0].type === 'ident' && arg[1].value === '=') {
+        const values = literalStrings(arg.slice(2));
+        rule.attrs.set(arg[0].value, {
+          name: arg[0].value,
+          start: arg[0].start,
+          end: arg[0].end,
+          values: values || [],
+          literal: !!values,
+        });
+      }
+      arg = [];
+    };
+    for (; j < tokens.length; j++) {
+      const a = tokens[j];
+      if (a.type === 'punct' && '([{'.includes(a.value)) {
+        argDepth++;
+      } else if (a.type === 'punct' && ')]}'.includes(a.value)) {
+        if (argDepth === 0) {
+          break;
+        }
+        argDepth--;
+      } else if (argDepth === 0 && a.value === ',') {
+        finishArg();
+        continue;
+      }
+      arg.push(a);
+    }
+    finishArg();
+    rule.end = j < tokens.length ? tokens[j].end : content.length;
+    const name = rule.attrs.get('name');
+    if (name && name.literal && name.values.length === 1) {
+      rule.name = name.values[0].value;
+    }
+    rules.push(rule);
+    i = j;
+  }
+  return rules;
+}
@@ -11,6 +11,7 @@ import { CancelRequest } from '../proto/build/stack/bezel/v1beta1/CancelRequest'
 import { CancelResponse } from '../proto/build/stack/bezel/v1beta1/CancelResponse';
 import { CodeSearchClient } from '../proto/build/stack/codesearch/v1beta1/CodeSearch';
 import { CodeSearchResult } from '../proto/livegrep/CodeSearchResult';
+import { CommandHistory } from '../proto/build/stack/bezel/v1beta1/CommandHistory';
 import { CommandServiceClient } from '../proto/build/stack/bezel/v1beta1/CommandService';
 import { CreateScopeRequest } from '../proto/build/stack/codesearch/v1beta1/CreateScopeRequest';
 import { CreateScopeResponse } from '../proto/build/stack/codesearch/v1beta1/CreateScopeResponse';
@@ -22,10 +23,12 @@ import { FileKind } from '../proto/build/stack/bezel/v1beta1/FileKind';
 import { FileServiceClient } from '../proto/build/stack/bezel/v1beta1/FileService';
 import { GetScopeRequest } from '../proto/build/stack/codesearch/v1beta1/GetScopeRequest';
 import { GRPCClient } from './grpcclient';
+import { HistoryClient } from '../proto/build/stack/bezel/v1beta1/History';
 import { Info } from '../proto/build/stack/bezel/v1beta1/Info';
 import { InfoResponse } from '../proto/build/stack/bezel/v1beta1/InfoResponse';
 import { InfoServiceClient } from '../proto/build/stack/bezel/v1beta1/InfoService';
 import { LabelKind } from '../proto/build/stack/bezel/v1beta1/LabelKind';
+import { ListCommandHistoryResponse } from '../proto/build/stack/bezel/v1beta1/ListCommandHistoryResponse';
 import { ListPackagesResponse } from '../proto/build/stack/bezel/v1beta1/ListPackagesResponse';
 import { ListRulesResponse } from '../proto/build/stack/bezel/v1beta1/ListRulesResponse';
 import { ListScopesRequest } from '../proto/build/stack/codesearch/v1beta1/ListScopesRequest';
@@ -132,6 +135,7 @@ class BzlServerClient extends AppClient {
   protected packages: PackageServiceClient;
   protected files: FileServiceClient;
   public commands: CommandServiceClient;
+  protected history: HistoryClient;
 
   constructor(cfg: BzlConfiguration, onError: (err: grpc.ServiceError) => void) {
     super(cfg, onError);
@@ -146,6 +150,7 @@ class BzlServerClient extends AppClient {
     this.packages = new v1beta1.PackageService(address, creds);
     this.commands = new v1beta1.CommandService(address, creds);
     this.files = new v1beta1.FileService(address, creds);
+    this.history = new v1beta1.History(address, creds);
   }
 
   async getInfo(ws: Workspace): Promise<Info[] | undefined> {
@@ -237,8 +242,8 @@ class BzlServerClient extends AppClient {
     });
   }
 
-  async listPackages(workspace: Workspace, external?: ExternalWorkspace): Promise<Workspace[]> {
-    return new Promise<Workspace[]>((resolve, reject) => {
+  async listPackages(workspace: Workspace, external?: ExternalWorkspace): Promise<Package[]> {
+    return new Promise<Package[]>((resolve, reject) => {
       this.packages.ListPackages(
         {
           workspace: workspace,
@@ -281,6 +286,40 @@ class BzlServerClient extends AppClient {
     });
   }
 
+  async listCommandHistory(cwd?: string): Promise<CommandHistory[]> {
+    return new Promise<CommandHistory[]>((resolve, reject) => {
+      this.history.List(
+        { cwd: cwd },
+        new grpc.Metadata(),
+        { deadline: this.getDeadline() },
+        async (err?: grpc.ServiceError, resp?: ListCommandHistoryResponse) => {
+          if (err) {
+            reject(this.handleError(err));
+          } else {
+            resolve(resp!.history || []);
+          }
+        }
+      );
+    });
+  }
+
+  async deleteCommandHistory(id: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.history.Delete(
+        { id: id },
+        new grpc.Metadata(),
+        { deadline: this.getDeadline() },
+        async (err?: grpc.ServiceError) => {
+          if (err) {
+            reject(this.handleError(err));
+          } else {
+            resolve();
+          }
+        }
+      );
+    });
+  }
+
   async downloadFile(
     workspace: Workspace,
     kind: FileKind,
@@ -314,6 +353,7 @@ class BzlServerClient extends AppClient {
     this.packages.close();
     this.commands.close();
     this.files.close();
+    this.history.close();
   }
 }
 
@@ -425,7 +465,7 @@ export class Bzl extends LaunchableComponent<BzlConfiguration> {
 
     this.ws = { cwd: workspaceFolder.fsPath };
 
-    this.bepRunner = new BEPRunner(this, invocationSettings);
+    this.bepRunner = new BEPRunner(this, invocationSettings, bazelSettings);
     this.disposables.push(this.bepRunner);
 
     subscription.onDidChangeStatus(this.handleSubscriptionStatusChange, this, this.disposables);
@@ -508,6 +548,23 @@ export class Bzl extends LaunchableComponent<BzlConfiguration> {
     });
   }
 
+  /**
+   * Like runWithEvents, but spawns bazel directly rather than using the
+   * command server.
+   */
+  async runLocalWithEvents(args: string[]): Promise<void> {
+    return this.bepRunner
+      .runLocal({
+        arg: args.concat(['--color=yes']),
+        workspace: this.ws,
+      })
+      .catch(err => {
+        if (err instanceof Error) {
+          vscode.window.showInformationMessage(`failed to "${args.join(' ')}": ${err.message}`);
+        }
+      });
+  }
+
   async handleCommandUILabel(label: string): Promise<void> {
     const ws = await this.getWorkspace();
     const cfg = await this.settings.get();
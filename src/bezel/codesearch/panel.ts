@@ -65,6 +65,18 @@ export interface Input {
   onchange?: (value: string) => Promise<string | undefined>;
 }
 
+const htmlEscapes: { [key in string]: string } = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(html: string): string {
+  return html.replace(/[&<>"']/g, chr => htmlEscapes[chr]);
+}
+
 export interface CodesearchRenderProvider {
   render(opts: RenderingOptions): void;
 }
@@ -568,3 +580,21 @@ export class CodesearchPanel implements vscode.Disposable {
     this.disposables.length = 0;
   }
 }
+
+/**
+ * StaticCodesearchPanel is a CodesearchPanel that renders its summary and
+ * results along with the page rather than via subsequent messages.
+ */
+export class StaticCodesearchPanel extends CodesearchPanel {
+  summaryHTML = '';
+  resultsHTML = '';
+  resultsStyle = 'margin-top: 1rem';
+
+  htmlSummary(): string {
+    return `<div id="summary">${this.summaryHTML}</div>`;
+  }
+
+  htmlResults(): string {
+    return `<div id="results" style="${this.resultsStyle}">${this.resultsHTML}</div>`;
+  }
+}
@@ -17,6 +17,7 @@ import { FileResult } from '../../proto/livegrep/FileResult';
 import { Query } from '../../proto/livegrep/Query';
 import { SearchResult } from '../../proto/livegrep/SearchResult';
 import { CodeHighlighter, getLanguageId } from './highlighter';
+import { escapeHtml } from './panel';
 import path = require('path');
 import Long = require('long');
 
@@ -481,14 +482,3 @@ function sortBoundsList(bounds: Bounds[]): Bounds[] {
   return keys.map(k => m.get(k)!);
 }
 
-const htmlEscapes: { [key in string]: string } = {
-  '&': '&amp;',
-  '<': '&lt;',
-  '>': '&gt;',
-  '"': '&quot;',
-  "'": '&#39;',
-};
-
-function escapeHtml(html: string): string {
-  return html.replace(/[&<>"']/g, chr => htmlEscapes[chr]);
-}
@@ -9,6 +9,9 @@ import { ProtoGrpcType as BzlProtoType } from '../proto/bzl';
 import { ProtoGrpcType as CodesearchProtoType } from '../proto/codesearch';
 import { getGRPCCredentials, loadBzlProtos, loadCodesearchProtos } from './proto';
 import { ConfigurationContext } from '../common';
+import { ToolsConfiguration } from '../tools';
+import { findPinnedBazel, readPinnedBazelVersion } from './bazelisk';
+import os = require('os');
 
 /**
  * Configuration for a generic component.
@@ -63,6 +66,8 @@ export interface BazelConfiguration extends ComponentConfiguration {
   testFlags: string[];
   // common flags for the run command
   runFlags: string[];
+  // the version pinned by .bazelversion or .bazeliskrc, if any
+  version?: string;
 }
 
 /**
@@ -80,6 +85,8 @@ export interface RemoteCacheConfiguration extends ComponentConfiguration {
   address: vscode.Uri;
   // cache directory
   dir: string | undefined;
+  // number of invocations to keep cache stats for
+  statsHistorySize: number;
 }
 
 /**
@@ -91,6 +98,16 @@ export interface BuildEventServiceConfiguration extends ComponentConfiguration {
   frontendAddress: vscode.Uri;
 }
 
+/**
+ * Configuration for the local build event service backend.
+ */
+export interface LocalBuildEventServiceConfiguration extends ComponentConfiguration {
+  // bind address for the gRPC service
+  address: string;
+  // maximum number of recorded invocations to keep
+  maxInvocations: number;
+}
+
 /**
  * Configuration for codesearch.
  */
@@ -101,13 +118,26 @@ export interface CodeSearchConfiguration extends ComponentConfiguration {
   defaultUseRegexp: boolean;
 }
 
+/**
+ * Configuration for the deps analysis.
+ */
+export interface DepsConfiguration extends ComponentConfiguration {
+  // whether BUILD files are analyzed each time they are saved
+  analyzeOnSave: boolean;
+}
+
 /**
  * Configuration for invocations.
  */
 export interface InvocationsConfiguration extends ComponentConfiguration {
   // whether to use the command API for build & test
   invokeWithBuildEventStreaming: boolean;
+  // whether to spawn bazel locally and stream build events from a
+  // --build_event_binary_file when the command API is not available
+  invokeWithLocalBuildEventStreaming: boolean;
   buildEventPublishAllActions: boolean;
+  // whether locally spawned invocations write an --execution_log_json_file
+  executionLog: boolean;
   hideOutputPanelOnSuccess: boolean;
 }
 
@@ -147,6 +177,14 @@ export interface StarlarkDebuggerConfiguration extends ComponentConfiguration {
 export class BazelSettings extends Settings<BazelConfiguration> {
   constructor(configCtx: ConfigurationContext, section: string) {
     super(configCtx, section);
+
+    const watcher = vscode.workspace.createFileSystemWatcher('**/{.bazelversion,.bazeliskrc}');
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(() => this.reconfigure(section)),
+      watcher.onDidChange(() => this.reconfigure(section)),
+      watcher.onDidDelete(() => this.reconfigure(section))
+    );
   }
 
   protected async configure(config: vscode.WorkspaceConfiguration): Promise<BazelConfiguration> {
@@ -161,6 +199,15 @@ export class BazelSettings extends Settings<BazelConfiguration> {
       ]),
       runFlags: config.get<string[]>('runFlags', []),
     };
+
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    const pinned = folder && readPinnedBazelVersion(folder.uri.fsPath, process.env, os.homedir());
+    if (pinned) {
+      cfg.version = pinned.version;
+      if (!cfg.executable) {
+        cfg.executable = findPinnedBazel(pinned, process.env, process.platform);
+      }
+    }
     return cfg;
   }
 }
@@ -176,7 +223,12 @@ export class InvocationsSettings extends Settings<InvocationsConfiguration> {
     const cfg: InvocationsConfiguration = {
       enabled: config.get<boolean>('enabled', true),
       invokeWithBuildEventStreaming: config.get<boolean>('invokeWithBuildEventStreaming', true),
+      invokeWithLocalBuildEventStreaming: config.get<boolean>(
+        'invokeWithLocalBuildEventStreaming',
+        true
+      ),
       buildEventPublishAllActions: config.get<boolean>('buildEventPublishAllActions', true),
+      executionLog: config.get<boolean>('executionLog', false),
       hideOutputPanelOnSuccess: config.get<boolean>('hideOutputPanelOnSuccess', true),
     };
     const subscription = await this.subscription.get();
@@ -206,6 +258,20 @@ export class CodeSearchSettings extends Settings<CodeSearchConfiguration> {
   }
 }
 
+export class DepsSettings extends Settings<DepsConfiguration> {
+  constructor(configCtx: ConfigurationContext, section: string) {
+    super(configCtx, section);
+  }
+
+  protected async configure(config: vscode.WorkspaceConfiguration): Promise<DepsConfiguration> {
+    const cfg: DepsConfiguration = {
+      enabled: config.get<boolean>('enabled', true),
+      analyzeOnSave: config.get<boolean>('analyzeOnSave', false),
+    };
+    return cfg;
+  }
+}
+
 export class StarlarkDebuggerSettings extends Settings<StarlarkDebuggerConfiguration> {
   constructor(configCtx: ConfigurationContext, section: string, private bzl: BzlSettings) {
     super(configCtx, section);
@@ -240,10 +306,14 @@ export class BzlSettings extends Settings<BzlConfiguration> {
     configCtx: ConfigurationContext,
     section: string,
     private ctx: vscode.ExtensionContext,
-    private bazel: Settings<BazelConfiguration>
+    private bazel: Settings<BazelConfiguration>,
+    private tools?: Settings<ToolsConfiguration>
   ) {
     super(configCtx, section);
     this.disposables.push(bazel.onDidConfigurationChange(() => this.reconfigure.bind(this)));
+    if (tools) {
+      this.disposables.push(tools.onDidConfigurationChange(() => this.reconfigure(section)));
+    }
   }
 
   protected async configure(config: vscode.WorkspaceConfiguration): Promise<BzlConfiguration> {
@@ -262,7 +332,7 @@ export class BzlSettings extends Settings<BzlConfiguration> {
       cspb: loadCodesearchProtos(this.configCtx.protoFile('codesearch.proto').fsPath),
     };
     if (!cfg.executable) {
-      await setServerExecutable(this.ctx, cfg);
+      await setServerExecutable(this.ctx, cfg, await this.tools?.get());
     }
     return cfg;
   }
@@ -309,6 +379,7 @@ export class RemoteCacheSettings extends Settings<RemoteCacheConfiguration> {
       executable: config.get<string | undefined>('executable'),
       maxSizeGb: config.get<number>('maxSizeGb', 10),
       autoLaunch: config.get<boolean>('autoLaunch', true),
+      statsHistorySize: config.get<number>('statsHistorySize', 20),
     };
     if (!cfg.executable) {
       const bzl = await this.bzl.get();
@@ -346,6 +417,22 @@ export class BuildEventServiceSettings extends Settings<BuildEventServiceConfigu
   }
 }
 
+export class LocalBuildEventServiceSettings extends Settings<LocalBuildEventServiceConfiguration> {
+  constructor(configCtx: ConfigurationContext, section: string) {
+    super(configCtx, section);
+  }
+
+  protected async configure(
+    config: vscode.WorkspaceConfiguration
+  ): Promise<LocalBuildEventServiceConfiguration> {
+    return {
+      enabled: config.get<boolean>('enabled', false),
+      address: config.get<string>('address', 'localhost:1985'),
+      maxInvocations: config.get<number>('maxInvocations', 200),
+    };
+  }
+}
+
 export class LanguageServerSettings extends Settings<LanguageServerConfiguration> {
   constructor(
     configCtx: ConfigurationContext,
@@ -420,10 +507,11 @@ export async function writeLicenseFile(token: string): Promise<void> {
 
 export async function setServerExecutable(
   ctx: vscode.ExtensionContext,
-  server: BzlConfiguration
+  server: BzlConfiguration,
+  tools?: ToolsConfiguration
 ): Promise<any> {
   try {
-    const fileUri = await maybeInstallExecutable(ctx, server);
+    const fileUri = await maybeInstallExecutable(ctx, server, tools);
     server.executable = normalize(fileUri.fsPath);
   } catch (e) {
     throw new Error(`could not install bzl: ${e instanceof Error ? e.message : e}`);
@@ -438,15 +526,16 @@ export async function setServerExecutable(
  * download operation is skipped.
  *
  * @param cfg The configuration
- * @param storagePath The directory where the binary should be installed
+ * @param tools The tool manifest and mirror to verify and fetch the binary with
  */
 export async function maybeInstallExecutable(
   ctx: vscode.ExtensionContext,
-  cfg: BzlConfiguration
+  cfg: BzlConfiguration,
+  tools?: ToolsConfiguration
 ): Promise<vscode.Uri> {
   const cancellationTokenSource = new vscode.CancellationTokenSource();
   const cancellationToken = cancellationTokenSource.token;
   const downloader = await BzlAssetDownloader.fromConfiguration(cfg);
   const mode = 0o755;
-  return downloader.getOrDownloadFile(ctx, mode, cancellationToken);
+  return downloader.getOrDownloadFile(ctx, mode, cancellationToken, tools);
 }
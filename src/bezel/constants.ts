@@ -26,6 +26,7 @@ export enum ConfigSection {
 
 export enum ViewName {
   Workspace = 'bsv.workspace',
+  Targets = 'bsv.targets',
 }
 
 export enum MatcherName {
@@ -39,6 +40,9 @@ export enum MatcherName {
 export enum Memento {
   RedoCommand = 'bsv.bzl.redo.command',
   RedoArguments = 'bsv.bzl.redo.arguments',
+  RemoteCacheStats = 'bsv.bzl.remoteCache.stats',
+  BuildozerRecentCommands = 'bsv.buildozer.recentCommands',
+  QueryHistory = 'bsv.bzl.query.history',
 }
 
 export enum CommandName {
@@ -50,15 +54,39 @@ export enum CommandName {
   GoToLabel = 'bsv.bzl.goToLabel',
   CopyToClipboard = 'bsv.bzl.copyToClipboard',
   DebugBuild = 'bsv.bzl.debugBuild',
+  DepsAnalyze = 'bsv.bzl.deps.analyze',
   AskForDebugTargetLabel = 'bsv.bzl.askForDebugTargetLabel',
+  BuildifierConfigureWarnings = 'bsv.buildifier.configureWarnings',
+  BuildifierFixWorkspace = 'bsv.buildifier.fixWorkspace',
+  BuildifierLintWorkspace = 'bsv.buildifier.lintWorkspace',
+  BuildozerEdit = 'bsv.buildozer.edit',
+  BuildozerPrintTable = 'bsv.buildozer.printTable',
   BuildozerWizard = 'bsv.buildozer.wizard',
   LaunchDebugAdapter = 'bsv.bzl.starlarkDebugger.launch',
   LaunchRemoteCache = 'bsv.bzl.remoteCache.launch',
+  RemoteCacheInspectAction = 'bsv.bzl.remoteCache.inspectAction',
+  RemoteCacheLookupActionResult = 'bsv.bzl.remoteCache.lookupActionResult',
+  RemoteCacheOpenBlob = 'bsv.bzl.remoteCache.openBlob',
+  RemoteCacheOpenDirectory = 'bsv.bzl.remoteCache.openDirectory',
+  RemoteCacheStatsClear = 'bsv.bzl.remoteCache.stats.clear',
   LaunchBzlServer = 'bsv.bzl.server.launch',
   LaunchBazelServer = 'bsv.bazel.launch',
   InvocationInvoke = 'bsv.bzl.invocation.invoke',
+  InvocationOpenBuildEventFile = 'bsv.bzl.invocation.openBuildEventFile',
   InvocationsRefresh = 'bsv.bzl.invocations.refresh',
   Invoke = 'bsv.bzl.invoke',
+  HistoryClearFilter = 'bsv.bzl.history.clearFilter',
+  HistoryCompare = 'bsv.bzl.history.compare',
+  HistoryDelete = 'bsv.bzl.history.delete',
+  HistoryFilter = 'bsv.bzl.history.filter',
+  HistoryInvoke = 'bsv.bzl.history.invoke',
+  HistoryOpen = 'bsv.bzl.history.open',
+  HistoryRefresh = 'bsv.bzl.history.refresh',
+  ProfileOpen = 'bsv.bzl.profile.open',
+  QueryConsole = 'bsv.bzl.query.console',
+  QueryDepsGraph = 'bsv.bzl.query.deps',
+  QueryNotebookNew = 'bsv.bzl.query.notebook.new',
+  QueryRdepsGraph = 'bsv.bzl.query.rdeps',
   ComponentRefresh = 'bsv.bzl.component.refresh',
   BazelKill = 'bsv.bzl.bazelKill',
   OpenExternalWorkspace = 'bsv.bazel.external.open',
@@ -68,6 +96,13 @@ export enum CommandName {
   Redo = 'bsv.bzl.redo',
   Run = 'bsv.bzl.run',
   SignIn = 'bsv.bzl.signin',
+  TargetsBuild = 'bsv.targets.build',
+  TargetsClearFilter = 'bsv.targets.clearFilter',
+  TargetsCopyLabel = 'bsv.targets.copyLabel',
+  TargetsFilter = 'bsv.targets.filter',
+  TargetsReveal = 'bsv.targets.reveal',
+  TargetsRun = 'bsv.targets.run',
+  TargetsTest = 'bsv.targets.test',
   Test = 'bsv.bzl.test',
   UiLabel = 'bsv.bzl.ui.label',
 }
@@ -0,0 +1,851 @@
+import * as vscode from 'vscode';
+import * as fs from 'graceful-fs';
+import path = require('path');
+import { BuildRule, parseBuildRules } from './buildFile';
+import { DepsSettings } from './configuration';
+import { CommandName } from './constants';
+import { BzlLanguageClient } from './lsp';
+import { Status } from './status';
+
+/**
+ * The languages whose imports are analyzed.
+ */
+export type Language = 'go' | 'java' | 'py' | 'proto';
+
+/**
+ * The names of BUILD files, in order of precedence.
+ */
+const buildFileNames = ['BUILD.bazel', 'BUILD'];
+
+/**
+ * Returns the language of the rule kind, if supported.
+ */
+export function ruleLanguage(kind: string): Language | undefined {
+  if (/^go_(library|binary|test)$/.test(kind)) {
+    return 'go';
+  }
+  if (/^java_(library|binary|test)$/.test(kind)) {
+    return 'java';
+  }
+  if (/^py_(library|binary|test)$/.test(kind)) {
+    return 'py';
+  }
+  if (kind === 'proto_library') {
+    return 'proto';
+  }
+  return undefined;
+}
+
+/**
+ * Returns true if rules of the kind provide imports to other rules of the
+ * language.
+ */
+export function isLibraryKind(kind: string, lang: Language): boolean {
+  return kind === (lang === 'proto' ? 'proto_library' : `${lang}_library`);
+}
+
+/**
+ * Returns the absolute form of the label, relative to the given package.
+ */
+export function normalizeLabel(label: string, pkg: string): string {
+  if (label.startsWith('@//')) {
+    label = label.slice(1);
+  }
+  if (label.startsWith('@')) {
+    return label;
+  }
+  if (label.startsWith(':')) {
+    return `//${pkg}${label}`;
+  }
+  if (!label.startsWith('//')) {
+    return `//${pkg}:${label}`;
+  }
+  if (label.includes(':')) {
+    return label;
+  }
+  return `${label}:${path.posix.basename(label)}`;
+}
+
+/**
+ * Returns the package-relative filename of a srcs entry, or undefined if it
+ * refers to another package.
+ */
+function sourceFile(src: string, pkg: string): string | undefined {
+  if (src.startsWith('@')) {
+    return undefined;
+  }
+  if (src.startsWith('//')) {
+    const colon = src.indexOf(':');
+    return colon >= 0 && src.slice(2, colon) === pkg ? src.slice(colon + 1) : undefined;
+  }
+  return src.startsWith(':') ? src.slice(1) : src;
+}
+
+/**
+ * Returns the import paths of a Go source file.
+ */
+export function parseGoImports(content: string): string[] {
+  const imports: string[] = [];
+  const text = content.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+  const re = /^\s*import\s*(?:\(([^)]*)\)|(?:[\w.]+\s+)?"([^"]+)")/gm;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text))) {
+    if (match[2]) {
+      imports.push(match[2]);
+      continue;
+    }
+    const spec = /"([^"]+)"/g;
+    let m: RegExpExecArray | null;
+    while ((m = spec.exec(match[1]))) {
+      imports.push(m[1]);
+    }
+  }
+  return imports;
+}
+
+/**
+ * Returns the package and the imported classes of a Java source file.  Static
+ * imports are reduced to their class; wildcard imports are skipped.
+ */
+export function parseJavaImports(content: string): {
+  pkg?: string;
+  imports: string[];
+  wildcards: string[];
+} {
+  const pkg = /^\s*package\s+([\w.]+)\s*;/m.exec(content);
+  const imports: string[] = [];
+  // the packages imported with "import pkg.*", whose classes are unknown
+  const wildcards: string[] = [];
+  const re = /^\s*import\s+(static\s+)?([\w.]+?)(\.\*)?\s*;/gm;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(content))) {
+    if (match[3] && !match[1]) {
+      wildcards.push(match[2]);
+      continue;
+    }
+    const name = match[1] && !match[3] ? match[2].replace(/\.[^.]+$/, '') : match[2];
+    imports.push(name);
+  }
+  return { pkg: pkg?.[1], imports, wildcards };
+}
+
+/**
+ * A python import statement: "import module" or "from module import names".
+ */
+export interface PythonImport {
+  module: string;
+  names: string[];
+  // the number of leading dots of a relative import
+  level: number;
+}
+
+/**
+ * Returns the imports of a Python source file.
+ */
+export function parsePythonImports(content: string): PythonImport[] {
+  const imports: PythonImport[] = [];
+  const text = content.replace(/\\\r?\n/g, ' ');
+  const re =
+    /^[ \t]*(?:from[ \t]+(\.*)([\w.]*)[ \t]+import[ \t]+(\([^)]*\)|[^#\n]+)|import[ \t]+([^#\n]+))/gm;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text))) {
+    const names = (match[3] || match[4])
+      .replace(/[()]/g, '')
+      .split(',')
+      .map(n => n.trim().split(/\s+/)[0])
+      .filter(n => n && n !== '*');
+    if (match[4]) {
+      names.forEach(module => imports.push({ module, names: [], level: 0 }));
+    } else {
+      imports.push({ module: match[2], names, level: match[1].length });
+    }
+  }
+  return imports;
+}
+
+/**
+ * Returns the imported files of a .proto file.
+ */
+export function parseProtoImports(content: string): string[] {
+  const imports: string[] = [];
+  const re = /^\s*import\s+(?:public\s+|weak\s+)?"([^"]+)"\s*;/gm;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(content))) {
+    imports.push(match[1]);
+  }
+  return imports;
+}
+
+/**
+ * An import of a source file, with the workspace-relative locations that may
+ * satisfy it.
+ */
+export interface ImportCandidates {
+  // the import as written in the source
+  name: string;
+  // candidate workspace-relative files, for file-based languages
+  files?: string[];
+  // the package directory and import path, for Go
+  goPackage?: { dir: string; importpath: string };
+}
+
+/**
+ * Returns the imports of the source file that may be provided by the
+ * workspace.  Imports of the standard library or of external repositories
+ * are omitted.
+ *
+ * @param relpath The workspace-relative path of the source file.
+ * @param goPrefix The import path prefix of the workspace (gazelle:prefix).
+ */
+export function importCandidates(
+  lang: Language,
+  relpath: string,
+  content: string,
+  goPrefix?: string
+): ImportCandidates[] {
+  const dir = path.posix.dirname(relpath);
+  switch (lang) {
+    case 'go':
+      if (!goPrefix) {
+        return [];
+      }
+      return parseGoImports(content)
+        .filter(p => p === goPrefix || p.startsWith(goPrefix + '/'))
+        .map(p => ({ name: p, goPackage: { dir: p.slice(goPrefix.length + 1), importpath: p } }));
+    case 'java': {
+      const { pkg, imports } = parseJavaImports(content);
+      const pkgDir = (pkg || '').split('.').join('/');
+      if (pkgDir && !(dir === pkgDir || dir.endsWith('/' + pkgDir))) {
+        return [];
+      }
+      const root = dir.slice(0, dir.length - pkgDir.length).replace(/\/$/, '');
+      return imports.map(name => {
+        const parts = name.split('.');
+        const files: string[] = [];
+        // nested classes are imported as outer.Inner
+        for (let n = parts.length; n > 1; n--) {
+          files.push(path.posix.join(root, ...parts.slice(0, n)) + '.java');
+        }
+        return { name, files };
+      });
+    }
+    case 'py':
+      return parsePythonImports(content).map(imp => {
+        let base = '';
+        if (imp.level > 0) {
+          base = dir === '.' ? '' : dir;
+          for (let i = 1; i < imp.level; i++) {
+            base = path.posix.dirname(base) === '.' ? '' : path.posix.dirname(base);
+          }
+        }
+        const module = path.posix.join(base || '.', ...imp.module.split('.').filter(p => p));
+        const files = [`${module}.py`, `${module}/__init__.py`];
+        imp.names.forEach(n => files.push(`${module}/${n}.py`));
+        const name = '.'.repeat(imp.level) + imp.module;
+        return { name, files: files.map(f => path.posix.normalize(f)) };
+      });
+    case 'proto':
+      return parseProtoImports(content).map(name => ({ name, files: [name] }));
+  }
+}
+
+/**
+ * Returns the import path prefix declared by a "# gazelle:prefix" directive
+ * or the module line of a go.mod file.
+ */
+export function parseGoPrefix(content: string): string | undefined {
+  const match = /^\s*#\s*gazelle:prefix\s+(\S+)/m.exec(content) || /^module\s+(\S+)/m.exec(content);
+  return match?.[1];
+}
+
+/**
+ * The type of a dependency problem.
+ */
+export type DepsProblem = 'missing' | 'unused';
+
+/**
+ * A dependency problem of a rule.
+ */
+export interface DepsFinding {
+  problem: DepsProblem;
+  // the absolute label of the rule
+  target: string;
+  // the absolute label of the dependency to add or remove
+  dep: string;
+  // the import and the source file that requires a missing dependency
+  importName?: string;
+  source?: string;
+  // the offsets of the BUILD file to report the problem at
+  start: number;
+  end: number;
+}
+
+/**
+ * A rule that could not be analyzed.
+ */
+export interface SkippedRule {
+  // the absolute label of the rule, or its kind if the name is not literal
+  target: string;
+  reason: string;
+  // the offsets of the BUILD file to report it at
+  start: number;
+  end: number;
+}
+
+interface PackageRules {
+  filename: string;
+  rules: BuildRule[];
+}
+
+/**
+ * DepsResolver compares the declared deps of rules with the imports of their
+ * sources.  Parsed BUILD files are cached for the lifetime of the resolver.
+ */
+export class DepsResolver {
+  private packages = new Map<string, Promise<PackageRules | undefined>>();
+  private goPrefix: Promise<string | undefined> | undefined;
+  // the rules that analyzeRule could not analyze, and why
+  readonly skipped: SkippedRule[] = [];
+
+  /**
+   * @param root The workspace directory.
+   * @param kinds Overrides the kinds of rules by label, such as the kinds
+   * reported by the language server.
+   */
+  constructor(private readonly root: string, private readonly kinds = new Map<string, string>()) {}
+
+  private async exists(relpath: string): Promise<boolean> {
+    try {
+      return (await fs.promises.stat(path.join(this.root, relpath))).isFile();
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Uses the given content of the BUILD file of the package rather than the
+   * file on disk, such as the text of an open document.
+   */
+  setPackage(pkg: string, filename: string, content: string) {
+    this.packages.set(pkg, Promise.resolve({ filename, rules: parseBuildRules(content) }));
+  }
+
+  /**
+   * Returns the parsed BUILD file of the package, if any.
+   */
+  getPackage(pkg: string): Promise<PackageRules | undefined> {
+    let result = this.packages.get(pkg);
+    if (!result) {
+      result = (async () => {
+        for (const name of buildFileNames) {
+          const filename = path.join(this.root, pkg, name);
+          try {
+            const content = await fs.promises.readFile(filename, 'utf8');
+            return { filename, rules: parseBuildRules(content) };
+          } catch (e) {
+            continue;
+          }
+        }
+        return undefined;
+      })();
+      this.packages.set(pkg, result);
+    }
+    return result;
+  }
+
+  /**
+   * Returns the package that contains the workspace-relative file.
+   */
+  async packageOf(relpath: string): Promise<string | undefined> {
+    let dir = path.posix.dirname(relpath);
+    for (;;) {
+      const pkg = dir === '.' ? '' : dir;
+      if (await this.getPackage(pkg)) {
+        return pkg;
+      }
+      if (!pkg) {
+        return undefined;
+      }
+      dir = path.posix.dirname(dir);
+    }
+  }
+
+  kindOf(rule: BuildRule, pkg: string): string {
+    return (rule.name && this.kinds.get(`//${pkg}:${rule.name}`)) || rule.kind;
+  }
+
+  getGoPrefix(): Promise<string | undefined> {
+    if (!this.goPrefix) {
+      this.goPrefix = (async () => {
+        for (const name of [...buildFileNames, 'go.mod']) {
+          try {
+            const prefix = parseGoPrefix(
+              await fs.promises.readFile(path.join(this.root, name), 'utf8')
+            );
+            if (prefix) {
+              return prefix;
+            }
+          } catch (e) {
+            continue;
+          }
+        }
+        return undefined;
+      })();
+    }
+    return this.goPrefix;
+  }
+
+  /**
+   * Returns the labels of the library rules that provide the import.
+   */
+  async providers(lang: Language, candidates: ImportCandidates): Promise<string[]> {
+    if (candidates.goPackage) {
+      const { dir, importpath } = candidates.goPackage;
+      const rules = ((await this.getPackage(dir))?.rules || []).filter(r =>
+        isLibraryKind(this.kindOf(r, dir), lang)
+      );
+      const withPath = rules.filter(
+        r => r.attrs.get('importpath')?.values[0]?.value === importpath
+      );
+      const matched = withPath.length ? withPath : rules.filter(r => !r.attrs.has('importpath'));
+      return matched.filter(r => r.name).map(r => `//${dir}:${r.name}`);
+    }
+    for (const file of candidates.files || []) {
+      if (!(await this.exists(file))) {
+        continue;
+      }
+      const pkg = await this.packageOf(file);
+      if (pkg === undefined) {
+        return [];
+      }
+      const rel = pkg ? file.slice(pkg.length + 1) : file;
+      const pkgRules = (await this.getPackage(pkg))!.rules;
+      return pkgRules
+        .filter(
+          r =>
+            r.name &&
+            isLibraryKind(this.kindOf(r, pkg), lang) &&
+            r.attrs.get('srcs')?.values.some(s => sourceFile(s.value, pkg) === rel)
+        )
+        .map(r => `//${pkg}:${r.name}`);
+    }
+    return [];
+  }
+
+  /**
+   * Analyzes the rules of the package.  Rules of unsupported languages and
+   * rules whose srcs or deps are not literal lists are skipped; those that
+   * appear to have sources of a supported language are added to skipped.
+   */
+  async analyzePackage(pkg: string, token?: vscode.CancellationToken): Promise<DepsFinding[]> {
+    const rules = (await this.getPackage(pkg))?.rules || [];
+    const findings: DepsFinding[] = [];
+    for (const rule of rules) {
+      if (token?.isCancellationRequested) {
+        break;
+      }
+      findings.push(...(await this.analyzeRule(pkg, rules, rule)));
+    }
+    return findings;
+  }
+
+  async analyzeRule(pkg: string, rules: BuildRule[], rule: BuildRule): Promise<DepsFinding[]> {
+    const kind = this.kindOf(rule, pkg);
+    const lang = ruleLanguage(kind);
+    const skip = (reason: string) => {
+      this.skipped.push({
+        target: rule.name ? `//${pkg}:${rule.name}` : kind,
+        reason,
+        start: rule.start,
+        end: rule.start + rule.kind.length,
+      });
+      return [];
+    };
+    if (!lang) {
+      const srcs = rule.attrs.get('srcs')?.values || [];
+      if (srcs.some(s => /\.(go|java|py|proto)$/.test(s.value))) {
+        return skip(
+          `the kind ${kind} is not supported; the kinds of rules declared by macros are ` +
+            'only known when the Bzl language server is ready'
+        );
+      }
+      return [];
+    }
+    if (!rule.name) {
+      return skip('its name is not a literal string');
+    }
+    const target = `//${pkg}:${rule.name}`;
+
+    // go rules compile the sources of the embedded rules along with their own.
+    const self = new Set([target]);
+    const merged = [rule];
+    for (const embed of rule.attrs.get('embed')?.values || []) {
+      const label = normalizeLabel(embed.value, pkg);
+      const embedded = rules.find(r => r.name && `//${pkg}:${r.name}` === label);
+      self.add(label);
+      if (embedded) {
+        merged.push(embedded);
+      }
+    }
+    for (const r of merged) {
+      for (const attr of ['srcs', 'deps']) {
+        if (!(r.attrs.get(attr)?.literal ?? true)) {
+          return skip(
+            `the ${attr} attribute of ${
+              r === rule ? 'the rule' : `//${pkg}:${r.name}`
+            } is not a literal list`
+          );
+        }
+      }
+    }
+
+    const declared = new Set<string>();
+    merged.forEach(r =>
+      r.attrs.get('deps')?.values.forEach(d => declared.add(normalizeLabel(d.value, pkg)))
+    );
+
+    const goPrefix = lang === 'go' ? await this.getGoPrefix() : undefined;
+    const used = new Set<string>();
+    const findings: DepsFinding[] = [];
+    const missing = new Set<string>();
+    // java classes of the same package and of wildcard imports are used without
+    // a (resolvable) import, so the deps that provide them cannot be told apart
+    // from unused ones.
+    const javaPackages = new Set<string>();
+    let wildcard = false;
+    const deps = rule.attrs.get('deps');
+    // the embedded rules come first: their missing deps are reported on them
+    // rather than on this rule.
+    for (const r of merged.slice(1).concat([rule])) {
+      for (const src of r.attrs.get('srcs')?.values || []) {
+        const file = sourceFile(src.value, pkg);
+        if (!file || !/\.(go|java|py|proto)$/.test(file)) {
+          continue;
+        }
+        const relpath = pkg ? `${pkg}/${file}` : file;
+        let content: string;
+        try {
+          content = await fs.promises.readFile(path.join(this.root, relpath), 'utf8');
+        } catch (e) {
+          // generated or missing source
+          continue;
+        }
+        if (lang === 'java') {
+          const { pkg: javaPackage, wildcards } = parseJavaImports(content);
+          javaPackages.add(javaPackage || '');
+          wildcard = wildcard || wildcards.length > 0;
+        }
+        for (const candidates of importCandidates(lang, relpath, content, goPrefix)) {
+          const providers = await this.providers(lang, candidates);
+          if (!providers.length || providers.some(p => self.has(p))) {
+            continue;
+          }
+          const provider = providers.find(p => declared.has(p));
+          if (provider) {
+            used.add(provider);
+            continue;
+          }
+          if (missing.has(providers[0])) {
+            continue;
+          }
+          missing.add(providers[0]);
+          if (r !== rule) {
+            continue;
+          }
+          findings.push({
+            problem: 'missing',
+            target,
+            dep: providers[0],
+            importName: candidates.name,
+            source: file,
+            start: deps ? deps.start : rule.start,
+            end: deps ? deps.end : rule.start + rule.kind.length,
+          });
+        }
+      }
+    }
+
+    if (wildcard) {
+      return findings;
+    }
+    for (const dep of deps?.values || []) {
+      const label = normalizeLabel(dep.value, pkg);
+      if (used.has(label) || label.startsWith('@') || !(await this.isLibrary(label, lang))) {
+        continue;
+      }
+      if (lang === 'java' && (await this.javaPackagesOf(label)).some(p => javaPackages.has(p))) {
+        continue;
+      }
+      findings.push({ problem: 'unused', target, dep: label, start: dep.start, end: dep.end });
+    }
+    return findings;
+  }
+
+  /**
+   * Returns true if the label is a library rule of the language in the
+   * workspace.  Dependencies of other kinds cannot be checked and are assumed
+   * to be used.
+   */
+  async isLibrary(label: string, lang: Language): Promise<boolean> {
+    const colon = label.indexOf(':');
+    const pkg = label.slice(2, colon);
+    const name = label.slice(colon + 1);
+    const rule = (await this.getPackage(pkg))?.rules.find(r => r.name === name);
+    return !!rule && isLibraryKind(this.kindOf(rule, pkg), lang);
+  }
+
+  /**
+   * Returns the java packages declared by the sources of the rule.
+   */
+  async javaPackagesOf(label: string): Promise<string[]> {
+    const colon = label.indexOf(':');
+    const pkg = label.slice(2, colon);
+    const name = label.slice(colon + 1);
+    const rule = (await this.getPackage(pkg))?.rules.find(r => r.name === name);
+    const packages: string[] = [];
+    for (const src of rule?.attrs.get('srcs')?.values || []) {
+      const file = sourceFile(src.value, pkg);
+      if (!file || !file.endsWith('.java')) {
+        continue;
+      }
+      try {
+        const content = await fs.promises.readFile(path.join(this.root, pkg, file), 'utf8');
+        packages.push(parseJavaImports(content).pkg || '');
+      } catch (e) {
+        // generated or missing source
+        continue;
+      }
+    }
+    return packages;
+  }
+}
+
+/**
+ * Returns the diagnostic message of the finding.
+ */
+export function findingMessage(f: DepsFinding): string {
+  if (f.problem === 'missing') {
+    return `${f.target} is missing dependency ${f.dep}, which provides "${f.importName}" imported by ${f.source}`;
+  }
+  return `${f.target} does not use dependency ${f.dep}: none of its srcs import it`;
+}
+
+/**
+ * Returns the buildozer command that fixes the finding.
+ */
+export function findingFix(f: DepsFinding): string {
+  return `${f.problem === 'missing' ? 'add' : 'remove'} deps ${f.dep}`;
+}
+
+/**
+ * DepsDiagnostics reports unused and missing deps of the rules in BUILD files
+ * as diagnostics, with buildozer quick fixes.
+ */
+export class DepsDiagnostics implements vscode.CodeActionProvider, vscode.Disposable {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly diagnostics: vscode.DiagnosticCollection;
+  // the findings of each analyzed BUILD file, along with their diagnostics
+  private readonly findings = new Map<
+    string,
+    { diagnostic: vscode.Diagnostic; finding: DepsFinding }[]
+  >();
+
+  constructor(private readonly settings: DepsSettings, private readonly lsp: BzlLanguageClient) {
+    this.diagnostics = vscode.languages.createDiagnosticCollection('deps');
+    this.disposables.push(
+      this.diagnostics,
+      vscode.commands.registerCommand(CommandName.DepsAnalyze, this.handleCommandAnalyze, this),
+      vscode.languages.registerCodeActionsProvider({ language: 'bazel' }, this, {
+        providedCodeActionKinds: DepsDiagnostics.providedCodeActionKinds,
+      }),
+      vscode.workspace.onDidSaveTextDocument(this.handleDidSaveTextDocument, this),
+      vscode.workspace.onDidCloseTextDocument(doc => this.clear(doc.uri))
+    );
+  }
+
+  async handleCommandAnalyze(uri?: vscode.Uri): Promise<void> {
+    const cfg = await this.settings.get();
+    if (!cfg.enabled) {
+      vscode.window.showWarningMessage('deps analysis is disabled (bsv.bzl.deps.enabled)');
+      return;
+    }
+    const doc = uri
+      ? await vscode.workspace.openTextDocument(uri)
+      : vscode.window.activeTextEditor?.document;
+    if (!(doc && isBuildFile(doc.uri))) {
+      vscode.window.showWarningMessage('Open a BUILD file to analyze its dependencies');
+      return;
+    }
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Window,
+        title: `Analyzing deps of ${vscode.workspace.asRelativePath(doc.uri)}`,
+      },
+      () => this.analyze(doc)
+    );
+    if (result && result.findings === 0) {
+      vscode.window.showInformationMessage(
+        'No unused or missing dependencies found' +
+          (result.skipped ? ' (some rules were not analyzed, see the hints)' : '')
+      );
+    }
+  }
+
+  async handleDidSaveTextDocument(doc: vscode.TextDocument): Promise<void> {
+    if (!isBuildFile(doc.uri)) {
+      return;
+    }
+    const cfg = await this.settings.get();
+    if (cfg.enabled && (cfg.analyzeOnSave || this.findings.has(doc.uri.toString()))) {
+      await this.analyze(doc);
+    }
+  }
+
+  /**
+   * Analyzes the rules of the BUILD file and publishes the diagnostics, along
+   * with hints for the rules that were skipped.  Returns the number of
+   * findings and skipped rules, or undefined if it could not be analyzed.
+   */
+  async analyze(
+    doc: vscode.TextDocument
+  ): Promise<{ findings: number; skipped: number } | undefined> {
+    const folder = vscode.workspace.getWorkspaceFolder(doc.uri);
+    if (!folder) {
+      return undefined;
+    }
+    const root = folder.uri.fsPath;
+    const pkg = path.relative(root, path.dirname(doc.uri.fsPath)).split(path.sep).join('/');
+
+    // the language server knows the kinds of rules declared by macros.
+    const kinds = new Map<string, string>();
+    if (this.lsp.status === Status.READY) {
+      try {
+        for (const lk of (await this.lsp.getLabelKindsInDocument(doc.uri)) || []) {
+          if (!lk.label.Repo) {
+            kinds.set(`//${lk.label.Pkg}:${lk.label.Name}`, lk.kind);
+          }
+        }
+      } catch (e) {
+        console.warn('deps: failed to get rule kinds', e);
+      }
+    }
+
+    const resolver = new DepsResolver(root, kinds);
+    // the document may have unsaved changes; its offsets are those of its text.
+    resolver.setPackage(pkg, doc.uri.fsPath, doc.getText());
+    let findings: DepsFinding[];
+    try {
+      findings = await resolver.analyzePackage(pkg);
+    } catch (e) {
+      vscode.window.showErrorMessage(`deps analysis failed: ${e instanceof Error ? e.message : e}`);
+      return undefined;
+    }
+
+    const entries = findings.map(finding => {
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(doc.positionAt(finding.start), doc.positionAt(finding.end)),
+        findingMessage(finding),
+        finding.problem === 'missing'
+          ? vscode.DiagnosticSeverity.Warning
+          : vscode.DiagnosticSeverity.Information
+      );
+      diagnostic.source = 'deps';
+      diagnostic.code = `${finding.problem}-dep`;
+      if (finding.problem === 'unused') {
+        diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+      }
+      return { diagnostic, finding };
+    });
+    const skipped = resolver.skipped.map(s => {
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(doc.positionAt(s.start), doc.positionAt(s.end)),
+        `${s.target} was not analyzed: ${s.reason}`,
+        vscode.DiagnosticSeverity.Hint
+      );
+      diagnostic.source = 'deps';
+      diagnostic.code = 'skipped-rule';
+      return diagnostic;
+    });
+    this.findings.set(doc.uri.toString(), entries);
+    this.diagnostics.set(doc.uri, entries.map(e => e.diagnostic).concat(skipped));
+    return { findings: entries.length, skipped: skipped.length };
+  }
+
+  clear(uri: vscode.Uri) {
+    this.findings.delete(uri.toString());
+    this.diagnostics.delete(uri);
+  }
+
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const entries = this.findings.get(document.uri.toString()) || [];
+    const actions: vscode.CodeAction[] = [];
+    const targets = new Set<string>();
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== 'deps') {
+        continue;
+      }
+      // diagnostics are passed back as copies; match them by range and message.
+      const entry = entries.find(
+        e =>
+          e.diagnostic.range.isEqual(diagnostic.range) &&
+          e.diagnostic.message === diagnostic.message
+      );
+      if (!entry) {
+        continue;
+      }
+      const command = findingFix(entry.finding);
+      const action = new vscode.CodeAction(
+        `buildozer '${command}' ${entry.finding.target}`,
+        vscode.CodeActionKind.QuickFix
+      );
+      action.diagnostics = [diagnostic];
+      // an unused dep may still be needed by classes that are not imported,
+      // or at runtime; only adding a missing dep is safe to apply blindly.
+      action.isPreferred = entry.finding.problem === 'missing';
+      action.command = {
+        title: action.title,
+        command: CommandName.BuildozerEdit,
+        arguments: [command, [entry.finding.target]],
+      };
+      actions.push(action);
+      targets.add(entry.finding.target);
+    }
+
+    // offer to fix all problems of each rule at once.
+    for (const target of targets) {
+      const all = entries.filter(e => e.finding.target === target);
+      if (all.length < 2) {
+        continue;
+      }
+      const action = new vscode.CodeAction(
+        `Fix all ${all.length} dependency problems of ${target}`,
+        vscode.CodeActionKind.QuickFix
+      );
+      action.diagnostics = all.map(e => e.diagnostic);
+      action.command = {
+        title: action.title,
+        command: CommandName.BuildozerEdit,
+        arguments: [all.map(e => findingFix(e.finding)), [target]],
+      };
+      actions.push(action);
+    }
+    return actions;
+  }
+
+  public dispose() {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables.length = 0;
+  }
+}
+
+function isBuildFile(uri: vscode.Uri): boolean {
+  return uri.scheme === 'file' && buildFileNames.includes(path.basename(uri.fsPath));
+}
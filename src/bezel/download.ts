@@ -3,11 +3,19 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as os from 'os';
+import * as path from 'path';
 
 import { IFileDownloader } from '../vendor/microsoft/vscode-file-downloader/IFileDownloader';
 import FileDownloader from '../vendor/microsoft/vscode-file-downloader/FileDownloader';
 import { Container } from '../container';
 import HttpRequestHandler from '../vendor/microsoft/vscode-file-downloader/networking/HttpRequestHandler';
+import {
+  fetchToolAsset,
+  localFilePath,
+  provisionTool,
+  ToolsConfiguration,
+  verifyInstalledTool,
+} from '../tools';
 
 /**
  * Configuration type that describes a desired asset from bzl.io.
@@ -74,25 +82,46 @@ export class BzlAssetDownloader {
    * download it and report progress.  Saves to a path like
    * /Users/pcj/Library/Application
    * Support/Code/User//globalStorage/stackbuild.bazel-stack-vscode/bsv.buildifier/4.2.3/buildozer-darwin-amd64.
+   * A file fetched from a local mirror or a file:// base URL is saved to
+   * bsv.bzl/<release>/bzl.
+   *
+   * @param tools The tool manifest and mirror to verify and fetch the file with
    */
   async getOrDownloadFile(
     ctx: vscode.ExtensionContext,
     mode: number,
-    token: vscode.CancellationToken
+    token: vscode.CancellationToken,
+    tools?: ToolsConfiguration
   ): Promise<vscode.Uri> {
     const filename = this.getFilename();
 
-    let fileUri = await this.downloaderApi.tryGetItem(filename, ctx);
+    const fileUri = await this.downloaderApi.tryGetItem(filename, ctx);
     if (fileUri !== undefined) {
+      await verifyInstalledTool(tools, 'bzl', this.cfg.release, fileUri.fsPath);
       return fileUri;
     }
 
     const url = this.getDownloadURL();
+    const basename = this.getBasename();
+    const req = {
+      tool: 'bzl',
+      version: this.cfg.release,
+      assetName: basename,
+      filename: path.join(ctx.globalStorageUri.fsPath, 'bsv.bzl', this.cfg.release, basename),
+      mode,
+    };
 
     try {
-      fileUri = await this.downloadWithProgress(ctx, token, filename, url);
-      fs.chmodSync(fileUri.fsPath, mode);
-      return fileUri;
+      const executable = await provisionTool(tools, req, async sha256 => {
+        if (localFilePath(url)) {
+          await fetchToolAsset(url, req.filename, mode, sha256);
+          return req.filename;
+        }
+        const downloaded = await this.downloadWithProgress(ctx, token, filename, url);
+        fs.chmodSync(downloaded.fsPath, mode);
+        return downloaded.fsPath;
+      });
+      return vscode.Uri.file(executable);
     } catch (e) {
       throw new Error(`${url}: ${e instanceof Error ? e.message : JSON.stringify(e)}`);
     }
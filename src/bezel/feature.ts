@@ -6,19 +6,32 @@ import {
   SubscriptionSettings,
   BazelConfiguration,
   BazelSettings,
+  ComponentConfiguration,
   BuildEventServiceSettings,
   BzlSettings,
   CodeSearchSettings,
+  DepsSettings,
   InvocationsConfiguration,
   InvocationsSettings,
   LanguageServerSettings,
+  LocalBuildEventServiceSettings,
   RemoteCacheSettings,
   StarlarkDebuggerSettings,
 } from './configuration';
 import { CommandName, Memento } from './constants';
 import { Invocations } from './invocations';
 import { BezelWorkspaceView } from './workspaceView';
+import { InvocationHistory } from './history';
+import { RemoteCacheExplorer } from './remoteCacheExplorer';
+import { RemoteCacheStatsCollector } from './remoteCacheStats';
 import { CodeSearch } from './codesearch';
+import { ProfileViewer } from './profile';
+import { DepsDiagnostics } from './deps';
+import { TargetsView } from './targetsView';
+import { QueryRunner } from './query';
+import { DependencyGraph } from './queryGraph';
+import { QueryConsole } from './queryConsole';
+import { QueryNotebook } from './queryNotebook';
 import { BzlLanguageClient } from './lsp';
 import { Buildifier } from '../buildifier/buildifier';
 import { BuildifierSettings } from '../buildifier/settings';
@@ -34,6 +47,10 @@ import { ConfigurationContext } from '../common';
 import findUp = require('find-up');
 import path = require('path');
 import { Buildozer } from '../buildozer/buildozer';
+import { BuildozerPrintTable } from '../buildozer/printTable';
+import { BazelTestController } from './testing';
+import { LocalBuildEventService } from './besServer';
+import { ToolsManager, ToolsSettings } from '../tools';
 
 export const BzlFeatureName = 'bsv.bzl';
 
@@ -58,7 +75,7 @@ export class BzlFeature implements vscode.Disposable {
   // private readonly workspaceFolder: vscode.Uri | undefined;
   private readonly components: RunnableComponent<any>[] = [];
   private readonly invocationsSettings: Settings<InvocationsConfiguration>;
-  private readonly bazelSettings: Settings<BazelConfiguration>;
+  public readonly bazelSettings: Settings<BazelConfiguration>;
   // these can be undefined if we don't have a WORKSPACE file
   private readonly starlarkDebugger: StarlarkDebugger | undefined;
   private readonly bzl: Bzl | undefined;
@@ -88,8 +105,10 @@ export class BzlFeature implements vscode.Disposable {
 
     const bazelSettings = (this.bazelSettings = this.addDisposable(new BazelSettings(configCtx, 'bsv.bazel')));
 
+    const toolsSettings = this.addDisposable(new ToolsSettings(configCtx, 'bsv.tools'));
+
     const bzlSettings = this.addDisposable(
-      new BzlSettings(configCtx, 'bsv.bzl.server', ctx, this.bazelSettings)
+      new BzlSettings(configCtx, 'bsv.bzl.server', ctx, this.bazelSettings, toolsSettings)
     );
 
     const subscriptionSettings = this.addDisposable(
@@ -100,10 +119,13 @@ export class BzlFeature implements vscode.Disposable {
       new RemoteCacheSettings(configCtx, 'bsv.bzl.remoteCache', bzlSettings)
     );
 
-    const buildifierSettings = this.addDisposable(new BuildifierSettings(configCtx, 'bsv.buildifier'));
-    const buildozerSettings = this.addDisposable(new BuildozerSettings(configCtx, 'bsv.buildozer', buildifierSettings));
+    const buildifierSettings = this.addDisposable(new BuildifierSettings(configCtx, 'bsv.buildifier', toolsSettings, bazelSettings));
+    const buildozerSettings = this.addDisposable(new BuildozerSettings(configCtx, 'bsv.buildozer', buildifierSettings, toolsSettings, bazelSettings));
 
     const besSettings = this.addDisposable(new BuildEventServiceSettings(configCtx, 'bsv.bes', bzlSettings));
+    const localBesSettings = this.addDisposable(
+      new LocalBuildEventServiceSettings(configCtx, 'bsv.localBes')
+    );
 
     const debugSettings = this.addDisposable(
       new StarlarkDebuggerSettings(configCtx, 'bsv.bzl.starlarkDebugger', bzlSettings)
@@ -111,6 +133,8 @@ export class BzlFeature implements vscode.Disposable {
 
     const codeSearchSettings = this.addDisposable(new CodeSearchSettings(configCtx, 'bsv.bzl.codesearch'));
 
+    const depsSettings = this.addDisposable(new DepsSettings(configCtx, 'bsv.bzl.deps'));
+
     const invocationsSettings = (this.invocationsSettings = this.addDisposable(
       new InvocationsSettings(configCtx, 'bsv.bzl.invocation', subscriptionSettings)
     ));
@@ -123,6 +147,19 @@ export class BzlFeature implements vscode.Disposable {
 
     const subscription = this.addComponent(new Subscription(subscriptionSettings, bzlSettings));
 
+    this.addDisposable(
+      new ToolsManager(configCtx, toolsSettings, async () => {
+        // a tool that failed to configure keeps all of its versions
+        const version = <T extends ComponentConfiguration>(settings: Settings<T>, get: (cfg: T) => string) =>
+          settings.get().then(get, () => undefined);
+        return {
+          buildifier: await version(buildifierSettings, cfg => cfg.githubRelease),
+          buildozer: await version(buildozerSettings, cfg => cfg.githubRelease),
+          bzl: await version(bzlSettings, cfg => cfg.release),
+        };
+      })
+    );
+
     if (workspaceFolder) {
       const bzl = (this.bzl = this.addComponent(
         new Bzl(
@@ -134,6 +171,7 @@ export class BzlFeature implements vscode.Disposable {
         )
       ));
       const bes = this.addComponent(new BuildEventService(besSettings, bzl));
+      const localBes = this.addComponent(new LocalBuildEventService(localBesSettings, bzl.bepRunner));
       const bazelServer = (this.bazelServer = this.addComponent(
         new BazelServer(bazelSettings, bzl)
       ));
@@ -143,13 +181,29 @@ export class BzlFeature implements vscode.Disposable {
       const invocations = this.invocations = this.addDisposable(
         new Invocations(invocationsSettings, lspClient, bzl, this.api)
       );
+      this.addDisposable(new BazelTestController(bazelSettings, lspClient, bzl));
+      this.addDisposable(new DepsDiagnostics(depsSettings, lspClient));
+      const history = this.addDisposable(new InvocationHistory(bzl, localBes.store));
       const buildifier = this.addComponent(new Buildifier(buildifierSettings));
-      const buildozer = this.addComponent(new Buildozer(buildozerSettings));
+      const buildozer = this.addComponent(new Buildozer(buildozerSettings, bzl, lspClient, configCtx.workspaceState));
+      this.addDisposable(new BuildozerPrintTable(buildozerSettings, configCtx.extensionUri));
       const remoteCache = this.addComponent(new RemoteCache(remoteCacheSettings));
+      const remoteCacheExplorer = this.addDisposable(new RemoteCacheExplorer(remoteCache));
+      const remoteCacheStats = this.addDisposable(
+        new RemoteCacheStatsCollector(bzl.bepRunner, remoteCacheSettings, configCtx.workspaceState)
+      );
       const starlarkDebugger = (this.starlarkDebugger = this.addComponent(
         new StarlarkDebugger(debugSettings, bazelSettings, bzlSettings, workspaceFolder)
       ));
       const codeSearch = this.addComponent(new CodeSearch(codeSearchSettings, bzl));
+      this.addDisposable(new ProfileViewer(bzl, configCtx.extensionUri));
+      this.addDisposable(new TargetsView(bzl));
+      const queryRunner = new QueryRunner(bzl, bazelSettings);
+      this.addDisposable(new DependencyGraph(queryRunner, lspClient, configCtx.extensionUri));
+      this.addDisposable(
+        new QueryConsole(queryRunner, lspClient, configCtx.workspaceState, configCtx.extensionUri)
+      );
+      this.addDisposable(new QueryNotebook(queryRunner));
       this.addDisposable(
         new BezelWorkspaceView(
           lspClient,
@@ -162,7 +216,11 @@ export class BzlFeature implements vscode.Disposable {
           bazelServer,
           starlarkDebugger,
           codeSearch,
-          invocations
+          invocations,
+          localBes,
+          history,
+          remoteCacheExplorer,
+          remoteCacheStats
         )
       );
     }
@@ -253,22 +311,29 @@ export class BzlFeature implements vscode.Disposable {
       return;
     }
 
-    if (this.invocations.status !== Status.READY) {
+    // Don't run a debugger process outside the terminal for now.
+    const dbg = args.some(arg => arg.indexOf('--experimental_skylark_debug') !== -1);
+    if (dbg) {
       return this.bazelServer.runInBazelTerminal(args);
     }
 
     const cfg = await this.invocationsSettings.get();
-    if (!cfg.invokeWithBuildEventStreaming) {
-      return this.bazelServer.runInBazelTerminal(args);
+    if (this.invocations.status === Status.READY && cfg.invokeWithBuildEventStreaming) {
+      return this.bzl.runWithEvents(args);
     }
 
-    // Don't run a debugger process outside the terminal for now.
-    const dbg = args.some(arg => arg.indexOf('--experimental_skylark_debug') !== -1);
-    if (dbg) {
-      return this.bazelServer.runInBazelTerminal(args);
+    if (cfg.invokeWithLocalBuildEventStreaming) {
+      return this.bzl.runLocalWithEvents(args);
     }
 
-    return this.bzl.runWithEvents(args);
+    return this.bazelServer.runInBazelTerminal(args);
+  }
+
+  /**
+   * Returns the release reported by bazel info (release 5.0.0), if known.
+   */
+  async getBazelRelease(): Promise<string | undefined> {
+    return (await this.bazelServer?.getBazelInfo())?.release;
   }
 
   /**
@@ -0,0 +1,643 @@
+import * as vscode from 'vscode';
+import * as luxon from 'luxon';
+import Long = require('long');
+import { timestampMillis } from '../common';
+import { BuildEvent as BuildEventStreamEvent } from '../proto/build_event_stream/BuildEvent';
+import { CommandHistory } from '../proto/build/stack/bezel/v1beta1/CommandHistory';
+import { Bzl } from './bzl';
+import { CommandName, ContextValue } from './constants';
+import { InvocationStore, StoredInvocation } from './invocationStore';
+import { Status } from './status';
+import { Expandable } from './workspaceView';
+
+/**
+ * The origin of a history entry.
+ */
+export enum HistorySource {
+  // recorded by the local build event service; build events are available.
+  Recorded = 'recorded',
+  // the command history of the bzl server; only arguments are available.
+  Bzl = 'bzl',
+}
+
+/**
+ * HistoryEntry is a past bazel command from either source.
+ */
+export interface HistoryEntry {
+  id: string;
+  source: HistorySource;
+  command: string;
+  // the full argument list, including the command name.
+  args: string[];
+  cwd: string;
+  timeMillis: number;
+  success?: boolean;
+  exitCode?: string;
+  // the number of times the command was run (bzl history only).
+  count?: number;
+  // the build event file (recorded invocations only).
+  eventsFile?: string;
+}
+
+/**
+ * HistoryFilter restricts the entries shown in the history view.
+ */
+export interface HistoryFilter {
+  command?: string;
+  success?: boolean;
+  sinceMillis?: number;
+  // substring that must occur in one of the arguments.
+  text?: string;
+}
+
+export function recordedHistoryEntry(inv: StoredInvocation, eventsFile: string): HistoryEntry {
+  return {
+    id: inv.invocationId,
+    source: HistorySource.Recorded,
+    command: inv.command,
+    args: [inv.command].concat(inv.patterns),
+    cwd: inv.workspaceDirectory,
+    timeMillis: inv.startTimeMillis,
+    success: inv.exitCode ? inv.success : undefined,
+    exitCode: inv.exitCode,
+    eventsFile: eventsFile,
+  };
+}
+
+export function bzlHistoryEntry(h: CommandHistory): HistoryEntry {
+  const args = h.arg || [];
+  return {
+    id: h.id!,
+    source: HistorySource.Bzl,
+    command: h.command || args[0] || '',
+    args: args,
+    cwd: h.cwd || '',
+    timeMillis: timestampMillis(h.updateTime || h.createTime),
+    count: h.count,
+  };
+}
+
+/**
+ * Returns the entries that match the filter, preserving order.
+ */
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+  return entries.filter(e => {
+    if (filter.command && e.command !== filter.command) {
+      return false;
+    }
+    if (filter.success !== undefined && e.success !== filter.success) {
+      return false;
+    }
+    if (filter.sinceMillis && e.timeMillis < filter.sinceMillis) {
+      return false;
+    }
+    if (filter.text && !e.args.some(a => a.includes(filter.text!))) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Returns a short description of the filter, or the empty string if it
+ * matches everything.
+ */
+export function describeHistoryFilter(filter: HistoryFilter): string {
+  const parts: string[] = [];
+  if (filter.command) {
+    parts.push(filter.command);
+  }
+  if (filter.success !== undefined) {
+    parts.push(filter.success ? 'succeeded' : 'failed');
+  }
+  if (filter.sinceMillis) {
+    parts.push(`since ${luxon.DateTime.fromMillis(filter.sinceMillis).toRelative()}`);
+  }
+  if (filter.text) {
+    parts.push(`"${filter.text}"`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * InvocationSummary is the outcome of an invocation, derived from its build
+ * events.
+ */
+export interface InvocationSummary {
+  command: string;
+  patterns: string[];
+  success?: boolean;
+  exitCode?: string;
+  startTimeMillis?: number;
+  durationMillis?: number;
+  // label -> success
+  targets: Map<string, boolean>;
+  // label -> test status (PASSED, FAILED, FLAKY, ...)
+  tests: Map<string, string>;
+  // "label mnemonic" of each failed action
+  failedActions: string[];
+}
+
+export function summarizeBuildEvents(events: BuildEventStreamEvent[]): InvocationSummary {
+  const summary: InvocationSummary = {
+    command: '',
+    patterns: [],
+    targets: new Map(),
+    tests: new Map(),
+    failedActions: [],
+  };
+
+  for (const e of events) {
+    switch (e.payload) {
+      case 'started':
+        summary.command = e.started!.command || '';
+        if (e.started!.startTimeMillis) {
+          summary.startTimeMillis = Long.fromValue(e.started!.startTimeMillis).toNumber();
+        }
+        break;
+      case 'expanded':
+        summary.patterns = e.id?.pattern?.pattern || [];
+        break;
+      case 'completed': {
+        const label = e.id?.targetCompleted?.label;
+        if (label) {
+          summary.targets.set(label, !!e.completed!.success);
+        }
+        break;
+      }
+      case 'aborted': {
+        const label = e.id?.targetCompleted?.label;
+        if (label) {
+          summary.targets.set(label, false);
+        }
+        break;
+      }
+      case 'testResult': {
+        const label = e.id?.testResult?.label;
+        // the summary, if present, supersedes the status of individual runs.
+        if (label && !summary.tests.has(label)) {
+          summary.tests.set(label, String(e.testResult!.status || 'NO_STATUS'));
+        }
+        break;
+      }
+      case 'testSummary': {
+        const label = e.id?.testSummary?.label;
+        if (label) {
+          summary.tests.set(label, String(e.testSummary!.overallStatus || 'NO_STATUS'));
+        }
+        break;
+      }
+      case 'action': {
+        const action = e.action!;
+        if (!action.success) {
+          const label = action.label || e.id?.actionCompleted?.label || '';
+          summary.failedActions.push(`${label} ${action.type || ''}`.trim());
+        }
+        break;
+      }
+      case 'finished': {
+        const finished = e.finished!;
+        summary.success = !!finished.overallSuccess;
+        summary.exitCode = finished.exitCode?.name;
+        if (finished.finishTimeMillis && summary.startTimeMillis) {
+          summary.durationMillis =
+            Long.fromValue(finished.finishTimeMillis).toNumber() - summary.startTimeMillis;
+        }
+        break;
+      }
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Renders a markdown report of the differences between two invocations.
+ */
+export function compareInvocationSummaries(
+  aName: string,
+  a: InvocationSummary,
+  bName: string,
+  b: InvocationSummary
+): string {
+  const lines: string[] = [`# ${aName} vs ${bName}`, ''];
+
+  lines.push(tableRow('', aName, bName));
+  lines.push('|---|---|---|');
+  lines.push(tableRow('Command', describeCommand(a), describeCommand(b)));
+  lines.push(tableRow('Result', a.exitCode || 'INCOMPLETE', b.exitCode || 'INCOMPLETE'));
+  lines.push(tableRow('Duration', describeDuration(a), describeDuration(b)));
+  lines.push(tableRow('Targets', `${a.targets.size}`, `${b.targets.size}`));
+  lines.push(tableRow('Tests', `${a.tests.size}`, `${b.tests.size}`));
+  lines.push(tableRow('Failed actions', `${a.failedActions.length}`, `${b.failedActions.length}`));
+
+  const status = (ok: boolean | undefined) => (ok === undefined ? '-' : ok ? 'success' : 'failure');
+  const targets = diffMaps(a.targets, b.targets, status);
+  const tests = diffMaps(a.tests, b.tests, s => s || '-');
+
+  appendSection(lines, 'Targets', aName, bName, targets);
+  appendSection(lines, 'Tests', aName, bName, tests);
+
+  const aFailed = new Set(a.failedActions);
+  const bFailed = new Set(b.failedActions);
+  const actions: string[][] = [];
+  for (const action of a.failedActions) {
+    if (!bFailed.has(action)) {
+      actions.push([action, 'failure', '-']);
+    }
+  }
+  for (const action of b.failedActions) {
+    if (!aFailed.has(action)) {
+      actions.push([action, '-', 'failure']);
+    }
+  }
+  appendSection(lines, 'Failed Actions', aName, bName, actions);
+
+  if (!(targets.length || tests.length || actions.length)) {
+    lines.push('', 'No differences in targets, tests or failed actions.');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Returns a markdown table row of the cells.  Pipes are escaped, such that
+ * they do not end the cell, and newlines are replaced by spaces.
+ */
+export function tableRow(...cells: string[]): string {
+  return `| ${cells.map(c => c.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')).join(' | ')} |`;
+}
+
+function describeCommand(s: InvocationSummary): string {
+  return ['`' + s.command].concat(s.patterns).join(' ') + '`';
+}
+
+function describeDuration(s: InvocationSummary): string {
+  if (s.durationMillis === undefined) {
+    return '-';
+  }
+  return luxon.Duration.fromMillis(s.durationMillis).toFormat('m:ss.SSS');
+}
+
+/**
+ * Returns [key, a, b] rows for each key whose (formatted) value differs.
+ */
+function diffMaps<T>(
+  a: Map<string, T>,
+  b: Map<string, T>,
+  format: (value: T | undefined) => string
+): string[][] {
+  const keys = Array.from(new Set(Array.from(a.keys()).concat(Array.from(b.keys())))).sort();
+  const rows: string[][] = [];
+  for (const key of keys) {
+    const av = format(a.get(key));
+    const bv = format(b.get(key));
+    if (av !== bv) {
+      rows.push([key, av, bv]);
+    }
+  }
+  return rows;
+}
+
+function appendSection(
+  lines: string[],
+  title: string,
+  aName: string,
+  bName: string,
+  rows: string[][]
+) {
+  if (!rows.length) {
+    return;
+  }
+  lines.push('', `## ${title}`, '', tableRow('', aName, bName), '|---|---|---|');
+  for (const [key, av, bv] of rows) {
+    lines.push(tableRow('`' + key + '`', av, bv));
+  }
+}
+
+/**
+ * InvocationHistory merges the command history of the bzl server with the
+ * invocations recorded by the local build event service.
+ */
+export class InvocationHistory implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+  private _filter: HistoryFilter = {};
+
+  constructor(private readonly bzl: Bzl, private readonly store: InvocationStore) {
+    this.disposables.push(this._onDidChange);
+    store.onDidChange(() => this._onDidChange.fire(), this, this.disposables);
+    bzl.onDidChangeStatus(() => this._onDidChange.fire(), this, this.disposables);
+
+    this.addCommand(CommandName.HistoryRefresh, this.handleCommandHistoryRefresh);
+    this.addCommand(CommandName.HistoryFilter, this.handleCommandHistoryFilter);
+    this.addCommand(CommandName.HistoryClearFilter, this.handleCommandHistoryClearFilter);
+    this.addCommand(CommandName.HistoryOpen, this.handleCommandHistoryOpen);
+    this.addCommand(CommandName.HistoryInvoke, this.handleCommandHistoryInvoke);
+    this.addCommand(CommandName.HistoryCompare, this.handleCommandHistoryCompare);
+    this.addCommand(CommandName.HistoryDelete, this.handleCommandHistoryDelete);
+  }
+
+  private addCommand(name: CommandName, command: (...args: any) => any) {
+    this.disposables.push(vscode.commands.registerCommand(name, command, this));
+  }
+
+  get filter(): HistoryFilter {
+    return this._filter;
+  }
+
+  /**
+   * Returns all entries, most recent first.  The filter is not applied.
+   */
+  async list(): Promise<HistoryEntry[]> {
+    const entries: HistoryEntry[] = [];
+    for (const inv of await this.store.list()) {
+      entries.push(recordedHistoryEntry(inv, this.store.eventsFile(inv.invocationId)));
+    }
+    if (this.bzl.status === Status.READY && this.bzl.client) {
+      try {
+        const history = await this.bzl.client.listCommandHistory(this.bzl.ws.cwd);
+        entries.push(...history.map(bzlHistoryEntry));
+      } catch (e) {
+        console.warn(`failed to list command history: ${e instanceof Error ? e.message : e}`);
+      }
+    }
+    entries.sort((a, b) => b.timeMillis - a.timeMillis);
+    return entries;
+  }
+
+  /**
+   * Returns the entries that match the current filter.
+   */
+  async listFiltered(): Promise<HistoryEntry[]> {
+    return filterHistory(await this.list(), this._filter);
+  }
+
+  async handleCommandHistoryRefresh(): Promise<void> {
+    this._onDidChange.fire();
+  }
+
+  async handleCommandHistoryClearFilter(): Promise<void> {
+    this._filter = {};
+    this._onDidChange.fire();
+  }
+
+  async handleCommandHistoryFilter(): Promise<void> {
+    const entries = await this.list();
+    const filter: HistoryFilter = {};
+
+    const commands = Array.from(new Set(entries.map(e => e.command).filter(c => !!c))).sort();
+    const command = await vscode.window.showQuickPick(
+      [{ label: 'Any command', command: undefined as string | undefined }].concat(
+        commands.map(c => ({ label: c, command: c }))
+      ),
+      { placeHolder: 'Filter history by command' }
+    );
+    if (!command) {
+      return;
+    }
+    filter.command = command.command;
+
+    const outcome = await vscode.window.showQuickPick(
+      [
+        { label: 'Any outcome', success: undefined as boolean | undefined },
+        { label: '$(pass) Succeeded', success: true },
+        { label: '$(error) Failed', success: false },
+      ],
+      { placeHolder: 'Filter history by outcome' }
+    );
+    if (!outcome) {
+      return;
+    }
+    filter.success = outcome.success;
+
+    const hour = 60 * 60 * 1000;
+    const since = await vscode.window.showQuickPick(
+      [
+        { label: 'Any time', millis: 0 },
+        { label: 'Last hour', millis: hour },
+        { label: 'Last 24 hours', millis: 24 * hour },
+        { label: 'Last 7 days', millis: 7 * 24 * hour },
+        { label: 'Last 30 days', millis: 30 * 24 * hour },
+      ],
+      { placeHolder: 'Filter history by date' }
+    );
+    if (!since) {
+      return;
+    }
+    filter.sinceMillis = since.millis ? Date.now() - since.millis : undefined;
+
+    const text = await vscode.window.showInputBox({
+      prompt: 'Filter history by target or argument (optional)',
+      placeHolder: '//foo:bar',
+    });
+    if (text === undefined) {
+      return;
+    }
+    filter.text = text.trim() || undefined;
+
+    this._filter = filter;
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Replays the build events of a recorded invocation as the current
+   * invocation.
+   */
+  async handleCommandHistoryOpen(item?: HistoryEntryItem): Promise<void> {
+    const entry = item?.entry || (await this.pickRecordedEntry('Select an invocation to open'));
+    if (!entry?.eventsFile) {
+      return;
+    }
+    return vscode.commands.executeCommand(
+      CommandName.InvocationOpenBuildEventFile,
+      vscode.Uri.file(entry.eventsFile)
+    );
+  }
+
+  async handleCommandHistoryInvoke(item: HistoryEntryItem): Promise<void> {
+    if (!(item?.entry && item.entry.args.length)) {
+      return;
+    }
+    return vscode.commands.executeCommand(CommandName.Invoke, item.entry.args);
+  }
+
+  async handleCommandHistoryCompare(item?: HistoryEntryItem): Promise<void> {
+    const a = item?.entry || (await this.pickRecordedEntry('Select the first invocation'));
+    if (!a) {
+      return;
+    }
+    const b = await this.pickRecordedEntry('Select an invocation to compare with', a);
+    if (!b) {
+      return;
+    }
+
+    try {
+      const [aEvents, bEvents] = await Promise.all([
+        this.bzl.bepRunner.readBuildEvents(a.eventsFile!),
+        this.bzl.bepRunner.readBuildEvents(b.eventsFile!),
+      ]);
+      const content = compareInvocationSummaries(
+        entryName(a),
+        summarizeBuildEvents(aEvents),
+        entryName(b),
+        summarizeBuildEvents(bEvents)
+      );
+      const doc = await vscode.workspace.openTextDocument({ language: 'markdown', content });
+      await vscode.window.showTextDocument(doc, { preview: true });
+    } catch (e) {
+      vscode.window.showErrorMessage(
+        `Failed to compare invocations: ${e instanceof Error ? e.message : e}`
+      );
+    }
+  }
+
+  async handleCommandHistoryDelete(item: HistoryEntryItem): Promise<void> {
+    if (!item?.entry) {
+      return;
+    }
+    const entry = item.entry;
+    const action = await vscode.window.showWarningMessage(
+      `Delete "${entry.args.join(' ')}" from the history?`,
+      { modal: true },
+      'Delete'
+    );
+    if (action !== 'Delete') {
+      return;
+    }
+
+    try {
+      switch (entry.source) {
+        case HistorySource.Recorded:
+          // the store fires the change event
+          return await this.store.delete(entry.id);
+        case HistorySource.Bzl:
+          if (!this.bzl.client) {
+            throw new Error('Bzl not ready');
+          }
+          await this.bzl.client.deleteCommandHistory(entry.id);
+          this._onDidChange.fire();
+          return;
+      }
+    } catch (e) {
+      vscode.window.showErrorMessage(
+        `Failed to delete history entry: ${e instanceof Error ? e.message : e}`
+      );
+    }
+  }
+
+  private async pickRecordedEntry(
+    placeHolder: string,
+    exclude?: HistoryEntry
+  ): Promise<HistoryEntry | undefined> {
+    const entries = (await this.listFiltered()).filter(
+      e => e.source === HistorySource.Recorded && e.id !== exclude?.id
+    );
+    if (!entries.length) {
+      vscode.window.showInformationMessage('No recorded invocations');
+      return undefined;
+    }
+    const picked = await vscode.window.showQuickPick(
+      entries.map(e => ({
+        label: entryName(e),
+        description: luxon.DateTime.fromMillis(e.timeMillis).toRelative() || '',
+        detail: e.exitCode || 'INCOMPLETE',
+        entry: e,
+      })),
+      { placeHolder, matchOnDescription: true }
+    );
+    return picked?.entry;
+  }
+
+  dispose() {
+    for (const d of this.disposables) {
+      d.dispose();
+    }
+    this.disposables.length = 0;
+  }
+}
+
+function entryName(e: HistoryEntry): string {
+  return e.args.join(' ') || e.id;
+}
+
+/**
+ * Renders a view of the invocation history.
+ */
+export class InvocationHistoryItem
+  extends vscode.TreeItem
+  implements Expandable, vscode.Disposable
+{
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly history: InvocationHistory,
+    onDidChangeTreeData: (item: vscode.TreeItem) => void
+  ) {
+    super('Invocation');
+    this.iconPath = new vscode.ThemeIcon('history');
+    this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+    this.update();
+
+    history.onDidChange(
+      () => {
+        this.update();
+        onDidChangeTreeData(this);
+      },
+      this,
+      this.disposables
+    );
+  }
+
+  private update() {
+    const filter = describeHistoryFilter(this.history.filter);
+    this.description = filter ? `History (${filter})` : 'History';
+    this.contextValue = filter ? 'invocationHistoryFiltered' : 'invocationHistory';
+  }
+
+  async getChildren(): Promise<vscode.TreeItem[]> {
+    const entries = await this.history.listFiltered();
+    if (!entries.length) {
+      const item = new vscode.TreeItem('No matching invocations');
+      item.iconPath = new vscode.ThemeIcon('info');
+      return [item];
+    }
+    return entries.map(e => new HistoryEntryItem(e));
+  }
+
+  dispose() {
+    for (const d of this.disposables) {
+      d.dispose();
+    }
+  }
+}
+
+export class HistoryEntryItem extends vscode.TreeItem {
+  constructor(public readonly entry: HistoryEntry) {
+    super(entry.command || entry.id);
+    const when = luxon.DateTime.fromMillis(entry.timeMillis).toRelative();
+    this.description = `${entry.args.slice(1).join(' ')} (${when})`;
+
+    if (entry.source === HistorySource.Recorded) {
+      this.tooltip = `${entry.id} ${entry.exitCode || 'INCOMPLETE'} in ${entry.cwd}`;
+      this.contextValue = 'recordedInvocation';
+      this.iconPath = new vscode.ThemeIcon(
+        entry.success
+          ? 'testing-passed-icon'
+          : entry.exitCode
+          ? 'testing-failed-icon'
+          : 'circle-outline'
+      );
+      this.command = {
+        title: 'Open Invocation',
+        command: CommandName.HistoryOpen,
+        arguments: [this],
+      };
+    } else {
+      this.tooltip = `${entry.args.join(' ')} (${entry.count || 1}x) in ${entry.cwd}`;
+      this.contextValue = ContextValue.History;
+      this.iconPath = new vscode.ThemeIcon('terminal');
+    }
+  }
+}
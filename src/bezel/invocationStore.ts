@@ -0,0 +1,234 @@
+import * as vscode from 'vscode';
+import * as fs from 'graceful-fs';
+import * as path from 'path';
+import fse = require('fs-extra');
+import Long = require('long');
+import { BuildEvent as BuildEventStreamEvent } from '../proto/build_event_stream/BuildEvent';
+import { delimit } from './bepFile';
+
+/**
+ * Metadata about an invocation that was recorded to disk.
+ */
+export interface StoredInvocation {
+  invocationId: string;
+  // the bazel command name (build, test, ...)
+  command: string;
+  // the target patterns of the command
+  patterns: string[];
+  workspaceDirectory: string;
+  startTimeMillis: number;
+  finishTimeMillis?: number;
+  success?: boolean;
+  // the exit code name, such as SUCCESS or BUILD_FAILURE
+  exitCode?: string;
+  eventCount: number;
+}
+
+const EventsFileName = 'events.bin';
+const MetadataFileName = 'invocation.json';
+
+/**
+ * Returns true if the id is a UUID, as bazel generates for --invocation_id.
+ * Invocation ids come from the network and name directories, so anything
+ * else is rejected.
+ */
+export function isInvocationId(invocationId: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(invocationId);
+}
+
+/**
+ * InvocationStore persists build events, one directory per invocation.  The
+ * events file uses the --build_event_binary_file format such that it can be
+ * replayed.
+ */
+export class InvocationStore implements vscode.Disposable {
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  constructor(public readonly dir: string) {}
+
+  eventsFile(invocationId: string): string {
+    return path.join(this.invocationDir(invocationId), EventsFileName);
+  }
+
+  private invocationDir(invocationId: string): string {
+    if (!isInvocationId(invocationId)) {
+      throw new Error(`invalid invocation id: ${JSON.stringify(invocationId)}`);
+    }
+    return path.join(this.dir, invocationId);
+  }
+
+  /**
+   * Returns all stored invocations, most recent first.
+   */
+  async list(): Promise<StoredInvocation[]> {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(this.dir);
+    } catch (e) {
+      return [];
+    }
+    const invocations: StoredInvocation[] = [];
+    for (const name of names) {
+      if (!isInvocationId(name)) {
+        continue;
+      }
+      const inv = await this.get(name);
+      if (inv && inv.invocationId === name) {
+        invocations.push(inv);
+      }
+    }
+    invocations.sort((a, b) => b.startTimeMillis - a.startTimeMillis);
+    return invocations;
+  }
+
+  async get(invocationId: string): Promise<StoredInvocation | undefined> {
+    if (!isInvocationId(invocationId)) {
+      return undefined;
+    }
+    try {
+      const json = await fs.promises.readFile(
+        path.join(this.dir, invocationId, MetadataFileName),
+        'utf-8'
+      );
+      return JSON.parse(json) as StoredInvocation;
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Creates a recorder for a new invocation.  Throws if the id is not a UUID.
+   */
+  createRecorder(invocationId: string): InvocationRecorder {
+    const dir = this.invocationDir(invocationId);
+    fs.mkdirSync(dir, { recursive: true });
+    return new InvocationRecorder(dir, invocationId, () => this._onDidChange.fire());
+  }
+
+  async delete(invocationId: string): Promise<void> {
+    await fse.remove(this.invocationDir(invocationId));
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Removes the oldest invocations such that at most max remain.
+   */
+  async prune(max: number): Promise<void> {
+    const invocations = await this.list();
+    for (const inv of invocations.slice(max)) {
+      await fse.remove(this.invocationDir(inv.invocationId));
+    }
+    if (invocations.length > max) {
+      this._onDidChange.fire();
+    }
+  }
+
+  dispose() {
+    this._onDidChange.dispose();
+  }
+}
+
+/**
+ * InvocationRecorder appends the events of a single invocation.
+ */
+export class InvocationRecorder {
+  private readonly events: fs.WriteStream;
+  private closed = false;
+  // set when the events file can no longer be written
+  private failed = false;
+  // the metadata write started by the last 'started' event
+  private pendingMetadata: Promise<void> = Promise.resolve();
+  public readonly invocation: StoredInvocation;
+
+  constructor(
+    private readonly dir: string,
+    invocationId: string,
+    private readonly onDidUpdate: () => void
+  ) {
+    this.invocation = {
+      invocationId,
+      command: '',
+      patterns: [],
+      workspaceDirectory: '',
+      startTimeMillis: Date.now(),
+      eventCount: 0,
+    };
+    this.events = fs.createWriteStream(path.join(dir, EventsFileName), { flags: 'a' });
+    this.events.on('error', err => {
+      this.failed = true;
+      console.warn(`invocation ${invocationId}: could not write events: ${err.message}`);
+    });
+  }
+
+  /**
+   * Appends the serialized event.  The decoded form is used to maintain the
+   * invocation metadata.
+   */
+  append(data: Uint8Array, e: BuildEventStreamEvent): void {
+    if (this.closed) {
+      return;
+    }
+    if (!this.failed) {
+      this.events.write(delimit(data));
+    }
+    this.invocation.eventCount++;
+
+    switch (e.payload) {
+      case 'started': {
+        const started = e.started!;
+        this.invocation.command = started.command || '';
+        this.invocation.workspaceDirectory = started.workspaceDirectory || '';
+        if (started.startTimeMillis) {
+          this.invocation.startTimeMillis = Long.fromValue(started.startTimeMillis).toNumber();
+        }
+        this.pendingMetadata = this.writeMetadata();
+        break;
+      }
+      case 'expanded':
+        this.invocation.patterns = e.id?.pattern?.pattern || [];
+        break;
+      case 'finished': {
+        const finished = e.finished!;
+        this.invocation.success = !!finished.overallSuccess;
+        this.invocation.exitCode = finished.exitCode?.name;
+        if (finished.finishTimeMillis) {
+          this.invocation.finishTimeMillis = Long.fromValue(finished.finishTimeMillis).toNumber();
+        }
+        break;
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    if (!this.failed) {
+      await new Promise<void>(resolve => {
+        this.events.once('error', () => resolve());
+        this.events.end(() => resolve());
+      });
+    }
+    await this.pendingMetadata;
+    await this.writeMetadata();
+  }
+
+  private async writeMetadata(): Promise<void> {
+    try {
+      await fs.promises.writeFile(
+        path.join(this.dir, MetadataFileName),
+        JSON.stringify(this.invocation, null, 2)
+      );
+    } catch (e) {
+      console.warn(
+        `invocation ${this.invocation.invocationId}: could not write metadata: ${
+          e instanceof Error ? e.message : e
+        }`
+      );
+      return;
+    }
+    this.onDidUpdate();
+  }
+}
@@ -12,6 +12,7 @@ import {
 import { ActionExecuted } from '../proto/build_event_stream/ActionExecuted';
 import { BuildFinished } from '../proto/build_event_stream/BuildFinished';
 import { BuildStarted } from '../proto/build_event_stream/BuildStarted';
+import { BuildToolLogs } from '../proto/build_event_stream/BuildToolLogs';
 import { BuiltInCommands } from '../constants';
 import {
   ThemeIconCloudDownload,
@@ -52,6 +53,7 @@ import {
 } from './workspaceView';
 import { Bzl } from './bzl';
 import { Settings } from './settings';
+import { profileLogUri } from './profile';
 
 export class Invocations extends RunnableComponent<InvocationsConfiguration> {
   constructor(
@@ -64,6 +66,10 @@ export class Invocations extends RunnableComponent<InvocationsConfiguration> {
     bzl.onDidChangeStatus(this.restart, this, this.disposables);
 
     this.addCommand(CommandName.InvocationInvoke, this.handleCommandInvocationInvoke);
+    this.addCommand(
+      CommandName.InvocationOpenBuildEventFile,
+      this.handleCommandInvocationOpenBuildEventFile
+    );
   }
 
   async startInternal() {
@@ -81,6 +87,40 @@ export class Invocations extends RunnableComponent<InvocationsConfiguration> {
     }
     return vscode.commands.executeCommand(CommandName.Invoke, args);
   }
+
+  /**
+   * Loads a build event protocol file (binary or JSON) and replays it as the
+   * current invocation.
+   */
+  async handleCommandInvocationOpenBuildEventFile(uri?: vscode.Uri): Promise<void> {
+    if (!(uri instanceof vscode.Uri)) {
+      const uris = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        openLabel: 'Open Build Events',
+        title: 'Open --build_event_binary_file or --build_event_json_file',
+      });
+      if (!(uris && uris.length)) {
+        return;
+      }
+      uri = uris[0];
+    }
+
+    const filename = uri.fsPath;
+    try {
+      const count = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Replaying ${path.basename(filename)}`,
+        },
+        () => this.bzl.bepRunner.replay(filename)
+      );
+      vscode.window.setStatusBarMessage(`Replayed ${count} build events from ${filename}`, 3000);
+    } catch (e) {
+      vscode.window.showErrorMessage(
+        `Failed to read build events from ${filename}: ${e instanceof Error ? e.message : e}`
+      );
+    }
+  }
 }
 
 /**
@@ -212,7 +252,7 @@ export class CurrentInvocationItem extends vscode.TreeItem implements Expandable
 
     invocationsSettings.onDidConfigurationChange(
       c => {
-        this.setEnabled(c.invokeWithBuildEventStreaming);
+        this.setEnabled(c.invokeWithBuildEventStreaming || c.invokeWithLocalBuildEventStreaming);
       },
       this,
       disposables
@@ -225,7 +265,9 @@ export class CurrentInvocationItem extends vscode.TreeItem implements Expandable
 
   async getChildren(): Promise<vscode.TreeItem[]> {
     if (!this.isEnabled) {
-      return [new DisabledItem('invokeWithBuildEventStreaming false')];
+      return [
+        new DisabledItem('invokeWithBuildEventStreaming and invokeWithLocalBuildEventStreaming false'),
+      ];
     }
     return this.items;
   }
@@ -241,7 +283,7 @@ export class CurrentInvocationItem extends vscode.TreeItem implements Expandable
 
   async clear() {
     const cfg = await this.invocationsSettings.get();
-    this.setEnabled(cfg.invokeWithBuildEventStreaming);
+    this.setEnabled(cfg.invokeWithBuildEventStreaming || cfg.invokeWithLocalBuildEventStreaming);
 
     this.items.length = 0;
     this.testsPassed.length = 0;
@@ -298,6 +340,8 @@ export class CurrentInvocationItem extends vscode.TreeItem implements Expandable
         return this.handleFinishedEvent(e, e.bes.finished!);
       case 'testResult':
         return this.handleTestResultEvent(e, e.bes.testResult!);
+      case 'buildToolLogs':
+        return this.handleBuildToolLogsEvent(e, e.bes.buildToolLogs!);
       default:
         console.log(`skipping "${e.bes.payload}"`);
     }
@@ -305,6 +349,9 @@ export class CurrentInvocationItem extends vscode.TreeItem implements Expandable
 
   async handleStartedEvent(e: BazelBuildEvent, started: BuildStarted) {
     await this.clear();
+    // events may also arrive from a replayed file, regardless of the
+    // invokeWithBuildEventStreaming setting.
+    this.setEnabled(true);
     const bzl = await this.bzlSettings.get();
     this.iconPath = new vscode.ThemeIcon('sync~spin');
     this.state.started = started;
@@ -373,6 +420,13 @@ export class CurrentInvocationItem extends vscode.TreeItem implements Expandable
     //   this.replaceLastItem(item);
   }
 
+  async handleBuildToolLogsEvent(e: BazelBuildEvent, logs: BuildToolLogs) {
+    const uri = profileLogUri(logs.log);
+    if (uri) {
+      this.addItem(new ProfileItem(e, uri));
+    }
+  }
+
   async handleTestResultEvent(e: BazelBuildEvent, test: TestResult) {
     if (test.status === 'PASSED') {
       this.testsPassed.push(test);
@@ -539,6 +593,20 @@ export class BuildFailedItem extends BuildFinishedItem {
   }
 }
 
+export class ProfileItem extends BazelBuildEventItem {
+  constructor(event: BazelBuildEvent, uri: string) {
+    super(event, 'Profile');
+    this.description = path.basename(vscode.Uri.parse(uri).fsPath);
+    this.tooltip = 'Open the --profile trace';
+    this.iconPath = new vscode.ThemeIcon('graph');
+    this.command = {
+      title: 'Open Profile',
+      command: CommandName.ProfileOpen,
+      arguments: [vscode.Uri.parse(uri)],
+    };
+  }
+}
+
 export class BuildAbortedItem extends BazelBuildEventItem {
   constructor(event: BazelBuildEvent, aborted: Aborted | undefined) {
     super(event, 'Aborted');
@@ -280,6 +280,14 @@ export interface Label {
   Name: string;
 }
 
+/**
+ * Formats the label as @repo//pkg:name.
+ */
+export function formatLabel(label: Label): string {
+  const repo = label.Repo ? `@${label.Repo}` : '';
+  return `${repo}//${label.Pkg}:${label.Name}`;
+}
+
 export interface LabelKindRange {
   kind: string;
   label: Label;
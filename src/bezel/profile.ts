@@ -0,0 +1,526 @@
+import * as vscode from 'vscode';
+import * as fs from 'graceful-fs';
+import * as zlib from 'zlib';
+import path = require('path');
+import { BuiltInCommands } from '../constants';
+import { File } from '../proto/build_event_stream/File';
+import { Bzl } from './bzl';
+import { escapeHtml, Message, StaticCodesearchPanel } from './codesearch/panel';
+import { CommandName } from './constants';
+import { parseLabel } from './ui';
+
+/**
+ * A single event from a chrome trace profile, as written by bazel --profile.
+ * Times are in microseconds.
+ */
+export interface TraceEvent {
+  name?: string;
+  cat?: string;
+  ph?: string;
+  ts?: number;
+  dur?: number;
+  pid?: number;
+  tid?: number;
+  args?: { [key: string]: any };
+}
+
+/**
+ * Profile is a parsed --profile trace.
+ */
+export interface Profile {
+  events: TraceEvent[];
+  // thread names, keyed by "pid:tid"
+  threads: Map<string, string>;
+}
+
+/**
+ * ProfileAction is an action (or critical path component) from the profile.
+ */
+export interface ProfileAction {
+  name: string;
+  mnemonic: string;
+  target?: string;
+  start: number;
+  duration: number;
+}
+
+export interface MnemonicSummary {
+  mnemonic: string;
+  count: number;
+  total: number;
+  slowest: ProfileAction;
+}
+
+export interface TimelineSpan {
+  name: string;
+  cat: string;
+  start: number;
+  duration: number;
+  depth: number;
+}
+
+export interface TimelineLane {
+  thread: string;
+  depth: number;
+  spans: TimelineSpan[];
+}
+
+export interface Timeline {
+  start: number;
+  end: number;
+  lanes: TimelineLane[];
+}
+
+const actionCategory = 'action processing';
+const criticalPathCategory = 'critical path component';
+
+/**
+ * Parses the contents of a --profile file, which may be gzipped and is either
+ * a JSON object with a traceEvents array or a bare array of events.
+ */
+export function parseProfile(data: Buffer): Profile {
+  if (data.length > 1 && data[0] === 0x1f && data[1] === 0x8b) {
+    data = zlib.gunzipSync(data);
+  }
+  let text = data.toString('utf8').trim();
+  // the trace event format permits an unterminated array
+  if (text.startsWith('[') && !text.endsWith(']')) {
+    text = text.replace(/,?\s*$/, ']');
+  }
+  const json = JSON.parse(text);
+  const events: TraceEvent[] = Array.isArray(json) ? json : json.traceEvents || [];
+  const threads = new Map<string, string>();
+  for (const e of events) {
+    if (e.ph === 'M' && e.name === 'thread_name' && e.args?.name) {
+      threads.set(`${e.pid}:${e.tid}`, e.args.name);
+    }
+  }
+  return { events, threads };
+}
+
+/**
+ * Returns the uri of the profile advertised in a BuildToolLogs event, if any.
+ */
+export function profileLogUri(logs: File[] | undefined): string | undefined {
+  for (const log of logs || []) {
+    if (log.name && /profile/.test(log.name) && log.uri?.startsWith('file://')) {
+      return log.uri;
+    }
+  }
+  return undefined;
+}
+
+function isComplete(e: TraceEvent): boolean {
+  return e.ph === 'X' && typeof e.ts === 'number' && typeof e.dur === 'number';
+}
+
+function toAction(e: TraceEvent): ProfileAction {
+  const name = e.name || '';
+  return {
+    name,
+    // older versions of bazel do not record the mnemonic; fall back to the
+    // verb of the progress message ("Compiling", "Linking", ...).
+    mnemonic: e.args?.mnemonic || name.split(' ')[0] || 'unknown',
+    target: e.args?.target,
+    start: e.ts!,
+    duration: e.dur!,
+  };
+}
+
+/**
+ * Returns the executed actions in the profile.
+ */
+export function profileActions(profile: Profile): ProfileAction[] {
+  return profile.events.filter(e => isComplete(e) && e.cat === actionCategory).map(toAction);
+}
+
+/**
+ * Returns the critical path of the profile, in execution order.  Bazel
+ * records the critical path components itself; when they are missing the path
+ * is estimated by walking back from the last action to finish, each time
+ * choosing the action that finished last before the current one started.
+ */
+export function criticalPath(profile: Profile): { actions: ProfileAction[]; estimated: boolean } {
+  const actions = profileActions(profile);
+  const components = profile.events.filter(e => isComplete(e) && e.cat === criticalPathCategory);
+  if (components.length) {
+    const byName = new Map(actions.map(a => [a.name, a]));
+    const path = components.map(e => {
+      const component = toAction(e);
+      const match = /^action '(.*)'$/.exec(component.name);
+      const action = match && byName.get(match[1]);
+      if (action) {
+        return {
+          ...component,
+          name: action.name,
+          mnemonic: action.mnemonic,
+          target: action.target,
+        };
+      }
+      return component;
+    });
+    path.sort((a, b) => a.start - b.start);
+    return { actions: path, estimated: false };
+  }
+
+  const byEnd = actions.slice().sort((a, b) => b.start + b.duration - (a.start + a.duration));
+  const path: ProfileAction[] = [];
+  let current: ProfileAction | undefined = byEnd[0];
+  while (current) {
+    path.unshift(current);
+    const previous: ProfileAction = current;
+    // each step moves strictly earlier, such that zero-duration actions cannot
+    // be chosen again.
+    current = byEnd.find(
+      a => a !== previous && a.start < previous.start && a.start + a.duration <= previous.start
+    );
+  }
+  return { actions: path, estimated: true };
+}
+
+/**
+ * Groups the actions by mnemonic, ordered by total time spent.
+ */
+export function summarizeByMnemonic(actions: ProfileAction[]): MnemonicSummary[] {
+  const summaries = new Map<string, MnemonicSummary>();
+  for (const action of actions) {
+    const summary = summaries.get(action.mnemonic);
+    if (!summary) {
+      summaries.set(action.mnemonic, {
+        mnemonic: action.mnemonic,
+        count: 1,
+        total: action.duration,
+        slowest: action,
+      });
+      continue;
+    }
+    summary.count++;
+    summary.total += action.duration;
+    if (action.duration > summary.slowest.duration) {
+      summary.slowest = action;
+    }
+  }
+  return Array.from(summaries.values()).sort((a, b) => b.total - a.total);
+}
+
+/**
+ * Lays out the complete events of the profile as one lane per thread, nesting
+ * events that are contained in one another.  Only the longest maxSpans events
+ * are kept.
+ */
+export function layoutTimeline(profile: Profile, maxSpans = 5000): Timeline {
+  const events = profile.events
+    .filter(isComplete)
+    .sort((a, b) => b.dur! - a.dur!)
+    .slice(0, maxSpans);
+
+  const byThread = new Map<string, TraceEvent[]>();
+  let start = Number.MAX_SAFE_INTEGER;
+  let end = 0;
+  for (const e of events) {
+    const key = `${e.pid}:${e.tid}`;
+    let list = byThread.get(key);
+    if (!list) {
+      byThread.set(key, (list = []));
+    }
+    list.push(e);
+    start = Math.min(start, e.ts!);
+    end = Math.max(end, e.ts! + e.dur!);
+  }
+
+  const lanes: TimelineLane[] = [];
+  for (const [key, list] of byThread.entries()) {
+    list.sort((a, b) => a.ts! - b.ts! || b.dur! - a.dur!);
+    const stack: number[] = []; // end times of the enclosing spans
+    const lane: TimelineLane = { thread: profile.threads.get(key) || key, depth: 0, spans: [] };
+    for (const e of list) {
+      while (stack.length && stack[stack.length - 1] <= e.ts!) {
+        stack.pop();
+      }
+      lane.spans.push({
+        name: e.name || '',
+        cat: e.cat || '',
+        start: e.ts!,
+        duration: e.dur!,
+        depth: stack.length,
+      });
+      lane.depth = Math.max(lane.depth, stack.length + 1);
+      stack.push(e.ts! + e.dur!);
+    }
+    lanes.push(lane);
+  }
+  lanes.sort((a, b) => a.thread.localeCompare(b.thread, undefined, { numeric: true }));
+
+  return { start: events.length ? start : 0, end, lanes };
+}
+
+/**
+ * Returns the 1-based line of the rule with the given name in the content of
+ * a BUILD file, or 1 if not found.
+ */
+export function findRuleLine(content: string, name: string): number {
+  const lines = content.split('\n');
+  const pattern = new RegExp(
+    `\\bname\\s*=\\s*["']${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}["']`
+  );
+  for (let i = 0; i < lines.length; i++) {
+    if (pattern.test(lines[i])) {
+      return i + 1;
+    }
+  }
+  return 1;
+}
+
+/**
+ * Formats a duration in microseconds.
+ */
+export function formatMicros(us: number): string {
+  if (us < 1000) {
+    return `${us}µs`;
+  }
+  if (us < 1000000) {
+    return `${(us / 1000).toFixed(1)}ms`;
+  }
+  return `${(us / 1000000).toFixed(2)}s`;
+}
+
+/**
+ * ProfileViewer renders --profile traces in a webview.
+ */
+export class ProfileViewer implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private panel: StaticCodesearchPanel | undefined;
+
+  constructor(private readonly bzl: Bzl, private readonly extensionUri: vscode.Uri) {
+    this.disposables.push(
+      vscode.commands.registerCommand(CommandName.ProfileOpen, this.handleCommandProfileOpen, this)
+    );
+  }
+
+  async handleCommandProfileOpen(uri?: vscode.Uri | string): Promise<void> {
+    if (typeof uri === 'string') {
+      uri = vscode.Uri.parse(uri);
+    }
+    if (!(uri instanceof vscode.Uri)) {
+      const uris = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        openLabel: 'Open Profile',
+        title: 'Open --profile trace',
+        filters: { Profiles: ['gz', 'json', 'profile'] },
+      });
+      if (!(uris && uris.length)) {
+        return;
+      }
+      uri = uris[0];
+    }
+
+    const filename = uri.fsPath;
+    let profile: Profile;
+    try {
+      profile = parseProfile(await fs.promises.readFile(filename));
+    } catch (e) {
+      vscode.window.showErrorMessage(
+        `Failed to read profile ${filename}: ${e instanceof Error ? e.message : e}`
+      );
+      return;
+    }
+    return this.render(filename, profile);
+  }
+
+  async render(filename: string, profile: Profile): Promise<void> {
+    const title = `Profile ${path.basename(filename)}`;
+    if (!this.panel) {
+      this.panel = new StaticCodesearchPanel(
+        this.extensionUri,
+        'Profile',
+        title,
+        vscode.ViewColumn.One
+      );
+      this.panel.onDidDispose(
+        () => {
+          this.panel = undefined;
+        },
+        this,
+        this.disposables
+      );
+    }
+    const panel = this.panel;
+
+    const actions = profileActions(profile);
+    const critical = criticalPath(profile);
+    const timeline = layoutTimeline(profile);
+
+    panel.summaryHTML = this.renderSummary(timeline, actions, critical.actions);
+    panel.resultsHTML = [
+      this.renderTimeline(timeline),
+      this.renderCriticalPath(critical.actions, critical.estimated),
+      this.renderMnemonics(summarizeByMnemonic(actions)),
+      this.renderSlowestActions(actions),
+    ].join('\n');
+
+    return panel.render({
+      title,
+      heading: `profile <span class="text-hl">${escapeHtml(filename)}</span>`,
+      callbacks: {
+        'click.target': (m: Message) => {
+          const label = m.data && m.data['label'];
+          if (label) {
+            return this.openTarget(label);
+          }
+        },
+      },
+    });
+  }
+
+  renderSummary(timeline: Timeline, actions: ProfileAction[], critical: ProfileAction[]): string {
+    const criticalTime = critical.reduce((total, a) => total + a.duration, 0);
+    return `<p>
+      Wall time <span class="text-hl">${formatMicros(timeline.end - timeline.start)}</span>,
+      <span class="text-hl">${actions.length}</span> actions,
+      critical path <span class="text-hl">${formatMicros(criticalTime)}</span>
+      (${critical.length} components)
+    </p>`;
+  }
+
+  renderTimeline(timeline: Timeline): string {
+    const width = 1200;
+    const labelWidth = 160;
+    const rowHeight = 14;
+    const span = Math.max(1, timeline.end - timeline.start);
+    const scale = (width - labelWidth) / span;
+
+    let y = 0;
+    let svg = '';
+    for (const lane of timeline.lanes) {
+      svg += `<text x="0" y="${y + rowHeight - 3}" class="lane">${escapeHtml(lane.thread)}</text>`;
+      for (const s of lane.spans) {
+        const x = labelWidth + (s.start - timeline.start) * scale;
+        const w = Math.max(0.5, s.duration * scale);
+        const title = `${s.name} (${s.cat}) ${formatMicros(s.duration)}`;
+        svg += `<rect x="${x.toFixed(1)}" y="${y + s.depth * rowHeight}" width="${w.toFixed(
+          1
+        )}" height="${rowHeight - 1}" fill="${categoryColor(s.cat)}"><title>${escapeHtml(
+          title
+        )}</title></rect>`;
+      }
+      y += Math.max(1, lane.depth) * rowHeight + 2;
+    }
+
+    return `<h5>Timeline</h5>
+    <div style="overflow-x: auto">
+      <style>
+        .lane { fill: var(--vscode-editor-foreground); font-size: 10px; }
+      </style>
+      <svg width="${width}" height="${y}" xmlns="http://www.w3.org/2000/svg">${svg}</svg>
+    </div>`;
+  }
+
+  renderCriticalPath(actions: ProfileAction[], estimated: boolean): string {
+    const rows = actions.map(a => this.renderActionRow(a)).join('\n');
+    return `<h5>Critical Path${estimated ? ' (estimated)' : ''}</h5>
+    <table class="table table-sm">
+      <tr><th>Duration</th><th>Mnemonic</th><th>Action</th><th>Target</th></tr>
+      ${rows}
+    </table>`;
+  }
+
+  renderMnemonics(summaries: MnemonicSummary[]): string {
+    const rows = summaries
+      .map(
+        s => `<tr>
+          <td>${escapeHtml(s.mnemonic)}</td>
+          <td>${s.count}</td>
+          <td>${formatMicros(s.total)}</td>
+          <td>${formatMicros(s.slowest.duration)}</td>
+          <td>${this.renderTarget(s.slowest.target)}</td>
+        </tr>`
+      )
+      .join('\n');
+    return `<h5>Actions by Mnemonic</h5>
+    <table class="table table-sm">
+      <tr><th>Mnemonic</th><th>Count</th><th>Total</th><th>Slowest</th><th>Slowest Target</th></tr>
+      ${rows}
+    </table>`;
+  }
+
+  renderSlowestActions(actions: ProfileAction[], limit = 50): string {
+    const rows = actions
+      .slice()
+      .sort((a, b) => b.duration - a.duration)
+      .slice(0, limit)
+      .map(a => this.renderActionRow(a))
+      .join('\n');
+    return `<h5>Slowest Actions</h5>
+    <table class="table table-sm">
+      <tr><th>Duration</th><th>Mnemonic</th><th>Action</th><th>Target</th></tr>
+      ${rows}
+    </table>`;
+  }
+
+  renderActionRow(a: ProfileAction): string {
+    return `<tr>
+      <td>${formatMicros(a.duration)}</td>
+      <td>${escapeHtml(a.mnemonic)}</td>
+      <td>${escapeHtml(a.name)}</td>
+      <td>${this.renderTarget(a.target)}</td>
+    </tr>`;
+  }
+
+  renderTarget(target: string | undefined): string {
+    if (!target) {
+      return '';
+    }
+    const label = escapeHtml(target);
+    return `<a href="#" data-label="${label}" onclick="postDataElementClick('target', this)">${label}</a>`;
+  }
+
+  /**
+   * Opens the BUILD file that declares the given label.
+   */
+  async openTarget(target: string): Promise<void> {
+    let label;
+    try {
+      label = parseLabel(target.replace(/^@@?\/\//, '//'));
+    } catch (e) {
+      vscode.window.showWarningMessage(e instanceof Error ? e.message : `${e}`);
+      return;
+    }
+    const ws = await this.bzl.getWorkspace();
+    const dir = label.repo
+      ? path.join(ws.outputBase || '', 'external', label.repo, label.pkg)
+      : path.join(ws.cwd || '', label.pkg);
+
+    for (const basename of ['BUILD.bazel', 'BUILD']) {
+      const filename = path.join(dir, basename);
+      let content: string;
+      try {
+        content = await fs.promises.readFile(filename, 'utf8');
+      } catch (e) {
+        continue;
+      }
+      return vscode.commands.executeCommand(
+        BuiltInCommands.Open,
+        vscode.Uri.file(filename).with({
+          fragment: `${findRuleLine(content, label.name)},1`,
+        })
+      );
+    }
+    vscode.window.showWarningMessage(`No BUILD file found for ${target} in ${dir}`);
+  }
+
+  public dispose() {
+    this.panel?.dispose();
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables.length = 0;
+  }
+}
+
+function categoryColor(cat: string): string {
+  let hash = 0;
+  for (let i = 0; i < cat.length; i++) {
+    hash = (hash * 31 + cat.charCodeAt(i)) | 0;
+  }
+  return `hsl(${Math.abs(hash) % 360}, 55%, 50%)`;
+}
@@ -0,0 +1,198 @@
+import * as cp from 'child_process';
+import * as grpc from '@grpc/grpc-js';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import stripAnsi = require('strip-ansi');
+import { BuiltInCommands } from '../constants';
+import { RunResponse } from '../proto/build/stack/bezel/v1beta1/RunResponse';
+import { Bzl } from './bzl';
+import { BazelConfiguration } from './configuration';
+import { BzlLanguageClient } from './lsp';
+import { Settings } from './settings';
+import { Status } from './status';
+
+/**
+ * The bazel commands that evaluate a query expression.
+ */
+export type QueryCommand = 'query' | 'cquery' | 'aquery';
+
+/**
+ * A query invocation.
+ */
+export interface QueryRequest {
+  command: QueryCommand;
+  expression: string;
+  // additional flags such as --output=graph
+  options?: string[];
+}
+
+/**
+ * The captured output of a query.
+ */
+export interface QueryResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+/**
+ * Returns the bazel arguments for the query request.
+ */
+export function queryArgs(request: QueryRequest): string[] {
+  return [request.command, ...(request.options || []), request.expression];
+}
+
+/**
+ * Returns true if the exit code of a query command indicates that stdout is
+ * usable.  Exit code 3 is a partial success (as with --keep_going).
+ */
+export function isQuerySuccess(exitCode: number): boolean {
+  return exitCode === 0 || exitCode === 3;
+}
+
+/**
+ * Returns the last lines of stderr, skipping progress output, to explain a
+ * failed query.
+ */
+export function queryErrorMessage(stderr: string, maxLines = 5): string {
+  const lines = stderr
+    .split(/\r?\n/)
+    .map(line => stripAnsi(line).trim())
+    .filter(line => line && !/^(Loading|Analyzing|INFO):/.test(line));
+  return lines.slice(-maxLines).join('\n');
+}
+
+/**
+ * QueryRunner runs query, cquery, aquery and info commands and captures their
+ * output.  The Bzl command server is used when it is running; otherwise bazel
+ * is spawned directly.
+ */
+export class QueryRunner {
+  constructor(private bzl: Bzl, private bazelSettings: Settings<BazelConfiguration>) {}
+
+  get workspaceDirectory(): string {
+    return this.bzl.ws.cwd!;
+  }
+
+  async run(request: QueryRequest, token?: vscode.CancellationToken): Promise<QueryResult> {
+    const result = await this.exec(queryArgs(request), token);
+    if (!isQuerySuccess(result.exitCode)) {
+      throw new Error(
+        `bazel ${request.command} failed (exit code ${result.exitCode}): ${queryErrorMessage(
+          result.stderr
+        )}`
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Runs bazel info, for all keys if none is given.
+   */
+  async info(key?: string, token?: vscode.CancellationToken): Promise<QueryResult> {
+    const result = await this.exec(key ? ['info', key] : ['info'], token);
+    if (result.exitCode !== 0) {
+      throw new Error(
+        `bazel info failed (exit code ${result.exitCode}): ${queryErrorMessage(result.stderr)}`
+      );
+    }
+    return result;
+  }
+
+  private async exec(args: string[], token?: vscode.CancellationToken): Promise<QueryResult> {
+    const result =
+      this.bzl.status === Status.READY && this.bzl.client
+        ? await this.runRemote(args, token)
+        : await this.runLocal(args, token);
+    if (token?.isCancellationRequested) {
+      throw new Error('cancelled');
+    }
+    return result;
+  }
+
+  private async runRemote(args: string[], token?: vscode.CancellationToken): Promise<QueryResult> {
+    const client = this.bzl.client!;
+    const workspace = await this.bzl.getWorkspace();
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let exitCode = 0;
+
+    return new Promise<QueryResult>((resolve, reject) => {
+      const stream = client.commands.run({ arg: args, workspace }, new grpc.Metadata());
+      stream.on('data', (response: RunResponse) => {
+        if (response.standardOutput instanceof Buffer) {
+          stdout.push(response.standardOutput);
+        }
+        if (response.standardError instanceof Buffer) {
+          stderr.push(response.standardError);
+        }
+        if (response.finished) {
+          exitCode = response.exitCode || 0;
+        }
+      });
+      stream.on('end', () =>
+        resolve({
+          stdout: Buffer.concat(stdout).toString(),
+          stderr: Buffer.concat(stderr).toString(),
+          exitCode,
+        })
+      );
+      stream.on('error', (err: Error) => reject(err));
+      token?.onCancellationRequested(() => stream.cancel());
+    });
+  }
+
+  private async runLocal(args: string[], token?: vscode.CancellationToken): Promise<QueryResult> {
+    const bazel = await this.bazelSettings.get();
+    const cwd = this.workspaceDirectory;
+
+    return new Promise<QueryResult>((resolve, reject) => {
+      const child = cp.spawn(bazel.executable || 'bazel', args, { cwd });
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+      child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+      child.on('error', reject);
+      child.on('close', (code: number | null) =>
+        resolve({
+          stdout: Buffer.concat(stdout).toString(),
+          stderr: Buffer.concat(stderr).toString(),
+          exitCode: code === null ? -1 : code,
+        })
+      );
+      token?.onCancellationRequested(() => child.kill('SIGINT'));
+    });
+  }
+}
+
+/**
+ * Opens the BUILD file at the definition of the label, as located by the
+ * language server.
+ */
+export async function openLabelDefinition(
+  lsp: BzlLanguageClient,
+  cwd: string,
+  label: string
+): Promise<void> {
+  if (lsp.status !== Status.READY) {
+    vscode.window.showWarningMessage(
+      `The language server must be running to open the definition of ${label}`
+    );
+    return;
+  }
+  const location = await lsp.getLabelLocation(
+    vscode.Uri.file(path.join(cwd, 'BUILD.bazel')),
+    label
+  );
+  if (!(location && location.uri && location.range)) {
+    vscode.window.showWarningMessage(`The definition of ${label} was not found`);
+    return;
+  }
+  return vscode.commands.executeCommand(
+    BuiltInCommands.Open,
+    vscode.Uri.parse(location.uri).with({
+      // location response is zero-based; convert to 1-base
+      fragment: `${location.range.start.line + 1},${location.range.start.character + 1}`,
+    })
+  );
+}
@@ -0,0 +1,515 @@
+import * as vscode from 'vscode';
+import { escapeHtml, Message, StaticCodesearchPanel } from './codesearch/panel';
+import { CommandName, Memento } from './constants';
+import { BzlLanguageClient } from './lsp';
+import { openLabelDefinition, QueryCommand, QueryRequest, QueryRunner } from './query';
+
+/**
+ * The maximum number of queries remembered in the console history.
+ */
+export const MAX_QUERY_HISTORY = 50;
+
+/**
+ * The maximum number of inputs listed for an action; the rest are counted.
+ */
+const MAX_ACTION_INPUTS = 100;
+
+/**
+ * A function of the query language.
+ */
+export interface QueryFunction {
+  name: string;
+  signature: string;
+  // the commands that support the function; all if undefined
+  commands?: QueryCommand[];
+}
+
+export const queryFunctions: QueryFunction[] = [
+  { name: 'allpaths', signature: 'allpaths(x, y)' },
+  { name: 'allrdeps', signature: 'allrdeps(x[, depth])' },
+  { name: 'attr', signature: 'attr(name, pattern, x)' },
+  { name: 'buildfiles', signature: 'buildfiles(x)', commands: ['query'] },
+  { name: 'config', signature: 'config(x, configuration)', commands: ['cquery'] },
+  { name: 'deps', signature: 'deps(x[, depth])' },
+  { name: 'except', signature: 'x except y' },
+  { name: 'filter', signature: 'filter(pattern, x)' },
+  { name: 'inputs', signature: 'inputs(pattern, x)', commands: ['aquery'] },
+  { name: 'intersect', signature: 'x intersect y' },
+  { name: 'kind', signature: 'kind(pattern, x)' },
+  { name: 'labels', signature: 'labels(attr, x)' },
+  { name: 'let', signature: 'let name = x in y' },
+  { name: 'loadfiles', signature: 'loadfiles(x)', commands: ['query'] },
+  { name: 'mnemonic', signature: 'mnemonic(pattern, x)', commands: ['aquery'] },
+  { name: 'outputs', signature: 'outputs(pattern, x)', commands: ['aquery'] },
+  { name: 'rbuildfiles', signature: 'rbuildfiles(path, ...)', commands: ['query'] },
+  { name: 'rdeps', signature: 'rdeps(universe, x[, depth])' },
+  { name: 'same_pkg_direct_rdeps', signature: 'same_pkg_direct_rdeps(x)', commands: ['query'] },
+  { name: 'set', signature: 'set(a b c ...)' },
+  { name: 'siblings', signature: 'siblings(x)', commands: ['query'] },
+  { name: 'some', signature: 'some(x[, count])' },
+  { name: 'somepath', signature: 'somepath(x, y)' },
+  { name: 'tests', signature: 'tests(x)' },
+  { name: 'union', signature: 'x union y' },
+  { name: 'visible', signature: 'visible(predicate, x)' },
+];
+
+const operators = new Set(['except', 'intersect', 'union', 'let']);
+
+/**
+ * An entry of the console history.
+ */
+export interface QueryHistoryEntry {
+  command: QueryCommand;
+  expression: string;
+}
+
+/**
+ * A line of --output=label_kind.
+ */
+export interface LabelKindLine {
+  kind: string;
+  label: string;
+  // the configuration, for cquery
+  config?: string;
+}
+
+/**
+ * An action of aquery --output=jsonproto.
+ */
+export interface AqueryAction {
+  mnemonic: string;
+  target: string;
+  inputs: string[];
+  outputs: string[];
+  argv: string[];
+}
+
+/**
+ * Returns the functions whose name completes the identifier at the end of the
+ * text.
+ */
+export function queryCompletions(text: string, command: QueryCommand): QueryFunction[] {
+  const prefix = /[A-Za-z_]+$/.exec(text)?.[0];
+  if (!prefix) {
+    return [];
+  }
+  return queryFunctions.filter(
+    fn =>
+      fn.name.startsWith(prefix) &&
+      fn.name !== prefix &&
+      (!fn.commands || fn.commands.includes(command))
+  );
+}
+
+/**
+ * Replaces the identifier at the end of the text with the completion.
+ */
+export function applyQueryCompletion(text: string, name: string): string {
+  const base = text.replace(/[A-Za-z_]+$/, '');
+  return base + (operators.has(name) ? `${name} ` : `${name}(`);
+}
+
+/**
+ * Adds the entry to the front of the history, removing duplicates.
+ */
+export function addQueryHistory(
+  history: QueryHistoryEntry[],
+  entry: QueryHistoryEntry,
+  max = MAX_QUERY_HISTORY
+): QueryHistoryEntry[] {
+  const others = history.filter(
+    h => !(h.command === entry.command && h.expression === entry.expression)
+  );
+  return [entry, ...others].slice(0, max);
+}
+
+/**
+ * Parses the output of query or cquery --output=label_kind.
+ */
+export function parseLabelKindOutput(text: string): LabelKindLine[] {
+  const lines: LabelKindLine[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^(.*?)\s+((?:@[^/\s]*)?\/\/\S*)(?:\s+\((.*)\))?$/.exec(line.trim());
+    if (!match) {
+      continue;
+    }
+    const result: LabelKindLine = { kind: match[1].replace(/ rule$/, ''), label: match[2] };
+    if (match[3] !== undefined) {
+      result.config = match[3];
+    }
+    lines.push(result);
+  }
+  return lines;
+}
+
+/**
+ * Parses the output of aquery --output=jsonproto.  Artifacts are either
+ * given by exec path or (since bazel 4) by a tree of path fragments.
+ */
+export function parseAqueryActions(text: string): AqueryAction[] {
+  if (!text.trim()) {
+    return [];
+  }
+  const container = JSON.parse(text);
+  const key = (id: any) => String(id);
+
+  const fragments = new Map<string, { label: string; parentId?: any }>();
+  for (const f of container.pathFragments || []) {
+    fragments.set(key(f.id), f);
+  }
+  const fragmentPath = (id: any): string => {
+    const parts: string[] = [];
+    for (
+      let f = fragments.get(key(id));
+      f;
+      f = f.parentId ? fragments.get(key(f.parentId)) : undefined
+    ) {
+      parts.unshift(f.label);
+    }
+    return parts.join('/');
+  };
+
+  const artifacts = new Map<string, string>();
+  for (const a of container.artifacts || []) {
+    artifacts.set(key(a.id), a.execPath || fragmentPath(a.pathFragmentId));
+  }
+  const targets = new Map<string, string>();
+  for (const t of container.targets || []) {
+    targets.set(key(t.id), t.label);
+  }
+  const depSets = new Map<string, any>();
+  for (const d of container.depSetOfFiles || []) {
+    depSets.set(key(d.id), d);
+  }
+  const expand = (ids: any[]): string[] => {
+    const files = new Set<string>();
+    const seen = new Set<string>();
+    const stack = (ids || []).map(key);
+    while (stack.length) {
+      const id = stack.pop()!;
+      if (seen.has(id)) {
+        continue;
+      }
+      seen.add(id);
+      const depSet = depSets.get(id);
+      if (!depSet) {
+        continue;
+      }
+      for (const a of depSet.directArtifactIds || []) {
+        files.add(artifacts.get(key(a)) || key(a));
+      }
+      stack.push(...(depSet.transitiveDepSetIds || []).map(key));
+    }
+    return Array.from(files).sort();
+  };
+
+  return (container.actions || []).map((a: any) => ({
+    mnemonic: a.mnemonic || '',
+    target: targets.get(key(a.targetId)) || '',
+    inputs: expand(a.inputDepSetIds),
+    outputs: (a.outputIds || []).map((id: any) => artifacts.get(key(id)) || key(id)),
+    argv: a.arguments || [],
+  }));
+}
+
+/**
+ * Returns the output flag used to render the results of the command.
+ */
+export function outputOptions(command: QueryCommand): string[] {
+  return command === 'aquery' ? ['--output=jsonproto'] : ['--output=label_kind'];
+}
+
+/**
+ * QueryConsole is a webview in which query, cquery and aquery expressions are
+ * entered and their results shown as label lists or action tables.
+ */
+export class QueryConsole implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private panel: StaticCodesearchPanel | undefined;
+  private command: QueryCommand = 'query';
+  private expression = '';
+  private running: vscode.CancellationTokenSource | undefined;
+  private lastRequest: QueryRequest | undefined;
+  private labels: LabelKindLine[] = [];
+  private actions: AqueryAction[] = [];
+  private error = '';
+
+  constructor(
+    private readonly runner: QueryRunner,
+    private readonly lsp: BzlLanguageClient,
+    private readonly workspaceState: vscode.Memento,
+    private readonly extensionUri: vscode.Uri
+  ) {
+    this.disposables.push(
+      vscode.commands.registerCommand(CommandName.QueryConsole, this.handleCommandConsole, this)
+    );
+  }
+
+  get history(): QueryHistoryEntry[] {
+    return this.workspaceState.get<QueryHistoryEntry[]>(Memento.QueryHistory, []);
+  }
+
+  /**
+   * Opens the console, optionally with an expression to run.
+   */
+  async handleCommandConsole(expression?: string, command?: QueryCommand): Promise<void> {
+    if (command) {
+      this.command = command;
+    }
+    if (expression) {
+      this.expression = expression;
+    }
+    await this.render();
+    if (expression) {
+      return this.runQuery();
+    }
+  }
+
+  private async runQuery(): Promise<void> {
+    const expression = this.expression.trim();
+    if (!expression) {
+      return;
+    }
+    this.running?.cancel();
+    const running = (this.running = new vscode.CancellationTokenSource());
+    const request: QueryRequest = {
+      command: this.command,
+      expression,
+      options: outputOptions(this.command),
+    };
+    await this.workspaceState.update(
+      Memento.QueryHistory,
+      addQueryHistory(this.history, { command: this.command, expression })
+    );
+    this.panel?.onDidChangeHTMLSummary.fire(this.renderSummary());
+    this.panel?.onDidChangeHTMLResults.fire(
+      `<p>Running <code>bazel ${escapeHtml(this.command)} ${escapeHtml(expression)}</code>...</p>`
+    );
+
+    this.lastRequest = request;
+    this.labels = [];
+    this.actions = [];
+    this.error = '';
+    try {
+      const result = await this.runner.run(request, running.token);
+      if (request.command === 'aquery') {
+        this.actions = parseAqueryActions(result.stdout);
+      } else {
+        this.labels = parseLabelKindOutput(result.stdout);
+      }
+    } catch (e) {
+      if (running.token.isCancellationRequested) {
+        return;
+      }
+      this.error = e instanceof Error ? e.message : `${e}`;
+    } finally {
+      if (this.running === running) {
+        this.running = undefined;
+      }
+    }
+    this.panel?.onDidChangeHTMLSummary.fire(this.renderSummary());
+    this.panel?.onDidChangeHTMLResults.fire(this.renderResults());
+  }
+
+  private async render(): Promise<void> {
+    const title = 'Bazel Query';
+    if (!this.panel) {
+      this.panel = new StaticCodesearchPanel(
+        this.extensionUri,
+        'QueryConsole',
+        title,
+        vscode.ViewColumn.One
+      );
+      this.panel.onDidDispose(
+        () => {
+          this.running?.cancel();
+          this.panel = undefined;
+        },
+        this,
+        this.disposables
+      );
+    }
+    const panel = this.panel;
+    panel.summaryHTML = this.renderSummary();
+    panel.resultsHTML = this.renderResults();
+
+    return panel.render({
+      title,
+      heading: 'Bazel Query Console',
+      callbacks: {
+        'change.input.command': (m: Message) => {
+          this.command = (m.value || 'query') as QueryCommand;
+          return this.postCompletions();
+        },
+        'change.input.expression': (m: Message) => {
+          this.expression = m.value || '';
+          return this.postCompletions();
+        },
+        'click.completion': (m: Message) => {
+          const name = m.data && m.data['name'];
+          if (name) {
+            this.expression = applyQueryCompletion(this.expression, name);
+            panel.onDidChangeHTMLSummary.fire(this.renderSummary());
+          }
+        },
+        'click.history': (m: Message) => {
+          const entry = this.history[parseInt((m.data && m.data['index']) || '-1', 10)];
+          if (entry) {
+            this.command = entry.command;
+            this.expression = entry.expression;
+            panel.onDidChangeHTMLSummary.fire(this.renderSummary());
+            return this.runQuery();
+          }
+        },
+        'click.label': (m: Message) => {
+          const label = m.data && m.data['label'];
+          if (label) {
+            return openLabelDefinition(this.lsp, this.runner.workspaceDirectory, label);
+          }
+        },
+        'click.button.run': () => this.runQuery(),
+        'click.button.cancel': () => this.running?.cancel(),
+        'click.button.copy': () =>
+          vscode.commands.executeCommand(
+            CommandName.CopyToClipboard,
+            this.labels.map(l => l.label).join('\n')
+          ),
+        'click.button.clearHistory': async () => {
+          await this.workspaceState.update(Memento.QueryHistory, []);
+          panel.onDidChangeHTMLSummary.fire(this.renderSummary());
+        },
+      },
+    });
+  }
+
+  private async postCompletions(): Promise<void> {
+    const completions = queryCompletions(this.expression, this.command)
+      .map(
+        fn =>
+          `<a href="#" class="mr-3" data-name="${
+            fn.name
+          }" onclick="postDataElementClick('completion', this)" title="${escapeHtml(
+            fn.signature
+          )}">${escapeHtml(fn.signature)}</a>`
+      )
+      .join('');
+    await this.panel?.postMessage({
+      command: 'innerHTML',
+      type: 'div',
+      id: 'completions',
+      value: completions,
+    });
+  }
+
+  renderSummary(): string {
+    const button = (name: string, label: string) =>
+      `<button class="button" style="margin-left: 0.5rem" onclick="postClick('button', '${name}')">${label}</button>`;
+    const commands = (['query', 'cquery', 'aquery'] as QueryCommand[])
+      .map(c => `<option value="${c}"${c === this.command ? ' selected' : ''}>${c}</option>`)
+      .join('');
+    const history = this.history
+      .map(
+        (h, i) =>
+          `<li><a href="#" data-index="${i}" onclick="postDataElementClick('history', this)"><code>${escapeHtml(
+            h.command
+          )} ${escapeHtml(h.expression)}</code></a></li>`
+      )
+      .join('');
+    return `<div style="display: flex; align-items: center">
+      <select name="command" onchange="postInputChange(this)">${commands}</select>
+      <input type="text" name="expression" placeholder="deps(//...)" size="80" autofocus style="margin-left: 0.5rem" value="${escapeHtml(
+        this.expression
+      )}" oninput="postInputChange(this)" onkeydown="if (event.key === 'Enter') postClick('button', 'run')">
+      ${button('run', 'Run')}
+      ${this.running ? button('cancel', 'Cancel') : ''}
+    </div>
+    <div id="completions" style="margin-top: 0.3rem; min-height: 1.5rem"></div>
+    ${
+      history
+        ? `<details>
+      <summary>History</summary>
+      <ul>${history}</ul>
+      <button class="button" onclick="postClick('button', 'clearHistory')">Clear history</button>
+    </details>`
+        : ''
+    }`;
+  }
+
+  renderResults(): string {
+    const request = this.lastRequest;
+    if (!request) {
+      return '';
+    }
+    if (this.error) {
+      return `<pre style="white-space: pre-wrap">${escapeHtml(this.error)}</pre>`;
+    }
+    if (request.command === 'aquery') {
+      return this.renderActions();
+    }
+    return this.renderLabels(request.command === 'cquery');
+  }
+
+  renderLabels(configured: boolean): string {
+    const rows = this.labels
+      .map(
+        l => `<tr>
+          <td><a href="#" data-label="${escapeHtml(
+            l.label
+          )}" onclick="postDataElementClick('label', this)">${escapeHtml(l.label)}</a></td>
+          <td>${escapeHtml(l.kind)}</td>
+          ${configured ? `<td>${escapeHtml(l.config || '')}</td>` : ''}
+        </tr>`
+      )
+      .join('\n');
+    return `<div style="display: flex; align-items: center">
+      <span>${this.labels.length} targets</span>
+      <button class="button" style="margin-left: 1rem" onclick="postClick('button', 'copy')">Copy labels</button>
+    </div>
+    <table class="table table-sm">
+      <tr><th>label</th><th>kind</th>${configured ? '<th>configuration</th>' : ''}</tr>
+      ${rows}
+    </table>`;
+  }
+
+  renderActions(): string {
+    const list = (items: string[], max: number) => {
+      const shown = items
+        .slice(0, max)
+        .map(i => `<div><code>${escapeHtml(i)}</code></div>`)
+        .join('');
+      const more = items.length > max ? `<div>... ${items.length - max} more</div>` : '';
+      return `<details><summary>${items.length}</summary>${shown}${more}</details>`;
+    };
+    const rows = this.actions
+      .map(
+        a => `<tr>
+          <td>${escapeHtml(a.mnemonic)}</td>
+          <td><a href="#" data-label="${escapeHtml(
+            a.target
+          )}" onclick="postDataElementClick('label', this)">${escapeHtml(a.target)}</a></td>
+          <td>${list(a.inputs, MAX_ACTION_INPUTS)}</td>
+          <td>${list(a.outputs, MAX_ACTION_INPUTS)}</td>
+          <td><details><summary>${
+            a.argv.length
+          } args</summary><pre style="white-space: pre-wrap">${escapeHtml(
+          a.argv.join(' ')
+        )}</pre></details></td>
+        </tr>`
+      )
+      .join('\n');
+    return `<p>${this.actions.length} actions</p>
+    <table class="table table-sm">
+      <tr><th>mnemonic</th><th>target</th><th>inputs</th><th>outputs</th><th>argv</th></tr>
+      ${rows}
+    </table>`;
+  }
+
+  public dispose() {
+    this.running?.cancel();
+    this.panel?.dispose();
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables.length = 0;
+  }
+}
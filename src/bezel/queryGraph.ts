@@ -0,0 +1,530 @@
+import * as vscode from 'vscode';
+import { escapeHtml, Message, StaticCodesearchPanel } from './codesearch/panel';
+import { CommandName } from './constants';
+import { BzlLanguageClient } from './lsp';
+import { openLabelDefinition, QueryRunner } from './query';
+import { Status } from './status';
+
+/**
+ * Graphs with more nodes than this are initially collapsed by package.
+ */
+const MAX_EXPANDED_NODES = 150;
+
+const NODE_HEIGHT = 22;
+const ROW_GAP = 10;
+const LAYER_GAP = 60;
+const CHAR_WIDTH = 7;
+const NODE_PADDING = 10;
+
+/**
+ * The options that make query print a graph that parseGraphOutput
+ * understands.
+ */
+export const graphQueryOptions = ['--output=graph', '--nograph:factored'];
+
+/**
+ * A directed graph of labels.
+ */
+export interface QueryGraph {
+  nodes: string[];
+  edges: [string, string][];
+}
+
+/**
+ * A graph in which some nodes stand for several labels (such as all the
+ * targets of a package).
+ */
+export interface CollapsedGraph extends QueryGraph {
+  // the labels of each collapsed node
+  members: Map<string, string[]>;
+}
+
+/**
+ * The position of a node in the rendered graph.
+ */
+export interface NodePosition {
+  x: number;
+  y: number;
+  width: number;
+  layer: number;
+}
+
+export interface GraphLayout {
+  positions: Map<string, NodePosition>;
+  width: number;
+  height: number;
+}
+
+/**
+ * The mode of the dependency graph command.
+ */
+export type GraphMode = 'deps' | 'rdeps';
+
+/**
+ * Parses the output of query --output=graph.  Factored nodes (whose names are
+ * several labels joined by \n) are expanded.
+ */
+export function parseGraphOutput(text: string): QueryGraph {
+  const nodes = new Set<string>();
+  const edges = new Map<string, [string, string]>();
+  const names = (quoted: string) => quoted.split('\\n').filter(n => n);
+  for (const line of text.split(/\r?\n/)) {
+    const edge = /^\s*"([^"]+)"\s*->\s*"([^"]+)"/.exec(line);
+    if (edge) {
+      for (const from of names(edge[1])) {
+        for (const to of names(edge[2])) {
+          nodes.add(from);
+          nodes.add(to);
+          edges.set(`${from} -> ${to}`, [from, to]);
+        }
+      }
+      continue;
+    }
+    const node = /^\s*"([^"]+)"/.exec(line);
+    if (node) {
+      names(node[1]).forEach(n => nodes.add(n));
+    }
+  }
+  return { nodes: Array.from(nodes), edges: Array.from(edges.values()) };
+}
+
+/**
+ * Returns the package of a label, such as //a/b for //a/b:c.
+ */
+export function packageOf(label: string): string {
+  const colon = label.indexOf(':', label.indexOf('//'));
+  return colon < 0 ? label : label.slice(0, colon);
+}
+
+/**
+ * Replaces each node by the one given by fn, dropping the self-loops and
+ * duplicate edges that result.
+ */
+export function mapGraph(graph: QueryGraph, fn: (node: string) => string): CollapsedGraph {
+  const members = new Map<string, string[]>();
+  for (const node of graph.nodes) {
+    const id = fn(node);
+    const list = members.get(id) || [];
+    list.push(node);
+    members.set(id, list);
+  }
+  const edges = new Map<string, [string, string]>();
+  for (const [from, to] of graph.edges) {
+    const a = fn(from);
+    const b = fn(to);
+    if (a !== b) {
+      edges.set(`${a} -> ${b}`, [a, b]);
+    }
+  }
+  return { nodes: Array.from(members.keys()), edges: Array.from(edges.values()), members };
+}
+
+/**
+ * Collapses the targets of each package into a single node, except for the
+ * packages that are expanded.
+ */
+export function collapseByPackage(graph: QueryGraph, expanded: Set<string>): CollapsedGraph {
+  return mapGraph(graph, label => {
+    const pkg = packageOf(label);
+    return expanded.has(pkg) ? label : pkg;
+  });
+}
+
+/**
+ * Assigns the nodes to layers from left to right such that edges point to
+ * the right (edges that close a cycle are ignored), orders each layer by the
+ * average position of its predecessors and computes the coordinates.
+ */
+export function layoutGraph(graph: QueryGraph): GraphLayout {
+  const successors = new Map<string, string[]>(graph.nodes.map(n => [n, []]));
+  const predecessors = new Map<string, string[]>(graph.nodes.map(n => [n, []]));
+  for (const [from, to] of graph.edges) {
+    successors.get(from)?.push(to);
+    predecessors.get(to)?.push(from);
+  }
+
+  // depth-first postorder, roots first, gives a topological order
+  const visited = new Set<string>();
+  const postorder: string[] = [];
+  const visit = (node: string) => {
+    visited.add(node);
+    for (const next of successors.get(node) || []) {
+      if (!visited.has(next)) {
+        visit(next);
+      }
+    }
+    postorder.push(node);
+  };
+  graph.nodes.filter(n => !predecessors.get(n)!.length).forEach(n => visited.has(n) || visit(n));
+  graph.nodes.forEach(n => visited.has(n) || visit(n));
+  const order = postorder.reverse();
+  const rank = new Map(order.map((n, i) => [n, i]));
+
+  const layerOf = new Map<string, number>();
+  for (const node of order) {
+    const layer = layerOf.get(node) || 0;
+    layerOf.set(node, layer);
+    for (const next of successors.get(node)!) {
+      if (rank.get(next)! > rank.get(node)!) {
+        layerOf.set(next, Math.max(layerOf.get(next) || 0, layer + 1));
+      }
+    }
+  }
+
+  const layers: string[][] = [];
+  for (const node of order) {
+    const layer = layerOf.get(node)!;
+    (layers[layer] = layers[layer] || []).push(node);
+  }
+  const index = new Map<string, number>();
+  layers.forEach((nodes, layer) => {
+    if (layer > 0) {
+      const barycenter = (n: string) => {
+        const preds = predecessors.get(n)!.filter(p => index.has(p));
+        return preds.length
+          ? preds.reduce((sum, p) => sum + index.get(p)!, 0) / preds.length
+          : Number.MAX_SAFE_INTEGER;
+      };
+      const centers = new Map(nodes.map(n => [n, barycenter(n)]));
+      nodes.sort((a, b) => centers.get(a)! - centers.get(b)!);
+    }
+    nodes.forEach((n, i) => index.set(n, i));
+  });
+
+  const positions = new Map<string, NodePosition>();
+  let x = 0;
+  let height = 0;
+  layers.forEach((nodes, layer) => {
+    const width = Math.max(...nodes.map(n => n.length)) * CHAR_WIDTH + 2 * NODE_PADDING;
+    nodes.forEach((n, i) => {
+      positions.set(n, { x, y: i * (NODE_HEIGHT + ROW_GAP), width, layer });
+    });
+    height = Math.max(height, nodes.length * (NODE_HEIGHT + ROW_GAP) - ROW_GAP);
+    x += width + LAYER_GAP;
+  });
+
+  return { positions, width: Math.max(0, x - LAYER_GAP), height };
+}
+
+/**
+ * Renders the graph as an svg element whose nodes post a 'click.node' message
+ * with the node id.  Nodes and edges of the highlight graph are emphasized.
+ */
+export function renderGraphSvg(
+  graph: CollapsedGraph,
+  layout: GraphLayout,
+  highlight?: QueryGraph
+): string {
+  const highlightedNodes = new Set(highlight?.nodes || []);
+  const highlightedEdges = new Set((highlight?.edges || []).map(([a, b]) => `${a} -> ${b}`));
+
+  const edges = graph.edges
+    .map(([from, to]) => {
+      const a = layout.positions.get(from)!;
+      const b = layout.positions.get(to)!;
+      const x1 = a.x + a.width;
+      const y1 = a.y + NODE_HEIGHT / 2;
+      const x2 = b.x;
+      const y2 = b.y + NODE_HEIGHT / 2;
+      const dx = Math.max(LAYER_GAP / 2, Math.abs(x2 - x1) / 2);
+      const cls = highlightedEdges.has(`${from} -> ${to}`) ? 'edge path' : 'edge';
+      return `<path class="${cls}" d="M${x1},${y1} C${x1 + dx},${y1} ${
+        x2 - dx
+      },${y2} ${x2},${y2}" marker-end="url(#arrow)"/>`;
+    })
+    .join('\n');
+
+  const nodes = graph.nodes
+    .map(id => {
+      const p = layout.positions.get(id)!;
+      const members = graph.members.get(id) || [id];
+      const collapsed = members.length > 1 || members[0] !== id;
+      const classes = ['node'];
+      if (collapsed) {
+        classes.push('package');
+      }
+      if (highlightedNodes.has(id)) {
+        classes.push('path');
+      }
+      const title = collapsed
+        ? `${id} (${members.length} targets, click to expand)`
+        : `${id} (click to open the BUILD file)`;
+      return `<g class="${classes.join(' ')}" data-id="${escapeHtml(
+        id
+      )}" onclick="postDataElementClick('node', this)">
+        <title>${escapeHtml(title)}</title>
+        <rect x="${p.x}" y="${p.y}" width="${p.width}" height="${NODE_HEIGHT}" rx="4"/>
+        <text x="${p.x + NODE_PADDING}" y="${p.y + NODE_HEIGHT / 2}">${escapeHtml(id)}</text>
+      </g>`;
+    })
+    .join('\n');
+
+  const margin = 10;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width + 2 * margin}" height="${
+    layout.height + 2 * margin
+  }" viewBox="${-margin} ${-margin} ${layout.width + 2 * margin} ${layout.height + 2 * margin}">
+    <style>
+      .edge { fill: none; stroke: var(--vscode-editorLineNumber-foreground); stroke-width: 1; }
+      .edge.path { stroke: var(--vscode-statusBar-debuggingBackground); stroke-width: 2.5; }
+      .node { cursor: pointer; }
+      .node rect { fill: var(--vscode-editorWidget-background); stroke: var(--vscode-editorWidget-border, var(--vscode-editorLineNumber-foreground)); }
+      .node.package rect { stroke-dasharray: 4 2; }
+      .node.path rect { stroke: var(--vscode-statusBar-debuggingBackground); stroke-width: 2.5; }
+      .node:hover rect { fill: var(--vscode-list-hoverBackground); }
+      .node text { fill: var(--vscode-editor-foreground); font-family: var(--vscode-editor-font-family); font-size: 12px; dominant-baseline: middle; }
+    </style>
+    <defs>
+      <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+        <path d="M 0 0 L 10 5 L 0 10 z" fill="var(--vscode-editorLineNumber-foreground)"/>
+      </marker>
+    </defs>
+    ${edges}
+    ${nodes}
+  </svg>`;
+}
+
+/**
+ * DependencyGraph shows the deps or rdeps of a label as a node-link diagram.
+ * Packages can be collapsed into single nodes, paths between two labels are
+ * highlighted, and nodes link back to their BUILD definition.
+ */
+export class DependencyGraph implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private panel: StaticCodesearchPanel | undefined;
+  private expression = '';
+  private graph: QueryGraph = { nodes: [], edges: [] };
+  private collapsed = false;
+  private expanded = new Set<string>();
+  private pathFrom = '';
+  private pathTo = '';
+  private highlight: QueryGraph | undefined;
+  private message = '';
+
+  constructor(
+    private readonly runner: QueryRunner,
+    private readonly lsp: BzlLanguageClient,
+    private readonly extensionUri: vscode.Uri
+  ) {
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        CommandName.QueryDepsGraph,
+        (arg?: string | { target: string }) => this.handleCommandGraph('deps', arg),
+        this
+      ),
+      vscode.commands.registerCommand(
+        CommandName.QueryRdepsGraph,
+        (arg?: string | { target: string }) => this.handleCommandGraph('rdeps', arg),
+        this
+      )
+    );
+  }
+
+  /**
+   * Shows the graph of the given label, which is otherwise taken from the
+   * cursor of the active BUILD file or asked for.
+   */
+  async handleCommandGraph(mode: GraphMode, arg?: string | { target: string }): Promise<void> {
+    let label = typeof arg === 'string' ? arg : arg?.target;
+    if (!label) {
+      label = await vscode.window.showInputBox({
+        prompt: mode === 'deps' ? 'Show the dependencies of' : 'Show the reverse dependencies of',
+        placeHolder: '//path/to:target',
+        value: await this.getLabelAtCursor(),
+        ignoreFocusOut: true,
+      });
+      if (!label?.trim()) {
+        return;
+      }
+      label = label.trim();
+    }
+    this.pathFrom = mode === 'deps' ? label : '';
+    this.pathTo = mode === 'deps' ? '' : label;
+    return this.runGraph(mode === 'deps' ? `deps(${label})` : `rdeps(//..., ${label})`);
+  }
+
+  private async getLabelAtCursor(): Promise<string | undefined> {
+    const editor = vscode.window.activeTextEditor;
+    if (!(editor && editor.document.languageId === 'bazel' && this.lsp.status === Status.READY)) {
+      return undefined;
+    }
+    try {
+      return await this.lsp.getLabelAtDocumentPosition(
+        editor.document.uri,
+        editor.selection.active
+      );
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  private async runGraph(expression: string): Promise<void> {
+    let graph: QueryGraph;
+    try {
+      graph = await this.query(expression);
+    } catch (e) {
+      vscode.window.showErrorMessage(e instanceof Error ? e.message : `${e}`);
+      return;
+    }
+    this.expression = expression;
+    this.graph = graph;
+    this.collapsed = graph.nodes.length > MAX_EXPANDED_NODES;
+    this.expanded.clear();
+    this.highlight = undefined;
+    this.message = this.collapsed
+      ? `The graph has ${graph.nodes.length} targets and is collapsed by package.`
+      : '';
+    return this.render();
+  }
+
+  private async query(expression: string): Promise<QueryGraph> {
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `bazel query ${expression}`,
+        cancellable: true,
+      },
+      (progress, token) =>
+        this.runner.run({ command: 'query', expression, options: graphQueryOptions }, token)
+    );
+    return parseGraphOutput(result.stdout);
+  }
+
+  private async handleCommandPath(fn: 'somepath' | 'allpaths'): Promise<void> {
+    if (!(this.pathFrom && this.pathTo)) {
+      vscode.window.showWarningMessage('Enter the labels to find a path between');
+      return;
+    }
+    try {
+      this.highlight = await this.query(`${fn}(${this.pathFrom}, ${this.pathTo})`);
+    } catch (e) {
+      vscode.window.showErrorMessage(e instanceof Error ? e.message : `${e}`);
+      return;
+    }
+    this.message = this.highlight.nodes.length
+      ? `${fn}(${this.pathFrom}, ${this.pathTo}): ${this.highlight.nodes.length} targets.`
+      : `There is no path from ${this.pathFrom} to ${this.pathTo}.`;
+    return this.update();
+  }
+
+  private async handleClickNode(id: string): Promise<void> {
+    const display = this.displayGraph();
+    const members = display.members.get(id) || [id];
+    if (members.length > 1 || members[0] !== id) {
+      this.expanded.add(id);
+      return this.update();
+    }
+    return openLabelDefinition(this.lsp, this.runner.workspaceDirectory, id);
+  }
+
+  private displayGraph(): CollapsedGraph {
+    return this.collapsed
+      ? collapseByPackage(this.graph, this.expanded)
+      : mapGraph(this.graph, label => label);
+  }
+
+  private async render(): Promise<void> {
+    const title = `Graph ${this.expression}`;
+    if (!this.panel) {
+      this.panel = new StaticCodesearchPanel(
+        this.extensionUri,
+        'DependencyGraph',
+        title,
+        vscode.ViewColumn.One
+      );
+      this.panel.resultsStyle = 'margin-top: 1rem; overflow: auto';
+      this.panel.onDidDispose(
+        () => {
+          this.panel = undefined;
+        },
+        this,
+        this.disposables
+      );
+    }
+    const panel = this.panel;
+    panel.summaryHTML = this.renderSummary();
+    panel.resultsHTML = this.renderResults();
+
+    return panel.render({
+      title,
+      heading: `bazel query <span class="text-hl">${escapeHtml(this.expression)}</span>`,
+      callbacks: {
+        'change.input.expression': (m: Message) => {
+          this.expression = m.value || '';
+        },
+        'change.input.from': (m: Message) => {
+          this.pathFrom = (m.value || '').trim();
+        },
+        'change.input.to': (m: Message) => {
+          this.pathTo = (m.value || '').trim();
+        },
+        'click.button.run': () => this.runGraph(this.expression),
+        'click.button.collapse': () => {
+          this.collapsed = !this.collapsed;
+          this.expanded.clear();
+          return this.update();
+        },
+        'click.button.somepath': () => this.handleCommandPath('somepath'),
+        'click.button.allpaths': () => this.handleCommandPath('allpaths'),
+        'click.button.clear': () => {
+          this.highlight = undefined;
+          this.message = '';
+          return this.update();
+        },
+        'click.node': (m: Message) => {
+          const id = m.data && m.data['id'];
+          if (id) {
+            return this.handleClickNode(id);
+          }
+        },
+      },
+    });
+  }
+
+  private async update(): Promise<void> {
+    this.panel?.onDidChangeHTMLSummary.fire(this.renderSummary());
+    this.panel?.onDidChangeHTMLResults.fire(this.renderResults());
+  }
+
+  renderSummary(): string {
+    const input = (name: string, value: string, placeholder: string, size: number) =>
+      `<input type="text" name="${name}" placeholder="${placeholder}" size="${size}" value="${escapeHtml(
+        value
+      )}" oninput="postInputChange(this)">`;
+    const button = (name: string, label: string) =>
+      `<button class="button" style="margin-left: 0.5rem" onclick="postClick('button', '${name}')">${label}</button>`;
+    return `<div style="display: flex; align-items: center; margin-bottom: 0.5rem">
+      ${input('expression', this.expression, 'Query expression', 60)}
+      ${button('run', 'Run')}
+      ${button('collapse', this.collapsed ? 'Expand packages' : 'Collapse packages')}
+    </div>
+    <div style="display: flex; align-items: center">
+      ${input('from', this.pathFrom, 'From //label', 30)}
+      <span style="margin: 0 0.5rem">to</span>
+      ${input('to', this.pathTo, 'To //label', 30)}
+      ${button('somepath', 'Some path')}
+      ${button('allpaths', 'All paths')}
+      ${this.highlight ? button('clear', 'Clear') : ''}
+    </div>
+    ${this.message ? `<p style="margin-top: 0.5rem">${escapeHtml(this.message)}</p>` : ''}`;
+  }
+
+  renderResults(): string {
+    const display = this.displayGraph();
+    if (!display.nodes.length) {
+      return '<p>The query returned no targets.</p>';
+    }
+    const highlight =
+      this.highlight &&
+      (this.collapsed ? collapseByPackage(this.highlight, this.expanded) : this.highlight);
+    return `<p>${this.graph.nodes.length} targets, ${this.graph.edges.length} edges</p>
+    ${renderGraphSvg(display, layoutGraph(display), highlight)}`;
+  }
+
+  public dispose() {
+    this.panel?.dispose();
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables.length = 0;
+  }
+}
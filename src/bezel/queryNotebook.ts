@@ -0,0 +1,377 @@
+import * as vscode from 'vscode';
+import { BuiltInCommands } from '../constants';
+import { CommandName } from './constants';
+import { QueryCommand, QueryRunner } from './query';
+import {
+  AqueryAction,
+  LabelKindLine,
+  outputOptions,
+  parseAqueryActions,
+  parseLabelKindOutput,
+} from './queryConsole';
+
+/**
+ * The notebook type of .bazelquery files.
+ */
+export const QueryNotebookType = 'bazelquery';
+
+/**
+ * The language of query notebook cells.
+ */
+export const QueryCellLanguage = 'bazelquery';
+
+/**
+ * The maximum number of rows rendered for a cell output; the rest are
+ * counted.
+ */
+const MAX_OUTPUT_ROWS = 500;
+
+/**
+ * A parsed notebook cell.
+ */
+export interface QueryCell {
+  command: QueryCommand | 'info';
+  options: string[];
+  // the query expression, or the info key
+  expression: string;
+}
+
+/**
+ * A bazel info key and value.
+ */
+export interface InfoItem {
+  key: string;
+  value: string;
+}
+
+/**
+ * The result of a cell as stored in the notebook file.
+ */
+export interface StoredOutput {
+  labels?: LabelKindLine[];
+  actions?: AqueryAction[];
+  info?: InfoItem[];
+  error?: string;
+}
+
+/**
+ * A cell of a .bazelquery file.
+ */
+export interface StoredCell {
+  kind: 'markdown' | 'query';
+  value: string;
+  output?: StoredOutput;
+}
+
+/**
+ * The content of a .bazelquery file.
+ */
+export interface QueryNotebookFile {
+  cells: StoredCell[];
+}
+
+/**
+ * Flags of the query commands whose value may be given as a separate word,
+ * as in "--output label".  Other flags without "=" are taken to be booleans.
+ */
+const queryValueFlags = new Set([
+  '--aspect_deps',
+  '--config',
+  '--define',
+  '--order_output',
+  '--output',
+  '--query_file',
+  '--starlark:expr',
+  '--starlark:file',
+  '--universe_scope',
+]);
+
+function unquote(value: string): string {
+  return /^(["'])[\s\S]*\1$/.test(value) ? value.slice(1, -1) : value;
+}
+
+/**
+ * Parses the text of a cell.  The first word selects the command (query if
+ * omitted) and is followed by flags and the expression, which is kept as it
+ * is written.  Lines starting with # are comments.
+ */
+export function parseQueryCell(text: string): QueryCell {
+  let rest = text
+    .split(/\r?\n/)
+    .filter(line => !line.trim().startsWith('#'))
+    .join('\n')
+    .trim();
+  const take = (re: RegExp): RegExpExecArray | null => {
+    const match = re.exec(rest);
+    if (match) {
+      rest = rest.slice(match[0].length);
+    }
+    return match;
+  };
+
+  let command: QueryCell['command'] = 'query';
+  const first = take(/^(query|cquery|aquery|info)(?:\s+|$)/);
+  if (first) {
+    command = first[1] as QueryCell['command'];
+  }
+  const options: string[] = [];
+  let flag: RegExpExecArray | null;
+  while ((flag = take(/^(--[^\s=]+)(?:=("[^"]*"|'[^']*'|\S*))?(?:\s+|$)/))) {
+    let value: string | undefined = flag[2];
+    if (value === undefined && queryValueFlags.has(flag[1])) {
+      value = take(/^("[^"]*"|'[^']*'|\S+)(?:\s+|$)/)?.[1];
+    }
+    options.push(value === undefined ? flag[1] : `${flag[1]}=${unquote(value)}`);
+  }
+  return { command, options, expression: rest };
+}
+
+/**
+ * Parses the output of bazel info.  If a single key was asked for, the
+ * output is the bare value.
+ */
+export function parseInfoOutput(text: string, key?: string): InfoItem[] {
+  if (key) {
+    return [{ key, value: text.trim() }];
+  }
+  const items: InfoItem[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^([\w-]+): (.*)$/.exec(line);
+    if (match) {
+      items.push({ key: match[1], value: match[2] });
+    }
+  }
+  return items;
+}
+
+/**
+ * Parses the content of a .bazelquery file.  Empty files are empty notebooks.
+ */
+export function parseQueryNotebook(text: string): QueryNotebookFile {
+  if (!text.trim()) {
+    return { cells: [] };
+  }
+  const file = JSON.parse(text) as QueryNotebookFile;
+  return { cells: Array.isArray(file.cells) ? file.cells : [] };
+}
+
+/**
+ * Formats the notebook for writing; the output is indented such that diffs
+ * of checked in notebooks are readable.
+ */
+export function formatQueryNotebook(file: QueryNotebookFile): string {
+  return JSON.stringify(file, undefined, 2) + '\n';
+}
+
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function markdownTable(header: string[], rows: string[][]): string {
+  const lines = [`| ${header.join(' | ')} |`, `|${header.map(() => ' --- |').join('')}`];
+  for (const row of rows.slice(0, MAX_OUTPUT_ROWS)) {
+    lines.push(`| ${row.map(escapeMarkdownCell).join(' | ')} |`);
+  }
+  if (rows.length > MAX_OUTPUT_ROWS) {
+    lines.push('', `... ${rows.length - MAX_OUTPUT_ROWS} more`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Renders a stored output as markdown.
+ */
+export function renderStoredOutput(output: StoredOutput): string {
+  if (output.error) {
+    return '```\n' + output.error + '\n```';
+  }
+  if (output.labels) {
+    const configured = output.labels.some(l => l.config !== undefined);
+    const header = configured ? ['label', 'kind', 'configuration'] : ['label', 'kind'];
+    const rows = output.labels.map(l =>
+      configured ? [`\`${l.label}\``, l.kind, l.config || ''] : [`\`${l.label}\``, l.kind]
+    );
+    return `${output.labels.length} targets\n\n${markdownTable(header, rows)}`;
+  }
+  if (output.actions) {
+    const rows = output.actions.map(a => [
+      a.mnemonic,
+      `\`${a.target}\``,
+      `${a.inputs.length}`,
+      a.outputs.map(o => `\`${o}\``).join(' '),
+      `\`${a.argv.join(' ')}\``,
+    ]);
+    return `${output.actions.length} actions\n\n${markdownTable(
+      ['mnemonic', 'target', 'inputs', 'outputs', 'argv'],
+      rows
+    )}`;
+  }
+  if (output.info) {
+    return markdownTable(
+      ['key', 'value'],
+      output.info.map(i => [i.key, `\`${i.value}\``])
+    );
+  }
+  return '';
+}
+
+function newCellOutput(output: StoredOutput): vscode.NotebookCellOutput {
+  return new vscode.NotebookCellOutput(
+    [vscode.NotebookCellOutputItem.text(renderStoredOutput(output), 'text/markdown')],
+    { bazelquery: output }
+  );
+}
+
+/**
+ * QueryNotebookSerializer reads and writes .bazelquery files.  The results of
+ * cells are stored along with them such that a checked in investigation can
+ * be read without re-running it.
+ */
+export class QueryNotebookSerializer implements vscode.NotebookSerializer {
+  deserializeNotebook(content: Uint8Array): vscode.NotebookData {
+    const file = parseQueryNotebook(Buffer.from(content).toString('utf8'));
+    return new vscode.NotebookData(
+      file.cells.map(cell => {
+        if (cell.kind === 'markdown') {
+          return new vscode.NotebookCellData(
+            vscode.NotebookCellKind.Markup,
+            cell.value,
+            'markdown'
+          );
+        }
+        const data = new vscode.NotebookCellData(
+          vscode.NotebookCellKind.Code,
+          cell.value,
+          QueryCellLanguage
+        );
+        if (cell.output) {
+          data.outputs = [newCellOutput(cell.output)];
+        }
+        return data;
+      })
+    );
+  }
+
+  serializeNotebook(data: vscode.NotebookData): Uint8Array {
+    const file: QueryNotebookFile = {
+      cells: data.cells.map(cell => {
+        if (cell.kind === vscode.NotebookCellKind.Markup) {
+          return { kind: 'markdown', value: cell.value };
+        }
+        const stored: StoredCell = { kind: 'query', value: cell.value };
+        const output = cell.outputs?.[0]?.metadata?.bazelquery as StoredOutput | undefined;
+        if (output) {
+          stored.output = output;
+        }
+        return stored;
+      }),
+    };
+    return Buffer.from(formatQueryNotebook(file), 'utf8');
+  }
+}
+
+/**
+ * QueryNotebook registers the .bazelquery serializer and a controller that
+ * runs query, cquery, aquery and info cells.
+ */
+export class QueryNotebook implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly controller: vscode.NotebookController;
+  private executionOrder = 0;
+
+  constructor(private readonly runner: QueryRunner) {
+    this.disposables.push(
+      vscode.workspace.registerNotebookSerializer(QueryNotebookType, new QueryNotebookSerializer())
+    );
+
+    const controller = (this.controller = vscode.notebooks.createNotebookController(
+      'bsv.bazelquery',
+      QueryNotebookType,
+      'Bazel'
+    ));
+    controller.supportedLanguages = [QueryCellLanguage];
+    controller.supportsExecutionOrder = true;
+    controller.executeHandler = this.executeCells.bind(this);
+    this.disposables.push(controller);
+
+    this.disposables.push(
+      vscode.commands.registerCommand(CommandName.QueryNotebookNew, this.handleCommandNew, this)
+    );
+  }
+
+  async handleCommandNew(): Promise<void> {
+    const data = new vscode.NotebookData([
+      new vscode.NotebookCellData(
+        vscode.NotebookCellKind.Markup,
+        '# Why does //app depend on //legacy?',
+        'markdown'
+      ),
+      new vscode.NotebookCellData(
+        vscode.NotebookCellKind.Code,
+        'query somepath(//app, //legacy/...)',
+        QueryCellLanguage
+      ),
+    ]);
+    const doc = await vscode.workspace.openNotebookDocument(QueryNotebookType, data);
+    await vscode.commands.executeCommand(BuiltInCommands.OpenWith, doc.uri, QueryNotebookType);
+  }
+
+  private async executeCells(cells: vscode.NotebookCell[]): Promise<void> {
+    for (const cell of cells) {
+      await this.executeCell(cell);
+    }
+  }
+
+  private async executeCell(cell: vscode.NotebookCell): Promise<void> {
+    const execution = this.controller.createNotebookCellExecution(cell);
+    execution.executionOrder = ++this.executionOrder;
+    execution.start(Date.now());
+
+    const parsed = parseQueryCell(cell.document.getText());
+    let output: StoredOutput;
+    try {
+      output = await this.runCell(parsed, execution.token);
+    } catch (e) {
+      if (execution.token.isCancellationRequested) {
+        execution.end(false, Date.now());
+        return;
+      }
+      output = { error: e instanceof Error ? e.message : `${e}` };
+    }
+    await execution.replaceOutput([newCellOutput(output)]);
+    execution.end(!output.error, Date.now());
+  }
+
+  private async runCell(cell: QueryCell, token: vscode.CancellationToken): Promise<StoredOutput> {
+    if (cell.command === 'info') {
+      const result = await this.runner.info(cell.expression || undefined, token);
+      return { info: parseInfoOutput(result.stdout, cell.expression || undefined) };
+    }
+    if (!cell.expression) {
+      throw new Error(`${cell.command}: expression required`);
+    }
+    const result = await this.runner.run(
+      {
+        command: cell.command,
+        expression: cell.expression,
+        // the output format is fixed such that the results can be parsed
+        options: [
+          ...outputOptions(cell.command),
+          ...cell.options.filter(o => !o.startsWith('--output')),
+        ],
+      },
+      token
+    );
+    if (cell.command === 'aquery') {
+      return { actions: parseAqueryActions(result.stdout) };
+    }
+    return { labels: parseLabelKindOutput(result.stdout) };
+  }
+
+  public dispose() {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables.length = 0;
+  }
+}
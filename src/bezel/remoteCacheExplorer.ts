@@ -0,0 +1,540 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as luxon from 'luxon';
+import * as protobuf from 'protobufjs';
+import Long = require('long');
+import { timestampMillis } from '../common';
+import { ActionResult } from '../proto/build/bazel/remote/execution/v2/ActionResult';
+import { Digest } from '../proto/build/bazel/remote/execution/v2/Digest';
+import { Directory } from '../proto/build/bazel/remote/execution/v2/Directory';
+import { File } from '../proto/build_event_stream/File';
+import { BazelBuildEvent } from './bepHandler';
+import { CommandName } from './constants';
+import { RemoteCache, RemoteCacheClient } from './remote_cache';
+import { Status } from './status';
+
+/**
+ * The URI scheme of read-only documents backed by the remote cache.
+ */
+export const RemoteCacheScheme = 'bsv-cas';
+
+/**
+ * The kinds of remote cache documents.  The kind is the first segment of the
+ * document path: /KIND/HASH/SIZE/NAME.
+ */
+export enum RemoteCacheDocumentKind {
+  // a raw CAS blob
+  Blob = 'blobs',
+  // an ActionResult from the action cache, keyed by action digest
+  ActionResult = 'ac',
+  // a CAS blob containing a Tree message (OutputDirectory.tree_digest)
+  Tree = 'tree',
+  // a CAS blob containing a Directory message, expanded via GetTree
+  Directory = 'dir',
+}
+
+/**
+ * Parses a digest from "HASH/SIZE", "HASH:SIZE" or a bytestream URI such as
+ * bytestream://localhost:1985/blobs/HASH/SIZE.
+ */
+export function parseDigest(text: string): Digest | undefined {
+  const match = /(?:^|\/)([0-9a-f]{32,128})[/:](\d+)(?=$|[/.?#])/i.exec(text.trim());
+  if (!match) {
+    return undefined;
+  }
+  return { hash: match[1].toLowerCase(), sizeBytes: match[2] };
+}
+
+export function formatDigest(digest: Digest | null | undefined): string {
+  if (!digest) {
+    return '';
+  }
+  return `${digest.hash}/${Long.fromValue(digest.sizeBytes || 0).toString()}`;
+}
+
+export function remoteCacheUri(
+  kind: RemoteCacheDocumentKind,
+  digest: Digest,
+  name: string
+): vscode.Uri {
+  return vscode.Uri.from({
+    scheme: RemoteCacheScheme,
+    path: `/${kind}/${formatDigest(digest)}/${name}`,
+  });
+}
+
+/**
+ * Renders an ActionResult as markdown.
+ */
+export function formatActionResult(actionDigest: Digest, result: ActionResult): string {
+  const lines: string[] = [`# Action ${formatDigest(actionDigest)}`, ''];
+
+  lines.push(`- Exit code: ${result.exitCode || 0}`);
+  const md = result.executionMetadata;
+  if (md) {
+    if (md.worker) {
+      lines.push(`- Worker: ${md.worker}`);
+    }
+    const start = timestampMillis(md.workerStartTimestamp);
+    const end = timestampMillis(md.workerCompletedTimestamp);
+    if (start && end) {
+      lines.push(`- Executed: ${new Date(start).toISOString()} in ${end - start}ms`);
+    }
+  }
+
+  const outputFiles = result.outputFiles || [];
+  if (outputFiles.length) {
+    lines.push('', '## Output Files', '', '| Path | Digest | Executable |', '|---|---|---|');
+    for (const f of outputFiles) {
+      lines.push(`| ${f.path} | ${formatDigest(f.digest)} | ${f.isExecutable ? 'yes' : ''} |`);
+    }
+  }
+
+  const outputDirectories = result.outputDirectories || [];
+  if (outputDirectories.length) {
+    lines.push('', '## Output Directories', '', '| Path | Tree Digest |', '|---|---|');
+    for (const d of outputDirectories) {
+      lines.push(`| ${d.path} | ${formatDigest(d.treeDigest)} |`);
+    }
+  }
+
+  const symlinks = (result.outputFileSymlinks || []).concat(result.outputDirectorySymlinks || []);
+  if (symlinks.length) {
+    lines.push('', '## Output Symlinks', '');
+    for (const s of symlinks) {
+      lines.push(`- ${s.path} -> ${s.target}`);
+    }
+  }
+
+  appendOutputStream(lines, 'stdout', result.stdoutRaw, result.stdoutDigest);
+  appendOutputStream(lines, 'stderr', result.stderrRaw, result.stderrDigest);
+
+  return lines.join('\n') + '\n';
+}
+
+function appendOutputStream(
+  lines: string[],
+  name: string,
+  raw: Buffer | Uint8Array | string | undefined,
+  digest: Digest | null | undefined
+) {
+  const text = raw ? Buffer.from(raw as Uint8Array).toString('utf-8') : '';
+  if (!text && !digest) {
+    return;
+  }
+  lines.push('', `## ${name}`, '');
+  if (text) {
+    lines.push('```', text.replace(/\n$/, ''), '```');
+  } else {
+    lines.push(`Not inlined, see blob ${formatDigest(digest)}`);
+  }
+}
+
+/**
+ * Lists the files of a directory tree, one per line, with their digests.
+ * Child directories are resolved by digest hash from the given map.
+ */
+export function listDirectoryTree(
+  root: Directory,
+  children: Map<string, Directory>,
+  prefix = ''
+): string[] {
+  const lines: string[] = [];
+  for (const f of root.files || []) {
+    lines.push(`${prefix}${f.name}${f.isExecutable ? '*' : ''}\t${formatDigest(f.digest)}`);
+  }
+  for (const s of root.symlinks || []) {
+    lines.push(`${prefix}${s.name} -> ${s.target}`);
+  }
+  for (const d of root.directories || []) {
+    const child = d.digest?.hash ? children.get(d.digest.hash) : undefined;
+    lines.push(`${prefix}${d.name}/\t${formatDigest(d.digest)}${child ? '' : ' (missing)'}`);
+    if (child) {
+      lines.push(...listDirectoryTree(child, children, `${prefix}${d.name}/`));
+    }
+  }
+  return lines;
+}
+
+/**
+ * Returns true if the data looks like binary content.
+ */
+export function isBinary(data: Buffer): boolean {
+  return data.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Formats the data as a hex dump, 16 bytes per line.
+ */
+export function hexDump(data: Buffer, max = 64 * 1024): string {
+  const lines: string[] = [];
+  const n = Math.min(data.length, max);
+  for (let offset = 0; offset < n; offset += 16) {
+    const chunk = data.subarray(offset, Math.min(offset + 16, n));
+    const hex = Array.from(chunk)
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join(' ');
+    const ascii = Array.from(chunk)
+      .map(b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.'))
+      .join('');
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  ${ascii}`);
+  }
+  if (data.length > n) {
+    lines.push(`... ${data.length - n} more bytes`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * An action result that was looked up, retained for the tree view.
+ */
+export interface ActionResultLookup {
+  actionDigest: Digest;
+  result: ActionResult;
+  timeMillis: number;
+}
+
+/**
+ * RemoteCacheExplorer looks up action results and blobs in the remote cache
+ * and presents them as read-only documents.
+ */
+export class RemoteCacheExplorer implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly _onDidChangeLookups = new vscode.EventEmitter<void>();
+  readonly onDidChangeLookups: vscode.Event<void> = this._onDidChangeLookups.event;
+  private readonly _lookups: ActionResultLookup[] = [];
+  private types: Promise<{ directory: protobuf.Type; tree: protobuf.Type }>;
+
+  constructor(private readonly remoteCache: RemoteCache) {
+    this.disposables.push(this._onDidChangeLookups);
+    this.disposables.push(
+      vscode.workspace.registerTextDocumentContentProvider(RemoteCacheScheme, this)
+    );
+    this.addCommand(
+      CommandName.RemoteCacheLookupActionResult,
+      this.handleCommandLookupActionResult
+    );
+    this.addCommand(CommandName.RemoteCacheOpenBlob, this.handleCommandOpenBlob);
+    this.addCommand(CommandName.RemoteCacheOpenDirectory, this.handleCommandOpenDirectory);
+    this.addCommand(CommandName.RemoteCacheInspectAction, this.handleCommandInspectAction);
+
+    this.types = protobuf
+      .load(remoteCache.settings.configCtx.protoFile('remote_execution.proto').fsPath)
+      .then(root => ({
+        directory: root.lookupType('build.bazel.remote.execution.v2.Directory'),
+        tree: root.lookupType('build.bazel.remote.execution.v2.Tree'),
+      }));
+    // avoid an unhandled rejection; the error is reported when a tree is opened.
+    this.types.catch(() => {});
+  }
+
+  private addCommand(name: CommandName, command: (...args: any) => any) {
+    this.disposables.push(vscode.commands.registerCommand(name, command, this));
+  }
+
+  /**
+   * Returns the action results looked up in this session, most recent first.
+   */
+  get lookups(): ActionResultLookup[] {
+    return this._lookups;
+  }
+
+  private getClient(): RemoteCacheClient {
+    if (this.remoteCache.status !== Status.READY || !this.remoteCache.client) {
+      throw new Error('Remote cache not ready');
+    }
+    return this.remoteCache.client;
+  }
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const [kind, hash, size] = uri.path.split('/').slice(1);
+    const digest = parseDigest(`${hash}/${size}`);
+    if (!digest) {
+      throw new Error(`invalid remote cache uri: ${uri.toString()}`);
+    }
+
+    const client = this.getClient();
+    switch (kind) {
+      case RemoteCacheDocumentKind.ActionResult:
+        return formatActionResult(digest, await client.getActionResult(digest));
+      case RemoteCacheDocumentKind.Tree: {
+        const { tree: treeType, directory } = await this.types;
+        const [data] = await client.batchReadBlobs([digest]);
+        const tree = treeType.decode(data) as unknown as {
+          root?: protobuf.Message;
+          children?: protobuf.Message[];
+        };
+        const children = new Map<string, Directory>();
+        for (const child of tree.children || []) {
+          children.set(hashMessage(directory, child, hash), toDirectory(directory, child));
+        }
+        if (!tree.root) {
+          return '';
+        }
+        return listDirectoryTree(toDirectory(directory, tree.root), children).join('\n') + '\n';
+      }
+      case RemoteCacheDocumentKind.Directory: {
+        const { directory } = await this.types;
+        const children = new Map<string, Directory>();
+        const directories = await client.getTree(digest);
+        let root: Directory | undefined = directories[0];
+        for (const dir of directories) {
+          const message = directory.fromObject(dir);
+          const key = hashMessage(directory, message, hash);
+          children.set(key, dir);
+          if (key === digest.hash) {
+            root = dir;
+          }
+        }
+        if (!root) {
+          throw new Error(`directory ${formatDigest(digest)} not found`);
+        }
+        return listDirectoryTree(root, children).join('\n') + '\n';
+      }
+      default: {
+        const [data] = await client.batchReadBlobs([digest]);
+        return isBinary(data) ? hexDump(data) : data.toString('utf-8');
+      }
+    }
+  }
+
+  /**
+   * Looks up the action result for the given (or prompted) action digest and
+   * opens it.
+   */
+  async handleCommandLookupActionResult(text?: string): Promise<void> {
+    if (typeof text !== 'string') {
+      text = await vscode.window.showInputBox({
+        prompt: 'Action digest (HASH/SIZE)',
+        placeHolder: 'e.g. 5b6c...e1f/142',
+        validateInput: value => (parseDigest(value) ? undefined : 'Expected HASH/SIZE'),
+      });
+      if (!text) {
+        return;
+      }
+    }
+    const digest = parseDigest(text);
+    if (!digest) {
+      vscode.window.showErrorMessage(`Not a digest: ${text}`);
+      return;
+    }
+
+    try {
+      const result = await this.getClient().getActionResult(digest);
+      this.addLookup({ actionDigest: digest, result, timeMillis: Date.now() });
+      await this.openDocument(
+        remoteCacheUri(RemoteCacheDocumentKind.ActionResult, digest, 'ActionResult.md')
+      );
+    } catch (e) {
+      vscode.window.showErrorMessage(
+        `Failed to get action result ${formatDigest(digest)}: ${e instanceof Error ? e.message : e}`
+      );
+    }
+  }
+
+  private addLookup(lookup: ActionResultLookup) {
+    const key = formatDigest(lookup.actionDigest);
+    const index = this._lookups.findIndex(l => formatDigest(l.actionDigest) === key);
+    if (index >= 0) {
+      this._lookups.splice(index, 1);
+    }
+    this._lookups.unshift(lookup);
+    this._lookups.length = Math.min(this._lookups.length, 20);
+    this._onDidChangeLookups.fire();
+  }
+
+  /**
+   * Opens the blob with the given digest, bytestream URI or remote cache
+   * document URI.  The name is used to select a language mode.
+   */
+  async handleCommandOpenBlob(
+    arg?: string | vscode.Uri,
+    name?: string,
+    kind = RemoteCacheDocumentKind.Blob
+  ): Promise<void> {
+    if (arg instanceof vscode.Uri) {
+      return this.openDocument(arg);
+    }
+    if (typeof arg !== 'string') {
+      arg = await vscode.window.showInputBox({
+        prompt: 'Blob digest (HASH/SIZE) or bytestream:// URI',
+        validateInput: value => (parseDigest(value) ? undefined : 'Expected HASH/SIZE'),
+      });
+      if (!arg) {
+        return;
+      }
+    }
+    const digest = parseDigest(arg);
+    if (!digest) {
+      vscode.window.showErrorMessage(`Not a digest: ${arg}`);
+      return;
+    }
+    return this.openDocument(remoteCacheUri(kind, digest, name || digest.hash!));
+  }
+
+  /**
+   * Lists the directory tree rooted at the given (or prompted) Directory
+   * digest.
+   */
+  async handleCommandOpenDirectory(text?: string): Promise<void> {
+    if (typeof text !== 'string') {
+      text = await vscode.window.showInputBox({
+        prompt: 'Directory digest (HASH/SIZE), such as an action input root',
+        validateInput: value => (parseDigest(value) ? undefined : 'Expected HASH/SIZE'),
+      });
+      if (!text) {
+        return;
+      }
+    }
+    return this.handleCommandOpenBlob(text, 'directory.tree', RemoteCacheDocumentKind.Directory);
+  }
+
+  /**
+   * Offers the remote cache blobs referenced by an ActionExecuted event.
+   */
+  async handleCommandInspectAction(item?: { event?: BazelBuildEvent }): Promise<void> {
+    const action = item?.event?.bes.action;
+    if (!action) {
+      return this.handleCommandLookupActionResult();
+    }
+
+    const candidates: { label: string; file: File | null | undefined }[] = [
+      { label: 'stdout', file: action.stdout },
+      { label: 'stderr', file: action.stderr },
+      { label: 'primary output', file: action.primaryOutput },
+    ];
+    for (const log of action.actionMetadataLogs || []) {
+      candidates.push({ label: 'metadata log', file: log });
+    }
+
+    const picks: (vscode.QuickPickItem & { digest?: Digest; name?: string })[] = [];
+    for (const c of candidates) {
+      const uri = c.file?.uri;
+      const digest = uri?.startsWith('bytestream://') ? parseDigest(uri) : undefined;
+      if (digest) {
+        picks.push({
+          label: c.label,
+          description: c.file?.name,
+          detail: formatDigest(digest),
+          digest,
+          name: (c.file?.name || c.label).split('/').pop(),
+        });
+      }
+    }
+    picks.push({ label: 'Look up action result by digest...' });
+
+    const picked = await vscode.window.showQuickPick(picks, {
+      placeHolder: `Remote cache blobs of ${action.type} ${action.label || ''}`,
+    });
+    if (!picked) {
+      return;
+    }
+    if (!picked.digest) {
+      return this.handleCommandLookupActionResult();
+    }
+    return this.openDocument(
+      remoteCacheUri(RemoteCacheDocumentKind.Blob, picked.digest, picked.name!)
+    );
+  }
+
+  private async openDocument(uri: vscode.Uri): Promise<void> {
+    try {
+      const doc = await vscode.workspace.openTextDocument(uri);
+      await vscode.window.showTextDocument(doc, { preview: true });
+    } catch (e) {
+      vscode.window.showErrorMessage(
+        `Failed to open ${uri.path}: ${e instanceof Error ? e.message : e}`
+      );
+    }
+  }
+
+  dispose() {
+    for (const d of this.disposables) {
+      d.dispose();
+    }
+    this.disposables.length = 0;
+  }
+}
+
+/**
+ * Computes the digest hash of the message, using the hash function implied by
+ * the length of the reference hash.
+ */
+function hashMessage(type: protobuf.Type, message: protobuf.Message, reference: string): string {
+  const algorithm = reference.length === 40 ? 'sha1' : reference.length === 32 ? 'md5' : 'sha256';
+  return crypto.createHash(algorithm).update(type.encode(message).finish()).digest('hex');
+}
+
+function toDirectory(type: protobuf.Type, message: protobuf.Message): Directory {
+  return type.toObject(message, { longs: String, defaults: false }) as Directory;
+}
+
+/**
+ * Renders a view of an action result that was looked up.
+ */
+export class ActionResultItem extends vscode.TreeItem {
+  constructor(public readonly lookup: ActionResultLookup) {
+    super(lookup.actionDigest.hash!.slice(0, 12));
+    const result = lookup.result;
+    this.description = `exit ${result.exitCode || 0} (${luxon.DateTime.fromMillis(
+      lookup.timeMillis
+    ).toRelative()})`;
+    this.tooltip = formatDigest(lookup.actionDigest);
+    this.iconPath = new vscode.ThemeIcon(
+      result.exitCode ? 'testing-failed-icon' : 'testing-passed-icon'
+    );
+    this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+    this.contextValue = 'actionResult';
+    this.command = {
+      title: 'Open Action Result',
+      command: CommandName.RemoteCacheOpenBlob,
+      arguments: [
+        remoteCacheUri(
+          RemoteCacheDocumentKind.ActionResult,
+          lookup.actionDigest,
+          'ActionResult.md'
+        ),
+      ],
+    };
+  }
+
+  async getChildren(): Promise<vscode.TreeItem[]> {
+    const result = this.lookup.result;
+    const items: vscode.TreeItem[] = [];
+    if (result.stdoutDigest?.hash) {
+      items.push(new RemoteCacheBlobItem('stdout', result.stdoutDigest, 'output'));
+    }
+    if (result.stderrDigest?.hash) {
+      items.push(new RemoteCacheBlobItem('stderr', result.stderrDigest, 'output'));
+    }
+    for (const f of result.outputFiles || []) {
+      if (f.digest) {
+        items.push(new RemoteCacheBlobItem(f.path!, f.digest, 'file'));
+      }
+    }
+    for (const d of result.outputDirectories || []) {
+      if (d.treeDigest) {
+        items.push(
+          new RemoteCacheBlobItem(d.path!, d.treeDigest, 'folder', RemoteCacheDocumentKind.Tree)
+        );
+      }
+    }
+    return items;
+  }
+}
+
+class RemoteCacheBlobItem extends vscode.TreeItem {
+  constructor(path: string, digest: Digest, icon: string, kind = RemoteCacheDocumentKind.Blob) {
+    super(path);
+    this.description = formatDigest(digest);
+    this.iconPath = new vscode.ThemeIcon(icon);
+    const name = path.split('/').pop() || digest.hash!;
+    this.command = {
+      title: 'Open Blob',
+      command: CommandName.RemoteCacheOpenBlob,
+      arguments: [
+        remoteCacheUri(kind, digest, kind === RemoteCacheDocumentKind.Tree ? `${name}.tree` : name),
+      ],
+    };
+  }
+}
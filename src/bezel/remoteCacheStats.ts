@@ -0,0 +1,559 @@
+import * as vscode from 'vscode';
+import * as fs from 'graceful-fs';
+import * as path from 'path';
+import * as luxon from 'luxon';
+import stripAnsi = require('strip-ansi');
+import Long = require('long');
+import { BuildEvent as BuildEventStreamEvent } from '../proto/build_event_stream/BuildEvent';
+import { BazelBuildEvent } from './bepHandler';
+import { BEPRunner } from './bepRunner';
+import { RemoteCacheConfiguration } from './configuration';
+import { CommandName, Memento } from './constants';
+import { Settings } from './settings';
+import { Expandable } from './workspaceView';
+
+/**
+ * Cache hits and misses of a single mnemonic.
+ */
+export interface MnemonicCacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * InvocationCacheStats describes the remote cache effectiveness of a single
+ * invocation.
+ */
+export interface InvocationCacheStats {
+  invocationId: string;
+  command: string;
+  patterns: string[];
+  timeMillis: number;
+  // the total number of processes, as reported by bazel
+  processes: number;
+  // number of processes per runner ("remote cache hit", "linux-sandbox", ...)
+  runners: { [runner: string]: number };
+  // Cache hits and misses.  These are counted from the process summary bazel
+  // prints to the console, which is all the BEP of an invocation reports, and
+  // replaced by the counts of the execution log if there is one.
+  hits: number;
+  // processes that were not cache hits, excluding internal ones
+  misses: number;
+  actionsCreated?: number;
+  actionsExecuted?: number;
+  wallTimeMillis?: number;
+  // the following are only available from an --execution_log_json_file.
+  mnemonics?: { [mnemonic: string]: MnemonicCacheStats };
+  bytesDownloaded?: number;
+  bytesUploaded?: number;
+}
+
+/**
+ * Parses the process summary bazel prints at the end of the execution phase,
+ * such as "INFO: 25 processes: 3 remote cache hit, 20 internal, 2 linux-sandbox.".
+ */
+export function parseProcessSummary(
+  text: string
+): { processes: number; runners: { [runner: string]: number } } | undefined {
+  const match = /INFO: (\d+) process(?:es)?(?:: ([^\n]*?))?\.?\s*$/m.exec(stripAnsi(text));
+  if (!match) {
+    return undefined;
+  }
+  const runners: { [runner: string]: number } = {};
+  for (const part of (match[2] || '').split(',')) {
+    const runner = /^\s*(\d+) (.+?)\s*$/.exec(part);
+    if (runner) {
+      runners[runner[2]] = parseInt(runner[1], 10);
+    }
+  }
+  return { processes: parseInt(match[1], 10), runners };
+}
+
+function isCacheHitRunner(runner: string): boolean {
+  return runner.endsWith('cache hit');
+}
+
+/**
+ * Returns the fraction of cacheable processes that were cache hits, or
+ * undefined if there were none.
+ */
+export function cacheHitRate(stats: { hits: number; misses: number }): number | undefined {
+  const total = stats.hits + stats.misses;
+  return total ? stats.hits / total : undefined;
+}
+
+export function formatHitRate(stats: { hits: number; misses: number }): string {
+  const rate = cacheHitRate(stats);
+  if (rate === undefined) {
+    return 'no cacheable processes';
+  }
+  return `${Math.round(rate * 100)}% hit (${stats.hits}/${stats.hits + stats.misses})`;
+}
+
+/**
+ * Formats a byte count using binary units.
+ */
+export function formatBytes(n: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let i = 0;
+  while (n >= 1024 && i < units.length - 1) {
+    n /= 1024;
+    i++;
+  }
+  return `${i === 0 ? n : n.toFixed(1)} ${units[i]}`;
+}
+
+/**
+ * Renders the values (0..1) as a unicode bar chart.
+ */
+export function sparkline(values: number[]): string {
+  const bars = '▁▂▃▄▅▆▇█';
+  return values
+    .map(v => bars[Math.max(0, Math.min(bars.length - 1, Math.round(v * (bars.length - 1))))])
+    .join('');
+}
+
+/**
+ * A spawn from --execution_log_json_file.  Only the fields used here are
+ * declared.
+ */
+export interface SpawnExec {
+  mnemonic?: string;
+  runner?: string;
+  remoteCacheHit?: boolean;
+  remoteCacheable?: boolean;
+  status?: string;
+  exitCode?: number;
+  actualOutputs?: { path?: string; digest?: { hash?: string; sizeBytes?: string | number } }[];
+}
+
+/**
+ * Parses an --execution_log_json_file, which is a sequence of (pretty
+ * printed) JSON objects that are not separated by commas.
+ */
+export function parseExecutionLog(text: string): SpawnExec[] {
+  const spawns: SpawnExec[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (c === '\\') {
+        i++;
+      } else if (c === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (c === '"') {
+      inString = true;
+    } else if (c === '{') {
+      if (depth++ === 0) {
+        start = i;
+      }
+    } else if (c === '}') {
+      if (--depth === 0) {
+        spawns.push(JSON.parse(text.slice(start, i + 1)));
+      }
+    }
+  }
+  return spawns;
+}
+
+/**
+ * Adds per-mnemonic hits and misses and the (estimated) transferred bytes of
+ * the spawns to the stats, and replaces the total hits and misses with those
+ * of the spawns.  Outputs of cache hits count as downloaded; outputs of
+ * successful remote-cacheable misses count as uploaded.
+ */
+export function applyExecutionLog(stats: InvocationCacheStats, spawns: SpawnExec[]): void {
+  const mnemonics: { [mnemonic: string]: MnemonicCacheStats } = {};
+  let downloaded = 0;
+  let uploaded = 0;
+  for (const spawn of spawns) {
+    const mnemonic = spawn.mnemonic || 'unknown';
+    const m = mnemonics[mnemonic] || (mnemonics[mnemonic] = { hits: 0, misses: 0 });
+    let size = 0;
+    for (const output of spawn.actualOutputs || []) {
+      size += Long.fromValue(output.digest?.sizeBytes || 0).toNumber();
+    }
+    if (spawn.remoteCacheHit) {
+      m.hits++;
+      downloaded += size;
+    } else {
+      m.misses++;
+      if (
+        spawn.remoteCacheable &&
+        !spawn.exitCode &&
+        (!spawn.status || spawn.status === 'SUCCESS')
+      ) {
+        uploaded += size;
+      }
+    }
+  }
+  stats.mnemonics = mnemonics;
+  stats.hits = Object.values(mnemonics).reduce((n, m) => n + m.hits, 0);
+  stats.misses = spawns.length - stats.hits;
+  stats.bytesDownloaded = downloaded;
+  stats.bytesUploaded = uploaded;
+}
+
+/**
+ * Returns the total size of the files under the given directory.
+ */
+export async function diskUsage(dir: string): Promise<number> {
+  let total = 0;
+  const walk = async (d: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(d, { withFileTypes: true });
+    } catch (e) {
+      return;
+    }
+    for (const entry of entries) {
+      const p = path.join(d, entry.name);
+      if (entry.isDirectory()) {
+        await walk(p);
+      } else if (entry.isFile()) {
+        try {
+          total += (await fs.promises.stat(p)).size;
+        } catch (e) {
+          // file removed by cache eviction
+        }
+      }
+    }
+  };
+  await walk(dir);
+  return total;
+}
+
+/**
+ * The number of milliseconds the disk usage of the cache directory is reused,
+ * as walking a large cache is slow.
+ */
+const DISK_USAGE_TTL_MILLIS = 60 * 1000;
+
+/**
+ * StatsBuilder accumulates the stats of a single invocation from its build
+ * events.
+ */
+export class StatsBuilder {
+  readonly stats: InvocationCacheStats;
+  private hasProcessSummary = false;
+
+  constructor() {
+    this.stats = {
+      invocationId: '',
+      command: '',
+      patterns: [],
+      timeMillis: Date.now(),
+      processes: 0,
+      runners: {},
+      hits: 0,
+      misses: 0,
+    };
+  }
+
+  /**
+   * Returns true if the invocation reported a process summary.
+   */
+  get complete(): boolean {
+    return this.hasProcessSummary;
+  }
+
+  handleEvent(e: BuildEventStreamEvent) {
+    switch (e.payload) {
+      case 'started': {
+        const started = e.started!;
+        this.stats.invocationId = started.uuid || '';
+        this.stats.command = started.command || '';
+        if (started.startTimeMillis) {
+          this.stats.timeMillis = Long.fromValue(started.startTimeMillis).toNumber();
+        }
+        break;
+      }
+      case 'expanded':
+        this.stats.patterns = e.id?.pattern?.pattern || [];
+        break;
+      case 'progress': {
+        const summary = parseProcessSummary(e.progress!.stderr || '');
+        if (summary) {
+          this.hasProcessSummary = true;
+          this.stats.processes = summary.processes;
+          this.stats.runners = summary.runners;
+          this.stats.hits = 0;
+          this.stats.misses = 0;
+          for (const [runner, count] of Object.entries(summary.runners)) {
+            if (isCacheHitRunner(runner)) {
+              this.stats.hits += count;
+            } else if (runner !== 'internal') {
+              this.stats.misses += count;
+            }
+          }
+        }
+        break;
+      }
+      case 'buildMetrics': {
+        const metrics = e.buildMetrics!;
+        const actions = metrics.actionSummary;
+        if (actions) {
+          this.stats.actionsCreated = Long.fromValue(actions.actionsCreated || 0).toNumber();
+          this.stats.actionsExecuted = Long.fromValue(actions.actionsExecuted || 0).toNumber();
+        }
+        if (metrics.timingMetrics?.wallTimeInMs) {
+          this.stats.wallTimeMillis = Long.fromValue(metrics.timingMetrics.wallTimeInMs).toNumber();
+        }
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * RemoteCacheStatsCollector records the cache stats of each invocation in the
+ * workspace state, keeping the most recent ones.
+ */
+export class RemoteCacheStatsCollector implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+  private builder: StatsBuilder | undefined;
+  // the id of the most recently finished invocation
+  private lastInvocationId: string | undefined;
+  // serializes updates of the memento
+  private updates: Promise<void> = Promise.resolve();
+  private diskUsageCache: { dir: string; timeMillis: number; used: Promise<number> } | undefined;
+
+  constructor(
+    bepRunner: BEPRunner,
+    private readonly settings: Settings<RemoteCacheConfiguration>,
+    private readonly memento: vscode.Memento
+  ) {
+    this.disposables.push(this._onDidChange);
+    bepRunner.onDidReceiveBazelBuildEvent.event(this.handleBazelBuildEvent, this, this.disposables);
+    bepRunner.onDidReceiveExecutionLog.event(this.handleExecutionLog, this, this.disposables);
+    this.disposables.push(
+      vscode.commands.registerCommand(CommandName.RemoteCacheStatsClear, this.clear, this)
+    );
+  }
+
+  /**
+   * Returns the recorded stats, most recent first.
+   */
+  get history(): InvocationCacheStats[] {
+    return this.memento.get<InvocationCacheStats[]>(Memento.RemoteCacheStats, []);
+  }
+
+  /**
+   * Returns the total size of the cache directory, computed at most once per
+   * DISK_USAGE_TTL_MILLIS.
+   */
+  diskUsage(dir: string, now = Date.now()): Promise<number> {
+    const cache = this.diskUsageCache;
+    if (cache && cache.dir === dir && now - cache.timeMillis < DISK_USAGE_TTL_MILLIS) {
+      return cache.used;
+    }
+    const used = diskUsage(dir);
+    this.diskUsageCache = { dir, timeMillis: now, used };
+    return used;
+  }
+
+  private handleBazelBuildEvent(e: BazelBuildEvent) {
+    if (e.bes.payload === 'started') {
+      this.builder = new StatsBuilder();
+    }
+    if (!this.builder) {
+      return;
+    }
+    this.builder.handleEvent(e.bes);
+    if (e.bes.payload === 'finished') {
+      const builder = this.builder;
+      this.builder = undefined;
+      this.lastInvocationId = builder.stats.invocationId;
+      if (builder.complete) {
+        this.enqueue(() => this.save(builder.stats));
+      }
+    }
+  }
+
+  private handleExecutionLog(text: string) {
+    this.enqueue(() => this.applyExecutionLog(text));
+  }
+
+  private enqueue(update: () => Promise<void>) {
+    this.updates = this.updates.then(update, update);
+  }
+
+  private async applyExecutionLog(text: string) {
+    const [latest, ...rest] = this.history;
+    if (!(latest && latest.invocationId === this.lastInvocationId)) {
+      return;
+    }
+    try {
+      applyExecutionLog(latest, parseExecutionLog(text));
+    } catch (e) {
+      console.warn(`failed to parse execution log: ${e instanceof Error ? e.message : e}`);
+      return;
+    }
+    await this.memento.update(Memento.RemoteCacheStats, [latest, ...rest]);
+    this._onDidChange.fire();
+  }
+
+  private async save(stats: InvocationCacheStats) {
+    const cfg = await this.settings.get();
+    const history = [stats]
+      .concat(this.history.filter(s => s.invocationId !== stats.invocationId))
+      .slice(0, Math.max(1, cfg.statsHistorySize));
+    await this.memento.update(Memento.RemoteCacheStats, history);
+    this._onDidChange.fire();
+  }
+
+  async clear(): Promise<void> {
+    this.enqueue(async () => {
+      await this.memento.update(Memento.RemoteCacheStats, undefined);
+      this._onDidChange.fire();
+    });
+    return this.updates;
+  }
+
+  dispose() {
+    for (const d of this.disposables) {
+      d.dispose();
+    }
+    this.disposables.length = 0;
+  }
+}
+
+/**
+ * Renders a dashboard of the remote cache stats.
+ */
+export class RemoteCacheStatsItem extends vscode.TreeItem implements Expandable {
+  constructor(
+    private readonly collector: RemoteCacheStatsCollector,
+    private readonly cfg: RemoteCacheConfiguration
+  ) {
+    super('Cache');
+    const history = collector.history;
+    this.description = history.length ? `Stats: ${formatHitRate(history[0])}` : 'Stats';
+    this.tooltip =
+      'Remote cache stats of the invocations run from this window, counted from the ' +
+      'process summary bazel prints (or the execution log, if enabled)';
+    this.iconPath = new vscode.ThemeIcon('graph');
+    this.contextValue = 'remoteCacheStats';
+    this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+  }
+
+  async getChildren(): Promise<vscode.TreeItem[]> {
+    const items: vscode.TreeItem[] = [await this.createDiskUsageItem()];
+
+    const history = this.collector.history;
+    if (!history.length) {
+      const item = new vscode.TreeItem('No invocations recorded yet');
+      item.iconPath = new vscode.ThemeIcon('info');
+      items.push(item);
+      return items;
+    }
+
+    items.push(new InvocationCacheStatsItem(history[0], 'Last Invocation'));
+
+    items.push(new StatsTrendItem(history));
+
+    return items;
+  }
+
+  async createDiskUsageItem(): Promise<vscode.TreeItem> {
+    const item = new vscode.TreeItem('Disk Usage');
+    item.iconPath = new vscode.ThemeIcon('database');
+    if (!this.cfg.dir) {
+      item.description = 'unknown (bsv.bzl.remoteCache.dir not set)';
+      return item;
+    }
+    const used = await this.collector.diskUsage(this.cfg.dir);
+    const max = this.cfg.maxSizeGb * 1024 * 1024 * 1024;
+    item.description = `${formatBytes(used)} of ${this.cfg.maxSizeGb} GB`;
+    if (max) {
+      item.description += ` (${Math.round((used / max) * 100)}%)`;
+    }
+    item.tooltip = this.cfg.dir;
+    return item;
+  }
+}
+
+class StatsTrendItem extends vscode.TreeItem implements Expandable {
+  constructor(private readonly history: InvocationCacheStats[]) {
+    super('Trend');
+    const rates = history
+      .map(cacheHitRate)
+      .filter(r => r !== undefined)
+      .reverse() as number[];
+    const average = rates.length ? rates.reduce((a, b) => a + b, 0) / rates.length : 0;
+    this.description = `${sparkline(rates)} avg ${Math.round(average * 100)}% of last ${
+      history.length
+    }`;
+    this.tooltip = 'Remote cache hit rate, oldest to newest';
+    this.iconPath = new vscode.ThemeIcon('pulse');
+    this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+  }
+
+  async getChildren(): Promise<vscode.TreeItem[]> {
+    return this.history.map(s => new InvocationCacheStatsItem(s));
+  }
+}
+
+class InvocationCacheStatsItem extends vscode.TreeItem implements Expandable {
+  constructor(private readonly stats: InvocationCacheStats, label?: string) {
+    super(label || stats.command);
+    const when = luxon.DateTime.fromMillis(stats.timeMillis).toRelative();
+    this.description = `${formatHitRate(stats)} ${
+      label ? stats.command + ' ' : ''
+    }${stats.patterns.join(' ')} (${when})`;
+    this.tooltip = `${stats.invocationId}\nhits and misses from the ${
+      stats.mnemonics ? 'execution log' : 'process summary'
+    }`;
+    const rate = cacheHitRate(stats);
+    this.iconPath = new vscode.ThemeIcon(
+      rate === undefined ? 'circle-outline' : rate >= 0.5 ? 'pass' : 'warning'
+    );
+    this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+  }
+
+  async getChildren(): Promise<vscode.TreeItem[]> {
+    const stats = this.stats;
+    const items: vscode.TreeItem[] = [];
+    const add = (label: string, description: string, icon: string) => {
+      const item = new vscode.TreeItem(label);
+      item.description = description;
+      item.iconPath = new vscode.ThemeIcon(icon);
+      items.push(item);
+    };
+
+    add('Processes', `${stats.processes}`, 'server-process');
+    for (const [runner, count] of Object.entries(stats.runners).sort((a, b) => b[1] - a[1])) {
+      add(runner, `${count}`, isCacheHitRunner(runner) ? 'cloud-download' : 'play');
+    }
+    if (stats.actionsCreated !== undefined) {
+      add('Actions', `${stats.actionsExecuted} executed of ${stats.actionsCreated}`, 'zap');
+    }
+    if (stats.wallTimeMillis !== undefined) {
+      add('Wall Time', `${(stats.wallTimeMillis / 1000).toFixed(1)}s`, 'clock');
+    }
+    if (stats.bytesDownloaded !== undefined) {
+      add('Downloaded', formatBytes(stats.bytesDownloaded), 'cloud-download');
+    }
+    if (stats.bytesUploaded !== undefined) {
+      add('Uploaded', formatBytes(stats.bytesUploaded), 'cloud-upload');
+    }
+    if (stats.mnemonics) {
+      const mnemonics = Object.entries(stats.mnemonics).sort(
+        (a, b) => b[1].hits + b[1].misses - (a[1].hits + a[1].misses)
+      );
+      for (const [mnemonic, m] of mnemonics) {
+        add(mnemonic, formatHitRate(m), 'symbol-event');
+      }
+    } else {
+      add('Mnemonics', 'enable bsv.bzl.invocation.executionLog for details', 'info');
+    }
+    return items;
+  }
+}
@@ -2,7 +2,14 @@ import * as vscode from 'vscode';
 import * as grpc from '@grpc/grpc-js';
 import * as loader from '@grpc/proto-loader';
 import { Container } from '../container';
+import { ActionCacheClient } from '../proto/build/bazel/remote/execution/v2/ActionCache';
+import { ActionResult } from '../proto/build/bazel/remote/execution/v2/ActionResult';
+import { BatchReadBlobsResponse } from '../proto/build/bazel/remote/execution/v2/BatchReadBlobsResponse';
 import { CapabilitiesClient } from '../proto/build/bazel/remote/execution/v2/Capabilities';
+import { ContentAddressableStorageClient } from '../proto/build/bazel/remote/execution/v2/ContentAddressableStorage';
+import { Digest } from '../proto/build/bazel/remote/execution/v2/Digest';
+import { Directory } from '../proto/build/bazel/remote/execution/v2/Directory';
+import { GetTreeResponse } from '../proto/build/bazel/remote/execution/v2/GetTreeResponse';
 import { ServerCapabilities } from '../proto/build/bazel/remote/execution/v2/ServerCapabilities';
 import { ProtoGrpcType as RemoteExecutionProtoType } from '../proto/remote_execution';
 import { RemoteCacheConfiguration, RemoteCacheSettings } from './configuration';
@@ -20,8 +27,10 @@ function loadRemoteExecutionProtos(protofile: string): RemoteExecutionProtoType
   return grpc.loadPackageDefinition(protoPackage) as unknown as RemoteExecutionProtoType;
 }
 
-class RemoteCacheClient extends GRPCClient {
+export class RemoteCacheClient extends GRPCClient {
   public readonly capabilities: CapabilitiesClient;
+  public readonly actionCache: ActionCacheClient;
+  public readonly cas: ContentAddressableStorageClient;
 
   constructor(
     address: vscode.Uri,
@@ -36,6 +45,12 @@ class RemoteCacheClient extends GRPCClient {
         'grpc.initial_reconnect_backoff_ms': 200,
       })
     );
+    this.actionCache = this.addCloseable(
+      new proto.build.bazel.remote.execution.v2.ActionCache(address.authority, creds)
+    );
+    this.cas = this.addCloseable(
+      new proto.build.bazel.remote.execution.v2.ContentAddressableStorage(address.authority, creds)
+    );
   }
 
   async getServerCapabilities(
@@ -58,9 +73,82 @@ class RemoteCacheClient extends GRPCClient {
       );
     });
   }
+
+  async getActionResult(actionDigest: Digest, instanceName?: string): Promise<ActionResult> {
+    return new Promise<ActionResult>((resolve, reject) => {
+      this.actionCache.GetActionResult(
+        { instanceName, actionDigest, inlineStdout: true, inlineStderr: true },
+        new grpc.Metadata(),
+        { deadline: this.getDeadline() },
+        (err?: grpc.ServiceError, resp?: ActionResult) => {
+          if (err) {
+            reject(this.handleError(err));
+          } else {
+            resolve(resp!);
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Reads the given blobs.  Rejects if any of them could not be read.
+   */
+  async batchReadBlobs(digests: Digest[], instanceName?: string): Promise<Buffer[]> {
+    return new Promise<Buffer[]>((resolve, reject) => {
+      this.cas.BatchReadBlobs(
+        { instanceName, digests },
+        new grpc.Metadata(),
+        { deadline: this.getDeadline() },
+        (err?: grpc.ServiceError, resp?: BatchReadBlobsResponse) => {
+          if (err) {
+            reject(this.handleError(err));
+            return;
+          }
+          const blobs: Buffer[] = [];
+          for (const r of resp?.responses || []) {
+            if (r.status?.code) {
+              reject(new Error(`${r.digest?.hash}: ${r.status.message || r.status.code}`));
+              return;
+            }
+            blobs.push(Buffer.from((r.data as Uint8Array) || []));
+          }
+          resolve(blobs);
+        }
+      );
+    });
+  }
+
+  /**
+   * Fetches all directories of the tree rooted at the given digest, following
+   * page tokens.
+   */
+  async getTree(rootDigest: Digest, instanceName?: string): Promise<Directory[]> {
+    const directories: Directory[] = [];
+    let pageToken: string | undefined;
+    do {
+      pageToken = await new Promise<string | undefined>((resolve, reject) => {
+        let next: string | undefined;
+        const stream = this.cas.GetTree(
+          { instanceName, rootDigest, pageToken },
+          new grpc.Metadata(),
+          { deadline: this.getDeadline() }
+        );
+        stream.on('data', (resp: GetTreeResponse) => {
+          directories.push(...(resp.directories || []));
+          next = resp.nextPageToken || undefined;
+        });
+        stream.on('error', (err: grpc.ServiceError) => reject(this.handleError(err)));
+        stream.on('end', () => resolve(next));
+      });
+    } while (pageToken);
+    return directories;
+  }
 }
 
 export class RemoteCache extends LaunchableComponent<RemoteCacheConfiguration> {
+  public client: RemoteCacheClient | undefined;
+
   constructor(
     public readonly settings: RemoteCacheSettings,
     private readonly proto = loadRemoteExecutionProtos(
@@ -104,7 +192,22 @@ export class RemoteCache extends LaunchableComponent<RemoteCacheConfiguration> {
 
     return new Promise((resolve, reject) => {
       const client = new RemoteCacheClient(cfg.address, creds, this.proto, err => reject(err));
-      client.getServerCapabilities().then(() => resolve(), reject);
+      client.getServerCapabilities().then(
+        () => {
+          this.client = client;
+          resolve();
+        },
+        err => {
+          client.dispose();
+          reject(err);
+        }
+      );
     });
   }
+
+  async stopInternal(): Promise<void> {
+    this.client?.dispose();
+    this.client = undefined;
+    return super.stopInternal();
+  }
 }
@@ -0,0 +1,404 @@
+import * as vscode from 'vscode';
+import { BuiltInCommands, setCommandContext } from '../constants';
+import { ExternalWorkspace } from '../proto/build/stack/bezel/v1beta1/ExternalWorkspace';
+import { LabelKind } from '../proto/build/stack/bezel/v1beta1/LabelKind';
+import { Package } from '../proto/build/stack/bezel/v1beta1/Package';
+import { Bzl } from './bzl';
+import { CommandName, ThemeIconRepo, ViewName } from './constants';
+import { Status } from './status';
+import { parseLocation } from './testing';
+import { TreeView } from './treeView';
+import { Expandable } from './workspaceView';
+
+/**
+ * Context key that is true while the targets view has a filter.
+ */
+const TargetsFilteredContextKey = 'bsv.targets.filtered';
+
+/**
+ * Targets filter, parsed from text such as "foo/bar:baz".  The part before
+ * the colon is matched against package paths, the part after it against rule
+ * names.
+ */
+export interface TargetsFilter {
+  pkg: string;
+  name: string;
+}
+
+/**
+ * Parses the text entered in the filter box.
+ */
+export function parseTargetsFilter(text: string): TargetsFilter {
+  text = text.trim().toLowerCase();
+  if (text.startsWith('//')) {
+    text = text.slice(2);
+  }
+  const colon = text.indexOf(':');
+  if (colon < 0) {
+    return { pkg: text, name: '' };
+  }
+  return { pkg: text.slice(0, colon), name: text.slice(colon + 1) };
+}
+
+/**
+ * Returns the package directories that match the filter, plus the ancestors of
+ * those that match such that the tree remains navigable.
+ */
+export function filterPackages(dirs: string[], filter: string): string[] {
+  filter = filter.toLowerCase();
+  if (!filter) {
+    return dirs;
+  }
+  const known = new Set(dirs);
+  const visible = new Set<string>();
+  for (const dir of dirs) {
+    if (!dir.toLowerCase().includes(filter)) {
+      continue;
+    }
+    visible.add(dir);
+    for (let parent = parentPackage(dir, known); parent; parent = parentPackage(parent, known)) {
+      visible.add(parent);
+    }
+  }
+  return dirs.filter(dir => visible.has(dir));
+}
+
+/**
+ * Groups package directories by their nearest ancestor package.  Top-level
+ * packages (including the root package '') are listed under the key
+ * undefined.
+ */
+export function nestPackages(dirs: string[]): Map<string | undefined, string[]> {
+  const known = new Set(dirs);
+  const nested = new Map<string | undefined, string[]>();
+  for (const dir of [...dirs].sort()) {
+    const parent = parentPackage(dir, known);
+    const children = nested.get(parent) || [];
+    children.push(dir);
+    nested.set(parent, children);
+  }
+  return nested;
+}
+
+/**
+ * Returns the nearest ancestor of dir that is a known package, or undefined
+ * if there is none.  The root package is never considered an ancestor.
+ */
+function parentPackage(dir: string, known: Set<string>): string | undefined {
+  let parent = dir;
+  for (let slash = parent.lastIndexOf('/'); slash > 0; slash = parent.lastIndexOf('/')) {
+    parent = parent.slice(0, slash);
+    if (known.has(parent)) {
+      return parent;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the name part of a label.
+ */
+export function targetName(label: string): string {
+  const colon = label.lastIndexOf(':');
+  if (colon >= 0) {
+    return label.slice(colon + 1);
+  }
+  return label.slice(label.lastIndexOf('/') + 1);
+}
+
+/**
+ * Returns the codicon name used for a rule of the given kind.
+ */
+export function ruleKindIcon(kind: string): string {
+  if (kind.endsWith('_test') || kind === 'test_suite') {
+    return 'beaker';
+  }
+  if (kind.endsWith('_binary')) {
+    return 'file-binary';
+  }
+  if (kind === 'proto_library' || kind.endsWith('proto_library')) {
+    return 'symbol-interface';
+  }
+  if (kind.endsWith('_library')) {
+    return 'library';
+  }
+  if (kind.endsWith('_image') || kind.endsWith('_push')) {
+    return 'package';
+  }
+  switch (kind) {
+    case 'filegroup':
+      return 'files';
+    case 'alias':
+      return 'references';
+    case 'genrule':
+      return 'gear';
+    case 'config_setting':
+      return 'settings';
+    case 'source file':
+      return 'file';
+    case 'generated file':
+      return 'file-code';
+  }
+  return 'symbol-misc';
+}
+
+/**
+ * Returns the context value of a rule item, which determines the inline
+ * actions available for it.
+ */
+export function ruleContextValue(kind: string): string {
+  if (kind.endsWith('_test') || kind === 'test_suite') {
+    return 'rule-test';
+  }
+  if (kind.endsWith('_binary')) {
+    return 'rule-binary';
+  }
+  return 'rule';
+}
+
+/**
+ * Renders the packages and rules of the workspace and its external
+ * repositories.  Packages and rules are listed lazily as the tree is
+ * expanded.
+ */
+export class TargetsView extends TreeView<vscode.TreeItem> {
+  private filter: TargetsFilter = { pkg: '', name: '' };
+  private packages = new Map<string, Promise<Package[]>>();
+
+  constructor(private bzl: Bzl) {
+    super(ViewName.Targets);
+
+    this.addCommand(CommandName.TargetsBuild, this.handleCommandBuild);
+    this.addCommand(CommandName.TargetsTest, this.handleCommandTest);
+    this.addCommand(CommandName.TargetsRun, this.handleCommandRun);
+    this.addCommand(CommandName.TargetsCopyLabel, this.handleCommandCopyLabel);
+    this.addCommand(CommandName.TargetsReveal, this.handleCommandReveal);
+    this.addCommand(CommandName.TargetsFilter, this.handleCommandFilter);
+    this.addCommand(CommandName.TargetsClearFilter, this.handleCommandClearFilter);
+
+    bzl.onDidChangeStatus(() => this.handleCommandRefresh(), this, this.disposables);
+  }
+
+  protected handleCommandRefresh() {
+    this.packages.clear();
+    super.handleCommandRefresh();
+  }
+
+  async handleCommandBuild(item: TargetItem): Promise<void> {
+    return vscode.commands.executeCommand(CommandName.Build, item.target);
+  }
+
+  async handleCommandTest(item: TargetItem): Promise<void> {
+    return vscode.commands.executeCommand(CommandName.Test, item.target);
+  }
+
+  async handleCommandRun(item: TargetItem): Promise<void> {
+    return vscode.commands.executeCommand(CommandName.Run, item.target);
+  }
+
+  async handleCommandCopyLabel(item: TargetItem): Promise<void> {
+    return vscode.commands.executeCommand(CommandName.CopyToClipboard, item.target);
+  }
+
+  async handleCommandReveal(item: RuleItem): Promise<void> {
+    const loc = item.rule.location ? parseLocation(item.rule.location) : undefined;
+    if (!loc) {
+      vscode.window.showWarningMessage(`The location of ${item.target} is not known`);
+      return;
+    }
+    return vscode.commands.executeCommand(BuiltInCommands.Open, loc.uri, {
+      selection: loc.range,
+    });
+  }
+
+  async handleCommandFilter(): Promise<void> {
+    const text = await vscode.window.showInputBox({
+      prompt: 'Filter targets by package path, optionally followed by :name',
+      placeHolder: 'foo/bar:baz',
+      value: this.filterText(),
+    });
+    if (text === undefined) {
+      return;
+    }
+    return this.setFilter(parseTargetsFilter(text));
+  }
+
+  async handleCommandClearFilter(): Promise<void> {
+    return this.setFilter({ pkg: '', name: '' });
+  }
+
+  private async setFilter(filter: TargetsFilter): Promise<void> {
+    this.filter = filter;
+    const text = this.filterText();
+    this.view.description = text || undefined;
+    await setCommandContext(TargetsFilteredContextKey, !!text);
+    this.refresh();
+  }
+
+  private filterText(): string {
+    const { pkg, name } = this.filter;
+    return name ? `${pkg}:${name}` : pkg;
+  }
+
+  /**
+   * Returns the packages of the given repository, listing them once until the
+   * next refresh.
+   */
+  async listPackages(external?: ExternalWorkspace): Promise<Package[]> {
+    const key = external?.name || '';
+    let packages = this.packages.get(key);
+    if (!packages) {
+      packages = this.bzl.getWorkspace().then(ws => this.bzl.client!.listPackages(ws, external));
+      this.packages.set(key, packages);
+      packages.catch(() => this.packages.delete(key));
+    }
+    return packages;
+  }
+
+  async listRules(pkg: Package, external?: ExternalWorkspace): Promise<LabelKind[]> {
+    const ws = await this.bzl.getWorkspace();
+    const rules = await this.bzl.client!.listRules(ws, external, pkg);
+    const name = this.filter.name;
+    return rules
+      .filter(
+        r =>
+          !name ||
+          targetName(r.label || '')
+            .toLowerCase()
+            .includes(name)
+      )
+      .sort((a, b) => (a.label || '').localeCompare(b.label || ''));
+  }
+
+  get packageFilter(): string {
+    return this.filter.pkg;
+  }
+
+  public async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[] | undefined> {
+    if (!element) {
+      return this.getRootItems();
+    }
+    if (isExpandable(element)) {
+      try {
+        return await element.getChildren();
+      } catch (e) {
+        vscode.window.showErrorMessage(
+          `Could not list ${element.label}: ${e instanceof Error ? e.message : e}`
+        );
+      }
+    }
+    return undefined;
+  }
+
+  protected async getRootItems(): Promise<vscode.TreeItem[] | undefined> {
+    if (!(this.bzl.status === Status.READY && this.bzl.client)) {
+      this.view.message = 'The Bzl server must be running to list targets.';
+      return [];
+    }
+    this.view.message = undefined;
+    return [new RepositoryItem(this), new ExternalRepositoriesItem(this, this.bzl)];
+  }
+}
+
+/**
+ * A tree item that names a build target or target pattern.
+ */
+interface TargetItem extends vscode.TreeItem {
+  target: string;
+}
+
+class RepositoryItem extends vscode.TreeItem implements Expandable {
+  constructor(private view: TargetsView, private external?: ExternalWorkspace) {
+    super(external ? '@' + external.name : 'Main Workspace');
+    this.description = external?.ruleClass;
+    this.tooltip = external?.relativeLocation;
+    this.contextValue = 'repository';
+    this.iconPath = ThemeIconRepo;
+    this.collapsibleState = external
+      ? vscode.TreeItemCollapsibleState.Collapsed
+      : vscode.TreeItemCollapsibleState.Expanded;
+  }
+
+  async getChildren(): Promise<vscode.TreeItem[] | undefined> {
+    const packages = await this.view.listPackages(this.external);
+    const byDir = new Map(packages.map(p => [p.dir || '', p]));
+    const dirs = filterPackages(Array.from(byDir.keys()), this.view.packageFilter);
+    const nested = nestPackages(dirs);
+    const makeItem = (dir: string): PackageItem =>
+      new PackageItem(
+        this.view,
+        byDir.get(dir)!,
+        (nested.get(dir) || []).map(makeItem),
+        this.external
+      );
+    return (nested.get(undefined) || []).map(makeItem);
+  }
+}
+
+class ExternalRepositoriesItem extends vscode.TreeItem implements Expandable {
+  constructor(private view: TargetsView, private bzl: Bzl) {
+    super('External Repositories');
+    this.contextValue = 'externals';
+    this.iconPath = new vscode.ThemeIcon('references');
+    this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+  }
+
+  async getChildren(): Promise<vscode.TreeItem[] | undefined> {
+    const ws = await this.bzl.getWorkspace();
+    const externals = await this.bzl.client!.listExternalWorkspaces(ws);
+    return (externals || [])
+      .filter(ew => ew.name)
+      .sort((a, b) => a.name!.localeCompare(b.name!))
+      .map(ew => new RepositoryItem(this.view, ew));
+  }
+}
+
+class PackageItem extends vscode.TreeItem implements Expandable, TargetItem {
+  target: string;
+
+  constructor(
+    private view: TargetsView,
+    private pkg: Package,
+    private packages: PackageItem[],
+    private external?: ExternalWorkspace
+  ) {
+    super(packageLabel(pkg.dir || '', external));
+    this.target = pkg.dir ? `${this.label}/...` : `${this.label}...`;
+    this.contextValue = 'package';
+    this.iconPath = new vscode.ThemeIcon('folder');
+    this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+  }
+
+  async getChildren(): Promise<vscode.TreeItem[] | undefined> {
+    const rules = await this.view.listRules(this.pkg, this.external);
+    const items: vscode.TreeItem[] = this.packages.slice();
+    items.push(...rules.map(r => new RuleItem(r)));
+    return items;
+  }
+}
+
+class RuleItem extends vscode.TreeItem implements TargetItem {
+  target: string;
+
+  constructor(public readonly rule: LabelKind) {
+    super(targetName(rule.label || ''));
+    this.target = rule.label || '';
+    this.description = rule.kind;
+    this.tooltip = `${rule.label} (${rule.kind})`;
+    this.contextValue = ruleContextValue(rule.kind || '');
+    this.iconPath = new vscode.ThemeIcon(ruleKindIcon(rule.kind || ''));
+    this.command = {
+      title: 'Reveal in BUILD file',
+      command: CommandName.TargetsReveal,
+      arguments: [this],
+    };
+  }
+}
+
+function packageLabel(dir: string, external?: ExternalWorkspace): string {
+  return `${external ? '@' + external.name : ''}//${dir}`;
+}
+
+function isExpandable(item: any): item is Expandable {
+  return 'getChildren' in item;
+}
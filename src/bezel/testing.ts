@@ -0,0 +1,624 @@
+import * as fs from 'graceful-fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { BazelBuildEvent } from './bepHandler';
+import { Bzl } from './bzl';
+import { BazelConfiguration } from './configuration';
+import { BzlLanguageClient, formatLabel } from './lsp';
+import { Settings } from './settings';
+import { Status } from './status';
+import { File } from '../proto/build_event_stream/File';
+import { TestStatus } from '../proto/build_event_stream/TestStatus';
+import { TestSummary } from '../proto/build_event_stream/TestSummary';
+
+/**
+ * The ID of the test controller.
+ */
+export const TestControllerId = 'bsv.bazel.tests';
+
+/**
+ * A single <testcase> element of a junit-style test.xml file.
+ */
+export interface JUnitTestCase {
+  name: string;
+  classname: string;
+  // duration in milliseconds, if reported
+  duration?: number;
+  status: 'passed' | 'failed' | 'errored' | 'skipped';
+  message?: string;
+}
+
+/**
+ * Bookkeeping for a single test run.
+ */
+interface TestRunState {
+  run: vscode.TestRun;
+  // test items participating in the run, keyed by label
+  items: Map<string, vscode.TestItem>;
+  // labels that have already reported a final status
+  finished: Set<string>;
+  // the build event handlers that have not yet completed
+  pending: Promise<void>[];
+}
+
+/**
+ * The state a test target is reported with.  Flaky targets pass, with a
+ * message about the failed attempts.
+ */
+export type TestOutcome = 'passed' | 'flaky' | 'failed' | 'errored' | 'skipped';
+
+/**
+ * Returns the outcome of a test target from its TestSummary event.
+ */
+export function testSummaryOutcome(
+  label: string,
+  summary: TestSummary
+): { outcome: TestOutcome; message?: string } {
+  const status =
+    typeof summary.overallStatus === 'string'
+      ? TestStatus[summary.overallStatus]
+      : summary.overallStatus ?? TestStatus.NO_STATUS;
+  switch (status) {
+    case TestStatus.PASSED:
+      return { outcome: 'passed' };
+    case TestStatus.FLAKY: {
+      const failed = summary.failed?.length || 0;
+      const runs = Math.max(summary.totalRunCount || 0, failed + 1);
+      return {
+        outcome: 'flaky',
+        message: `${label}: FLAKY, failed ${failed} of ${runs} attempts`,
+      };
+    }
+    case TestStatus.FAILED:
+    case TestStatus.TIMEOUT:
+      return { outcome: 'failed', message: `${label}: ${TestStatus[status]}` };
+    case TestStatus.NO_STATUS:
+      return { outcome: 'skipped' };
+    default:
+      return { outcome: 'errored', message: `${label}: ${TestStatus[status]}` };
+  }
+}
+
+/**
+ * BazelTestController exposes *_test targets in the native Test Explorer and
+ * runs them via the build event protocol runner.
+ */
+export class BazelTestController implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly controller: vscode.TestController;
+  private currentRun: TestRunState | undefined;
+
+  constructor(
+    private readonly bazelSettings: Settings<BazelConfiguration>,
+    private readonly lsp: BzlLanguageClient,
+    private readonly bzl: Bzl
+  ) {
+    const controller = (this.controller = vscode.tests.createTestController(
+      TestControllerId,
+      'Bazel'
+    ));
+    this.disposables.push(controller);
+
+    controller.resolveHandler = item => this.resolve(item);
+    controller.createRunProfile(
+      'Test',
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this.runTests(request, token),
+      true
+    );
+
+    bzl.bepRunner.onDidReceiveBazelBuildEvent.event(
+      this.handleBazelBuildEvent,
+      this,
+      this.disposables
+    );
+    vscode.workspace.onDidOpenTextDocument(this.discoverInDocument, this, this.disposables);
+    vscode.workspace.onDidSaveTextDocument(this.discoverInDocument, this, this.disposables);
+    lsp.onDidChangeStatus(
+      status => {
+        if (status === Status.READY) {
+          vscode.workspace.textDocuments.forEach(doc => this.discoverInDocument(doc));
+        }
+      },
+      this,
+      this.disposables
+    );
+  }
+
+  /**
+   * Resolves children of the given item.  When no item is given, packages of
+   * the default workspace are listed (requires the bzl server); packages
+   * themselves are resolved lazily.
+   */
+  private async resolve(item: vscode.TestItem | undefined): Promise<void> {
+    if (!item) {
+      vscode.workspace.textDocuments.forEach(doc => this.discoverInDocument(doc));
+      return this.discoverPackages();
+    }
+    if (item.canResolveChildren) {
+      return this.discoverPackageTests(item);
+    }
+  }
+
+  private async discoverPackages(): Promise<void> {
+    const client = this.bzl.client;
+    if (this.bzl.status !== Status.READY || !client) {
+      return;
+    }
+    try {
+      const ws = await this.bzl.getWorkspace();
+      const pkgs = await client.listPackages(ws);
+      for (const pkg of pkgs) {
+        const item = this.getOrCreatePackageItem(pkg.dir || '');
+        item.canResolveChildren = true;
+      }
+    } catch (e) {
+      console.warn(`test discovery failed: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+
+  private async discoverPackageTests(pkgItem: vscode.TestItem): Promise<void> {
+    const client = this.bzl.client;
+    if (this.bzl.status !== Status.READY || !client) {
+      return;
+    }
+    pkgItem.busy = true;
+    try {
+      const ws = await this.bzl.getWorkspace();
+      const dir = pkgItem.id.slice(2);
+      const rules = await client.listRules(ws, undefined, { dir, name: path.basename(dir) });
+      for (const rule of rules) {
+        if (!(rule.label && rule.kind && isTestKind(rule.kind))) {
+          continue;
+        }
+        if (pkgItem.children.get(rule.label)?.uri) {
+          continue;
+        }
+        const loc = rule.location ? parseLocation(rule.location) : undefined;
+        pkgItem.children.add(this.createTestItem(rule.label, rule.kind, loc?.uri, loc?.range));
+      }
+    } catch (e) {
+      console.warn(`test discovery failed for ${pkgItem.id}: ${e instanceof Error ? e.message : e}`);
+    } finally {
+      pkgItem.busy = false;
+      pkgItem.canResolveChildren = false;
+    }
+  }
+
+  /**
+   * Adds test items for all *_test rules declared in the given BUILD file.
+   */
+  private async discoverInDocument(doc: vscode.TextDocument): Promise<void> {
+    if (doc.languageId !== 'bazel' || doc.uri.scheme !== 'file') {
+      return;
+    }
+    if (this.lsp.status !== Status.READY) {
+      return;
+    }
+    const labelKinds = await this.lsp.getLabelKindsInDocument(doc.uri);
+    if (!labelKinds) {
+      return;
+    }
+    for (const lk of labelKinds) {
+      if (!isTestKind(lk.kind)) {
+        continue;
+      }
+      const label = formatLabel(lk.label);
+      const pkgItem = this.getOrCreatePackageItem(lk.label.Pkg);
+      const range = new vscode.Range(
+        lk.range.start.line,
+        lk.range.start.character,
+        lk.range.end.line,
+        lk.range.end.character
+      );
+      const previous = pkgItem.children.get(label);
+      if (previous && previous.uri && previous.range?.isEqual(range)) {
+        continue;
+      }
+      const item = this.createTestItem(label, lk.kind, doc.uri, range);
+      previous?.children.forEach(child => item.children.add(child));
+      pkgItem.children.add(item);
+    }
+  }
+
+  private getOrCreatePackageItem(dir: string): vscode.TestItem {
+    const id = `//${dir}`;
+    let item = this.controller.items.get(id);
+    if (!item) {
+      item = this.controller.createTestItem(id, id);
+      this.controller.items.add(item);
+    }
+    return item;
+  }
+
+  private getOrCreateTestItem(label: string, kind?: string): vscode.TestItem {
+    const pkgItem = this.getOrCreatePackageItem(packageOf(label));
+    let item = pkgItem.children.get(label);
+    if (!item) {
+      item = this.createTestItem(label, kind);
+      pkgItem.children.add(item);
+    }
+    return item;
+  }
+
+  private createTestItem(
+    label: string,
+    kind?: string,
+    uri?: vscode.Uri,
+    range?: vscode.Range
+  ): vscode.TestItem {
+    const item = this.controller.createTestItem(label, label.slice(label.lastIndexOf(':') + 1), uri);
+    item.description = kind;
+    item.range = range;
+    return item;
+  }
+
+  /**
+   * Collects the labels to be tested for the given request.  Package items
+   * whose children are unknown are expanded to the ':all' pattern.
+   */
+  private collectTargets(request: vscode.TestRunRequest): Map<string, vscode.TestItem> {
+    const excluded = new Set((request.exclude || []).map(item => item.id));
+    const targets = new Map<string, vscode.TestItem>();
+
+    const visit = (item: vscode.TestItem) => {
+      if (excluded.has(item.id)) {
+        return;
+      }
+      if (item.id.indexOf('#') !== -1) {
+        // individual test cases cannot be selected independently; run the
+        // parent target.
+        if (item.parent) {
+          visit(item.parent);
+        }
+        return;
+      }
+      if (item.id.indexOf(':') !== -1) {
+        targets.set(item.id, item);
+        return;
+      }
+      if (item.children.size === 0) {
+        targets.set(`${item.id}:all`, item);
+        return;
+      }
+      item.children.forEach(visit);
+    };
+
+    if (request.include) {
+      request.include.forEach(visit);
+    } else {
+      this.controller.items.forEach(visit);
+    }
+
+    return targets;
+  }
+
+  private async runTests(
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken
+  ): Promise<void> {
+    const targets = this.collectTargets(request);
+    if (targets.size === 0) {
+      return;
+    }
+
+    const run = this.controller.createTestRun(request);
+    const state: TestRunState = {
+      run,
+      items: new Map(),
+      finished: new Set(),
+      pending: [],
+    };
+    for (const [label, item] of targets.entries()) {
+      if (!label.endsWith(':all')) {
+        state.items.set(label, item);
+        run.enqueued(item);
+      }
+    }
+
+    const cfg = await this.bazelSettings.get();
+    const args = ['test'].concat(Array.from(targets.keys()));
+    args.push(...cfg.buildFlags);
+    args.push(...cfg.testFlags);
+    args.push('--color=yes');
+
+    this.currentRun = state;
+    const cancellation = token.onCancellationRequested(() => this.bzl.bepRunner.cancel());
+    try {
+      const ws = await this.bzl.getWorkspace();
+      await this.bzl.bepRunner.run({ arg: args, workspace: ws });
+    } catch (e) {
+      const message = new vscode.TestMessage(
+        `failed to "bazel ${args.join(' ')}": ${e instanceof Error ? e.message : e}`
+      );
+      for (const [label, item] of state.items.entries()) {
+        if (!state.finished.has(label)) {
+          run.errored(item, message);
+        }
+      }
+    } finally {
+      cancellation.dispose();
+      // results may still be reading their test.log and test.xml files
+      this.currentRun = undefined;
+      await Promise.all(state.pending);
+      for (const [label, item] of state.items.entries()) {
+        if (!state.finished.has(label)) {
+          run.skipped(item);
+        }
+      }
+      run.end();
+    }
+  }
+
+  private async handleBazelBuildEvent(e: BazelBuildEvent): Promise<void> {
+    const state = this.currentRun;
+    if (!state) {
+      return;
+    }
+    switch (e.bes.payload) {
+      case 'completed': {
+        const label = e.bes.id?.targetCompleted?.label;
+        if (!label || e.bes.completed?.success) {
+          return;
+        }
+        const item = state.items.get(label);
+        if (item) {
+          state.finished.add(label);
+          state.run.errored(item, new vscode.TestMessage(`${label} failed to build`));
+        }
+        return;
+      }
+      case 'testResult':
+        return this.track(state, this.handleTestResult(state, e));
+      case 'testSummary': {
+        // the summary is final, so it is reported after the results.
+        const results = Promise.all(state.pending);
+        return this.track(
+          state,
+          results.then(() => this.handleTestSummary(state, e))
+        );
+      }
+    }
+  }
+
+  /**
+   * Adds the handler to the pending ones of the run, which are awaited before
+   * the run ends.
+   */
+  private track(state: TestRunState, handler: Promise<void>): Promise<void> {
+    const pending = handler.catch(err => console.warn('test event handler failed:', err));
+    state.pending.push(pending);
+    return pending;
+  }
+
+  private async handleTestResult(state: TestRunState, e: BazelBuildEvent): Promise<void> {
+    const label = e.bes.id?.testResult?.label;
+    const result = e.bes.testResult;
+    if (!(label && result)) {
+      return;
+    }
+
+    let item = state.items.get(label);
+    if (!item) {
+      item = this.getOrCreateTestItem(label);
+      state.items.set(label, item);
+    }
+    state.run.started(item);
+
+    const files = result.testActionOutput || [];
+    const log = files.find(f => f.name === 'test.log');
+    if (log) {
+      const text = await readFileUri(log);
+      if (text) {
+        state.run.appendOutput(`${label}:\r\n${text.replace(/\r?\n/g, '\r\n')}`);
+      }
+    }
+
+    const xml = files.find(f => f.name === 'test.xml');
+    if (xml) {
+      const text = await readFileUri(xml);
+      if (text) {
+        this.reportTestCases(state, item, parseJUnitXml(text));
+      }
+    }
+  }
+
+  private reportTestCases(state: TestRunState, parent: vscode.TestItem, cases: JUnitTestCase[]) {
+    for (const tc of cases) {
+      const id = `${parent.id}#${tc.classname ? tc.classname + '.' : ''}${tc.name}`;
+      let item = parent.children.get(id);
+      if (!item) {
+        item = this.controller.createTestItem(id, tc.name, parent.uri);
+        item.description = tc.classname;
+        item.range = parent.range;
+        parent.children.add(item);
+      }
+      const message = new vscode.TestMessage(tc.message || '');
+      const location = this.findMessageLocation(tc.message);
+      if (location) {
+        message.location = location;
+      } else if (parent.uri && parent.range) {
+        message.location = new vscode.Location(parent.uri, parent.range);
+      }
+      switch (tc.status) {
+        case 'passed':
+          state.run.passed(item, tc.duration);
+          break;
+        case 'failed':
+          state.run.failed(item, message, tc.duration);
+          break;
+        case 'errored':
+          state.run.errored(item, message, tc.duration);
+          break;
+        case 'skipped':
+          state.run.skipped(item);
+          break;
+      }
+    }
+  }
+
+  private handleTestSummary(state: TestRunState, e: BazelBuildEvent) {
+    const label = e.bes.id?.testSummary?.label;
+    const summary = e.bes.testSummary;
+    if (!(label && summary)) {
+      return;
+    }
+    let item = state.items.get(label);
+    if (!item) {
+      item = this.getOrCreateTestItem(label);
+      state.items.set(label, item);
+    }
+    state.finished.add(label);
+
+    const duration = Number(summary.totalRunDurationMillis || 0) || undefined;
+    const { outcome, message } = testSummaryOutcome(label, summary);
+    switch (outcome) {
+      case 'passed':
+        state.run.passed(item, duration);
+        break;
+      case 'flaky':
+        state.run.passed(item, duration);
+        state.run.appendOutput(`\x1b[33m${message}\x1b[0m\r\n`);
+        break;
+      case 'failed':
+        state.run.failed(item, this.makeSummaryMessage(item, message!), duration);
+        break;
+      case 'skipped':
+        state.run.skipped(item);
+        break;
+      default:
+        state.run.errored(item, this.makeSummaryMessage(item, message!), duration);
+    }
+  }
+
+  private makeSummaryMessage(item: vscode.TestItem, text: string) {
+    const message = new vscode.TestMessage(text);
+    if (item.uri && item.range) {
+      message.location = new vscode.Location(item.uri, item.range);
+    }
+    return message;
+  }
+
+  /**
+   * Attempts to find a 'path/to/file.ext:line' reference in the given failure
+   * text that exists in the workspace.
+   */
+  private findMessageLocation(text: string | undefined): vscode.Location | undefined {
+    if (!text) {
+      return undefined;
+    }
+    const cwd = this.bzl.ws.cwd!;
+    const re = /([\w./-]+\.\w+):(\d+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = re.exec(text))) {
+      const filename = path.isAbsolute(match[1]) ? match[1] : path.join(cwd, match[1]);
+      if (fs.existsSync(filename)) {
+        const line = Math.max(0, parseInt(match[2], 10) - 1);
+        return new vscode.Location(vscode.Uri.file(filename), new vscode.Position(line, 0));
+      }
+    }
+    return undefined;
+  }
+
+  public dispose() {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables.length = 0;
+  }
+}
+
+/**
+ * Parses the <testcase> elements of a junit-style XML report.
+ */
+export function parseJUnitXml(xml: string): JUnitTestCase[] {
+  const cases: JUnitTestCase[] = [];
+  const testcaseRe = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+  let match: RegExpExecArray | null;
+  while ((match = testcaseRe.exec(xml))) {
+    const attrs = parseXmlAttributes(match[1]);
+    const body = match[2] || '';
+    const tc: JUnitTestCase = {
+      name: attrs.get('name') || '',
+      classname: attrs.get('classname') || '',
+      status: 'passed',
+    };
+    const time = parseFloat(attrs.get('time') || '');
+    if (!isNaN(time)) {
+      tc.duration = time * 1000;
+    }
+    const problem = /<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/.exec(body);
+    if (problem) {
+      tc.status = problem[1] === 'failure' ? 'failed' : 'errored';
+      const message = parseXmlAttributes(problem[2]).get('message');
+      tc.message = [message, unescapeXml(stripCData(problem[3] || '').trim())]
+        .filter(s => !!s)
+        .join('\n');
+    } else if (/<skipped\b/.test(body) || attrs.get('result') === 'skipped') {
+      tc.status = 'skipped';
+    }
+    cases.push(tc);
+  }
+  return cases;
+}
+
+function parseXmlAttributes(text: string): Map<string, string> {
+  const attrs = new Map<string, string>();
+  const re = /([\w:.-]+)\s*=\s*"([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text))) {
+    attrs.set(match[1], unescapeXml(match[2]));
+  }
+  return attrs;
+}
+
+function stripCData(text: string): string {
+  return text.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+function isTestKind(kind: string): boolean {
+  return kind.endsWith('_test') || kind === 'test_suite';
+}
+
+function packageOf(label: string): string {
+  const start = label.indexOf('//') + 2;
+  const colon = label.indexOf(':', start);
+  return label.slice(start, colon === -1 ? undefined : colon);
+}
+
+/**
+ * Parses a bazel location string of the form /path/to/BUILD:line:col.
+ */
+export function parseLocation(location: string): { uri: vscode.Uri; range: vscode.Range } | undefined {
+  const match = /^(.*?):(\d+):(\d+)$/.exec(location);
+  if (!match) {
+    return undefined;
+  }
+  const line = Math.max(0, parseInt(match[2], 10) - 1);
+  const col = Math.max(0, parseInt(match[3], 10) - 1);
+  return {
+    uri: vscode.Uri.file(match[1]),
+    range: new vscode.Range(line, col, line, col),
+  };
+}
+
+async function readFileUri(file: File): Promise<string | undefined> {
+  if (!(file.uri && file.uri.startsWith('file://'))) {
+    return undefined;
+  }
+  try {
+    return await fs.promises.readFile(vscode.Uri.parse(file.uri).fsPath, 'utf-8');
+  } catch (e) {
+    return undefined;
+  }
+}
@@ -22,6 +22,7 @@ import {
   RemoteCacheConfiguration,
   StarlarkDebuggerConfiguration,
   ComponentConfiguration,
+  LocalBuildEventServiceConfiguration,
 } from './configuration';
 import { BzlLanguageClient } from './lsp';
 import { Runnable, Status } from './status';
@@ -38,6 +39,10 @@ import { CodeSearch } from './codesearch';
 import { Invocations, InvocationsItem } from './invocations';
 import { Buildozer } from '../buildozer/buildozer';
 import { BuildozerConfiguration } from '../buildozer/configuration';
+import { LocalBuildEventService } from './besServer';
+import { InvocationHistory, InvocationHistoryItem } from './history';
+import { ActionResultItem, RemoteCacheExplorer } from './remoteCacheExplorer';
+import { RemoteCacheStatsCollector, RemoteCacheStatsItem } from './remoteCacheStats';
 
 export interface Expandable {
   getChildren(): Promise<vscode.TreeItem[] | undefined>;
@@ -59,6 +64,8 @@ export class BezelWorkspaceView extends TreeView<vscode.TreeItem> {
   private buildozerItem: BuildozerItem;
   private remoteCacheItem: RemoteCacheItem;
   private besBackendItem: BuildEventServiceItem;
+  private localBesItem: LocalBuildEventServiceItem;
+  private historyItem: InvocationHistoryItem;
   private bazelServerItem: BazelServerItem;
   private codeSearchItem: CodeSearchItem;
   private invocationsItem: InvocationsItem;
@@ -74,7 +81,11 @@ export class BezelWorkspaceView extends TreeView<vscode.TreeItem> {
     private bazel: BazelServer,
     starlarkDebugger: StarlarkDebugger,
     codeSearch: CodeSearch,
-    invocations: Invocations
+    invocations: Invocations,
+    localBes: LocalBuildEventService,
+    history: InvocationHistory,
+    remoteCacheExplorer: RemoteCacheExplorer,
+    remoteCacheStats: RemoteCacheStatsCollector
   ) {
     super(ViewName.Workspace);
 
@@ -86,7 +97,12 @@ export class BezelWorkspaceView extends TreeView<vscode.TreeItem> {
     this.buildifierItem = this.addDisposable(new BuildifierItem(buildifier, onDidChangeTreeData));
     this.buildozerItem = this.addDisposable(new BuildozerItem(buildozer, onDidChangeTreeData));
     this.remoteCacheItem = this.addDisposable(
-      new RemoteCacheItem(remoteCache, onDidChangeTreeData)
+      new RemoteCacheItem(
+        remoteCache,
+        remoteCacheExplorer,
+        remoteCacheStats,
+        onDidChangeTreeData
+      )
     );
     this.subscriptionItem = this.addDisposable(
       new SubscriptionItem(subscription, onDidChangeTreeData)
@@ -98,6 +114,12 @@ export class BezelWorkspaceView extends TreeView<vscode.TreeItem> {
     this.besBackendItem = this.addDisposable(
       new BuildEventServiceItem(bes, bzl.settings, onDidChangeTreeData)
     );
+    this.localBesItem = this.addDisposable(
+      new LocalBuildEventServiceItem(localBes, onDidChangeTreeData)
+    );
+    this.historyItem = this.addDisposable(
+      new InvocationHistoryItem(history, onDidChangeTreeData)
+    );
     this.bazelServerItem = this.addDisposable(new BazelServerItem(bazel, onDidChangeTreeData));
     this.starlarkDebuggerItem = this.addDisposable(
       new StarlarkDebuggerItem(starlarkDebugger, onDidChangeTreeData)
@@ -211,7 +233,9 @@ export class BezelWorkspaceView extends TreeView<vscode.TreeItem> {
       this.bzlServerItem,
       this.codeSearchItem,
       this.besBackendItem,
+      this.localBesItem,
       this.invocationsItem,
+      this.historyItem,
       this.invocationsItem.currentInvocation,
     ];
     return items;
@@ -543,11 +567,15 @@ class RemoteCacheItem
   implements vscode.Disposable, Expandable {
   constructor(
     private remoteCache: RemoteCache,
+    private explorer: RemoteCacheExplorer,
+    private stats: RemoteCacheStatsCollector,
     onDidChangeTreeData: (item: vscode.TreeItem) => void
   ) {
     super('Remote Cache', 'Server', remoteCache, onDidChangeTreeData);
     this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
     remoteCache.onDidAttachTerminal(() => onDidChangeTreeData(this), this, this.disposables);
+    explorer.onDidChangeLookups(() => onDidChangeTreeData(this), this, this.disposables);
+    stats.onDidChange(() => onDidChangeTreeData(this), this, this.disposables);
   }
 
   async getChildrenInternal(): Promise<vscode.TreeItem[]> {
@@ -560,10 +588,27 @@ class RemoteCacheItem
       items.push(new TerminalProcessItem(this.remoteCache.terminal));
     }
     items.push(await this.createUsageItem());
+    items.push(new RemoteCacheStatsItem(this.stats, await this.remoteCache.settings.get()));
+
+    if (this.remoteCache.status === Status.READY) {
+      items.push(this.createLookupItem());
+      items.push(...this.explorer.lookups.map(l => new ActionResultItem(l)));
+    }
 
     return items;
   }
 
+  createLookupItem(): vscode.TreeItem {
+    const item = new vscode.TreeItem('Lookup');
+    item.description = 'Action Result';
+    item.iconPath = new vscode.ThemeIcon('search');
+    item.command = {
+      title: 'Lookup Action Result',
+      command: CommandName.RemoteCacheLookupActionResult,
+    };
+    return item;
+  }
+
   createLaunchItem(): vscode.TreeItem {
     const item = new vscode.TreeItem('Launch');
     item.description = 'LRU Disk Cache';
@@ -728,6 +773,42 @@ class BuildEventServiceItem
   }
 }
 
+class LocalBuildEventServiceItem
+  extends RunnableComponentItem<LocalBuildEventServiceConfiguration>
+  implements vscode.Disposable, Expandable {
+  constructor(
+    private localBes: LocalBuildEventService,
+    onDidChangeTreeData: (item: vscode.TreeItem) => void
+  ) {
+    super('Build Event', 'Recorder', localBes, onDidChangeTreeData);
+    this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+  }
+
+  async getChildrenInternal(): Promise<vscode.TreeItem[]> {
+    const items: vscode.TreeItem[] = [];
+    const address = this.localBes.backendAddress;
+    if (!address) {
+      items.push(new DisabledItem('Server not running'));
+      return items;
+    }
+
+    items.push(this.createUsageItem(address));
+
+    return items;
+  }
+
+  createUsageItem(address: string): vscode.TreeItem {
+    const flag = `--bes_backend=${address}`;
+    const item = new UsageItem(flag);
+    item.command = {
+      title: 'Copy',
+      command: CommandName.CopyToClipboard,
+      arguments: [flag],
+    };
+    return item;
+  }
+}
+
 class StarlarkDebuggerItem
   extends RunnableComponentItem<StarlarkDebuggerConfiguration>
   implements vscode.Disposable, Expandable {
@@ -1,15 +1,21 @@
 import { RunnableComponent, Status } from '../bezel/status';
+import { BuildifierCodeActionProvider } from './codeActions';
 import { BuildifierConfiguration } from './configuration';
 import { BuildifierDiagnosticsManager } from './diagnostics';
 import { BuildifierFormatter } from './formatter';
 import { BuildifierSettings } from './settings';
+import { BuildifierWarningsPicker } from './warningsPicker';
+import { BuildifierWorkspaceLinter } from './workspaceLint';
 
 export class Buildifier extends RunnableComponent<BuildifierConfiguration> {
   constructor(public readonly settings: BuildifierSettings) {
     super('BDF', settings);
 
-    new BuildifierDiagnosticsManager(settings, this.disposables);
+    const diagnostics = new BuildifierDiagnosticsManager(settings, this.disposables);
     new BuildifierFormatter(settings, this.disposables);
+    new BuildifierCodeActionProvider(settings, this.disposables);
+    new BuildifierWorkspaceLinter(settings, diagnostics, this.disposables);
+    new BuildifierWarningsPicker(settings, this.disposables);
   }
 
   async startInternal(): Promise<void> {
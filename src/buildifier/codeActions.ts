@@ -0,0 +1,409 @@
+import * as vscode from 'vscode';
+import { BuiltInCommands } from '../constants';
+import { BuildifierConfiguration } from './configuration';
+import { buildifierFormat, buildifierLint, getBuildifierFileType } from './execute';
+import { BuildifierSettings } from './settings';
+
+/**
+ * The base URL of the buildifier warning documentation; each category is an
+ * anchor.
+ */
+const WARNINGS_DOCUMENTATION_URL =
+  'https://github.com/bazelbuild/buildtools/blob/master/WARNINGS.md';
+
+/**
+ * A replacement of a range of the original text, in character offsets.
+ */
+export interface TextReplacement {
+  start: number;
+  end: number;
+  text: string;
+  // the range of (0-based) original lines that are replaced, end exclusive.
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * A range of changed lines: a[aStart:aEnd] is replaced by b[bStart:bEnd].
+ */
+interface Hunk {
+  aStart: number;
+  aEnd: number;
+  bStart: number;
+  bEnd: number;
+}
+
+/**
+ * The largest number of edits diffHunks looks for before it gives up and
+ * replaces the differing lines as a whole.
+ */
+const MAX_DIFF_EDITS = 1000;
+
+/**
+ * Computes the changed ranges of a[lo:aHi] and b[lo:bHi] with the Myers
+ * algorithm, whose memory is linear in the number of edits.  Returns undefined
+ * if there are more than MAX_DIFF_EDITS of them.
+ */
+function diffHunks(
+  a: string[],
+  b: string[],
+  lo: number,
+  aHi: number,
+  bHi: number
+): Hunk[] | undefined {
+  const n = aHi - lo;
+  const m = bHi - lo;
+  const max = Math.min(n + m, MAX_DIFF_EDITS);
+  // v[k + max + 1] is the furthest x reached on diagonal k = x - y.
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[lo + x] === b[lo + y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, d, n, m).map(h => ({
+          aStart: h.aStart + lo,
+          aEnd: h.aEnd + lo,
+          bStart: h.bStart + lo,
+          bEnd: h.bEnd + lo,
+        }));
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Walks the furthest reaching paths of diffHunks back from (n, m) and collects
+ * the ranges between the matching lines.
+ */
+function backtrack(trace: Int32Array[], edits: number, n: number, m: number): Hunk[] {
+  const hunks: Hunk[] = [];
+  let x = n;
+  let y = m;
+  let hunk: Hunk | undefined;
+  const matched = () => {
+    if (hunk) {
+      hunks.unshift(hunk);
+      hunk = undefined;
+    }
+  };
+  for (let d = edits; d > 0; d--) {
+    // trace[d] holds the diagonals -d-1..d+1 reached after d - 1 edits.
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    // the snake after the edit
+    while (x > prevX && y > prevY) {
+      matched();
+      x--;
+      y--;
+    }
+    if (!hunk) {
+      hunk = { aStart: x, aEnd: x, bStart: y, bEnd: y };
+    }
+    if (x === prevX) {
+      y--;
+    } else {
+      x--;
+    }
+    hunk.aStart = x;
+    hunk.bStart = y;
+  }
+  matched();
+  return hunks;
+}
+
+/**
+ * Computes the line-based replacements that transform the original text into
+ * the modified one.
+ */
+export function diffLines(original: string, modified: string): TextReplacement[] {
+  const a = original.split('\n');
+  const b = modified.split('\n');
+
+  // the common prefix and suffix need not be searched.
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  const aHi = a.length - suffix;
+  const bHi = b.length - suffix;
+  if (prefix === aHi && prefix === bHi) {
+    return [];
+  }
+  const hunks = diffHunks(a, b, prefix, aHi, bHi) || [
+    { aStart: prefix, aEnd: aHi, bStart: prefix, bEnd: bHi },
+  ];
+
+  const offsets: number[] = [0];
+  for (const line of a) {
+    offsets.push(offsets[offsets.length - 1] + line.length + 1);
+  }
+
+  return hunks.map(h => {
+    let start = offsets[h.aStart];
+    let end = offsets[h.aEnd];
+    let text = b
+      .slice(h.bStart, h.bEnd)
+      .map(line => line + '\n')
+      .join('');
+    if (h.aEnd === a.length) {
+      // the last line has no terminating newline
+      end = original.length;
+      text = b.slice(h.bStart, h.bEnd).join('\n');
+      if (h.aStart === a.length) {
+        // appending after the last line
+        start = end;
+        text = '\n' + text;
+      } else if (h.bStart === h.bEnd && h.aStart > 0) {
+        // deleting the trailing lines also deletes the preceding newline
+        start--;
+      }
+    }
+    return { start, end, text, startLine: h.aStart, endLine: h.aEnd };
+  });
+}
+
+/**
+ * Returns the replacements that fix the warnings of a category.  buildifier
+ * also reformats the file when it fixes it, so the replacements that merely
+ * format it are dropped.
+ *
+ * @param formatted the original text formatted by buildifier
+ * @param fixed the original text with the category fixed by buildifier
+ */
+export function categoryFix(original: string, formatted: string, fixed: string): TextReplacement[] {
+  const formatting = new Set(
+    diffLines(original, formatted).map(r => `${r.start}:${r.end}:${r.text}`)
+  );
+  return diffLines(original, fixed).filter(r => !formatting.has(`${r.start}:${r.end}:${r.text}`));
+}
+
+/**
+ * Returns the comment line that suppresses the category for the given line.
+ */
+export function suppressionComment(line: string, category: string): string {
+  const indent = /^\s*/.exec(line)![0];
+  return `${indent}# buildifier: disable=${category}\n`;
+}
+
+/**
+ * Returns the documentation uri for the given warning category.
+ */
+export function warningDocumentationUri(category: string): vscode.Uri {
+  return vscode.Uri.parse(`${WARNINGS_DOCUMENTATION_URL}#${category}`);
+}
+
+/**
+ * Returns the replacements that touch the lines of the diagnostic.  Some fixes
+ * (such as sorting loads) happen elsewhere, in which case all replacements are
+ * returned.
+ */
+export function localReplacements(
+  diagnostic: vscode.Diagnostic,
+  replacements: TextReplacement[]
+): TextReplacement[] {
+  const first = diagnostic.range.start.line;
+  const last = diagnostic.range.end.line;
+  const local = replacements.filter(r =>
+    r.startLine === r.endLine
+      ? r.startLine >= first && r.startLine <= last + 1
+      : r.startLine <= last && r.endLine > first
+  );
+  return local.length ? local : replacements;
+}
+
+/**
+ * A quick fix of buildifier whose edit is computed when it is resolved.
+ */
+class BuildifierFixAction extends vscode.CodeAction {
+  constructor(
+    title: string,
+    public readonly document: vscode.TextDocument,
+    public readonly diagnostic: vscode.Diagnostic,
+    public readonly category: string,
+    // if true, only the replacements near the diagnostic are applied.
+    public readonly local: boolean
+  ) {
+    super(title, vscode.CodeActionKind.QuickFix);
+    this.diagnostics = [diagnostic];
+  }
+}
+
+/**
+ * Provides quick fixes for buildifier lint warnings.
+ */
+export class BuildifierCodeActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  constructor(private settings: BuildifierSettings, disposables: vscode.Disposable[]) {
+    disposables.push(
+      vscode.languages.registerCodeActionsProvider(
+        [{ language: 'bazel' }, { language: 'starlark' }],
+        this,
+        { providedCodeActionKinds: BuildifierCodeActionProvider.providedCodeActionKinds }
+      )
+    );
+  }
+
+  public async provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): Promise<vscode.CodeAction[]> {
+    const diagnostics = context.diagnostics.filter(
+      d => d.source === 'buildifier' && typeof d.code === 'string' && d.code !== 'invalid-input'
+    );
+    if (!diagnostics.length) {
+      return [];
+    }
+
+    const cfg = await this.settings.get();
+    if (!(cfg && cfg.enabled)) {
+      return [];
+    }
+
+    // Running buildifier for every lightbulb is too slow; the fixes are
+    // computed in resolveCodeAction.
+    const actions: vscode.CodeAction[] = [];
+    for (const diagnostic of diagnostics) {
+      const category = diagnostic.code as string;
+      const fix = new BuildifierFixAction(
+        `Fix this warning (${category})`,
+        document,
+        diagnostic,
+        category,
+        true
+      );
+      fix.isPreferred = true;
+      actions.push(
+        fix,
+        new BuildifierFixAction(
+          `Fix all ${category} warnings in file`,
+          document,
+          diagnostic,
+          category,
+          false
+        ),
+        this.suppressAction(document, diagnostic, category),
+        this.documentationAction(diagnostic, category)
+      );
+    }
+    return actions;
+  }
+
+  public async resolveCodeAction(
+    action: vscode.CodeAction,
+    token: vscode.CancellationToken
+  ): Promise<vscode.CodeAction> {
+    if (!(action instanceof BuildifierFixAction)) {
+      return action;
+    }
+    const cfg = await this.settings.get();
+    const replacements = await this.computeFix(cfg, action.document, action.category);
+    if (token.isCancellationRequested) {
+      return action;
+    }
+    if (!replacements.length) {
+      vscode.window.showInformationMessage(
+        `buildifier: no automatic fix is available for ${action.category}`
+      );
+      return action;
+    }
+    action.edit = this.workspaceEdit(
+      action.document,
+      action.local ? localReplacements(action.diagnostic, replacements) : replacements
+    );
+    return action;
+  }
+
+  async computeFix(
+    cfg: BuildifierConfiguration,
+    document: vscode.TextDocument,
+    category: string
+  ): Promise<TextReplacement[]> {
+    const content = document.getText();
+    const type = getBuildifierFileType(document.uri.fsPath);
+    try {
+      const [formatted, fixed] = await Promise.all([
+        buildifierFormat(cfg, content, type, false),
+        buildifierLint(cfg, content, type, 'fix', [category]),
+      ]);
+      if (!fixed || fixed === content) {
+        return [];
+      }
+      return categoryFix(content, formatted || content, fixed);
+    } catch (err) {
+      console.warn('buildifier error:', err);
+      return [];
+    }
+  }
+
+  suppressAction(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    category: string
+  ): vscode.CodeAction {
+    const line = document.lineAt(diagnostic.range.start.line);
+    const action = new vscode.CodeAction(
+      `Suppress with # buildifier: disable=${category}`,
+      vscode.CodeActionKind.QuickFix
+    );
+    action.diagnostics = [diagnostic];
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.insert(document.uri, line.range.start, suppressionComment(line.text, category));
+    return action;
+  }
+
+  documentationAction(diagnostic: vscode.Diagnostic, category: string): vscode.CodeAction {
+    const action = new vscode.CodeAction(
+      `Open documentation for ${category}`,
+      vscode.CodeActionKind.QuickFix
+    );
+    action.diagnostics = [diagnostic];
+    action.command = {
+      title: `Open documentation for ${category}`,
+      command: BuiltInCommands.Open,
+      arguments: [warningDocumentationUri(category)],
+    };
+    return action;
+  }
+
+  workspaceEdit(
+    document: vscode.TextDocument,
+    replacements: TextReplacement[]
+  ): vscode.WorkspaceEdit {
+    const edit = new vscode.WorkspaceEdit();
+    for (const r of replacements) {
+      edit.replace(
+        document.uri,
+        new vscode.Range(document.positionAt(r.start), document.positionAt(r.end)),
+        r.text
+      );
+    }
+    return edit;
+  }
+}
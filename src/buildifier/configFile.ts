@@ -0,0 +1,288 @@
+import * as fs from 'graceful-fs';
+import * as path from 'path';
+
+/**
+ * The name of the buildifier configuration file in the workspace root.
+ */
+export const BUILDIFIER_CONFIG_FILENAME = '.buildifier.json';
+
+/**
+ * The fields of a buildifier configuration file (buildifier --config) that
+ * the extension honours.  Paths are relative to the directory of the file.
+ */
+export interface BuildifierConfigFile {
+  // comma-separated list of warnings, 'all' or 'default', or +/- changes
+  warnings?: string;
+  // alternative to warnings; takes precedence if not empty
+  warningsList?: string[];
+  // table definitions that replace the built-in tables
+  tables?: string;
+  // table definitions that are merged with the built-in tables
+  addTables?: string;
+  // the other fields (such as mode and lint) are kept as they are
+  [key: string]: unknown;
+}
+
+/**
+ * The lint warnings of buildifier.
+ */
+export const allWarnings = [
+  'attr-applicable_licenses',
+  'attr-cfg',
+  'attr-license',
+  'attr-licenses',
+  'attr-non-empty',
+  'attr-output-default',
+  'attr-single-file',
+  'build-args-kwargs',
+  'bzl-visibility',
+  'confusing-name',
+  'constant-glob',
+  'ctx-actions',
+  'ctx-args',
+  'deprecated-function',
+  'depset-items',
+  'depset-iteration',
+  'depset-union',
+  'dict-concatenation',
+  'dict-method-named-arg',
+  'duplicated-name',
+  'filetype',
+  'function-docstring',
+  'function-docstring-args',
+  'function-docstring-header',
+  'function-docstring-return',
+  'git-repository',
+  'http-archive',
+  'integer-division',
+  'keyword-positional-params',
+  'list-append',
+  'load',
+  'load-on-top',
+  'module-docstring',
+  'name-conventions',
+  'native-android',
+  'native-build',
+  'native-cc',
+  'native-java',
+  'native-package',
+  'native-proto',
+  'native-py',
+  'no-effect',
+  'out-of-order-load',
+  'output-group',
+  'overly-nested-depset',
+  'package-name',
+  'package-on-top',
+  'positional-args',
+  'print',
+  'provider-params',
+  'redefined-variable',
+  'repository-name',
+  'return-value',
+  'rule-impl-return',
+  'same-origin-load',
+  'skylark-comment',
+  'skylark-docstring',
+  'string-iteration',
+  'uninitialized',
+  'unnamed-macro',
+  'unreachable',
+  'unsorted-dict-items',
+  'unused-variable',
+];
+
+/**
+ * The warnings buildifier does not report unless they are enabled.
+ */
+export const disabledByDefaultWarnings = new Set([
+  'function-docstring',
+  'function-docstring-args',
+  'function-docstring-header',
+  'function-docstring-return',
+  'native-android',
+  'native-cc',
+  'native-java',
+  'native-proto',
+  'native-py',
+  'out-of-order-load',
+  'unsorted-dict-items',
+]);
+
+/**
+ * Returns the warnings buildifier reports by default.
+ */
+export function defaultWarnings(): Set<string> {
+  return new Set(allWarnings.filter(w => !disabledByDefaultWarnings.has(w)));
+}
+
+/**
+ * Parses the content of a buildifier configuration file.
+ *
+ * @param filename the name of the file, for error messages
+ */
+export function parseBuildifierConfig(text: string, filename: string): BuildifierConfigFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`invalid buildifier config ${filename}: ${e instanceof Error ? e.message : e}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`invalid buildifier config ${filename}: expected an object`);
+  }
+  const config = parsed as { [key: string]: unknown };
+  for (const key of ['warnings', 'tables', 'addTables']) {
+    if (config[key] !== undefined && typeof config[key] !== 'string') {
+      throw new Error(`invalid buildifier config ${filename}: ${key} must be a string`);
+    }
+  }
+  const list = config.warningsList;
+  if (list !== undefined && !(Array.isArray(list) && list.every(w => typeof w === 'string'))) {
+    throw new Error(
+      `invalid buildifier config ${filename}: warningsList must be a list of strings`
+    );
+  }
+  // the fields are checked above.
+  return config as BuildifierConfigFile;
+}
+
+/**
+ * Returns the configuration file buildifier would use for the workspace: the
+ * configured file (relative to the workspace), the BUILDIFIER_CONFIG
+ * environment variable, or the .buildifier.json of the workspace.  The file
+ * may not exist.
+ */
+export function findBuildifierConfig(
+  workspaceDirectory: string,
+  configured: string | undefined,
+  env: NodeJS.ProcessEnv
+): string {
+  const filename = configured || env.BUILDIFIER_CONFIG;
+  if (filename) {
+    return path.resolve(workspaceDirectory, filename);
+  }
+  return path.join(workspaceDirectory, BUILDIFIER_CONFIG_FILENAME);
+}
+
+/**
+ * Reads the buildifier configuration file, or returns undefined if it does not
+ * exist.
+ */
+export async function readBuildifierConfig(
+  filename: string
+): Promise<BuildifierConfigFile | undefined> {
+  let text: string;
+  try {
+    text = await fs.promises.readFile(filename, 'utf8');
+  } catch (e) {
+    return undefined;
+  }
+  return parseBuildifierConfig(text, filename);
+}
+
+/**
+ * Returns the --warnings value of the configuration, if it sets one.
+ */
+export function configWarnings(config: BuildifierConfigFile | undefined): string | undefined {
+  if (config?.warningsList?.length) {
+    return config.warningsList.join(',');
+  }
+  return config?.warnings || undefined;
+}
+
+/**
+ * Returns the warnings enabled by a --warnings value: 'all', 'default', a list
+ * of warnings, or changes to the defaults such as '+print,-load'.
+ */
+export function enabledWarnings(spec: string | undefined): Set<string> {
+  const items = (spec || '')
+    .split(',')
+    .map(w => w.trim())
+    .filter(w => w);
+  if (!items.length || items.every(w => w === 'default')) {
+    return defaultWarnings();
+  }
+  if (items.length === 1 && items[0] === 'all') {
+    return new Set(allWarnings);
+  }
+  const changes = items.every(w => w.startsWith('+') || w.startsWith('-'));
+  const enabled = changes ? defaultWarnings() : new Set<string>();
+  for (const item of items) {
+    if (item.startsWith('-')) {
+      enabled.delete(item.slice(1));
+    } else {
+      enabled.add(item.startsWith('+') ? item.slice(1) : item);
+    }
+  }
+  return enabled;
+}
+
+/**
+ * Returns the warningsList that enables the warnings, as changes to the
+ * defaults.  The list is empty if the warnings are the defaults.
+ */
+export function warningsListOf(enabled: Set<string>): string[] {
+  const defaults = defaultWarnings();
+  const list: string[] = [];
+  for (const warning of allWarnings) {
+    if (enabled.has(warning) && !defaults.has(warning)) {
+      list.push('+' + warning);
+    } else if (!enabled.has(warning) && defaults.has(warning)) {
+      list.push('-' + warning);
+    }
+  }
+  return list;
+}
+
+/**
+ * Returns the content of the configuration file with the warnings replaced,
+ * keeping the other fields.
+ *
+ * @param text the content of the file, or undefined if it does not exist
+ */
+export function updateConfigWarnings(
+  text: string | undefined,
+  filename: string,
+  warningsList: string[]
+): string {
+  const config = text ? parseBuildifierConfig(text, filename) : {};
+  delete config.warnings;
+  if (warningsList.length) {
+    config.warningsList = warningsList;
+  } else {
+    delete config.warningsList;
+  }
+  return JSON.stringify(config, null, 2) + '\n';
+}
+
+/**
+ * Returns the --tables and --add_tables flags of the configuration, and its
+ * --warnings flag if lint is true.
+ *
+ * @param dir the directory relative paths in the configuration are resolved
+ *     against
+ * @param warnings if given, the warnings to check instead of the configured
+ *     ones
+ */
+export function buildifierConfigArgs(
+  config: BuildifierConfigFile | undefined,
+  dir: string,
+  lint: boolean,
+  warnings?: string[]
+): string[] {
+  const args: string[] = [];
+  if (config?.tables) {
+    args.push(`--tables=${path.resolve(dir, config.tables)}`);
+  }
+  if (config?.addTables) {
+    args.push(`--add_tables=${path.resolve(dir, config.addTables)}`);
+  }
+  if (lint) {
+    const spec = warnings && warnings.length ? warnings.join(',') : configWarnings(config);
+    if (spec) {
+      args.push(`--warnings=${spec}`);
+    }
+  }
+  return args;
+}
@@ -1,4 +1,6 @@
 import { ComponentConfiguration } from '../bezel/configuration';
+import { BuildtoolSource } from './workspaceTool';
+import { BuildifierConfigFile } from './configFile';
 
 /**
  * Configuration for the buildifier module.
@@ -9,4 +11,12 @@ export interface BuildifierConfiguration extends ComponentConfiguration {
   githubRelease: string;
   executable: string | undefined;
   fixOnFormat: boolean;
+  // where the executable comes from, if not set; defaults to 'release'
+  source?: BuildtoolSource;
+  // the target that builds buildifier, for the 'workspace' source
+  workspaceTarget?: string;
+  // the path of the buildifier configuration file, which may not exist
+  configFile?: string;
+  // the content of the configuration file, if it exists
+  config?: BuildifierConfigFile;
 }
@@ -56,6 +56,15 @@ export class BuildifierDiagnosticsManager {
       })
     );
 
+    // The configuration file may change the warnings to report.
+    disposables.push(
+      settings.onDidConfigurationChange(() => {
+        if (vscode.window.activeTextEditor) {
+          this.updateDiagnostics(vscode.window.activeTextEditor.document);
+        }
+      })
+    );
+
     // If there is an active window at the time the manager is created, make
     // sure its diagnostics are computed.
     if (vscode.window.activeTextEditor) {
@@ -102,55 +111,46 @@ export class BuildifierDiagnosticsManager {
     );
 
     if (!result.stderr) {
-      this.diagnosticsCollection.set(
-        document.uri,
-        result.file.warnings.map(warning => {
-          // Buildifier returns 1-based line numbers, but VS Code is 0-based.
-          const range = new vscode.Range(
-            warning.start.line - 1,
-            warning.start.column - 1,
-            warning.end.line - 1,
-            warning.end.column - 1
-          );
-          const diagnostic = new vscode.Diagnostic(
-            range,
-            warning.message,
-            vscode.DiagnosticSeverity.Warning
-          );
-          diagnostic.source = 'buildifier';
-          diagnostic.code = warning.category;
-          return diagnostic;
-        })
-      );
+      this.set(document.uri, result.file.warnings, vscode.DiagnosticSeverity.Warning);
     } else {
       const warnings: IBuildifierWarning[] = [];
       const syntaxError = parseStderr(result.stderr);
       if (syntaxError) {
         warnings.push(syntaxError);
       }
-      this.diagnosticsCollection.set(
-        document.uri,
-        warnings.map(warning => {
-          // Buildifier returns 1-based line numbers, but VS Code is 0-based.
-          const range = new vscode.Range(
-            warning.start.line - 1,
-            warning.start.column - 1,
-            warning.end.line - 1,
-            warning.end.column - 1
-          );
-          const diagnostic = new vscode.Diagnostic(
-            range,
-            warning.message,
-            vscode.DiagnosticSeverity.Error
-          );
-          diagnostic.source = 'buildifier';
-          diagnostic.code = warning.category;
-          return diagnostic;
-        })
-      );
-
+      this.set(document.uri, warnings, vscode.DiagnosticSeverity.Error);
     }
   }
+
+  /**
+   * Replaces the diagnostics of the given file with the warnings.
+   *
+   * @param uri The file whose diagnostics should be updated.
+   * @param warnings The warnings reported by buildifier for the file.
+   * @param severity The severity of the diagnostics.
+   */
+  public set(
+    uri: vscode.Uri,
+    warnings: IBuildifierWarning[],
+    severity: vscode.DiagnosticSeverity
+  ) {
+    this.diagnosticsCollection.set(
+      uri,
+      warnings.map(warning => {
+        // Buildifier returns 1-based line numbers, but VS Code is 0-based.
+        const range = new vscode.Range(
+          warning.start.line - 1,
+          warning.start.column - 1,
+          warning.end.line - 1,
+          warning.end.column - 1
+        );
+        const diagnostic = new vscode.Diagnostic(range, warning.message, severity);
+        diagnostic.source = 'buildifier';
+        diagnostic.code = warning.category;
+        return diagnostic;
+      })
+    );
+  }
 }
 
 function parseStderr(input: string): IBuildifierWarning | undefined {
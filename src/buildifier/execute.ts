@@ -16,6 +16,7 @@ import * as child_process from 'child_process';
 import * as path from 'path';
 import { IBuildifierResult, IBuildifierStdinResult } from './result';
 import { BuildifierConfiguration } from './configuration';
+import { buildifierConfigArgs } from './configFile';
 
 /** Whether to warn about lint findings or fix them. */
 export type BuildifierLintMode = 'fix' | 'warn';
@@ -44,6 +45,7 @@ export async function buildifierFormat(
   if (applyLintFixes) {
     args.push('--lint=fix');
   }
+  args.push(...configArgs(cfg, applyLintFixes));
   return (await executeBuildifier(cfg, fileContent, args, false)).stdout;
 }
 
@@ -56,13 +58,15 @@ export async function buildifierFormat(
  * @param type Indicates whether to treat the file content as a BUILD file or a
  *     .bzl file.
  * @param lintMode Indicates whether to warn about lint findings or fix them.
+ * @param warnings If given, restricts the lint checks to these categories.
  * @returns The fixed content.
  */
 export async function buildifierLint(
   cfg: BuildifierConfiguration,
   fileContent: string,
   type: BuildifierFileType,
-  lintMode: 'fix'
+  lintMode: 'fix',
+  warnings?: string[]
 ): Promise<string>;
 
 /**
@@ -74,22 +78,31 @@ export async function buildifierLint(
  * @param type Indicates whether to treat the file content as a BUILD file or a
  *     .bzl file.
  * @param lintMode Indicates whether to warn about lint findings or fix them.
+ * @param warnings If given, restricts the lint checks to these categories.
  * @returns An array of objects representing the lint issues that occurred.
  */
 export async function buildifierLint(
   cfg: BuildifierConfiguration,
   fileContent: string,
   type: BuildifierFileType,
-  lintMode: 'warn'
+  lintMode: 'warn',
+  warnings?: string[]
 ): Promise<IBuildifierStdinResult>;
 
 export async function buildifierLint(
   cfg: BuildifierConfiguration,
   fileContent: string,
   type: BuildifierFileType,
-  lintMode: BuildifierLintMode
+  lintMode: BuildifierLintMode,
+  warnings?: string[]
 ): Promise<string | IBuildifierStdinResult> {
-  const args = ['--format=json', '--mode=check', `--type=${type}`, `--lint=${lintMode}`];
+  // In check mode buildifier only reports; the fixed content is only written
+  // to stdout in fix mode.
+  const args =
+    lintMode === 'fix'
+      ? ['--mode=fix', `--type=${type}`, `--lint=${lintMode}`]
+      : ['--format=json', '--mode=check', `--type=${type}`, `--lint=${lintMode}`];
+  args.push(...configArgs(cfg, true, warnings));
   const outputs = await executeBuildifier(cfg, fileContent, args, true);
   switch (lintMode) {
     case 'fix':
@@ -118,6 +131,40 @@ export async function buildifierLint(
   }
 }
 
+/**
+ * Invokes buildifier in check mode on the given files and emits warnings
+ * indicating any issues that were found.
+ *
+ * @param files The paths of the files to check.
+ * @param cwd The working directory of the buildifier process.
+ * @returns The result for each file, along with stderr which reports syntax
+ *     errors.
+ */
+export async function buildifierCheckFiles(
+  cfg: BuildifierConfiguration,
+  files: string[],
+  cwd?: string
+): Promise<IBuildifierResult & { stderr: string }> {
+  const args = ['--format=json', '--mode=check', '--lint=warn', ...configArgs(cfg, true)];
+  args.push(...files);
+  const outputs = await executeBuildifier(cfg, undefined, args, true, cwd);
+  const result = JSON.parse(outputs.stdout) as IBuildifierResult;
+  return { ...result, stderr: outputs.stderr };
+}
+
+/**
+ * Returns the --tables, --add_tables and --warnings flags of the buildifier
+ * configuration file, such that formatting, diagnostics and fixes agree with
+ * buildifier runs that use the file.
+ *
+ * @param lint If true, the lint warnings are also configured.
+ * @param warnings If given, overrides the configured warnings.
+ */
+function configArgs(cfg: BuildifierConfiguration, lint: boolean, warnings?: string[]): string[] {
+  const dir = cfg.configFile ? path.dirname(cfg.configFile) : '.';
+  return buildifierConfigArgs(cfg.config, dir, lint, warnings);
+}
+
 /**
  * Returns the file type of a file with the given path.
  *
@@ -167,20 +214,23 @@ export function getBuildifierFileType(fsPath: string): BuildifierFileType {
  * Executes buildifier with the given file content and arguments.
  *
  * @param fileContent The BUILD or .bzl file content to process, which is sent
- *     via stdin.
+ *     via stdin.  If undefined, the files are named in the args.
  * @param args Command line arguments to pass to buildifier.
  * @param acceptNonSevereErrors If true, syntax/lint exit codes will not be
  *     treated as severe tool errors.
+ * @param cwd The working directory of the process.
  */
 function executeBuildifier(
   cfg: BuildifierConfiguration,
-  fileContent: string,
+  fileContent: string | undefined,
   args: string[],
-  acceptNonSevereErrors: boolean
+  acceptNonSevereErrors: boolean,
+  cwd?: string
 ): Promise<{ stdout: string; stderr: string }> {
   return new Promise((resolve, reject) => {
     const execOptions = {
       maxBuffer: Number.MAX_SAFE_INTEGER,
+      cwd,
     };
     const process = child_process.execFile(
       cfg.executable!,
@@ -196,7 +246,9 @@ function executeBuildifier(
     );
     // Write the file being linted/formatted to stdin and close the stream so
     // that the buildifier process continues.
-    process.stdin && process.stdin.write(fileContent);
+    if (fileContent !== undefined) {
+      process.stdin && process.stdin.write(fileContent);
+    }
     process.stdin && process.stdin.end();
   });
 }
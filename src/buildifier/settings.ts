@@ -12,15 +12,65 @@ import { BuildifierConfiguration } from './configuration';
 import { Container } from '../container';
 import path = require('path');
 import { ConfigurationContext } from '../common';
+import { provisionTool, ToolsConfiguration } from '../tools';
+import { BazelConfiguration } from '../bezel/configuration';
+import { BuildtoolSource, maybeBuildWorkspaceTool } from './workspaceTool';
+import { findBuildifierConfig, readBuildifierConfig } from './configFile';
 
 export class BuildifierSettings extends Settings<BuildifierConfiguration> {
-  constructor(configCtx: ConfigurationContext, section: string) {
+  private configWatcher: vscode.FileSystemWatcher | undefined;
+  private configWatcherFile: string | undefined;
+  // the buildifier built from the workspace, by target and bazel executable
+  private workspaceExecutable: { key: string; executable: string } | undefined;
+  // true if the next configure is due to a change of the configuration file
+  private configFileChanged = false;
+
+  constructor(
+    configCtx: ConfigurationContext,
+    section: string,
+    private tools?: Settings<ToolsConfiguration>,
+    private bazel?: Settings<BazelConfiguration>
+  ) {
     super(configCtx, section);
+    if (tools) {
+      this.disposables.push(tools.onDidConfigurationChange(() => this.reconfigure(section)));
+    }
+    this.disposables.push({ dispose: () => this.configWatcher?.dispose() });
+  }
+
+  /**
+   * Watches the buildifier configuration file such that the settings are
+   * reloaded when it is created, changed or deleted.
+   */
+  private watchConfigFile(filename: string) {
+    if (filename === this.configWatcherFile) {
+      return;
+    }
+    this.configWatcher?.dispose();
+    this.configWatcherFile = filename;
+    const watcher = (this.configWatcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(path.dirname(filename), path.basename(filename))
+    ));
+    watcher.onDidCreate(() => this.handleConfigFileChange());
+    watcher.onDidChange(() => this.handleConfigFileChange());
+    watcher.onDidDelete(() => this.handleConfigFileChange());
+  }
+
+  /**
+   * Reloads the settings after the configuration file changed.  The
+   * executable built from the workspace is kept rather than running bazel
+   * again.
+   */
+  private handleConfigFileChange() {
+    this.configFileChanged = true;
+    return this.reconfigure(this.section);
   }
 
   protected async configure(
     config: vscode.WorkspaceConfiguration
   ): Promise<BuildifierConfiguration> {
+    const configFileChanged = this.configFileChanged;
+    this.configFileChanged = false;
     const cfg: BuildifierConfiguration = {
       enabled: config.get<boolean>('enabled', true),
       githubOwner: config.get<string>('githubOwner', 'bazelbuild'),
@@ -28,8 +78,47 @@ export class BuildifierSettings extends Settings<BuildifierConfiguration> {
       githubRelease: config.get<string>('githubRelease', '4.0.1'),
       executable: config.get<string | undefined>('executable'),
       fixOnFormat: config.get<boolean>('fixOnFormat', true),
+      source: config.get<BuildtoolSource>('source', 'release'),
+      workspaceTarget: config.get<string>(
+        'workspaceTarget',
+        '@com_github_bazelbuild_buildtools//buildifier'
+      ),
     };
 
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (folder) {
+      cfg.configFile = findBuildifierConfig(
+        folder.uri.fsPath,
+        config.get<string | undefined>('configFile'),
+        process.env
+      );
+      this.watchConfigFile(cfg.configFile);
+      try {
+        cfg.config = await readBuildifierConfig(cfg.configFile);
+      } catch (e) {
+        // buildifier keeps working with its default warnings until the file is fixed.
+        vscode.window.showWarningMessage(
+          `${e instanceof Error ? e.message : e}; using the default warnings`
+        );
+      }
+    }
+
+    if (!cfg.executable && cfg.source === 'workspace' && this.bazel) {
+      const bazelExecutable = (await this.bazel.get()).executable || 'bazel';
+      const key = `${cfg.workspaceTarget} ${bazelExecutable}`;
+      const built = this.workspaceExecutable;
+      if (configFileChanged && built && built.key === key && fs.existsSync(built.executable)) {
+        cfg.executable = built.executable;
+      } else {
+        cfg.executable = await maybeBuildWorkspaceTool(
+          'buildifier',
+          cfg.workspaceTarget!,
+          bazelExecutable
+        );
+        this.workspaceExecutable = cfg.executable ? { key, executable: cfg.executable } : undefined;
+      }
+    }
+
     if (!cfg.executable) {
       cfg.executable = await maybeInstallBuildtool(
         cfg.githubOwner,
@@ -37,6 +126,7 @@ export class BuildifierSettings extends Settings<BuildifierConfiguration> {
         cfg.githubRelease,
         path.join(this.configCtx.globalStorageUri.fsPath, 'bsv.buildifier'),
         'buildifier',
+        await this.tools?.get(),
       );
     }
 
@@ -56,6 +146,7 @@ export class BuildifierSettings extends Settings<BuildifierConfiguration> {
  *
  * @param cfg The configuration
  * @param storagePath The directory where the binary should be installed
+ * @param tools The tool manifest and mirror to verify and fetch the binary with
  */
 export async function maybeInstallBuildtool(
   githubOwner: string,
@@ -63,6 +154,7 @@ export async function maybeInstallBuildtool(
   githubRelease: string,
   storagePath: string,
   binaryName: string,
+  tools?: ToolsConfiguration,
 ): Promise<string> {
   const assetName = versionedPlatformBinaryName(
     os.arch(),
@@ -84,21 +176,28 @@ export async function maybeInstallBuildtool(
 
   const executable = downloader.getFilepath();
 
-  if (fs.existsSync(executable)) {
-    return Promise.resolve(executable);
-  }
-
-  await vscode.window.withProgress(
+  return provisionTool(
+    tools,
     {
-      location: vscode.ProgressLocation.Notification,
-      title: `Downloading ${assetName} ${githubRelease}...`,
+      tool: binaryName,
+      version: githubRelease,
+      assetName: assetName,
+      filename: executable,
+      mode: 0o755,
     },
-    progress => {
-      return downloader.download();
+    async sha256 => {
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Downloading ${assetName} ${githubRelease}...`,
+        },
+        progress => {
+          return downloader.download(sha256);
+        }
+      );
+      return executable;
     }
   );
-
-  return executable;
 }
 
 export function versionedPlatformBinaryName(
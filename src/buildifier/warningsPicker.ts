@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import * as fs from 'graceful-fs';
+import path = require('path');
+import { CommandName } from '../bezel/constants';
+import {
+  allWarnings,
+  configWarnings,
+  defaultWarnings,
+  enabledWarnings,
+  updateConfigWarnings,
+  warningsListOf,
+} from './configFile';
+import { BuildifierSettings } from './settings';
+
+interface WarningItem extends vscode.QuickPickItem {
+  warning: string;
+}
+
+/**
+ * Lets the user choose the lint warnings buildifier reports and writes them
+ * into the buildifier configuration file.
+ */
+export class BuildifierWarningsPicker {
+  constructor(private settings: BuildifierSettings, disposables: vscode.Disposable[]) {
+    disposables.push(
+      vscode.commands.registerCommand(
+        CommandName.BuildifierConfigureWarnings,
+        this.handleCommandConfigureWarnings,
+        this
+      )
+    );
+  }
+
+  async handleCommandConfigureWarnings(): Promise<void> {
+    const cfg = await this.settings.get();
+    const filename = cfg.configFile;
+    if (!filename) {
+      vscode.window.showWarningMessage('buildifier: open a workspace folder to configure warnings');
+      return;
+    }
+
+    const enabled = enabledWarnings(configWarnings(cfg.config));
+    const defaults = defaultWarnings();
+    const items: WarningItem[] = allWarnings.map(warning => ({
+      label: warning,
+      description: defaults.has(warning) ? 'default' : undefined,
+      picked: enabled.has(warning),
+      warning,
+    }));
+    const picked = await vscode.window.showQuickPick(items, {
+      canPickMany: true,
+      matchOnDescription: true,
+      placeHolder: `Warnings to report (${vscode.workspace.asRelativePath(filename)})`,
+    });
+    if (!picked) {
+      return;
+    }
+
+    try {
+      let text: string | undefined;
+      if (fs.existsSync(filename)) {
+        text = await fs.promises.readFile(filename, 'utf8');
+      }
+      const warningsList = warningsListOf(new Set(picked.map(item => item.warning)));
+      await fs.promises.writeFile(filename, updateConfigWarnings(text, filename, warningsList));
+    } catch (e) {
+      vscode.window.showErrorMessage(`buildifier: ${e instanceof Error ? e.message : e}`);
+      return;
+    }
+
+    const action = await vscode.window.showInformationMessage(
+      `buildifier: updated the warnings of ${path.basename(filename)}`,
+      'Open'
+    );
+    if (action === 'Open') {
+      vscode.window.showTextDocument(vscode.Uri.file(filename));
+    }
+  }
+}
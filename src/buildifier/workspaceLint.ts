@@ -0,0 +1,328 @@
+import * as vscode from 'vscode';
+import * as fs from 'graceful-fs';
+import path = require('path');
+import { CommandName } from '../bezel/constants';
+import { BuiltInCommands } from '../constants';
+import { BuildifierConfiguration } from './configuration';
+import { BuildifierDiagnosticsManager } from './diagnostics';
+import { buildifierCheckFiles, buildifierLint, getBuildifierFileType } from './execute';
+import { IBuildifierFile, IBuildifierWarning } from './result';
+import { BuildifierSettings } from './settings';
+
+/**
+ * The number of files passed to a single buildifier invocation.  This keeps
+ * the command line well below the platform limits.
+ */
+const BATCH_SIZE = 100;
+
+/**
+ * Parses a .bazelignore file into a list of workspace-relative directories.
+ */
+export function parseBazelIgnore(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => line.replace(/^\.\//, '').replace(/\/+$/, ''));
+}
+
+/**
+ * Returns true if the relative path is equal to or under one of the ignored
+ * directories.
+ */
+export function isIgnored(relpath: string, ignored: string[]): boolean {
+  return ignored.some(dir => relpath === dir || relpath.startsWith(dir + '/'));
+}
+
+/**
+ * Returns true if the file should be checked by buildifier.
+ */
+export function isBuildifierFile(basename: string): boolean {
+  switch (basename) {
+    case 'BUILD':
+    case 'BUILD.bazel':
+    case 'WORKSPACE':
+    case 'WORKSPACE.bazel':
+      return true;
+  }
+  return basename.endsWith('.bzl');
+}
+
+/**
+ * Parses the syntax errors reported on stderr, such as
+ * "pkg/BUILD:3:5: syntax error near )", keyed by filename.
+ */
+export function parseSyntaxErrors(stderr: string): Map<string, IBuildifierWarning> {
+  const errors = new Map<string, IBuildifierWarning>();
+  for (const line of stderr.split(/\r?\n/)) {
+    const match = /^(.+?):(\d+):(\d+): (.*)$/.exec(line);
+    if (!match || errors.has(match[1])) {
+      continue;
+    }
+    const pos = { line: parseInt(match[2], 10), column: parseInt(match[3], 10) };
+    errors.set(match[1], {
+      start: pos,
+      end: pos,
+      category: 'invalid-input',
+      actionable: false,
+      message: match[4],
+    });
+  }
+  return errors;
+}
+
+/**
+ * Returns the workspace-relative paths of all files buildifier should check
+ * under the root directory.  Directories listed in .bazelignore, hidden
+ * directories and the bazel-* convenience symlinks are skipped.
+ */
+export async function findBuildifierFiles(
+  root: string,
+  token?: vscode.CancellationToken
+): Promise<string[]> {
+  let ignored: string[] = [];
+  try {
+    ignored = parseBazelIgnore(await fs.promises.readFile(path.join(root, '.bazelignore'), 'utf8'));
+  } catch (e) {
+    // no .bazelignore file
+  }
+
+  const files: string[] = [];
+  const walk = async (rel: string) => {
+    if (token?.isCancellationRequested) {
+      return;
+    }
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(path.join(root, rel), { withFileTypes: true });
+    } catch (e) {
+      return;
+    }
+    for (const entry of entries) {
+      const child = rel ? `${rel}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (entry.name.startsWith('.') || (!rel && entry.name.startsWith('bazel-'))) {
+          continue;
+        }
+        if (isIgnored(child, ignored)) {
+          continue;
+        }
+        await walk(child);
+      } else if (entry.isFile() && isBuildifierFile(entry.name)) {
+        files.push(child);
+      }
+    }
+  };
+  await walk('');
+  return files.sort();
+}
+
+/**
+ * The result of linting the files of the workspace.
+ */
+export interface WorkspaceLintResult {
+  // the checked files, with absolute filenames
+  files: IBuildifierFile[];
+  // the batches of files buildifier failed to check
+  failures: { files: string[]; error: string }[];
+}
+
+/**
+ * Describes the batches buildifier failed to check, for the summary message.
+ */
+export function describeFailures(failures: WorkspaceLintResult['failures']): string {
+  const count = failures.reduce((total, f) => total + f.files.length, 0);
+  let message = `failed to check ${count} files: ${failures[0].error}`;
+  if (failures.length > 1) {
+    message += ` (and ${failures.length - 1} more errors)`;
+  }
+  return message;
+}
+
+/**
+ * Runs buildifier over all BUILD and .bzl files in the workspace and reports
+ * the results as diagnostics.
+ */
+export class BuildifierWorkspaceLinter {
+  constructor(
+    private settings: BuildifierSettings,
+    private diagnostics: BuildifierDiagnosticsManager,
+    disposables: vscode.Disposable[]
+  ) {
+    disposables.push(
+      vscode.commands.registerCommand(
+        CommandName.BuildifierLintWorkspace,
+        this.handleCommandLintWorkspace,
+        this
+      ),
+      vscode.commands.registerCommand(
+        CommandName.BuildifierFixWorkspace,
+        this.handleCommandFixWorkspace,
+        this
+      )
+    );
+  }
+
+  async handleCommandLintWorkspace(): Promise<void> {
+    const result = await this.lintWorkspace();
+    if (!result) {
+      return;
+    }
+    const files = result.files;
+    const warnings = files.reduce((total, f) => total + f.warnings.length, 0);
+    const dirty = files.filter(f => f.warnings.length).length;
+    const message = `buildifier: ${warnings} warnings in ${dirty} of ${files.length} files`;
+    if (result.failures.length) {
+      vscode.window.showWarningMessage(`${message}; ${describeFailures(result.failures)}`);
+    } else {
+      vscode.window.showInformationMessage(message);
+    }
+    if (warnings) {
+      vscode.commands.executeCommand(BuiltInCommands.ShowProblems);
+    }
+  }
+
+  /**
+   * Lints the workspace, then computes the fixes of all files with warnings and
+   * applies them after they have been reviewed in the refactor preview.
+   */
+  async handleCommandFixWorkspace(): Promise<void> {
+    const result = await this.lintWorkspace();
+    if (!result) {
+      return;
+    }
+    if (result.failures.length) {
+      vscode.window.showWarningMessage(`buildifier: ${describeFailures(result.failures)}`);
+    }
+    const cfg = await this.settings.get();
+    const dirty = result.files.filter(f => f.warnings.length && f.valid);
+    if (!dirty.length) {
+      vscode.window.showInformationMessage('buildifier: no lint warnings to fix');
+      return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'buildifier --lint=fix',
+        cancellable: true,
+      },
+      async (progress, token) => {
+        for (const file of dirty) {
+          if (token.isCancellationRequested) {
+            return;
+          }
+          progress.report({ message: file.filename, increment: 100 / dirty.length });
+          await this.addFix(cfg, edit, file.filename);
+        }
+      }
+    );
+
+    if (!edit.size) {
+      vscode.window.showInformationMessage('buildifier: no automatic fixes available');
+      return;
+    }
+    // entries that need confirmation open the refactor preview.
+    await vscode.workspace.applyEdit(edit);
+  }
+
+  async addFix(cfg: BuildifierConfiguration, edit: vscode.WorkspaceEdit, filename: string) {
+    try {
+      // the fix replaces the whole file, so an open document is fixed from its
+      // text, including the unsaved changes.
+      const document = vscode.workspace.textDocuments.find(d => d.uri.fsPath === filename);
+      const content = document ? document.getText() : await fs.promises.readFile(filename, 'utf8');
+      const fixed = await buildifierLint(cfg, content, getBuildifierFileType(filename), 'fix');
+      if (!fixed || fixed === content) {
+        return;
+      }
+      const lines = content.split('\n');
+      edit.replace(
+        vscode.Uri.file(filename),
+        new vscode.Range(0, 0, lines.length - 1, lines[lines.length - 1].length),
+        fixed,
+        {
+          needsConfirmation: true,
+          label: 'buildifier --lint=fix',
+          description: vscode.workspace.asRelativePath(filename),
+        }
+      );
+    } catch (err) {
+      console.warn(`buildifier fix failed for ${filename}:`, err);
+    }
+  }
+
+  /**
+   * Checks all files of all workspace folders and publishes the diagnostics.
+   * Returns the file results and the failed batches, or undefined if canceled.
+   */
+  async lintWorkspace(): Promise<WorkspaceLintResult | undefined> {
+    const cfg = await this.settings.get();
+    if (!cfg.enabled) {
+      vscode.window.showWarningMessage('buildifier is disabled (bsv.buildifier.enabled)');
+      return undefined;
+    }
+    const folders = vscode.workspace.workspaceFolders || [];
+
+    return vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'buildifier',
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const result: WorkspaceLintResult = { files: [], failures: [] };
+        for (const folder of folders) {
+          const root = folder.uri.fsPath;
+          progress.report({ message: `Finding files in ${folder.name}` });
+          const files = await findBuildifierFiles(root, token);
+          for (let i = 0; i < files.length; i += BATCH_SIZE) {
+            if (token.isCancellationRequested) {
+              return undefined;
+            }
+            const batch = files.slice(i, i + BATCH_SIZE);
+            progress.report({
+              message: `${folder.name}: ${i + batch.length}/${files.length} files`,
+              increment: (100 * batch.length) / files.length / folders.length,
+            });
+            try {
+              result.files.push(...(await this.checkBatch(cfg, root, batch)));
+            } catch (err) {
+              console.warn('buildifier check failed:', err);
+              result.failures.push({
+                files: batch.map(file => path.resolve(root, file)),
+                error: err instanceof Error ? err.message : `${err}`,
+              });
+            }
+          }
+        }
+        return result;
+      }
+    );
+  }
+
+  /**
+   * Checks a batch of workspace-relative files and publishes their
+   * diagnostics.  Throws if buildifier fails.
+   */
+  async checkBatch(
+    cfg: BuildifierConfiguration,
+    root: string,
+    batch: string[]
+  ): Promise<IBuildifierFile[]> {
+    const result = await buildifierCheckFiles(cfg, batch, root);
+    const syntaxErrors = parseSyntaxErrors(result.stderr);
+    return result.files.map(file => {
+      const filename = path.resolve(root, file.filename);
+      const uri = vscode.Uri.file(filename);
+      const syntaxError = syntaxErrors.get(file.filename);
+      if (syntaxError) {
+        this.diagnostics.set(uri, [syntaxError], vscode.DiagnosticSeverity.Error);
+      } else {
+        this.diagnostics.set(uri, file.warnings, vscode.DiagnosticSeverity.Warning);
+      }
+      return { ...file, filename };
+    });
+  }
+}
@@ -0,0 +1,167 @@
+import * as child_process from 'child_process';
+import * as fs from 'graceful-fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * Where the buildifier and buildozer binaries come from: 'release' downloads
+ * the configured github release, 'workspace' builds the target of the
+ * workspace such that the version pinned by the repository is used.
+ */
+export type BuildtoolSource = 'release' | 'workspace';
+
+/**
+ * The files that declare the external repositories of a workspace.
+ */
+const workspaceFiles = ['WORKSPACE', 'WORKSPACE.bazel', 'MODULE.bazel'];
+
+/**
+ * Runs bazel in the workspace and returns its stdout.
+ */
+export type BazelRunner = (args: string[]) => Promise<string>;
+
+/**
+ * Returns the name of the external repository of the label, e.g.
+ * com_github_bazelbuild_buildtools for
+ * @com_github_bazelbuild_buildtools//buildifier, or undefined if the label is
+ * in the main repository.
+ */
+export function labelRepository(label: string): string | undefined {
+  const match = /^@@?([^/]+)\/\//.exec(label);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Returns true if the workspace declares the target: it is in the main
+ * repository, or the WORKSPACE or MODULE.bazel file names its repository.
+ */
+export async function workspaceDeclaresTarget(
+  workspaceDirectory: string,
+  target: string
+): Promise<boolean> {
+  const repo = labelRepository(target);
+  if (!repo) {
+    return true;
+  }
+  const declared = new RegExp(`["']${repo.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}["']`);
+  for (const name of workspaceFiles) {
+    try {
+      const text = await fs.promises.readFile(path.join(workspaceDirectory, name), 'utf8');
+      if (declared.test(text)) {
+        return true;
+      }
+    } catch (e) {
+      // try the next file
+    }
+  }
+  return false;
+}
+
+/**
+ * Returns the files of the output of 'bazel cquery --output=files'.
+ */
+export function parseOutputFiles(stdout: string): string[] {
+  return stdout
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+}
+
+/**
+ * Returns the binary 'bazel run --run_under=echo' printed: the first word of
+ * the last line of the output.
+ */
+export function parseRunUnderOutput(stdout: string): string | undefined {
+  const lines = parseOutputFiles(stdout);
+  return lines.length ? lines[lines.length - 1].split(/\s+/)[0] : undefined;
+}
+
+/**
+ * Builds the target and returns the path of its binary.  The binary is
+ * located with 'bazel cquery --output=files', or with 'bazel run
+ * --run_under=echo' if cquery does not support it (bazel < 5.3) or the
+ * bazel-out symlink of the workspace is missing.
+ */
+export async function resolveWorkspaceTool(
+  run: BazelRunner,
+  workspaceDirectory: string,
+  target: string
+): Promise<string | undefined> {
+  await run(['build', target]);
+  try {
+    const files = parseOutputFiles(await run(['cquery', '--output=files', target]));
+    const binary = files
+      .map(file => path.resolve(workspaceDirectory, file))
+      .find(file => fs.existsSync(file));
+    if (binary) {
+      return binary;
+    }
+  } catch (e) {
+    // fall back to bazel run
+  }
+  const binary = parseRunUnderOutput(await run(['run', '--run_under=echo', target]));
+  return binary && path.resolve(workspaceDirectory, binary);
+}
+
+/**
+ * Returns a BazelRunner for the executable in the workspace.
+ */
+export function newBazelRunner(executable: string, cwd: string): BazelRunner {
+  return (args: string[]) =>
+    new Promise((resolve, reject) => {
+      child_process.execFile(
+        executable,
+        args,
+        { cwd, maxBuffer: Number.MAX_SAFE_INTEGER },
+        (error: child_process.ExecException | null, stdout: string, stderr: string) => {
+          if (error) {
+            const lines = parseOutputFiles(stderr);
+            const detail = lines.length ? lines[lines.length - 1] : error.message;
+            reject(new Error(`bazel ${args.join(' ')}: ${detail}`));
+            return;
+          }
+          resolve(stdout);
+        }
+      );
+    });
+}
+
+/**
+ * Builds the workspace binary of a buildtool, if the workspace declares the
+ * target.  Returns undefined if it does not, or if it cannot be built or
+ * located (which is reported as a warning), such that the release is used.
+ *
+ * @param name the name of the tool, for the progress notification
+ * @param bazel the bazel executable
+ */
+export async function maybeBuildWorkspaceTool(
+  name: string,
+  target: string,
+  bazel: string
+): Promise<string | undefined> {
+  const folder = vscode.workspace.workspaceFolders?.[0];
+  if (!(folder && (await workspaceDeclaresTarget(folder.uri.fsPath, target)))) {
+    return undefined;
+  }
+  const cwd = folder.uri.fsPath;
+  try {
+    const binary = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Building ${name} (${target})...`,
+      },
+      () => resolveWorkspaceTool(newBazelRunner(bazel, cwd), cwd, target)
+    );
+    if (!binary) {
+      throw new Error(`could not locate the ${name} binary of ${target}`);
+    }
+    return binary;
+  } catch (e) {
+    vscode.window.showWarningMessage(
+      `${name}: could not build ${target}, using the release instead: ${
+        e instanceof Error ? e.message : e
+      }`
+    );
+    return undefined;
+  }
+}
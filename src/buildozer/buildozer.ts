@@ -1,15 +1,39 @@
 import * as vscode from 'vscode';
+import * as fs from 'graceful-fs';
 
 import { BuildozerConfiguration } from './configuration';
 import { BuildozerSettings } from './settings';
-import { BuildozerWizard } from './wizard';
-import { CommandName } from '../bezel/constants';
+import { computeBuildozerEdit, groupTargetsByBuildFile, isEditCommand } from './edit';
+import {
+  addRecentCommand,
+  BuildozerTargetItem,
+  BuildozerWizard,
+  BuildozerWizardContext,
+  ruleAttributeNames,
+} from './wizard';
+import { Bzl } from '../bezel/bzl';
+import { CommandName, Memento } from '../bezel/constants';
+import { BzlLanguageClient, formatLabel } from '../bezel/lsp';
 import { MultiStepInput } from '../multiStepInput';
-import { LaunchableComponent, LaunchArgs } from '../bezel/status';
+import { LaunchableComponent, LaunchArgs, Status } from '../bezel/status';
+
+/**
+ * The maximum number of BUILD files scanned for attribute names.
+ */
+const MAX_ATTRIBUTE_FILES = 10;
 
 export class Buildozer extends LaunchableComponent<BuildozerConfiguration> {
-  constructor(public readonly settings: BuildozerSettings) {
+  constructor(
+    public readonly settings: BuildozerSettings,
+    private readonly bzl: Bzl,
+    private readonly lsp: BzlLanguageClient,
+    private readonly workspaceState: vscode.Memento
+  ) {
     super('BDF', settings, CommandName.BuildozerWizard, 'buildozer');
+
+    this.disposables.push(
+      vscode.commands.registerCommand(CommandName.BuildozerEdit, this.handleCommandEdit, this)
+    );
   }
 
   async startInternal(): Promise<void> {
@@ -33,7 +57,11 @@ export class Buildozer extends LaunchableComponent<BuildozerConfiguration> {
    * getLaunchArgs should return the command line arguments.
    */
   async getLaunchArgs(): Promise<LaunchArgs | undefined> {
-    const wizard = new BuildozerWizard(new MultiStepInput(vscode.window));
+    const wizard = new BuildozerWizard(
+      new MultiStepInput(vscode.window),
+      '',
+      await this.getWizardContext()
+    );
     await wizard.run();
 
     const command = wizard.getCommand();
@@ -44,6 +72,22 @@ export class Buildozer extends LaunchableComponent<BuildozerConfiguration> {
     if (!targets.length) {
       return;
     }
+    const error = wizard.validate();
+    if (error) {
+      vscode.window.showErrorMessage(`buildozer: ${error}`);
+      return undefined;
+    }
+    await this.workspaceState.update(
+      Memento.BuildozerRecentCommands,
+      addRecentCommand(this.getRecentCommands(), command)
+    );
+
+    // commands that modify BUILD files are previewed rather than run in the
+    // terminal.
+    if (isEditCommand(command)) {
+      await this.applyEdits([command], targets, wizard.getWorkingDirectory());
+      return undefined;
+    }
 
     const settings = await this.settings.get();
 
@@ -62,4 +106,128 @@ export class Buildozer extends LaunchableComponent<BuildozerConfiguration> {
   }
 
   async stopInternal(): Promise<void> { }
+
+  getRecentCommands(): string[] {
+    return this.workspaceState.get<string[]>(Memento.BuildozerRecentCommands, []);
+  }
+
+  /**
+   * Returns the completion data of the wizard.  If the active editor is a
+   * BUILD file, its rules are offered first and the rule at the cursor is
+   * prefilled.
+   */
+  async getWizardContext(): Promise<BuildozerWizardContext> {
+    const editor = vscode.window.activeTextEditor;
+    const doc =
+      editor && editor.document.languageId === 'bazel' && editor.document.uri.scheme === 'file'
+        ? editor.document
+        : undefined;
+
+    const targets: BuildozerTargetItem[] = [];
+    let defaultTarget: string | undefined;
+    if (doc && this.lsp.status === Status.READY) {
+      try {
+        const labelKinds = (await this.lsp.getLabelKindsInDocument(doc.uri)) || [];
+        for (const lk of labelKinds) {
+          const label = formatLabel(lk.label);
+          targets.push({ label, kind: lk.kind });
+          const range = new vscode.Range(
+            lk.range.start.line,
+            lk.range.start.character,
+            lk.range.end.line,
+            lk.range.end.character
+          );
+          if (range.contains(editor!.selection.active)) {
+            defaultTarget = label;
+          }
+        }
+      } catch (e) {
+        console.warn('buildozer: failed to get the rules of the BUILD file', e);
+      }
+    }
+
+    return {
+      defaultTarget,
+      listTargets: async () => targets.concat(await this.listPackageTargets()),
+      listAttributes: (targets: string[], kind?: string) => this.listAttributes(targets, kind),
+      recentCommands: this.getRecentCommands(),
+    };
+  }
+
+  /**
+   * Returns a //pkg:* target for each package of the workspace.
+   */
+  async listPackageTargets(): Promise<BuildozerTargetItem[]> {
+    const client = this.bzl.client;
+    if (this.bzl.status !== Status.READY || !client) {
+      return [];
+    }
+    const ws = await this.bzl.getWorkspace();
+    const pkgs = await client.listPackages(ws);
+    return pkgs.map(pkg => {
+      return { label: `//${pkg.dir || ''}:*`, description: 'all rules in package' };
+    });
+  }
+
+  /**
+   * Returns the names of the attributes set by the rules of the given kind in
+   * the BUILD files of the targets.
+   */
+  async listAttributes(targets: string[], kind?: string): Promise<string[]> {
+    const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!root) {
+      return [];
+    }
+    const groups = await groupTargetsByBuildFile(root, root, targets);
+    const names = new Set<string>();
+    for (const filename of Array.from(groups.keys()).slice(0, MAX_ATTRIBUTE_FILES)) {
+      const content = await fs.promises.readFile(filename, 'utf8');
+      ruleAttributeNames(content, kind).forEach(name => names.add(name));
+    }
+    return Array.from(names).sort();
+  }
+
+  async handleCommandEdit(
+    commands: string | string[],
+    targets: string[],
+    cwd?: string
+  ): Promise<boolean> {
+    return this.applyEdits(typeof commands === 'string' ? [commands] : commands, targets, cwd);
+  }
+
+  /**
+   * Runs the buildozer commands on the targets and applies the resulting
+   * changes as a WorkspaceEdit, which is shown in the refactor preview such
+   * that each file can be accepted or rejected and the edit can be undone.
+   *
+   * @param cwd The working directory; defaults to the first workspace folder.
+   * @returns true if the edit was applied.
+   */
+  async applyEdits(commands: string[], targets: string[], cwd?: string): Promise<boolean> {
+    const cfg = await this.settings.get();
+    if (!cwd) {
+      cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || process.cwd();
+    }
+
+    let edit: vscode.WorkspaceEdit | undefined;
+    try {
+      edit = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `buildozer ${commands.join('; ')}`,
+          cancellable: true,
+        },
+        (progress, token) => computeBuildozerEdit(cfg, cwd!, commands, targets, token)
+      );
+    } catch (e) {
+      vscode.window.showErrorMessage(e instanceof Error ? e.message : `${e}`);
+      return false;
+    }
+
+    if (!edit.size) {
+      vscode.window.showInformationMessage(`buildozer: no changes for ${targets.join(' ')}`);
+      return false;
+    }
+    return vscode.workspace.applyEdit(edit);
+  }
 }
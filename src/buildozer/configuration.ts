@@ -1,4 +1,5 @@
 import { ComponentConfiguration } from '../bezel/configuration';
+import { BuildtoolSource } from '../buildifier/workspaceTool';
 
 /**
  * Configuration for the buildifier module.
@@ -9,4 +10,8 @@ export interface BuildozerConfiguration extends ComponentConfiguration {
   githubRelease: string;
   executable: string | undefined;
   options: string[] | undefined;
+  // where the executable comes from, if not set; defaults to 'release'
+  source?: BuildtoolSource;
+  // the target that builds buildozer, for the 'workspace' source
+  workspaceTarget?: string;
 }
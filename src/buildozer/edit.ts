@@ -0,0 +1,236 @@
+import * as child_process from 'child_process';
+import * as vscode from 'vscode';
+import * as fs from 'graceful-fs';
+import path = require('path');
+import findUp = require('find-up');
+import { BuildozerConfiguration } from './configuration';
+
+/**
+ * Buildozer commands that only print and never modify a BUILD file.
+ */
+const printCommands = new Set(['print', 'print_comment']);
+
+/**
+ * The names of BUILD files, in order of precedence.
+ */
+const buildFileNames = ['BUILD.bazel', 'BUILD'];
+
+/**
+ * Returns true if the buildozer command (such as "add deps //foo") modifies
+ * BUILD files.
+ */
+export function isEditCommand(command: string): boolean {
+  return !printCommands.has(command.trim().split(/\s+/)[0]);
+}
+
+/**
+ * BuildozerTarget is a parsed buildozer target argument.
+ */
+export interface BuildozerTarget {
+  // the original target, as given to buildozer
+  target: string;
+  // the workspace-relative package
+  pkg: string;
+  // true if the package was given as pkg/...
+  recursive: boolean;
+}
+
+/**
+ * Parses a buildozer target such as //pkg:rule, //pkg/...:*, :rule or
+ * pkg:%java_library.  Relative packages are resolved against the package of
+ * the working directory.
+ */
+export function parseBuildozerTarget(target: string, cwdPkg: string): BuildozerTarget {
+  if (target === '-' || target.startsWith('-:')) {
+    throw new Error(`buildozer target "${target}" reads from stdin and cannot be previewed`);
+  }
+  if (target.startsWith('@')) {
+    throw new Error(`buildozer target "${target}" is in an external repository`);
+  }
+  const colon = target.lastIndexOf(':');
+  let pkg = colon >= 0 ? target.slice(0, colon) : target;
+  if (pkg.startsWith('//')) {
+    pkg = pkg.slice(2);
+  } else {
+    pkg = [cwdPkg, pkg].filter(p => p).join('/');
+  }
+  let recursive = false;
+  if (pkg === '...' || pkg.endsWith('/...')) {
+    recursive = true;
+    pkg = pkg.slice(0, -'...'.length).replace(/\/$/, '');
+  }
+  return { target, pkg, recursive };
+}
+
+/**
+ * Returns the BUILD file of the package directory, if any.
+ */
+async function findBuildFile(dir: string): Promise<string | undefined> {
+  for (const name of buildFileNames) {
+    const filename = path.join(dir, name);
+    try {
+      if ((await fs.promises.stat(filename)).isFile()) {
+        return filename;
+      }
+    } catch (e) {
+      continue;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the workspace-relative packages at or below the given package.
+ */
+async function findPackages(root: string, pkg: string): Promise<string[]> {
+  const packages: string[] = [];
+  const walk = async (rel: string) => {
+    const dir = path.join(root, rel);
+    if (await findBuildFile(dir)) {
+      packages.push(rel);
+    }
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch (e) {
+      return;
+    }
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith('.')) {
+        continue;
+      }
+      if (!rel && entry.name.startsWith('bazel-')) {
+        continue;
+      }
+      await walk(rel ? `${rel}/${entry.name}` : entry.name);
+    }
+  };
+  await walk(pkg);
+  return packages;
+}
+
+/**
+ * Groups the targets by the BUILD file they refer to.  Recursive targets are
+ * expanded into one target per package.
+ */
+export async function groupTargetsByBuildFile(
+  root: string,
+  cwd: string,
+  targets: string[]
+): Promise<Map<string, string[]>> {
+  const cwdPkg = path.relative(root, cwd).split(path.sep).join('/');
+  const groups = new Map<string, string[]>();
+  const add = (filename: string, target: string) => {
+    const list = groups.get(filename) || [];
+    list.push(target);
+    groups.set(filename, list);
+  };
+
+  for (const target of targets) {
+    const parsed = parseBuildozerTarget(target, cwdPkg);
+    if (parsed.recursive) {
+      const colon = target.lastIndexOf(':');
+      const name = (colon >= 0 && target.slice(colon + 1)) || '__pkg__';
+      for (const pkg of await findPackages(root, parsed.pkg)) {
+        add((await findBuildFile(path.join(root, pkg)))!, `//${pkg}:${name}`);
+      }
+      continue;
+    }
+    const filename = await findBuildFile(path.join(root, parsed.pkg));
+    if (!filename) {
+      throw new Error(`no BUILD file found for buildozer target "${target}"`);
+    }
+    // buildozer runs in the workspace root, so relative targets are made
+    // absolute.
+    const colon = target.lastIndexOf(':');
+    add(filename, `//${parsed.pkg}${colon >= 0 ? target.slice(colon) : ''}`);
+  }
+  return groups;
+}
+
+/**
+ * Runs buildozer with -stdout and returns the content of the modified BUILD
+ * file, or undefined if it was not changed.
+ */
+export function buildozerStdout(
+  cfg: BuildozerConfiguration,
+  cwd: string,
+  commands: string[],
+  targets: string[]
+): Promise<string | undefined> {
+  const options = (cfg.options || []).filter(o => o !== '-stdout');
+  const args = [...options, '-stdout', ...commands, ...targets];
+  return new Promise((resolve, reject) => {
+    child_process.execFile(
+      cfg.executable!,
+      args,
+      { cwd, maxBuffer: Number.MAX_SAFE_INTEGER },
+      (error: child_process.ExecException | null, stdout: string, stderr: string) => {
+        // exit code 3 means success without changes.
+        if (error && error.code === 3) {
+          resolve(undefined);
+          return;
+        }
+        if (error) {
+          reject(new Error(`buildozer ${args.join(' ')}: ${stderr || error.message}`));
+          return;
+        }
+        resolve(stdout || undefined);
+      }
+    );
+  });
+}
+
+/**
+ * Computes the buildozer commands on the targets as a WorkspaceEdit.  Each
+ * BUILD file is processed separately such that the -stdout output can be
+ * attributed to it.  Open documents with unsaved changes are saved before
+ * buildozer runs.  The entries are marked as needing confirmation, such that
+ * applying the edit shows the refactor preview.
+ *
+ * @param cwd The working directory; relative targets are resolved against it.
+ */
+export async function computeBuildozerEdit(
+  cfg: BuildozerConfiguration,
+  cwd: string,
+  commands: string[],
+  targets: string[],
+  token?: vscode.CancellationToken
+): Promise<vscode.WorkspaceEdit> {
+  const workspace = await findUp(['WORKSPACE', 'WORKSPACE.bazel'], { cwd });
+  const root = workspace ? path.dirname(workspace) : cwd;
+  const groups = await groupTargetsByBuildFile(root, cwd, targets);
+
+  const edit = new vscode.WorkspaceEdit();
+  for (const [filename, fileTargets] of groups.entries()) {
+    if (token?.isCancellationRequested) {
+      break;
+    }
+    // buildozer reads the file from disk, so the unsaved changes of an open
+    // document are saved first; otherwise the edit would overwrite them.
+    const document = vscode.workspace.textDocuments.find(d => d.uri.fsPath === filename);
+    if (document?.isDirty && !(await document.save())) {
+      throw new Error(`buildozer: could not save ${vscode.workspace.asRelativePath(filename)}`);
+    }
+    const modified = await buildozerStdout(cfg, root, commands, fileTargets);
+    if (modified === undefined) {
+      continue;
+    }
+    const content = document ? document.getText() : await fs.promises.readFile(filename, 'utf8');
+    if (modified === content) {
+      continue;
+    }
+    const lines = content.split('\n');
+    edit.replace(
+      vscode.Uri.file(filename),
+      new vscode.Range(0, 0, lines.length - 1, lines[lines.length - 1].length),
+      modified,
+      {
+        needsConfirmation: true,
+        label: `buildozer ${commands.join('; ')}`,
+        description: fileTargets.join(' '),
+      }
+    );
+  }
+  return edit;
+}
@@ -0,0 +1,467 @@
+import * as child_process from 'child_process';
+import * as vscode from 'vscode';
+import * as fs from 'graceful-fs';
+import path = require('path');
+import { escapeHtml, Message, StaticCodesearchPanel } from '../bezel/codesearch/panel';
+import { CommandName } from '../bezel/constants';
+import { BuildozerConfiguration } from './configuration';
+import { BuildozerSettings } from './settings';
+
+/**
+ * The special attributes printed before the chosen ones, such that each row
+ * can be linked to the location of the rule.
+ */
+const locationAttributes = ['label', 'kind', 'path', 'startline'];
+
+/**
+ * The attributes printed if none are given.
+ */
+const defaultAttributes = ['visibility', 'tags', 'testonly'];
+
+/**
+ * The value of a field of a buildozer -output_json record: one of a string, a
+ * number or a list of strings.  Older buildozer versions capitalize the keys.
+ */
+export interface BuildozerFieldValue {
+  text?: string;
+  Text?: string;
+  number?: number;
+  Number?: number;
+  list?: BuildozerStringList;
+  List?: BuildozerStringList;
+}
+
+/**
+ * A list value of a buildozer -output_json field.
+ */
+export interface BuildozerStringList {
+  strings?: string[];
+  Strings?: string[];
+}
+
+/**
+ * A field of a buildozer -output_json record.  Depending on the buildozer
+ * version the value is either inline or wrapped in a "Value" object.
+ */
+export interface BuildozerField extends BuildozerFieldValue {
+  value?: BuildozerFieldValue;
+  Value?: BuildozerFieldValue;
+  quoteWhenPrinting?: boolean;
+  QuoteWhenPrinting?: boolean;
+}
+
+/**
+ * A record of buildozer -output_json, one per printed rule.
+ */
+export interface BuildozerRecord {
+  fields?: BuildozerField[];
+  Fields?: BuildozerField[];
+}
+
+/**
+ * PrintRow is a rule printed by buildozer.
+ */
+export interface PrintRow {
+  // the position of the row in the buildozer output
+  index: number;
+  label: string;
+  kind: string;
+  // the absolute path of the BUILD file, if known
+  filename?: string;
+  // the 1-based line of the rule, if known
+  line?: number;
+  // the printed attributes; undefined if missing from the rule
+  values: (string | undefined)[];
+}
+
+/**
+ * Parses the output of buildozer -output_json.  Some versions print a single
+ * object, others one object per line.
+ */
+export function parseOutputJson(stdout: string): BuildozerRecord[] {
+  const text = stdout.trim();
+  if (!text) {
+    return [];
+  }
+  const objects: any[] = [];
+  try {
+    objects.push(JSON.parse(text));
+  } catch (e) {
+    for (const line of text.split(/\r?\n/)) {
+      if (line.trim()) {
+        objects.push(JSON.parse(line));
+      }
+    }
+  }
+  const records: BuildozerRecord[] = [];
+  for (const obj of objects) {
+    records.push(...(obj.records || obj.Records || [obj]));
+  }
+  return records;
+}
+
+/**
+ * Returns the printed text of the field, or undefined if the attribute is
+ * missing.  List values are joined by a space.
+ */
+export function fieldText(field: BuildozerField | undefined): string | undefined {
+  if (!field) {
+    return undefined;
+  }
+  const value: BuildozerFieldValue = field.Value || field.value || field;
+
+  const text = value.text ?? value.Text;
+  if (text !== undefined) {
+    return String(text);
+  }
+  const num = value.number ?? value.Number;
+  if (num !== undefined) {
+    return String(num);
+  }
+  const list = value.list || value.List;
+  if (list !== undefined) {
+    return (list.strings || list.Strings || []).join(' ');
+  }
+  return undefined;
+}
+
+/**
+ * Converts the records of "print label kind path startline <attrs...>" into
+ * rows.
+ *
+ * @param root The directory buildozer ran in; relative paths are resolved
+ * against it.
+ */
+export function printRows(records: BuildozerRecord[], root: string): PrintRow[] {
+  return records.map((record, index) => {
+    const fields = (record.fields || record.Fields || []).map(fieldText);
+    const [label, kind, filename, line, ...values] = fields;
+    const lineno = line ? parseInt(line, 10) : NaN;
+    return {
+      index,
+      label: label || '',
+      kind: kind || '',
+      filename: filename ? path.resolve(root, filename) : undefined,
+      line: isNaN(lineno) ? undefined : lineno,
+      values,
+    };
+  });
+}
+
+/**
+ * Returns the cells of the row: label, kind and the attribute values.
+ */
+export function rowCells(row: PrintRow): (string | undefined)[] {
+  return [row.label, row.kind, ...row.values];
+}
+
+/**
+ * Returns the rows that contain all whitespace-separated terms of the filter,
+ * case-insensitive.  A term of the form "attr=value" only matches the cell of
+ * that column.
+ */
+export function filterRows(rows: PrintRow[], columns: string[], filter: string): PrintRow[] {
+  const terms = filter
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(t => t);
+  if (!terms.length) {
+    return rows;
+  }
+  const lowerColumns = columns.map(c => c.toLowerCase());
+  return rows.filter(row => {
+    const cells = rowCells(row).map(c => (c || '').toLowerCase());
+    return terms.every(term => {
+      const eq = term.indexOf('=');
+      if (eq > 0) {
+        const column = lowerColumns.indexOf(term.slice(0, eq));
+        if (column >= 0) {
+          return cells[column].includes(term.slice(eq + 1));
+        }
+      }
+      return cells.some(cell => cell.includes(term));
+    });
+  });
+}
+
+/**
+ * Returns the rows sorted by the given column.  Missing values sort first.
+ */
+export function sortRows(rows: PrintRow[], column: number, descending = false): PrintRow[] {
+  const sign = descending ? -1 : 1;
+  return rows.slice().sort((a, b) => {
+    const x = rowCells(a)[column] || '';
+    const y = rowCells(b)[column] || '';
+    return sign * (x < y ? -1 : x > y ? 1 : a.index - b.index);
+  });
+}
+
+/**
+ * Formats the rows as CSV (RFC 4180).
+ */
+export function toCsv(columns: string[], rows: PrintRow[]): string {
+  const quote = (cell: string | undefined) => {
+    const value = cell || '';
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  };
+  return [columns, ...rows.map(rowCells)].map(cells => cells.map(quote).join(',')).join('\r\n');
+}
+
+/**
+ * Runs buildozer -output_json print over the targets and returns its stdout.
+ */
+export function buildozerPrintJson(
+  cfg: BuildozerConfiguration,
+  cwd: string,
+  attrs: string[],
+  targets: string[]
+): Promise<string> {
+  const options = (cfg.options || []).filter(o => o !== '-stdout' && o !== '-output_json');
+  const args = [...options, '-output_json', ['print', ...attrs].join(' '), ...targets];
+  return new Promise((resolve, reject) => {
+    child_process.execFile(
+      cfg.executable!,
+      args,
+      { cwd, maxBuffer: Number.MAX_SAFE_INTEGER },
+      (error: child_process.ExecException | null, stdout: string, stderr: string) => {
+        // print never changes a file (exit code 3) and reports rules that lack
+        // an attribute as errors; the records are still valid.
+        if (error && !stdout) {
+          reject(new Error(`buildozer ${args.join(' ')}: ${stderr || error.message}`));
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+/**
+ * BuildozerPrintTable runs buildozer print over a target pattern and shows
+ * the printed attributes in a sortable, filterable table.
+ */
+export class BuildozerPrintTable implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private panel: StaticCodesearchPanel | undefined;
+  private columns: string[] = [];
+  private rows: PrintRow[] = [];
+  private filter = '';
+  private sortColumn = 0;
+  private descending = false;
+
+  constructor(
+    private readonly settings: BuildozerSettings,
+    private readonly extensionUri: vscode.Uri
+  ) {
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        CommandName.BuildozerPrintTable,
+        this.handleCommandPrintTable,
+        this
+      )
+    );
+  }
+
+  /**
+   * Prints the attributes of the rules matched by the targets.  If not given,
+   * they are asked for.
+   */
+  async handleCommandPrintTable(attrs?: string[], targets?: string[]): Promise<void> {
+    if (!(targets && targets.length)) {
+      const pattern = await vscode.window.showInputBox({
+        prompt: 'Buildozer print: target pattern(s)',
+        value: '//...:*',
+        ignoreFocusOut: true,
+      });
+      if (!pattern?.trim()) {
+        return;
+      }
+      targets = pattern.trim().split(/\s+/);
+    }
+    if (!(attrs && attrs.length)) {
+      const names = await vscode.window.showInputBox({
+        prompt: 'Buildozer print: attribute(s)',
+        value: defaultAttributes.join(' '),
+        ignoreFocusOut: true,
+      });
+      if (names === undefined) {
+        return;
+      }
+      attrs = names
+        .trim()
+        .split(/\s+/)
+        .filter(a => a);
+    }
+
+    const cfg = await this.settings.get();
+    const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || process.cwd();
+    let rows: PrintRow[];
+    try {
+      const stdout = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `buildozer print ${attrs.join(' ')}`,
+        },
+        () => buildozerPrintJson(cfg, root, [...locationAttributes, ...attrs!], targets!)
+      );
+      rows = printRows(parseOutputJson(stdout), root);
+    } catch (e) {
+      vscode.window.showErrorMessage(e instanceof Error ? e.message : `${e}`);
+      return;
+    }
+
+    this.columns = ['label', 'kind', ...attrs];
+    this.rows = rows;
+    this.filter = '';
+    this.sortColumn = 0;
+    this.descending = false;
+    return this.render(targets);
+  }
+
+  async render(targets: string[]): Promise<void> {
+    const title = `buildozer print ${this.columns.slice(2).join(' ')}`;
+    if (!this.panel) {
+      this.panel = new StaticCodesearchPanel(
+        this.extensionUri,
+        'BuildozerPrint',
+        title,
+        vscode.ViewColumn.One
+      );
+      this.panel.onDidDispose(
+        () => {
+          this.panel = undefined;
+        },
+        this,
+        this.disposables
+      );
+    }
+    const panel = this.panel;
+    panel.summaryHTML = this.renderSummary();
+    panel.resultsHTML = this.renderTable();
+
+    return panel.render({
+      title,
+      heading: `buildozer print <span class="text-hl">${escapeHtml(targets.join(' '))}</span>`,
+      callbacks: {
+        'change.input.filter': (m: Message) => {
+          this.filter = m.value || '';
+          panel.onDidChangeHTMLResults.fire(this.renderTable());
+        },
+        'click.column': (m: Message) => {
+          const column = parseInt((m.data && m.data['column']) || '0', 10);
+          this.descending = column === this.sortColumn ? !this.descending : false;
+          this.sortColumn = column;
+          panel.onDidChangeHTMLResults.fire(this.renderTable());
+        },
+        'click.rule': (m: Message) => {
+          const index = parseInt((m.data && m.data['index']) || '-1', 10);
+          const row = this.rows.find(r => r.index === index);
+          if (row) {
+            return this.openRule(row);
+          }
+        },
+        'click.button.csv': () => this.exportCsv(),
+      },
+    });
+  }
+
+  renderSummary(): string {
+    return `<p>
+      <span class="text-hl">${this.rows.length}</span> rules.
+      Filter terms match any column; use <code>attr=value</code> to match a single column.
+    </p>
+    <div style="display: flex; align-items: center">
+      <input type="text" name="filter" placeholder="Filter" size="60" value="${escapeHtml(
+        this.filter
+      )}" oninput="postInputChange(this)">
+      <button class="button" style="margin-left: 1rem" onclick="postClick('button', 'csv')">Export CSV</button>
+    </div>`;
+  }
+
+  renderTable(): string {
+    const rows = sortRows(
+      filterRows(this.rows, this.columns, this.filter),
+      this.sortColumn,
+      this.descending
+    );
+    const header = this.columns
+      .map((column, i) => {
+        const arrow = i === this.sortColumn ? (this.descending ? ' ▼' : ' ▲') : '';
+        return `<th data-column="${i}" style="cursor: pointer" onclick="postDataElementClick('column', this)">${escapeHtml(
+          column
+        )}${arrow}</th>`;
+      })
+      .join('');
+    const body = rows
+      .map(row => {
+        const cells = row.values
+          .map(value =>
+            value === undefined
+              ? '<td style="opacity: 0.5">(missing)</td>'
+              : `<td>${escapeHtml(value)}</td>`
+          )
+          .join('');
+        return `<tr>
+          <td><a href="#" data-index="${
+            row.index
+          }" onclick="postDataElementClick('rule', this)">${escapeHtml(row.label)}</a></td>
+          <td>${escapeHtml(row.kind)}</td>
+          ${cells}
+        </tr>`;
+      })
+      .join('\n');
+    return `<p>${rows.length} of ${this.rows.length} rules</p>
+    <table class="table table-sm">
+      <tr>${header}</tr>
+      ${body}
+    </table>`;
+  }
+
+  async openRule(row: PrintRow): Promise<void> {
+    if (!row.filename) {
+      vscode.window.showWarningMessage(`The location of ${row.label} is unknown`);
+      return;
+    }
+    const line = Math.max(0, (row.line || 1) - 1);
+    await vscode.window.showTextDocument(vscode.Uri.file(row.filename), {
+      selection: new vscode.Range(line, 0, line, 0),
+    });
+  }
+
+  /**
+   * Saves the filtered and sorted rows as a CSV file.
+   */
+  async exportCsv(): Promise<void> {
+    const root = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: root ? vscode.Uri.joinPath(root, 'buildozer-print.csv') : undefined,
+      filters: { CSV: ['csv'] },
+      saveLabel: 'Export',
+    });
+    if (!uri) {
+      return;
+    }
+    const rows = sortRows(
+      filterRows(this.rows, this.columns, this.filter),
+      this.sortColumn,
+      this.descending
+    );
+    try {
+      await fs.promises.writeFile(uri.fsPath, toCsv(this.columns, rows) + '\r\n');
+    } catch (e) {
+      vscode.window.showErrorMessage(
+        `Failed to write ${uri.fsPath}: ${e instanceof Error ? e.message : e}`
+      );
+      return;
+    }
+    vscode.window.showInformationMessage(`Exported ${rows.length} rules to ${uri.fsPath}`);
+  }
+
+  public dispose() {
+    this.panel?.dispose();
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables.length = 0;
+  }
+}
@@ -6,10 +6,25 @@ import { Container } from '../container';
 import path = require('path');
 import { BuildifierSettings, maybeInstallBuildtool } from '../buildifier/settings';
 import { ConfigurationContext } from '../common';
+import { ToolsConfiguration } from '../tools';
+import { BazelConfiguration } from '../bezel/configuration';
+import { BuildtoolSource, maybeBuildWorkspaceTool } from '../buildifier/workspaceTool';
 
 export class BuildozerSettings extends Settings<BuildozerConfiguration> {
-  constructor(configCtx: ConfigurationContext, section: string, private buildifier: BuildifierSettings) {
+  // the buildozer built from the workspace, by target and bazel executable
+  private workspaceExecutable: { key: string; executable: string } | undefined;
+
+  constructor(
+    configCtx: ConfigurationContext,
+    section: string,
+    private buildifier: BuildifierSettings,
+    private tools?: Settings<ToolsConfiguration>,
+    private bazel?: Settings<BazelConfiguration>
+  ) {
     super(configCtx, section);
+    if (tools) {
+      this.disposables.push(tools.onDidConfigurationChange(() => this.reconfigure(section)));
+    }
   }
 
   protected async configure(
@@ -22,8 +37,29 @@ export class BuildozerSettings extends Settings<BuildozerConfiguration> {
       githubRelease: config.get<string>('githubRelease', '4.2.3'),
       executable: config.get<string | undefined>('executable'),
       options: config.get<string[] | undefined>('options'),
+      source: config.get<BuildtoolSource>('source', 'release'),
+      workspaceTarget: config.get<string>(
+        'workspaceTarget',
+        '@com_github_bazelbuild_buildtools//buildozer'
+      ),
     };
 
+    if (!cfg.executable && cfg.source === 'workspace' && this.bazel) {
+      const bazelExecutable = (await this.bazel.get()).executable || 'bazel';
+      const key = `${cfg.workspaceTarget} ${bazelExecutable}`;
+      const built = this.workspaceExecutable;
+      if (built && built.key === key && fs.existsSync(built.executable)) {
+        cfg.executable = built.executable;
+      } else {
+        cfg.executable = await maybeBuildWorkspaceTool(
+          'buildozer',
+          cfg.workspaceTarget!,
+          bazelExecutable
+        );
+        this.workspaceExecutable = cfg.executable ? { key, executable: cfg.executable } : undefined;
+      }
+    }
+
     if (!cfg.executable) {
       cfg.executable = await maybeInstallBuildtool(
         cfg.githubOwner,
@@ -31,6 +67,7 @@ export class BuildozerSettings extends Settings<BuildozerConfiguration> {
         cfg.githubRelease,
         path.join(this.configCtx.globalStorageUri.fsPath, 'bsv.buildifier'),
         'buildozer',
+        await this.tools?.get(),
       );
     }
 
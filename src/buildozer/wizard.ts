@@ -1,6 +1,7 @@
+import { QuickPickItem } from 'vscode';
 import { InputStep, MultiStepInput } from '../multiStepInput';
 
-interface CommandInfo {
+export interface CommandInfo {
     perRule: boolean;
     minArg: number;
     maxArg: number;
@@ -9,7 +10,7 @@ interface CommandInfo {
     example: string;
 }
 
-const allCommands: { [key: string]: CommandInfo } = {
+export const allCommands: { [key: string]: CommandInfo } = {
     'add': {
         perRule: true, minArg: 2, maxArg: -1, template: '<attr> <value(s)>',
         description: 'Adds value(s) to a list attribute of a rule. If a value is already present in the list, it is not added.',
@@ -132,16 +133,182 @@ const allCommands: { [key: string]: CommandInfo } = {
     },
 };
 
+/**
+ * The number of recent commands remembered by the wizard.
+ */
+export const MAX_RECENT_COMMANDS = 10;
+
+/**
+ * Attributes common to all rules, offered in addition to the ones found in
+ * the BUILD file.
+ */
+const commonAttributes = [
+    'name', 'deps', 'srcs', 'data', 'visibility', 'testonly', 'tags',
+    'features', 'compatible_with', 'target_compatible_with', 'exec_compatible_with',
+    'licenses', 'deprecation', 'restricted_to', 'toolchains',
+];
+
+/**
+ * BuildozerTargetItem is a target offered for completion.
+ */
+export interface BuildozerTargetItem {
+    label: string;
+    // the rule kind, if the target is a rule.
+    kind?: string;
+    description?: string;
+}
+
+/**
+ * BuildozerWizardContext provides the wizard with completion data.  Without
+ * it the wizard falls back to plain input boxes.
+ */
+export interface BuildozerWizardContext {
+    // the target to prefill, typically the rule at the cursor.
+    defaultTarget?: string;
+    // lists the targets offered for completion.
+    listTargets?: () => Promise<BuildozerTargetItem[]>;
+    // lists the attribute names used by rules of the given kind in the BUILD
+    // files of the targets.
+    listAttributes?: (targets: string[], kind?: string) => Promise<string[]>;
+    // the recent commands, most recent first.
+    recentCommands?: string[];
+}
+
+/**
+ * Splits a command template such as "<attr>? <value(s)>" into its parts.
+ * Bracketed groups like "[(before|after) <name>]" are a single part.
+ */
+export function templateParts(template: string): string[] {
+    return template.match(/<[^>]*>\??|\[[^\]]*\]/g) || [];
+}
+
+/**
+ * Returns true if the template part may be left empty.
+ */
+export function isOptionalPart(part: string): boolean {
+    return part.endsWith('?') || part.startsWith('[');
+}
+
+/**
+ * Returns true if the template part names an existing attribute.
+ */
+export function isAttributePart(part: string): boolean {
+    return /^<(attr|old_attr|attribute\(s\))>\??$/.test(part);
+}
+
+/**
+ * Validates the value entered for a template part.  Returns an error message
+ * or the empty string if valid.
+ */
+export function validateTemplatePart(info: CommandInfo, part: string, value: string): string {
+    const values = value.trim().split(/\s+/).filter(v => v);
+    if (!values.length) {
+        return isOptionalPart(part) || info.minArg === 0 ? '' : `${part} is required`;
+    }
+    if (values.length > 1 && !part.includes('(s)') && !part.startsWith('[')) {
+        return `${part} takes a single value (escape spaces with a backslash)`;
+    }
+    return '';
+}
+
+/**
+ * Validates the number of arguments of the command against its CommandInfo.
+ * Returns an error message or undefined if valid.
+ */
+export function validateCommandArgs(command: string, args: string[]): string | undefined {
+    const info = allCommands[command];
+    if (!info) {
+        return `unknown buildozer command "${command}"`;
+    }
+    const n = args.join(' ').split(/\s+/).filter(a => a).length;
+    if (n < info.minArg) {
+        return `${command} requires at least ${info.minArg} argument(s): ${info.template}`;
+    }
+    if (info.maxArg >= 0 && n > info.maxArg) {
+        return `${command} takes at most ${info.maxArg} argument(s): ${info.template}`;
+    }
+    return undefined;
+}
+
+/**
+ * Returns the recent commands with the given command moved to the front.
+ */
+export function addRecentCommand(recent: string[], command: string, max = MAX_RECENT_COMMANDS): string[] {
+    return [command, ...recent.filter(c => c !== command)].slice(0, max);
+}
+
+/**
+ * Returns the rule kind of the target, from the listed items or a
+ * //pkg:%kind pattern.
+ */
+export function targetKind(target: string, items: BuildozerTargetItem[]): string | undefined {
+    const match = /:%([A-Za-z_][\w.]*)$/.exec(target);
+    if (match) {
+        return match[1];
+    }
+    return items.find(item => item.label === target)?.kind;
+}
+
+/**
+ * Returns the sorted names of the attributes set by the rules of the given
+ * kind in the BUILD file content, or of all rules if no kind is given.
+ */
+export function ruleAttributeNames(content: string, kind?: string): string[] {
+    const names = new Set<string>();
+    const callee = kind ? kind.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : '(?!load\\b|package\\b)[A-Za-z_][\\w.]*';
+    const rule = new RegExp(`^${callee}\\s*\\(`, 'gm');
+    const key = /([A-Za-z_]\w*)\s*=(?!=)/y;
+
+    let match: RegExpExecArray | null;
+    while ((match = rule.exec(content))) {
+        let depth = 1;
+        let expectKey = true;
+        let i = match.index + match[0].length;
+        while (i < content.length && depth > 0) {
+            const c = content[i];
+            if (c === '"' || c === "'") {
+                // skip the string literal
+                i++;
+                while (i < content.length && content[i] !== c) {
+                    i += content[i] === '\\' ? 2 : 1;
+                }
+                expectKey = false;
+            } else if (c === '#') {
+                while (i < content.length && content[i] !== '\n') {
+                    i++;
+                }
+            } else if ('([{'.includes(c)) {
+                depth++;
+            } else if (')]}'.includes(c)) {
+                depth--;
+            } else if (c === ',') {
+                expectKey = depth === 1;
+            } else if (expectKey && depth === 1 && /[A-Za-z_]/.test(c)) {
+                key.lastIndex = i;
+                const m = key.exec(content);
+                if (m) {
+                    names.add(m[1]);
+                }
+                expectKey = false;
+            }
+            i++;
+        }
+    }
+    return Array.from(names).sort();
+}
+
 export class BuildozerWizard {
     private totalSteps: number = 3;
     private currentStep: number = 1;
     private targets: string[] = [];
+    private targetItems: BuildozerTargetItem[] = [];
     private command: string = '';
     private commandArgs: string[] = [];
 
     constructor(
         private readonly input: MultiStepInput,
         private workingDirectory: string = '',
+        private readonly context: BuildozerWizardContext = {},
     ) {
     }
 
@@ -157,6 +324,14 @@ export class BuildozerWizard {
         return [this.command, ...this.commandArgs].join(' ');
     }
 
+    /**
+     * Returns an error message if the arguments of the command do not match its
+     * CommandInfo.
+     */
+    validate(): string | undefined {
+        return validateCommandArgs(this.command, this.commandArgs);
+    }
+
     async run(): Promise<void> {
         return this.input.stepThrough(this.pickWorkingDirectory.bind(this));
     }
@@ -176,6 +351,9 @@ export class BuildozerWizard {
     }
 
     async pickTargets(input: MultiStepInput): Promise<InputStep | undefined> {
+        if (this.context.listTargets) {
+            return this.pickTargetsFromList(input, this.context.listTargets);
+        }
         const picked = await input.showInputBox({
             title: 'Buildozer: Target(s)',
             totalSteps: this.totalSteps,
@@ -189,26 +367,85 @@ export class BuildozerWizard {
                 'Use percent-and-number to refer to a rule that begins at a certain line: //pkg:%123',
                 'Use - for the package name if you want to process standard input stream instead of a file: -:all_tests',
             ].join('; '),
-            value: '',
+            value: this.context.defaultTarget || '',
             shouldResume: async () => false,
-            validate: async (value: string) => { return ''; },
+            validate: async (value: string) => { return value.trim() ? '' : 'at least one target is required'; },
         });
-        this.targets = picked.split(/\s+/);
+        this.targets = picked.trim().split(/\s+/);
+        return this.pickCommand(input);
+    }
+
+    /**
+     * Offers the listed targets, with the default target first.  Typed values
+     * (possibly several whitespace-separated targets) are accepted as well.
+     */
+    async pickTargetsFromList(
+        input: MultiStepInput,
+        listTargets: () => Promise<BuildozerTargetItem[]>,
+    ): Promise<InputStep | undefined> {
+        try {
+            this.targetItems = await listTargets();
+        } catch (e) {
+            console.warn('buildozer: failed to list targets', e);
+            this.targetItems = [];
+        }
+        const items: QuickPickItem[] = this.targetItems.map(t => {
+            return { label: t.label, description: t.kind || t.description };
+        });
+        const defaultTarget = this.context.defaultTarget;
+        if (defaultTarget) {
+            const index = items.findIndex(item => item.label === defaultTarget);
+            const item = index >= 0 ? items.splice(index, 1)[0] : { label: defaultTarget };
+            items.unshift({ ...item, detail: 'at cursor' });
+        }
+        const picked = await input.showQuickPick({
+            title: 'Buildozer: Target(s)',
+            totalSteps: this.totalSteps,
+            step: this.currentStep,
+            items: items,
+            activeItem: items[0],
+            placeholder: 'Pick a target or type target patterns such as //pkg:*, //pkg/...:* or //pkg:%java_library',
+            acceptValue: (value: string) => { return { label: value, alwaysShow: true, detail: 'target pattern(s)' }; },
+            shouldResume: async () => false,
+        });
+        this.targets = picked.label.trim().split(/\s+/);
         return this.pickCommand(input);
     }
 
     async pickCommand(input: MultiStepInput): Promise<InputStep | undefined> {
+        // recent commands that are no longer valid are skipped
+        const recent = (this.context.recentCommands || []).filter(c => {
+            const [command, ...args] = c.split(/\s+/);
+            return !validateCommandArgs(command, args);
+        });
+        const items: QuickPickItem[] = [
+            ...recent.map(command => { return { label: command, description: 'recent' }; }),
+            ...Object.keys(allCommands).map(name => {
+                return { label: name, description: allCommands[name].template, detail: allCommands[name].description };
+            }),
+        ];
         const picked = await input.showQuickPick({
             title: 'Buildozer: Command Name',
             totalSteps: this.totalSteps,
             step: this.currentStep,
-            items: Object.keys(allCommands).map(name => { return { label: name }; }),
+            items: items,
             placeholder: 'Choose a buildozer command',
             shouldResume: async () => false,
         });
-        this.command = picked.label;
+        const [command, ...args] = picked.label.split(/\s+/);
+        this.command = command;
+        this.commandArgs = args;
+        if (args.length) {
+            // a recent command is complete
+            return undefined;
+        }
         const info = allCommands[this.command];
-        return pickCommandDescriptionSequence(this.command, info, this.commandArgs);
+        const kind = this.targets.length ? targetKind(this.targets[0], this.targetItems) : undefined;
+        const listAttributes = this.context.listAttributes;
+        return pickCommandDescriptionSequence(
+            this.command, info, this.commandArgs,
+            listAttributes && (() => listAttributes(this.targets, kind)),
+        );
     }
 }
 
@@ -223,7 +460,10 @@ type InputWork<T> = (input: MultiStepInput) => Promise<T>;
  * @param value 
  * @returns 
  */
-function fromInputBox(title: string, prompt: string, totalSteps: number, step: number, value: string): InputWork<string> {
+function fromInputBox(
+    title: string, prompt: string, totalSteps: number, step: number, value: string,
+    validate: (value: string) => string = () => '',
+): InputWork<string> {
     return (input: MultiStepInput): Promise<string> => {
         return new Promise((resolve, _) => {
             const result = input.showInputBox({
@@ -232,7 +472,7 @@ function fromInputBox(title: string, prompt: string, totalSteps: number, step: n
                 step: step,
                 value: value,
                 prompt: prompt,
-                validate: async (value: string) => { return ''; },
+                validate: async (value: string) => { return validate(value); },
                 shouldResume: async () => false,
             });
             resolve(result);
@@ -240,14 +480,60 @@ function fromInputBox(title: string, prompt: string, totalSteps: number, step: n
     };
 }
 
-function pickCommandDescriptionSequence(command: string, info: CommandInfo, results: string[]): InputStep {
-    const parts = info.template.split(/\s+/);
+interface AttributeItem extends QuickPickItem {
+    value: string;
+}
+
+/**
+ * Return a new function that offers the attribute names for completion.  The
+ * attribute names are listed lazily, when the step is shown.
+ */
+function fromAttributePick(
+    title: string, placeholder: string, totalSteps: number, step: number, optional: boolean,
+    listAttributes: () => Promise<string[]>,
+): InputWork<string> {
+    return async (input: MultiStepInput): Promise<string> => {
+        let used: string[] = [];
+        try {
+            used = await listAttributes();
+        } catch (e) {
+            console.warn('buildozer: failed to list attributes', e);
+        }
+        const items: AttributeItem[] = [
+            ...(optional ? [{ label: '$(circle-slash) None', value: '' }] : []),
+            ...used.map(name => { return { label: name, value: name, description: 'used in BUILD file' }; }),
+            ...commonAttributes.filter(name => !used.includes(name)).map(name => { return { label: name, value: name }; }),
+        ];
+        const picked = await input.showQuickPick({
+            title: title,
+            totalSteps: totalSteps,
+            step: step,
+            items: items,
+            placeholder: placeholder,
+            acceptValue: (value: string) => { return { label: value, value: value, alwaysShow: true }; },
+            shouldResume: async () => false,
+        });
+        return (picked as AttributeItem).value;
+    };
+}
+
+function pickCommandDescriptionSequence(
+    command: string, info: CommandInfo, results: string[],
+    listAttributes?: () => Promise<string[]>,
+): InputStep {
+    const parts = templateParts(info.template);
     const work: InputWork<string>[] = parts.map((part, index) => {
         let help = part + ': ' + info.description;
         if (info.example) {
             help += '.  Example: ' + info.example;
         }
-        return fromInputBox('Buildozer: ' + command, help, parts.length, index, '');
+        const title = 'Buildozer: ' + command;
+        if (listAttributes && isAttributePart(part)) {
+            return fromAttributePick(title, help, parts.length, index + 1,
+                isOptionalPart(part) || info.minArg === 0, listAttributes);
+        }
+        return fromInputBox(title, help, parts.length, index + 1, '',
+            (value: string) => validateTemplatePart(info, part, value));
     });
     let currentWorkItem = 0;
     const fn = async (input: MultiStepInput): Promise<InputStep | undefined> => {
@@ -255,9 +541,11 @@ function pickCommandDescriptionSequence(command: string, info: CommandInfo, resu
             return Promise.resolve(undefined); // resolve undefined terminates the multistep input sequence
         }
         const workItem = work[currentWorkItem++];
-        const result = await workItem(input);
-        results.push(result);
+        const result = (await workItem(input)).trim();
+        if (result) {
+            results.push(result);
+        }
         return fn;
     };
     return fn;
-}
\ No newline at end of file
+}
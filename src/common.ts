@@ -130,6 +130,16 @@ export function makeCommandURI(command: string, ...args: any[]) {
   return 'command:' + command + '?' + encoded;
 }
 
+/**
+ * Returns the milliseconds since the epoch of the timestamp, or 0 if unset.
+ */
+export function timestampMillis(ts: Timestamp | null | undefined): number {
+  if (!ts) {
+    return 0;
+  }
+  return Long.fromValue(ts.seconds || 0).toNumber() * 1000 + Math.floor((ts.nanos || 0) / 1e6);
+}
+
 export function getRelativeDateFromTimestamp(ts: Timestamp): string {
   const dateTime = luxon.DateTime.fromSeconds(Long.fromValue(ts.seconds!).toNumber());
   let when = dateTime.toRelative();
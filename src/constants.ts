@@ -14,6 +14,7 @@ export enum Telemetry {
 
 export enum CommandName {
   OpenSetting = 'bsv.openExtensionSetting',
+  ManageTools = 'bsv.tools.manage',
 }
 
 export enum BuiltInCommands {
@@ -21,10 +22,12 @@ export enum BuiltInCommands {
   ClosePanel = 'workbench.action.closePanel',
   Open = 'vscode.open',
   OpenFolder = 'vscode.openFolder',
+  OpenWith = 'vscode.openWith',
   OpenSettings = 'workbench.action.openSettings',
   Reload = 'workbench.action.reloadWindow',
   RevealFileInOS = 'revealFileInOS',
   FocusTerminal = 'workbench.action.terminal.focus',
+  ShowProblems = 'workbench.actions.view.problems',
 }
 
 export function setCommandContext(key: string, value: any) {
@@ -3,6 +3,7 @@
 import * as fs from 'graceful-fs';
 import * as octokit from '@octokit/rest';
 import * as path from 'path';
+import { URL } from 'url';
 import mv = require('mv');
 import request = require('request');
 import sha256File = require('sha256-file');
@@ -142,14 +143,16 @@ export class GitHubReleaseAssetDownloader {
 
   /**
    * Perform the download.
+   *
+   * @param sha256 an optional sha256 the asset must match
    */
-  async download(): Promise<GithubReleaseAsset> {
+  async download(sha256?: string): Promise<GithubReleaseAsset> {
     const filepath = this.getFilepath();
 
     const mode = this.executable ? 0o755 : 0o644;
     const client = this.newOctokit();
     const asset = await getReleaseAsset(client, this.req);
-    await downloadAsset(asset.url, filepath, mode);
+    await downloadAsset(asset.url, filepath, mode, sha256);
     if (!fs.existsSync(filepath)) {
       throw new Error(
         `Downloader should have created file <${filepath}>.  ` +
@@ -269,8 +272,9 @@ export async function downloadAsset(
       Accept: 'application/octet-stream',
       'User-Agent': 'bazel-stack-vscode',
     };
+    // the token is only sent to github, not to mirrors
     const token = getGithubToken();
-    if (token) {
+    if (token && new URL(url).hostname === 'api.github.com') {
       headers['Authorization'] = 'token ' + token;
     }
     const src = request({
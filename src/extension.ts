@@ -28,8 +28,11 @@ export function activate(ctx: vscode.ExtensionContext): BazelStackVSCodeAPI {
 
 
     ctx.subscriptions.push(new BazelDocFeature());
-    ctx.subscriptions.push(new BazelrcFeature(configCtx));
-    ctx.subscriptions.push(new BzlFeature(api, ctx, configCtx));
+    const bzlFeature = new BzlFeature(api, ctx, configCtx);
+    ctx.subscriptions.push(
+      new BazelrcFeature(configCtx, bzlFeature.bazelSettings, () => bzlFeature.getBazelRelease())
+    );
+    ctx.subscriptions.push(bzlFeature);
 
     Container.telemetry.sendTelemetryEvent(Telemetry.ExtensionActivate);
 
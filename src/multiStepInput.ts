@@ -33,6 +33,9 @@ interface QuickPickParameters<T extends QuickPickItem> {
   activeItem?: T;
   placeholder: string;
   buttons?: QuickInputButton[];
+  // if set, the typed value is offered as an additional item such that
+  // values other than the given items can be picked.
+  acceptValue?: (value: string) => T;
   shouldResume: () => Thenable<boolean>;
 }
 
@@ -96,6 +99,7 @@ export class MultiStepInput {
     activeItem,
     placeholder,
     buttons,
+    acceptValue,
     shouldResume,
   }: P) {
     const disposables: Disposable[] = [];
@@ -127,6 +131,11 @@ export class MultiStepInput {
               }
             }),
             input.onDidChangeSelection(selection => resolve(selection[0])),
+            input.onDidChangeValue(value => {
+              if (acceptValue) {
+                input.items = value.trim() ? [acceptValue(value.trim()), ...items] : items;
+              }
+            }),
             input.onDidHide(() => {
               (async () => {
                 reject(
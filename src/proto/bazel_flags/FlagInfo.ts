@@ -25,6 +25,39 @@ export interface FlagInfo {
    * True if a flag is allowed to occur multiple times in a single arg list.
    */
   allowsMultiple?: boolean;
+  /**
+   * The effect tags associated with the flag, e.g. NO_OP.
+   */
+  effectTags?: string[];
+  /**
+   * The metadata tags associated with the flag, e.g. DEPRECATED,
+   * EXPERIMENTAL or INCOMPATIBLE_CHANGE.
+   */
+  metadataTags?: string[];
+  /**
+   * The documentation category assigned to this flag.
+   */
+  documentationCategory?: string;
+  /**
+   * Whether the flag requires a value.
+   */
+  requiresValue?: boolean;
+  /**
+   * The old, deprecated name for this option, without leading dashes.
+   */
+  oldName?: string;
+  /**
+   * The deprecation warning for this option, if one is present.
+   */
+  deprecationWarning?: string;
+  /**
+   * The type of the flag value: bool, enum, label or string.
+   */
+  valueType?: string;
+  /**
+   * The values allowed for an enum flag.
+   */
+  allowedValues?: string[];
 }
 
 export interface FlagInfo__Output {
@@ -52,4 +85,37 @@ export interface FlagInfo__Output {
    * True if a flag is allowed to occur multiple times in a single arg list.
    */
   allowsMultiple: boolean;
+  /**
+   * The effect tags associated with the flag, e.g. NO_OP.
+   */
+  effectTags: string[];
+  /**
+   * The metadata tags associated with the flag, e.g. DEPRECATED,
+   * EXPERIMENTAL or INCOMPATIBLE_CHANGE.
+   */
+  metadataTags: string[];
+  /**
+   * The documentation category assigned to this flag.
+   */
+  documentationCategory: string;
+  /**
+   * Whether the flag requires a value.
+   */
+  requiresValue: boolean;
+  /**
+   * The old, deprecated name for this option, without leading dashes.
+   */
+  oldName: string;
+  /**
+   * The deprecation warning for this option, if one is present.
+   */
+  deprecationWarning: string;
+  /**
+   * The type of the flag value: bool, enum, label or string.
+   */
+  valueType: string;
+  /**
+   * The values allowed for an enum flag.
+   */
+  allowedValues: string[];
 }
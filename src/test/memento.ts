@@ -31,4 +31,11 @@ export class FakeMemento implements vscode.Memento {
     async update(key: string, value: any): Promise<void> {
         this.store.set(key, value);
     }
+
+    /**
+     * Return the stored keys.
+     */
+    keys(): readonly string[] {
+        return Array.from(this.store.keys());
+    }
 }
@@ -0,0 +1,417 @@
+'use strict';
+
+import fs = require('fs-extra');
+import os = require('os');
+import path = require('path');
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import {
+  formatEffectiveCommandLine,
+  parseInvocation,
+  resolveConfigExpansion,
+  resolveEffectiveOptions,
+  settingsArguments,
+} from '../../bazelrc/effective';
+import {
+  annotateFlagTags,
+  flagCollectionCacheFile,
+  loadReleaseFlagCollection,
+  parseBazelVersion,
+} from '../../bazelrc/flagdb';
+import { lintBazelrc } from '../../bazelrc/language';
+import {
+  BazelrcScope,
+  configNameAt,
+  configUsages,
+  flattenBazelrc,
+  loadBazelrcScope,
+  parseBazelrc,
+  resolveImportPath,
+} from '../../bazelrc/rcfile';
+import { annotateFlagInfo } from '../../bazelrc/values';
+import { FlagInfo } from '../../proto/bazel_flags/FlagInfo';
+
+const buildCommands = ['build', 'test', 'run'];
+
+const flagInfos: FlagInfo[] = [
+  { name: 'config', commands: [...buildCommands, 'query'], allowsMultiple: true },
+  {
+    name: 'keep_going',
+    hasNegativeFlag: true,
+    commands: [...buildCommands, 'query'],
+    abbreviation: 'k',
+  },
+  { name: 'compilation_mode', commands: buildCommands, abbreviation: 'c' },
+  { name: 'copt', commands: buildCommands, allowsMultiple: true },
+  { name: 'test_output', commands: buildCommands },
+  { name: 'host_jvm_args', commands: ['startup'], allowsMultiple: true },
+  {
+    name: 'remote_download_outputs',
+    oldName: 'experimental_remote_download_outputs',
+    commands: buildCommands,
+  },
+  { name: 'announce', hasNegativeFlag: true, commands: buildCommands, documentation: 'No-op.' },
+  {
+    name: 'dynamic_worker_strategy',
+    commands: buildCommands,
+    documentation: 'Deprecated. Please use --dynamic_local_strategy=worker,local.',
+  },
+  { name: 'dynamic_local_strategy', commands: buildCommands, allowsMultiple: true },
+  { name: 'experimental_foo', hasNegativeFlag: true, commands: buildCommands },
+  { name: 'incompatible_bar', hasNegativeFlag: true, commands: buildCommands },
+];
+
+function flagMap(): Map<string, FlagInfo> {
+  const map = new Map<string, FlagInfo>();
+  for (const flag of flagInfos) {
+    annotateFlagInfo(flag);
+    annotateFlagTags(flag);
+    map.set(flag.name!, flag);
+    if (flag.hasNegativeFlag) {
+      map.set('no' + flag.name, flag);
+    }
+    if (flag.oldName) {
+      map.set(flag.oldName, flag);
+    }
+    if (flag.abbreviation) {
+      map.set(flag.abbreviation, flag);
+    }
+  }
+  return map;
+}
+
+async function scopeOf(files: { [path: string]: string }, roots = ['/ws/.bazelrc']) {
+  return loadBazelrcScope('/ws', roots, async p => files[p]);
+}
+
+describe('bazelrc', function () {
+  describe('parseBazelrc', () => {
+    it('reads commands, configs and options', () => {
+      const lines = parseBazelrc('# comment\nbuild:ci --config=remote -c opt --nokeep_going\n');
+      expect(lines).to.have.length(1);
+      const [line] = lines;
+      expect(line.command).to.equal('build');
+      expect(line.config).to.equal('ci');
+      expect(line.configRange).to.deep.equal({
+        start: { line: 1, character: 6 },
+        end: { line: 1, character: 8 },
+      });
+      expect(line.options.map(o => [o.name, o.short, o.value])).to.deep.equal([
+        ['config', false, 'remote'],
+        ['c', true, 'opt'],
+        ['nokeep_going', false, undefined],
+      ]);
+      expect(line.options[0].valueRange).to.deep.equal({
+        start: { line: 1, character: 18 },
+        end: { line: 1, character: 24 },
+      });
+    });
+
+    it('joins continued lines', () => {
+      const lines = parseBazelrc('test --test_output=errors \\\n  --copt="-DFOO BAR" # trailing\n');
+      expect(lines).to.have.length(1);
+      expect(lines[0].options.map(o => o.value)).to.deep.equal(['errors', '-DFOO BAR']);
+      expect(lines[0].options[1].nameRange).to.deep.equal({
+        start: { line: 1, character: 2 },
+        end: { line: 1, character: 8 },
+      });
+    });
+
+    it('reads imports', () => {
+      const [line] = parseBazelrc('try-import %workspace%/user.bazelrc');
+      expect(line.command).to.equal('try-import');
+      expect(line.importPath?.value).to.equal('%workspace%/user.bazelrc');
+      expect(line.options).to.be.empty;
+    });
+  });
+
+  describe('resolveImportPath', () => {
+    const cases: { d: string; input: string; want: string }[] = [
+      { d: 'workspace', input: '%workspace%/tools/ci.bazelrc', want: '/ws/tools/ci.bazelrc' },
+      { d: 'absolute', input: '/etc/ci.bazelrc', want: '/etc/ci.bazelrc' },
+      { d: 'relative', input: 'tools/ci.bazelrc', want: '/ws/tools/ci.bazelrc' },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(resolveImportPath(tc.input, '/ws')).to.equal(tc.want);
+      });
+    });
+  });
+
+  describe('scope', () => {
+    const files = {
+      '/ws/.bazelrc': 'build --config=ci\nimport %workspace%/ci.bazelrc\ntest --test_output=errors',
+      '/ws/ci.bazelrc': 'build:ci --keep_going\nimport %workspace%/.bazelrc',
+    };
+
+    it('inlines imports in evaluation order', async () => {
+      const scope = await scopeOf(files);
+      expect(flattenBazelrc(scope).map(e => `${e.path}:${e.line.command}`)).to.deep.equal([
+        '/ws/.bazelrc:build',
+        '/ws/ci.bazelrc:build',
+        '/ws/.bazelrc:test',
+      ]);
+    });
+
+    it('finds configs across files', async () => {
+      const scope = await scopeOf(files);
+      const lines = scope.files.get('/ws/ci.bazelrc')!;
+      expect(configNameAt(lines, { line: 0, character: 7 })).to.equal('ci');
+      expect(configNameAt(lines, { line: 0, character: 12 })).to.be.undefined;
+      expect(configUsages(scope, 'ci')).to.deep.equal([
+        {
+          path: '/ws/.bazelrc',
+          range: { start: { line: 0, character: 15 }, end: { line: 0, character: 17 } },
+        },
+      ]);
+    });
+  });
+
+  describe('lintBazelrc', () => {
+    const cases: { d: string; input: string; want: string[] }[] = [
+      {
+        d: 'valid',
+        input: 'build:ci -k\nbuild --config=ci -c opt --copt=-O2 --//foo:bar=1',
+        want: [],
+      },
+      { d: 'unknown command', input: 'biuld --keep_going', want: ["0: Unknown command 'biuld'"] },
+      { d: 'unknown flag', input: 'build --keep_goin', want: ['0: Unknown flag --keep_goin'] },
+      {
+        d: 'flag of another command',
+        input: 'query --host_jvm_args=-Xmx1g\ncommon --keep_going',
+        want: ["0: --host_jvm_args does not apply to the 'query' command"],
+      },
+      {
+        d: 'undefined config',
+        input: 'build --config=ci',
+        want: ["0: Config 'ci' is not defined"],
+      },
+      {
+        d: 'missing import',
+        input: 'import /nope\ntry-import /nope',
+        want: ['0: File not found: /nope'],
+      },
+      {
+        d: 'malformed values',
+        input:
+          'build -c fast --keep_going=maybe\nbuild:x --nokeep_going=1\nbuild:y --nokeep_going //foo',
+        want: [
+          "0: Invalid value 'fast' for --compilation_mode: expected one of fastbuild, dbg, opt",
+          "0: Invalid value 'maybe' for --keep_going: expected true or false",
+          '1: --nokeep_going does not take a value',
+        ],
+      },
+      {
+        d: 'duplicate',
+        input: 'build --keep_going\nbuild -k\nbuild:ci --keep_going',
+        want: ["1: --keep_going is already set to 'true' at .bazelrc:1"],
+      },
+      {
+        d: 'conflict',
+        input:
+          'build -c opt --nokeep_going\nbuild --compilation_mode=dbg --keep_going --copt=a --copt=b',
+        want: [
+          "1: --compilation_mode=dbg overrides 'opt' set at .bazelrc:1",
+          "1: --keep_going=true overrides 'false' set at .bazelrc:1",
+        ],
+      },
+      {
+        d: 'flag status',
+        input: [
+          'build --experimental_remote_download_outputs=minimal',
+          'build:a --noannounce --dynamic_worker_strategy=worker',
+          'build:b --noexperimental_foo --incompatible_bar',
+        ].join('\n'),
+        want: [
+          '0: --experimental_remote_download_outputs is deprecated; use --remote_download_outputs',
+          '1: --announce has no effect',
+          '1: --dynamic_worker_strategy is deprecated',
+          '2: --experimental_foo is experimental and may change or be removed in any release',
+          '2: --incompatible_bar is an incompatible change flag; it is removed once its change is the default',
+        ],
+      },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, async () => {
+        const scope: BazelrcScope = await scopeOf({ '/ws/.bazelrc': tc.input });
+        expect(
+          lintBazelrc(scope, flagMap()).map(d => `${d.range.start.line}: ${d.message}`)
+        ).to.deep.equal(tc.want);
+      });
+    });
+
+    it('names the bazel version of unknown flags', async () => {
+      const scope = await scopeOf({ '/ws/.bazelrc': 'build --keep_goin' });
+      expect(lintBazelrc(scope, flagMap(), '5.0.0').map(d => d.message)).to.deep.equal([
+        'Unknown flag --keep_goin in bazel 5.0.0',
+      ]);
+    });
+
+    it('fixes renamed, deprecated and no-op flags', async () => {
+      const scope = await scopeOf({
+        '/ws/.bazelrc':
+          'build --experimental_remote_download_outputs=minimal\nbuild --announce --dynamic_worker_strategy=x',
+      });
+      expect(
+        lintBazelrc(scope, flagMap())
+          .filter(d => d.fix)
+          .map(d => [d.tag, d.fix!.title, d.fix!.range, d.fix!.newText])
+      ).to.deep.equal([
+        [
+          'deprecated',
+          'Replace with --remote_download_outputs',
+          { start: { line: 0, character: 6 }, end: { line: 0, character: 44 } },
+          '--remote_download_outputs',
+        ],
+        [
+          'unnecessary',
+          'Remove --announce',
+          { start: { line: 1, character: 5 }, end: { line: 1, character: 16 } },
+          '',
+        ],
+        [
+          'deprecated',
+          'Replace with --dynamic_local_strategy',
+          { start: { line: 1, character: 17 }, end: { line: 1, character: 42 } },
+          '--dynamic_local_strategy',
+        ],
+      ]);
+    });
+  });
+
+  describe('parseBazelVersion', () => {
+    const cases: { d: string; input: string; want: string | undefined }[] = [
+      { d: 'bazel --version', input: 'bazel 5.0.0\n', want: '5.0.0' },
+      { d: 'bazel info release', input: 'release 4.2.1', want: '4.2.1' },
+      { d: 'prerelease', input: 'bazel 6.0.0-pre.20220101.1', want: '6.0.0-pre.20220101.1' },
+      { d: 'development build', input: 'bazel no_version', want: undefined },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(parseBazelVersion(tc.input)).to.equal(tc.want);
+      });
+    });
+  });
+
+  describe('loadReleaseFlagCollection', () => {
+    it('reads the cached flags of a known release without running bazel', async () => {
+      const storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'flagdb-'));
+      try {
+        await fs.outputFile(flagCollectionCacheFile(storageDir, '5.0.0'), Buffer.alloc(0));
+        const release = await loadReleaseFlagCollection(
+          path.join(__dirname, '..', '..', '..', 'proto', 'bazel_flags.proto'),
+          storageDir,
+          path.join(storageDir, 'no-such-bazel'),
+          storageDir,
+          'release 5.0.0'
+        );
+        expect(release?.version).to.equal('5.0.0');
+      } finally {
+        await fs.remove(storageDir);
+      }
+    });
+  });
+
+  describe('resolveEffectiveOptions', () => {
+    const files = {
+      '/ws/.bazelrc': [
+        'test --test_output=errors',
+        'build --keep_going',
+        'common --config=base',
+        'import %workspace%/ci.bazelrc',
+        'build:base -c dbg',
+        'query --nokeep_going',
+      ].join('\n'),
+      '/ws/ci.bazelrc': 'test:ci --config=remote\nbuild:remote --copt=-O2',
+      '/home/.bazelrc': 'build --copt=-g',
+    };
+    const roots = ['/etc/bazel.bazelrc', '/ws/.bazelrc', '/home/.bazelrc'];
+
+    const cases: { d: string; input: string; want: string[]; errors?: string[] }[] = [
+      {
+        d: 'inheritance',
+        input: 'test //foo',
+        want: [
+          '--config=base .bazelrc:3',
+          '-c dbg .bazelrc:5 base',
+          '--keep_going .bazelrc:2',
+          '--copt=-g /home/.bazelrc:1',
+          '--test_output=errors .bazelrc:1',
+        ],
+      },
+      {
+        d: 'config',
+        input: 'bazel test --config ci',
+        want: [
+          '--config=base .bazelrc:3',
+          '-c dbg .bazelrc:5 base',
+          '--keep_going .bazelrc:2',
+          '--copt=-g /home/.bazelrc:1',
+          '--test_output=errors .bazelrc:1',
+          '--config=ci command line',
+          '--config=remote ci.bazelrc:1 ci',
+          '--copt=-O2 ci.bazelrc:2 ci,remote',
+        ],
+      },
+      {
+        d: 'unrelated command',
+        input: 'query --config=nope',
+        want: [
+          '--config=base .bazelrc:3',
+          '--nokeep_going .bazelrc:6',
+          '--config=nope command line',
+        ],
+        errors: ["Config value 'nope' is not defined in any rc file"],
+      },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, async () => {
+        const scope = await scopeOf(files, roots);
+        const { command, args } = parseInvocation(tc.input);
+        const cmdline = resolveEffectiveOptions(
+          scope,
+          command,
+          args.map(text => ({ text, origin: 'command line' }))
+        );
+        expect(cmdline.options.map(o => `${o.text} ${o.origin} ${o.via}`.trim())).to.deep.equal(
+          tc.want
+        );
+        expect(cmdline.errors).to.deep.equal(tc.errors || []);
+      });
+    });
+
+    it('expands a config', async () => {
+      const scope = await scopeOf(files, roots);
+      const cmdline = resolveConfigExpansion(scope, 'test', 'ci');
+      expect(cmdline.options.map(o => o.text)).to.deep.equal(['--config=remote', '--copt=-O2']);
+    });
+
+    it('detects config loops', async () => {
+      const scope = await scopeOf({ '/ws/.bazelrc': 'build:a --config=b\nbuild:b --config=a' });
+      expect(resolveConfigExpansion(scope, 'build', 'a').errors).to.deep.equal([
+        'Config expansion loop: --config=a --config=b --config=a',
+      ]);
+    });
+
+    it('adds settings flags', () => {
+      const cfg = { buildFlags: ['--keep_going'], testFlags: ['--test_output=all'], runFlags: [] };
+      expect(settingsArguments('test', cfg)).to.deep.equal([
+        { text: '--keep_going', origin: 'bsv.bazel.buildFlags' },
+        { text: '--test_output=all', origin: 'bsv.bazel.testFlags' },
+      ]);
+      expect(settingsArguments('query', cfg)).to.be.empty;
+    });
+
+    it('formats origins', async () => {
+      const scope = await scopeOf({ '/ws/.bazelrc': 'build:ci --keep_going' });
+      const text = formatEffectiveCommandLine(
+        resolveEffectiveOptions(scope, 'build', [{ text: '--config=ci', origin: 'command line' }])
+      );
+      expect(text.split('\n').slice(2)).to.deep.equal([
+        '--config=ci     # command line',
+        '  --keep_going  # .bazelrc:1 build:ci',
+        '',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+'use strict';
+
+import fs = require('fs-extra');
+import * as os from 'os';
+import * as path from 'path';
+import { expect } from 'chai';
+import { after, before, describe, it } from 'mocha';
+import { lintSettingsFlag, scanSettingsFlags } from '../../bazelrc/settingsFlags';
+import {
+  annotateFlagInfo,
+  flagValueCompletions,
+  isLabel,
+  labelCompletions,
+  validateFlagValue,
+} from '../../bazelrc/values';
+import { FlagInfo } from '../../proto/bazel_flags/FlagInfo';
+
+function flag(info: FlagInfo): FlagInfo {
+  return annotateFlagInfo({ commands: ['build', 'test'], ...info });
+}
+
+describe('bazelrc values', function () {
+  describe('annotateFlagInfo', () => {
+    const cases: { d: string; input: FlagInfo; want: string; values: string[] }[] = [
+      {
+        d: 'enum',
+        input: { name: 'test_output' },
+        want: 'enum',
+        values: ['summary', 'errors', 'all', 'streamed'],
+      },
+      {
+        d: 'bool',
+        input: { name: 'keep_going', hasNegativeFlag: true },
+        want: 'bool',
+        values: ['true', 'false'],
+      },
+      {
+        d: 'tri-state',
+        input: { name: 'build_python_zip', hasNegativeFlag: true },
+        want: 'enum',
+        values: ['auto', 'yes', 'no'],
+      },
+      { d: 'label', input: { name: 'platforms' }, want: 'label', values: [] },
+      { d: 'string', input: { name: 'disk_cache' }, want: 'string', values: [] },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        const info = flag(tc.input);
+        expect(info.valueType).to.equal(tc.want);
+        expect(flagValueCompletions(info)).to.deep.equal(tc.values);
+      });
+    });
+  });
+
+  describe('isLabel', () => {
+    const cases: { d: string; input: string; want: boolean }[] = [
+      { d: 'absolute', input: '//foo/bar:baz', want: true },
+      { d: 'external', input: '@local_config_platform//:host', want: true },
+      { d: 'pattern', input: '//toolchains/...', want: true },
+      { d: 'relative', input: ':baz', want: true },
+      { d: 'path', input: 'foo/bar', want: false },
+      { d: 'two colons', input: '//foo:bar:baz', want: false },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(isLabel(tc.input)).to.equal(tc.want);
+      });
+    });
+  });
+
+  describe('validateFlagValue', () => {
+    const cases: { d: string; info: FlagInfo; name?: string; value?: string; want?: string }[] = [
+      { d: 'bool', info: { name: 'keep_going', hasNegativeFlag: true }, value: 'YES' },
+      { d: 'bool without value', info: { name: 'keep_going', hasNegativeFlag: true } },
+      {
+        d: 'enum without value',
+        info: { name: 'compilation_mode' },
+        want: '--compilation_mode requires a value: fastbuild, dbg, opt',
+      },
+      {
+        d: 'label list',
+        info: { name: 'platforms' },
+        value: '//p:linux,foo',
+        want: "Invalid label 'foo' for --platforms",
+      },
+      { d: 'string', info: { name: 'disk_cache' }, value: '~/.cache/bazel' },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        const info = flag(tc.info);
+        expect(validateFlagValue(info, tc.name || info.name!, tc.value)).to.equal(tc.want);
+      });
+    });
+  });
+
+  describe('labelCompletions', () => {
+    let root: string;
+
+    before(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'bazelrc-'));
+      fs.outputFileSync(
+        path.join(root, 'platforms/BUILD.bazel'),
+        'platform(\n    name = "linux",\n)\n'
+      );
+      fs.outputFileSync(path.join(root, 'platforms/arm/BUILD'), '');
+      fs.outputFileSync(path.join(root, 'pkg/README'), '');
+      fs.outputFileSync(path.join(root, 'bazel-out/BUILD'), '');
+    });
+
+    after(() => {
+      fs.removeSync(root);
+    });
+
+    it('lists directories', async () => {
+      const labels = await labelCompletions(root, '//p');
+      expect(labels.map(l => l.label).sort()).to.deep.equal([
+        '//pkg/',
+        '//platforms',
+        '//platforms/',
+      ]);
+    });
+
+    it('lists subdirectories', async () => {
+      const labels = await labelCompletions(root, '//platforms/');
+      expect(labels).to.deep.equal([
+        { label: '//platforms/arm', kind: 'package' },
+        { label: '//platforms/arm/', kind: 'directory' },
+      ]);
+    });
+
+    it('lists targets', async () => {
+      expect(await labelCompletions(root, '//platforms:')).to.deep.equal([
+        { label: '//platforms:linux', kind: 'target' },
+      ]);
+    });
+  });
+
+  describe('settings', () => {
+    const text = [
+      '{',
+      '  // "bsv.bazel.buildFlags": ["--ignored"],',
+      '  "bsv.bazel.buildFlags": ["--compilation_mode=fast", "--keep_going"],',
+      '  "bsv.bazel.testFlags": [',
+      '    "--host_jvm_args=-Xmx1g",',
+      '    "--nope',
+      '  ],',
+      '  "files.exclude": {"--x": true}',
+      '}',
+    ].join('\n');
+    const flags = new Map<string, FlagInfo>();
+    for (const info of [
+      flag({ name: 'compilation_mode', abbreviation: 'c' }),
+      flag({ name: 'keep_going', hasNegativeFlag: true }),
+      flag({ name: 'host_jvm_args', commands: ['startup'] }),
+    ]) {
+      flags.set(info.name!, info);
+    }
+
+    it('scans flag settings', () => {
+      expect(scanSettingsFlags(text).map(f => `${f.setting} ${f.value}`)).to.deep.equal([
+        'bsv.bazel.buildFlags --compilation_mode=fast',
+        'bsv.bazel.buildFlags --keep_going',
+        'bsv.bazel.testFlags --host_jvm_args=-Xmx1g',
+        'bsv.bazel.testFlags --nope',
+      ]);
+      const [first] = scanSettingsFlags(text);
+      expect(text.slice(first.start, first.end)).to.equal('--compilation_mode=fast');
+    });
+
+    it('lints flag settings', () => {
+      expect(scanSettingsFlags(text).map(f => lintSettingsFlag(flags, f))).to.deep.equal([
+        {
+          start: 19,
+          end: 23,
+          message:
+            "Invalid value 'fast' for --compilation_mode: expected one of fastbuild, dbg, opt",
+        },
+        undefined,
+        { start: 0, end: 15, message: "--host_jvm_args does not apply to the 'test' command" },
+        { start: 0, end: 6, message: 'Unknown flag --nope' },
+      ]);
+    });
+  });
+});
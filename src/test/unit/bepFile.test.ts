@@ -0,0 +1,154 @@
+'use strict';
+
+import fs = require('fs-extra');
+import os = require('os');
+import path = require('path');
+import * as protobuf from 'protobufjs';
+// registers google/protobuf/descriptor.proto, imported by failure_details.proto
+import '@grpc/proto-loader';
+import { expect } from 'chai';
+import { before, describe, it } from 'mocha';
+import {
+  BuildEventFileFormat,
+  BuildEventFileTailer,
+  BuildEventStreamDecoder,
+  decodeJsonBuildEvents,
+  detectBuildEventFileFormat,
+} from '../../bezel/bepFile';
+
+const protoFile = path.join(__dirname, '..', '..', '..', 'proto', 'build_event_stream.proto');
+
+describe('bepFile', function () {
+  let buildEventType: protobuf.Type;
+
+  before(async () => {
+    const root = await protobuf.load(protoFile);
+    buildEventType = root.lookupType('build_event_stream.BuildEvent');
+  });
+
+  function encodeDelimited(...objects: any[]): Buffer {
+    const writer = protobuf.Writer.create();
+    for (const obj of objects) {
+      buildEventType.encodeDelimited(buildEventType.fromObject(obj), writer);
+    }
+    return Buffer.from(writer.finish());
+  }
+
+  it('decodes varint-delimited events split across chunks', () => {
+    const data = encodeDelimited(
+      { started: { uuid: 'abc', command: 'build' } },
+      { progress: { stderr: 'x'.repeat(300) } }
+    );
+    const decoder = new BuildEventStreamDecoder(buildEventType);
+
+    const split = data.length - 10;
+    const first = decoder.write(data.subarray(0, split));
+    expect(first).to.have.length(1);
+    expect(decoder.pending).to.be.greaterThan(0);
+
+    const second = decoder.write(data.subarray(split));
+    expect(second).to.have.length(1);
+    expect(decoder.pending).to.equal(0);
+
+    const progress = buildEventType.toObject(second[0]);
+    expect(progress.progress.stderr).to.have.length(300);
+  });
+
+  it('decodes newline-delimited json events', () => {
+    const text = [
+      '{"id":{"started":{}},"started":{"uuid":"abc","command":"test"}}',
+      '',
+      '{"id":{"buildFinished":{}},"finished":{"overallSuccess":true}}',
+    ].join('\n');
+    const messages = decodeJsonBuildEvents(buildEventType, text);
+    expect(messages).to.have.length(2);
+    expect(buildEventType.toObject(messages[0]).started.command).to.equal('test');
+    expect(buildEventType.toObject(messages[1]).finished.overallSuccess).to.equal(true);
+  });
+
+  it('tails a file as it is written', async () => {
+    const tmpdir = await fs.mkdtemp(path.join(os.tmpdir(), 'bepFile'));
+    const filename = path.join(tmpdir, 'build_events.bin');
+    const received: protobuf.Message[] = [];
+    const tailer = new BuildEventFileTailer(buildEventType, filename, m => {
+      received.push(m);
+    });
+    try {
+      // file does not exist yet
+      await tailer.poll();
+      expect(received).to.have.length(0);
+
+      const data = encodeDelimited({ started: { uuid: 'a' } }, { started: { uuid: 'b' } });
+      await fs.writeFile(filename, data.subarray(0, data.length - 1));
+      await tailer.poll();
+      expect(received).to.have.length(1);
+
+      await fs.appendFile(filename, data.subarray(data.length - 1));
+      await tailer.close();
+      expect(received).to.have.length(2);
+    } finally {
+      await fs.remove(tmpdir);
+    }
+  });
+
+  it('recovers from a failed poll and awaits the callback', async () => {
+    const tmpdir = await fs.mkdtemp(path.join(os.tmpdir(), 'bepFile'));
+    const filename = path.join(tmpdir, 'build_events.bin');
+    const handled: string[] = [];
+    const tailer = new BuildEventFileTailer(buildEventType, filename, async m => {
+      const uuid = buildEventType.toObject(m).started.uuid;
+      if (uuid === 'bad') {
+        throw new Error('handler failed');
+      }
+      await new Promise(resolve => setTimeout(resolve, 1));
+      handled.push(uuid);
+    });
+    try {
+      await fs.writeFile(filename, encodeDelimited({ started: { uuid: 'bad' } }));
+      let error: Error | undefined;
+      await tailer.poll().catch(e => (error = e));
+      expect(error?.message).to.equal('handler failed');
+
+      await fs.appendFile(filename, encodeDelimited({ started: { uuid: 'good' } }));
+      await tailer.poll();
+      expect(handled).to.deep.equal(['good']);
+      await tailer.close();
+    } finally {
+      await fs.remove(tmpdir);
+    }
+  });
+
+  describe('detectBuildEventFileFormat', () => {
+    const cases: {
+      d: string; // description
+      filename: string;
+      data: Buffer;
+      want: BuildEventFileFormat;
+    }[] = [
+      {
+        d: 'json extension',
+        filename: 'bep.json',
+        data: Buffer.from(''),
+        want: BuildEventFileFormat.Json,
+      },
+      {
+        d: 'json content',
+        filename: 'bep.out',
+        data: Buffer.from('{"id":{}}'),
+        want: BuildEventFileFormat.Json,
+      },
+      {
+        d: 'binary content',
+        filename: 'bep.out',
+        data: Buffer.from([0x7b, 0x0a, 0x02]),
+        want: BuildEventFileFormat.Binary,
+      },
+    ];
+
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(detectBuildEventFileFormat(tc.filename, tc.data)).to.equal(tc.want);
+      });
+    });
+  });
+});
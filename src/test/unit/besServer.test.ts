@@ -0,0 +1,117 @@
+'use strict';
+
+import * as grpc from '@grpc/grpc-js';
+import * as protobuf from 'protobufjs';
+import * as vscode from 'vscode';
+// registers google/protobuf/descriptor.proto, imported by failure_details.proto
+import '@grpc/proto-loader';
+import fs = require('fs-extra');
+import os = require('os');
+import path = require('path');
+import { expect } from 'chai';
+import { afterEach, before, beforeEach, describe, it } from 'mocha';
+import { BuildEventProtocolHandler } from '../../bezel/bepHandler';
+import { BEPRunner } from '../../bezel/bepRunner';
+import { loadPublishBuildEventServiceProtos } from '../../bezel/bes';
+import { LocalBuildEventService } from '../../bezel/besServer';
+import { LocalBuildEventServiceSettings } from '../../bezel/configuration';
+
+const protoDir = path.join(__dirname, '..', '..', '..', 'proto');
+
+const invocationId = '0b6a3c32-3f27-4b4e-9d44-5b5f3c0c7a01';
+
+describe('besServer', function () {
+  let buildEventType: protobuf.Type;
+  let tmpPath: string;
+  let service: LocalBuildEventService;
+  let received: string[];
+  const proto = loadPublishBuildEventServiceProtos(
+    path.join(protoDir, 'publish_build_event.proto')
+  );
+
+  before(async () => {
+    const root = await protobuf.load(path.join(protoDir, 'build_event_stream.proto'));
+    buildEventType = root.lookupType('build_event_stream.BuildEvent');
+  });
+
+  beforeEach(async () => {
+    tmpPath = await fs.mkdtemp(path.join(os.tmpdir(), 'bes-'));
+    received = [];
+    const emitter = new vscode.EventEmitter<any>();
+    emitter.event(e => received.push(e.bes.payload));
+    const bepRunner = {
+      isRunning: false,
+      newBuildEventProtocolHandler: async (token: vscode.CancellationToken) =>
+        new BuildEventProtocolHandler(buildEventType, emitter, token),
+    };
+    const settings = {
+      configCtx: { globalStorageUri: vscode.Uri.file(path.join(tmpPath, 'storage')) },
+      onDidConfigurationChange: () => undefined,
+      onDidConfigurationError: () => undefined,
+      get: async () => ({ enabled: true, address: 'localhost:0', maxInvocations: 5 }),
+    };
+    service = new LocalBuildEventService(
+      settings as unknown as LocalBuildEventServiceSettings,
+      bepRunner as unknown as BEPRunner,
+      proto
+    );
+    await service.startInternal();
+  });
+
+  afterEach(async () => {
+    await service.dispose();
+    await fs.remove(tmpPath);
+  });
+
+  async function publish(streamInvocationId: string, events: any[]): Promise<number> {
+    const client = new proto.google.devtools.build.v1.PublishBuildEvent(
+      service.backendAddress!.replace('grpc://', ''),
+      grpc.credentials.createInsecure()
+    );
+    const stream = client.PublishBuildToolEventStream();
+    let acks = 0;
+    stream.on('data', () => acks++);
+    const done = new Promise(resolve => stream.on('end', resolve));
+    events.forEach((e, i) =>
+      stream.write({
+        orderedBuildEvent: {
+          streamId: { invocationId: streamInvocationId, buildId: 'build' },
+          sequenceNumber: i + 1,
+          event: {
+            bazelEvent: {
+              type_url: 'type.googleapis.com/build_event_stream.BuildEvent',
+              value: buildEventType.encode(buildEventType.fromObject(e)).finish(),
+            },
+          },
+        },
+      })
+    );
+    stream.end();
+    await done;
+    client.close();
+    return acks;
+  }
+
+  const events = [
+    { started: { uuid: invocationId, command: 'build', startTimeMillis: 1000 } },
+    { id: { pattern: { pattern: ['//...'] } }, expanded: {} },
+    { finished: { overallSuccess: true, exitCode: { name: 'SUCCESS' } } },
+  ];
+
+  it('records and forwards the events', async () => {
+    expect(await publish(invocationId, events)).to.equal(3);
+    expect(received).to.deep.equal(['started', 'expanded', 'finished']);
+    const invocations = await service.store.list();
+    expect(
+      invocations.map(inv => [inv.invocationId, inv.command, inv.patterns, inv.success])
+    ).to.deep.equal([[invocationId, 'build', ['//...'], true]]);
+  });
+
+  it('does not record invalid invocation ids', async () => {
+    expect(await publish('../../escape', events)).to.equal(3);
+    expect(received).to.deep.equal(['started', 'expanded', 'finished']);
+    expect(await service.store.list()).to.deep.equal([]);
+    expect(fs.existsSync(path.join(tmpPath, 'escape'))).to.be.false;
+    expect(fs.existsSync(path.join(tmpPath, 'storage', 'escape'))).to.be.false;
+  });
+});
@@ -0,0 +1,166 @@
+'use strict';
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import {
+  categoryFix,
+  diffLines,
+  suppressionComment,
+  TextReplacement,
+} from '../../buildifier/codeActions';
+
+function apply(text: string, replacements: TextReplacement[]): string {
+  for (const r of replacements.slice().reverse()) {
+    text = text.slice(0, r.start) + r.text + text.slice(r.end);
+  }
+  return text;
+}
+
+describe('buildifier codeActions', function () {
+  describe('diffLines', () => {
+    const cases: {
+      d: string; // description
+      original: string;
+      modified: string;
+      lines: [number, number][]; // startLine, endLine of each replacement
+    }[] = [
+      {
+        d: 'identical',
+        original: 'a\nb\n',
+        modified: 'a\nb\n',
+        lines: [],
+      },
+      {
+        d: 'changed line',
+        original: 'a\nb\nc\n',
+        modified: 'a\nB\nc\n',
+        lines: [[1, 2]],
+      },
+      {
+        d: 'removed line',
+        original: 'load("a")\nload("b")\n\nx()\n',
+        modified: 'load("a")\n\nx()\n',
+        lines: [[1, 2]],
+      },
+      {
+        d: 'inserted lines',
+        original: 'a\nc\n',
+        modified: 'a\nb1\nb2\nc\n',
+        lines: [[1, 1]],
+      },
+      {
+        d: 'separate hunks',
+        original: 'a\nb\nc\nd\ne\n',
+        modified: 'A\nb\nc\nd\nE\n',
+        lines: [
+          [0, 1],
+          [4, 5],
+        ],
+      },
+      {
+        d: 'missing trailing newline',
+        original: 'a\nb',
+        modified: 'a\nb\n',
+        lines: [[2, 2]],
+      },
+      {
+        d: 'deleted trailing lines',
+        original: 'a\nb\nc',
+        modified: 'a',
+        lines: [[1, 3]],
+      },
+      {
+        d: 'moved line',
+        original: 'load("b")\nload("a")\nx()\ny()\n',
+        modified: 'load("a")\nload("b")\nx()\ny()\n',
+        lines: [
+          [0, 1],
+          [2, 2],
+        ],
+      },
+      {
+        d: 'interleaved changes',
+        original: 'a\nb\nc\nd\ne\nf\ng\n',
+        modified: 'a\nB\nc\nd\ne\nf2\nf3\ng\n',
+        lines: [
+          [1, 2],
+          [5, 6],
+        ],
+      },
+    ];
+
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        const replacements = diffLines(tc.original, tc.modified);
+        expect(replacements.map(r => [r.startLine, r.endLine])).to.deep.equal(tc.lines);
+        expect(apply(tc.original, replacements)).to.equal(tc.modified);
+      });
+    });
+  });
+
+  it('diffLines of a large file', () => {
+    const lines = Array.from({ length: 20000 }, (_, i) => `x${i} = ${i}`);
+    const modified = lines.slice();
+    modified[10] = 'changed = 1';
+    modified.splice(15000, 1);
+    const original = lines.join('\n') + '\n';
+    const replacements = diffLines(original, modified.join('\n') + '\n');
+    expect(replacements.map(r => [r.startLine, r.endLine])).to.deep.equal([
+      [10, 11],
+      [15000, 15001],
+    ]);
+  });
+
+  it('diffLines of unrelated texts', () => {
+    const original = Array.from({ length: 3000 }, (_, i) => `a${i}`).join('\n');
+    const modified = Array.from({ length: 3000 }, (_, i) => `b${i}`).join('\n');
+    const replacements = diffLines(original, modified);
+    expect(apply(original, replacements)).to.equal(modified);
+  });
+
+  describe('categoryFix', () => {
+    const cases: {
+      d: string; // description
+      original: string;
+      formatted: string;
+      fixed: string;
+      want: string;
+    }[] = [
+      {
+        d: 'formatted file',
+        original: 'load("b")\nload("a")\n',
+        formatted: 'load("b")\nload("a")\n',
+        fixed: 'load("a")\nload("b")\n',
+        want: 'load("a")\nload("b")\n',
+      },
+      {
+        d: 'drops the formatting',
+        original: 'load("b")\nload("a")\n\nx(  )\n',
+        formatted: 'load("b")\nload("a")\n\nx()\n',
+        fixed: 'load("a")\nload("b")\n\nx()\n',
+        want: 'load("a")\nload("b")\n\nx(  )\n',
+      },
+      {
+        d: 'nothing to fix',
+        original: 'x(  )\n',
+        formatted: 'x()\n',
+        fixed: 'x()\n',
+        want: 'x(  )\n',
+      },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        const replacements = categoryFix(tc.original, tc.formatted, tc.fixed);
+        expect(apply(tc.original, replacements)).to.equal(tc.want);
+      });
+    });
+  });
+
+  describe('suppressionComment', () => {
+    it('keeps the indentation', () => {
+      expect(suppressionComment('    srcs = glob(["*"]),', 'no-glob')).to.equal(
+        '    # buildifier: disable=no-glob\n'
+      );
+    });
+  });
+});
@@ -0,0 +1,178 @@
+'use strict';
+
+import fs = require('fs-extra');
+import path = require('path');
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import {
+  allWarnings,
+  buildifierConfigArgs,
+  defaultWarnings,
+  enabledWarnings,
+  findBuildifierConfig,
+  parseBuildifierConfig,
+  updateConfigWarnings,
+  warningsListOf,
+} from '../../buildifier/configFile';
+
+describe('buildifier config file', function () {
+  describe('parseBuildifierConfig', () => {
+    const cases: { d: string; input: string; error?: string }[] = [
+      { d: 'valid', input: '{"warningsList": ["-print"], "tables": "tables.json"}' },
+      { d: 'not json', input: '{', error: 'invalid buildifier config .buildifier.json: ' },
+      {
+        d: 'not an object',
+        input: '[]',
+        error: 'invalid buildifier config .buildifier.json: expected an object',
+      },
+      {
+        d: 'bad warningsList',
+        input: '{"warningsList": "print"}',
+        error: 'warningsList must be a list of strings',
+      },
+      { d: 'bad tables', input: '{"tables": 1}', error: 'tables must be a string' },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        if (tc.error) {
+          expect(() => parseBuildifierConfig(tc.input, '.buildifier.json')).to.throw(tc.error);
+        } else {
+          expect(parseBuildifierConfig(tc.input, '.buildifier.json')).to.deep.equal(
+            JSON.parse(tc.input)
+          );
+        }
+      });
+    });
+  });
+
+  describe('enabledWarnings', () => {
+    const cases: { d: string; spec?: string; added?: string[]; removed?: string[] }[] = [
+      { d: 'unset', spec: undefined },
+      { d: 'default', spec: 'default' },
+      {
+        d: 'changes',
+        spec: '+unsorted-dict-items,-print',
+        added: ['unsorted-dict-items'],
+        removed: ['print'],
+      },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        const want = defaultWarnings();
+        (tc.added || []).forEach(w => want.add(w));
+        (tc.removed || []).forEach(w => want.delete(w));
+        expect(Array.from(enabledWarnings(tc.spec)).sort()).to.deep.equal(Array.from(want).sort());
+      });
+    });
+
+    it('all', () => {
+      expect(enabledWarnings('all').size).to.equal(allWarnings.length);
+    });
+
+    it('list', () => {
+      expect(Array.from(enabledWarnings('print, load'))).to.deep.equal(['print', 'load']);
+    });
+  });
+
+  it('warningsListOf', () => {
+    const enabled = defaultWarnings();
+    expect(warningsListOf(enabled)).to.deep.equal([]);
+    enabled.delete('print');
+    enabled.add('native-cc');
+    expect(warningsListOf(enabled)).to.deep.equal(['+native-cc', '-print']);
+    expect(enabledWarnings(warningsListOf(enabled).join(','))).to.deep.equal(enabled);
+  });
+
+  describe('updateConfigWarnings', () => {
+    const cases: { d: string; text?: string; list: string[]; want: any }[] = [
+      { d: 'new file', list: ['-print'], want: { warningsList: ['-print'] } },
+      {
+        d: 'keeps other fields',
+        text: '{"mode": "fix", "warnings": "all", "tables": "t.json"}',
+        list: ['-load'],
+        want: { mode: 'fix', tables: 't.json', warningsList: ['-load'] },
+      },
+      {
+        d: 'defaults',
+        text: '{"lint": "warn", "warningsList": ["-print"]}',
+        list: [],
+        want: { lint: 'warn' },
+      },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        const text = updateConfigWarnings(tc.text, '.buildifier.json', tc.list);
+        expect(text.endsWith('\n')).to.be.true;
+        expect(JSON.parse(text)).to.deep.equal(tc.want);
+      });
+    });
+  });
+
+  describe('buildifierConfigArgs', () => {
+    const config = {
+      warningsList: ['-print'],
+      tables: 'tools/tables.json',
+      addTables: '/etc/add_tables.json',
+    };
+    const cases: { d: string; lint: boolean; warnings?: string[]; want: string[] }[] = [
+      {
+        d: 'format',
+        lint: false,
+        want: [
+          `--tables=${path.resolve('/ws', 'tools/tables.json')}`,
+          `--add_tables=${path.resolve('/etc/add_tables.json')}`,
+        ],
+      },
+      {
+        d: 'lint',
+        lint: true,
+        want: [
+          `--tables=${path.resolve('/ws', 'tools/tables.json')}`,
+          `--add_tables=${path.resolve('/etc/add_tables.json')}`,
+          '--warnings=-print',
+        ],
+      },
+      {
+        d: 'explicit warnings',
+        lint: true,
+        warnings: ['load'],
+        want: [
+          `--tables=${path.resolve('/ws', 'tools/tables.json')}`,
+          `--add_tables=${path.resolve('/etc/add_tables.json')}`,
+          '--warnings=load',
+        ],
+      },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(buildifierConfigArgs(config, '/ws', tc.lint, tc.warnings)).to.deep.equal(tc.want);
+      });
+    });
+
+    it('no config', () => {
+      expect(buildifierConfigArgs(undefined, '/ws', true)).to.deep.equal([]);
+    });
+  });
+
+  it('findBuildifierConfig', () => {
+    expect(findBuildifierConfig('/ws', undefined, {})).to.equal(
+      path.join('/ws', '.buildifier.json')
+    );
+    expect(findBuildifierConfig('/ws', undefined, { BUILDIFIER_CONFIG: 'tools/b.json' })).to.equal(
+      path.resolve('/ws', 'tools/b.json')
+    );
+    expect(
+      findBuildifierConfig('/ws', 'config/buildifier.json', { BUILDIFIER_CONFIG: 'tools/b.json' })
+    ).to.equal(path.resolve('/ws', 'config/buildifier.json'));
+  });
+
+  it('schema lists all warnings', async () => {
+    const schema = await fs.readJson(
+      path.join(__dirname, '..', '..', '..', 'schemas', 'buildifier.schema.json')
+    );
+    const warnings = (schema.properties.warningsList.items.enum as string[]).filter(
+      w => !(w === 'all' || w === 'default' || w.startsWith('+') || w.startsWith('-'))
+    );
+    expect(warnings).to.deep.equal(allWarnings);
+  });
+});
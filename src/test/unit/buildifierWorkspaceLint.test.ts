@@ -0,0 +1,118 @@
+'use strict';
+
+import fs = require('fs-extra');
+import * as os from 'os';
+import * as path from 'path';
+import { expect } from 'chai';
+import { after, before, describe, it } from 'mocha';
+import {
+  describeFailures,
+  findBuildifierFiles,
+  isIgnored,
+  parseBazelIgnore,
+  parseSyntaxErrors,
+} from '../../buildifier/workspaceLint';
+
+describe('buildifier workspaceLint', function () {
+  describe('parseBazelIgnore', () => {
+    it('skips comments and normalizes paths', () => {
+      expect(parseBazelIgnore('# comment\n\nnode_modules\n./third_party/go/\r\n')).to.deep.equal([
+        'node_modules',
+        'third_party/go',
+      ]);
+    });
+  });
+
+  describe('isIgnored', () => {
+    const ignored = ['node_modules', 'third_party/go'];
+    const cases: { d: string; input: string; want: boolean }[] = [
+      { d: 'exact', input: 'node_modules', want: true },
+      { d: 'nested', input: 'third_party/go/x/BUILD', want: true },
+      { d: 'sibling prefix', input: 'third_party/golang', want: false },
+      { d: 'unrelated', input: 'src/BUILD', want: false },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(isIgnored(tc.input, ignored)).to.equal(tc.want);
+      });
+    });
+  });
+
+  describe('parseSyntaxErrors', () => {
+    it('keys errors by filename', () => {
+      const errors = parseSyntaxErrors('pkg/BUILD:3:5: syntax error near )\nother output\n');
+      expect(Array.from(errors.keys())).to.deep.equal(['pkg/BUILD']);
+      expect(errors.get('pkg/BUILD')).to.deep.equal({
+        start: { line: 3, column: 5 },
+        end: { line: 3, column: 5 },
+        category: 'invalid-input',
+        actionable: false,
+        message: 'syntax error near )',
+      });
+    });
+  });
+
+  describe('describeFailures', () => {
+    const cases: {
+      d: string; // description
+      failures: { files: string[]; error: string }[];
+      want: string;
+    }[] = [
+      {
+        d: 'one batch',
+        failures: [{ files: ['a/BUILD', 'b/BUILD'], error: 'buildifier not found' }],
+        want: 'failed to check 2 files: buildifier not found',
+      },
+      {
+        d: 'several batches',
+        failures: [
+          { files: ['a/BUILD'], error: 'killed' },
+          { files: ['b/BUILD', 'c/BUILD'], error: 'timeout' },
+        ],
+        want: 'failed to check 3 files: killed (and 1 more errors)',
+      },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(describeFailures(tc.failures)).to.equal(tc.want);
+      });
+    });
+  });
+
+  describe('findBuildifierFiles', () => {
+    let root: string;
+
+    before(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'buildifier-'));
+      const files = [
+        'WORKSPACE',
+        'BUILD.bazel',
+        'defs.bzl',
+        'README.md',
+        'pkg/BUILD',
+        'pkg/sub/rules.bzl',
+        'ignored/BUILD',
+        '.git/BUILD',
+        'bazel-out/BUILD',
+      ];
+      for (const f of files) {
+        fs.outputFileSync(path.join(root, f), '');
+      }
+      fs.writeFileSync(path.join(root, '.bazelignore'), 'ignored\n');
+    });
+
+    after(() => {
+      fs.removeSync(root);
+    });
+
+    it('respects .bazelignore', async () => {
+      expect(await findBuildifierFiles(root)).to.deep.equal([
+        'BUILD.bazel',
+        'WORKSPACE',
+        'defs.bzl',
+        'pkg/BUILD',
+        'pkg/sub/rules.bzl',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,230 @@
+'use strict';
+
+import fs = require('fs-extra');
+import os = require('os');
+import path = require('path');
+import { expect } from 'chai';
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import {
+  labelRepository,
+  parseRunUnderOutput,
+  resolveWorkspaceTool,
+  workspaceDeclaresTarget,
+} from '../../buildifier/workspaceTool';
+import {
+  findPinnedBazel,
+  isConcreteBazelVersion,
+  parseBazeliskrc,
+  readPinnedBazelVersion,
+} from '../../bezel/bazelisk';
+
+describe('buildifier workspace tool', function () {
+  let tmpPath: string;
+
+  beforeEach(async () => {
+    tmpPath = await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-tool-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmpPath);
+  });
+
+  describe('labelRepository', () => {
+    const cases: { d: string; label: string; want: string | undefined }[] = [
+      {
+        d: 'external',
+        label: '@com_github_bazelbuild_buildtools//buildifier',
+        want: 'com_github_bazelbuild_buildtools',
+      },
+      { d: 'canonical', label: '@@buildtools~//buildozer:buildozer', want: 'buildtools~' },
+      { d: 'main repository', label: '//tools/buildifier', want: undefined },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(labelRepository(tc.label)).to.equal(tc.want);
+      });
+    });
+  });
+
+  describe('workspaceDeclaresTarget', () => {
+    const target = '@com_github_bazelbuild_buildtools//buildifier';
+    const cases: { d: string; files: { [name: string]: string }; want: boolean }[] = [
+      {
+        d: 'http_archive',
+        files: { WORKSPACE: 'http_archive(\n    name = "com_github_bazelbuild_buildtools",\n)' },
+        want: true,
+      },
+      {
+        d: 'bazel_dep',
+        files: {
+          'MODULE.bazel':
+            "bazel_dep(name = 'buildtools', repo_name = 'com_github_bazelbuild_buildtools')",
+        },
+        want: true,
+      },
+      { d: 'other repository', files: { 'WORKSPACE.bazel': 'name = "rules_go"' }, want: false },
+      { d: 'no workspace file', files: {}, want: false },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, async () => {
+        for (const name of Object.keys(tc.files)) {
+          await fs.writeFile(path.join(tmpPath, name), tc.files[name]);
+        }
+        expect(await workspaceDeclaresTarget(tmpPath, target)).to.equal(tc.want);
+      });
+    });
+
+    it('main repository', async () => {
+      expect(await workspaceDeclaresTarget(tmpPath, '//tools:buildifier')).to.be.true;
+    });
+  });
+
+  it('parseRunUnderOutput', () => {
+    expect(
+      parseRunUnderOutput(
+        '\nbazel-out/k8-fastbuild/bin/external/x/buildifier/buildifier_/buildifier\n'
+      )
+    ).to.equal('bazel-out/k8-fastbuild/bin/external/x/buildifier/buildifier_/buildifier');
+    expect(parseRunUnderOutput('')).to.be.undefined;
+  });
+
+  describe('resolveWorkspaceTool', () => {
+    const target = '@com_github_bazelbuild_buildtools//buildifier';
+    const binary =
+      'bazel-out/k8-fastbuild/bin/external/buildtools/buildifier/buildifier_/buildifier';
+
+    it('uses the output files of cquery', async () => {
+      await fs.outputFile(path.join(tmpPath, binary), '');
+      const calls: string[] = [];
+      const got = await resolveWorkspaceTool(
+        async args => {
+          calls.push(args[0]);
+          return args[0] === 'cquery' ? binary + '\n' : '';
+        },
+        tmpPath,
+        target
+      );
+      expect(got).to.equal(path.join(tmpPath, binary));
+      expect(calls).to.deep.equal(['build', 'cquery']);
+    });
+
+    it('falls back to bazel run', async () => {
+      const calls: string[] = [];
+      const got = await resolveWorkspaceTool(
+        async args => {
+          calls.push(args[0]);
+          if (args[0] === 'cquery') {
+            throw new Error('unrecognized option: --output=files');
+          }
+          return args[0] === 'run' ? `/abs/${binary} \n` : '';
+        },
+        tmpPath,
+        target
+      );
+      expect(got).to.equal(`/abs/${binary}`);
+      expect(calls).to.deep.equal(['build', 'cquery', 'run']);
+    });
+
+    it('fails if the build fails', async () => {
+      let error: Error | undefined;
+      await resolveWorkspaceTool(
+        async () => {
+          throw new Error('no such package');
+        },
+        tmpPath,
+        target
+      ).catch(e => (error = e));
+      expect(error?.message).to.equal('no such package');
+    });
+  });
+
+  describe('bazelisk', () => {
+    it('parseBazeliskrc', () => {
+      const vars = parseBazeliskrc(
+        '# pinned\nUSE_BAZEL_VERSION = 6.4.0\nBAZELISK_BASE_URL=https://mirror/bazel\nbogus\n'
+      );
+      expect(Array.from(vars.entries())).to.deep.equal([
+        ['USE_BAZEL_VERSION', '6.4.0'],
+        ['BAZELISK_BASE_URL', 'https://mirror/bazel'],
+      ]);
+    });
+
+    describe('readPinnedBazelVersion', () => {
+      const cases: {
+        d: string;
+        env?: { [key: string]: string };
+        files: { [name: string]: string };
+        want?: { version: string; source: string };
+      }[] = [
+        {
+          d: 'environment first',
+          env: { USE_BAZEL_VERSION: '7.0.0' },
+          files: { 'ws/.bazelversion': '6.4.0' },
+          want: { version: '7.0.0', source: 'USE_BAZEL_VERSION' },
+        },
+        {
+          d: 'workspace bazeliskrc',
+          files: {
+            'ws/.bazeliskrc': 'USE_BAZEL_VERSION=6.3.2',
+            'home/.bazeliskrc': 'USE_BAZEL_VERSION=5.4.1',
+            'ws/.bazelversion': '6.4.0',
+          },
+          want: { version: '6.3.2', source: 'ws/.bazeliskrc' },
+        },
+        {
+          d: 'home bazeliskrc',
+          files: { 'home/.bazeliskrc': 'USE_BAZEL_VERSION=5.4.1', 'ws/.bazelversion': '6.4.0' },
+          want: { version: '5.4.1', source: 'home/.bazeliskrc' },
+        },
+        {
+          d: 'bazelversion',
+          files: { 'ws/.bazeliskrc': '# nothing\n', 'ws/.bazelversion': '6.4.0\n# comment\n' },
+          want: { version: '6.4.0', source: 'ws/.bazelversion' },
+        },
+        { d: 'not pinned', files: {} },
+      ];
+      cases.forEach(tc => {
+        it(tc.d, async () => {
+          for (const name of Object.keys(tc.files)) {
+            await fs.outputFile(path.join(tmpPath, name), tc.files[name]);
+          }
+          const got = readPinnedBazelVersion(
+            path.join(tmpPath, 'ws'),
+            tc.env || {},
+            path.join(tmpPath, 'home')
+          );
+          if (got && got.source !== 'USE_BAZEL_VERSION') {
+            got.source = path.relative(tmpPath, got.source).split(path.sep).join('/');
+          }
+          expect(got).to.deep.equal(tc.want);
+        });
+      });
+    });
+
+    it('isConcreteBazelVersion', () => {
+      expect(
+        ['6.4.0', '7.0.0rc2', '7.1.0-pre.20240101.1'].map(isConcreteBazelVersion)
+      ).to.deep.equal([true, true, true]);
+      expect(['latest', '6.x', 'myfork/6.4.0'].map(isConcreteBazelVersion)).to.deep.equal([
+        false,
+        false,
+        false,
+      ]);
+    });
+
+    it('findPinnedBazel', async () => {
+      const bin = path.join(tmpPath, 'bin');
+      await fs.outputFile(path.join(bin, 'bazel-6.4.0'), '');
+      const env = { PATH: ['/nonexistent', bin].join(':') };
+      expect(findPinnedBazel({ version: '6.4.0', source: '' }, env, 'linux')).to.equal(
+        path.join(bin, 'bazel-6.4.0')
+      );
+      expect(findPinnedBazel({ version: 'latest', source: '' }, env, 'linux')).to.be.undefined;
+
+      await fs.outputFile(path.join(bin, 'bazelisk'), '');
+      expect(findPinnedBazel({ version: 'latest', source: '' }, env, 'linux')).to.equal(
+        path.join(bin, 'bazelisk')
+      );
+    });
+  });
+});
@@ -0,0 +1,126 @@
+'use strict';
+
+import fs = require('fs-extra');
+import * as os from 'os';
+import * as path from 'path';
+import { expect } from 'chai';
+import { after, before, describe, it } from 'mocha';
+import {
+  BuildozerTarget,
+  groupTargetsByBuildFile,
+  isEditCommand,
+  parseBuildozerTarget,
+} from '../../buildozer/edit';
+
+describe('buildozer edit', function () {
+  describe('isEditCommand', () => {
+    it('detects print commands', () => {
+      expect(isEditCommand('add deps //foo')).to.be.true;
+      expect(isEditCommand(' print name srcs')).to.be.false;
+      expect(isEditCommand('print_comment')).to.be.false;
+    });
+  });
+
+  describe('parseBuildozerTarget', () => {
+    const cases: {
+      d: string; // description
+      input: string;
+      cwdPkg: string;
+      want: BuildozerTarget | string;
+    }[] = [
+      {
+        d: 'absolute',
+        input: '//pkg/a:rule',
+        cwdPkg: 'other',
+        want: { target: '//pkg/a:rule', pkg: 'pkg/a', recursive: false },
+      },
+      {
+        d: 'relative rule',
+        input: ':rule',
+        cwdPkg: 'pkg',
+        want: { target: ':rule', pkg: 'pkg', recursive: false },
+      },
+      {
+        d: 'relative package',
+        input: 'sub:%java_library',
+        cwdPkg: 'pkg',
+        want: { target: 'sub:%java_library', pkg: 'pkg/sub', recursive: false },
+      },
+      {
+        d: 'recursive',
+        input: '//pkg/...:*',
+        cwdPkg: '',
+        want: { target: '//pkg/...:*', pkg: 'pkg', recursive: true },
+      },
+      {
+        d: 'recursive root',
+        input: '//...:__pkg__',
+        cwdPkg: '',
+        want: { target: '//...:__pkg__', pkg: '', recursive: true },
+      },
+      {
+        d: 'stdin',
+        input: '-:all_tests',
+        cwdPkg: '',
+        want: 'reads from stdin',
+      },
+      {
+        d: 'external',
+        input: '@foo//bar:baz',
+        cwdPkg: '',
+        want: 'external repository',
+      },
+    ];
+
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        if (typeof tc.want === 'string') {
+          expect(() => parseBuildozerTarget(tc.input, tc.cwdPkg)).to.throw(tc.want);
+        } else {
+          expect(parseBuildozerTarget(tc.input, tc.cwdPkg)).to.deep.equal(tc.want);
+        }
+      });
+    });
+  });
+
+  describe('groupTargetsByBuildFile', () => {
+    let root: string;
+
+    before(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'buildozer-'));
+      for (const f of ['WORKSPACE', 'a/BUILD.bazel', 'a/b/BUILD', 'a/b/c/x.txt', 'd/BUILD']) {
+        fs.outputFileSync(path.join(root, f), '');
+      }
+    });
+
+    after(() => {
+      fs.removeSync(root);
+    });
+
+    it('expands and groups targets', async () => {
+      const groups = await groupTargetsByBuildFile(root, path.join(root, 'a'), [
+        ':x',
+        '//a:y',
+        '//a/...:*',
+        '//d',
+      ]);
+      expect(
+        Array.from(groups.entries()).map(([f, t]) => [path.relative(root, f), t])
+      ).to.deep.equal([
+        [path.join('a', 'BUILD.bazel'), ['//a:x', '//a:y', '//a:*']],
+        [path.join('a', 'b', 'BUILD'), ['//a/b:*']],
+        [path.join('d', 'BUILD'), ['//d']],
+      ]);
+    });
+
+    it('fails for missing packages', async () => {
+      let err: Error | undefined;
+      try {
+        await groupTargetsByBuildFile(root, root, ['//missing:x']);
+      } catch (e) {
+        err = e;
+      }
+      expect(err?.message).to.contain('no BUILD file found');
+    });
+  });
+});
@@ -0,0 +1,137 @@
+'use strict';
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import {
+  fieldText,
+  filterRows,
+  parseOutputJson,
+  printRows,
+  PrintRow,
+  sortRows,
+  toCsv,
+} from '../../buildozer/printTable';
+
+const columns = ['label', 'kind', 'visibility', 'testonly'];
+
+const rows: PrintRow[] = [
+  {
+    index: 0,
+    label: '//a:lib',
+    kind: 'go_library',
+    values: ['//visibility:public', undefined],
+  },
+  {
+    index: 1,
+    label: '//a:lib_test',
+    kind: 'go_test',
+    values: ['//a:__pkg__', 'True'],
+  },
+  {
+    index: 2,
+    label: '//b:bin',
+    kind: 'go_binary',
+    values: ['//visibility:private', 'False'],
+  },
+];
+
+describe('buildozer print table', function () {
+  describe('parseOutputJson', () => {
+    it('reads a single object', () => {
+      const records = parseOutputJson(
+        JSON.stringify({ records: [{ fields: [{ text: '//a:lib' }] }, { fields: [] }] })
+      );
+      expect(records).to.have.length(2);
+    });
+    it('reads one object per line', () => {
+      const stdout = ['{"fields":[{"text":"//a:lib"}]}', '{"fields":[{"text":"//b:bin"}]}', ''];
+      expect(parseOutputJson(stdout.join('\n'))).to.have.length(2);
+    });
+    it('reads empty output', () => {
+      expect(parseOutputJson('\n')).to.deep.equal([]);
+    });
+  });
+
+  describe('fieldText', () => {
+    const cases: { d: string; input: any; want: string | undefined }[] = [
+      { d: 'text', input: { text: '//a:lib' }, want: '//a:lib' },
+      { d: 'number', input: { number: 12 }, want: '12' },
+      { d: 'list', input: { list: { strings: ['a', 'b'] } }, want: 'a b' },
+      { d: 'wrapped', input: { Value: { Text: 'x' } }, want: 'x' },
+      { d: 'missing', input: { error: 'MISSING' }, want: undefined },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(fieldText(tc.input)).to.equal(tc.want);
+      });
+    });
+  });
+
+  describe('printRows', () => {
+    it('extracts the location', () => {
+      const records = [
+        {
+          fields: [
+            { text: '//a:lib' },
+            { text: 'go_library' },
+            { text: 'a/BUILD.bazel' },
+            { number: 3 },
+            { list: { strings: ['//visibility:public'] } },
+            { error: 'MISSING' },
+          ],
+        },
+      ];
+      expect(printRows(records, '/ws')).to.deep.equal([
+        {
+          index: 0,
+          label: '//a:lib',
+          kind: 'go_library',
+          filename: '/ws/a/BUILD.bazel',
+          line: 3,
+          values: ['//visibility:public', undefined],
+        },
+      ]);
+    });
+  });
+
+  describe('filterRows', () => {
+    const cases: { d: string; filter: string; want: string[] }[] = [
+      { d: 'empty', filter: ' ', want: ['//a:lib', '//a:lib_test', '//b:bin'] },
+      { d: 'any column', filter: 'PUBLIC', want: ['//a:lib'] },
+      { d: 'all terms', filter: '//a: go_test', want: ['//a:lib_test'] },
+      { d: 'column', filter: 'testonly=true', want: ['//a:lib_test'] },
+      { d: 'unknown column', filter: 'foo=bar', want: [] },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(filterRows(rows, columns, tc.filter).map(r => r.label)).to.deep.equal(tc.want);
+      });
+    });
+  });
+
+  describe('sortRows', () => {
+    it('sorts missing values first', () => {
+      expect(sortRows(rows, 3).map(r => r.label)).to.deep.equal([
+        '//a:lib',
+        '//b:bin',
+        '//a:lib_test',
+      ]);
+    });
+    it('sorts descending', () => {
+      expect(sortRows(rows, 1, true).map(r => r.kind)).to.deep.equal([
+        'go_test',
+        'go_library',
+        'go_binary',
+      ]);
+    });
+  });
+
+  describe('toCsv', () => {
+    it('quotes cells', () => {
+      const row = { ...rows[0], values: ['a, "b"', undefined] };
+      expect(toCsv(columns, [row])).to.equal(
+        'label,kind,visibility,testonly\r\n//a:lib,go_library,"a, ""b""",'
+      );
+    });
+  });
+});
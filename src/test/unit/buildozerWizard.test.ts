@@ -0,0 +1,154 @@
+'use strict';
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import {
+  addRecentCommand,
+  allCommands,
+  isAttributePart,
+  ruleAttributeNames,
+  targetKind,
+  templateParts,
+  validateCommandArgs,
+  validateTemplatePart,
+} from '../../buildozer/wizard';
+
+describe('buildozer wizard', function () {
+  describe('templateParts', () => {
+    const cases: { d: string; input: string; want: string[] }[] = [
+      { d: 'empty', input: '', want: [] },
+      { d: 'optional', input: '<attr>? <value>?', want: ['<attr>?', '<value>?'] },
+      {
+        d: 'bracketed group',
+        input: '<rule_kind> <rule_name> [(before|after) <relative_rule_name>]',
+        want: ['<rule_kind>', '<rule_name>', '[(before|after) <relative_rule_name>]'],
+      },
+      { d: 'brackets in part', input: '<path> <[to=]from(s)>', want: ['<path>', '<[to=]from(s)>'] },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(templateParts(tc.input)).to.deep.equal(tc.want);
+      });
+    });
+  });
+
+  describe('isAttributePart', () => {
+    it('matches attribute names', () => {
+      expect(
+        ['<attr>', '<attr>?', '<old_attr>', '<attribute(s)>'].map(isAttributePart)
+      ).to.deep.equal([true, true, true, true]);
+      expect(['<new_attr>', '<value(s)>'].map(isAttributePart)).to.deep.equal([false, false]);
+    });
+  });
+
+  describe('validateTemplatePart', () => {
+    const cases: { d: string; command: string; part: string; value: string; want: string }[] = [
+      { d: 'required', command: 'add', part: '<attr>', value: ' ', want: '<attr> is required' },
+      { d: 'optional', command: 'comment', part: '<attr>?', value: '', want: '' },
+      { d: 'no required args', command: 'print', part: '<attribute(s)>', value: '', want: '' },
+      { d: 'plural', command: 'add', part: '<value(s)>', value: '//a //b', want: '' },
+      {
+        d: 'singular',
+        command: 'add',
+        part: '<attr>',
+        value: 'deps srcs',
+        want: '<attr> takes a single value (escape spaces with a backslash)',
+      },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(validateTemplatePart(allCommands[tc.command], tc.part, tc.value)).to.equal(tc.want);
+      });
+    });
+  });
+
+  describe('validateCommandArgs', () => {
+    const cases: { d: string; command: string; args: string[]; want?: string }[] = [
+      { d: 'valid', command: 'add', args: ['deps', '//a //b'] },
+      { d: 'no args', command: 'delete', args: [] },
+      {
+        d: 'too few',
+        command: 'add',
+        args: ['deps'],
+        want: 'add requires at least 2 argument(s): <attr> <value(s)>',
+      },
+      {
+        d: 'too many',
+        command: 'rename',
+        args: ['a', 'b', 'c'],
+        want: 'rename takes at most 2 argument(s): <old_attr> <new_attr>',
+      },
+      {
+        d: 'unknown',
+        command: 'frobnicate',
+        args: [],
+        want: 'unknown buildozer command "frobnicate"',
+      },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(validateCommandArgs(tc.command, tc.args)).to.equal(tc.want);
+      });
+    });
+  });
+
+  describe('addRecentCommand', () => {
+    it('moves the command to the front', () => {
+      expect(addRecentCommand(['a', 'b', 'c'], 'b')).to.deep.equal(['b', 'a', 'c']);
+    });
+    it('keeps at most max commands', () => {
+      expect(addRecentCommand(['a', 'b'], 'c', 2)).to.deep.equal(['c', 'a']);
+    });
+  });
+
+  describe('targetKind', () => {
+    const items = [{ label: '//a:lib', kind: 'go_library' }];
+    it('finds the listed kind', () => {
+      expect(targetKind('//a:lib', items)).to.equal('go_library');
+    });
+    it('reads kind patterns', () => {
+      expect(targetKind('//a:%java_library', items)).to.equal('java_library');
+    });
+    it('returns undefined for unknown targets', () => {
+      expect(targetKind('//a:*', items)).to.be.undefined;
+    });
+  });
+
+  describe('ruleAttributeNames', () => {
+    const content = [
+      'load("@io_bazel_rules_go//go:def.bzl", go_lib = "go_library")',
+      '',
+      'go_library(',
+      '    name = "a",',
+      '    srcs = ["a.go"],  # importpath = "x"',
+      '    deps = select({"//c:x": [":b"], "//conditions:default": []}),',
+      '    importpath = "example.com/a",',
+      ')',
+      '',
+      'go_test(',
+      '    name = "a_test",',
+      '    embed = [":a"],',
+      '    args = ["--flag=value", "a == b"],',
+      ')',
+      '',
+    ].join('\n');
+    it('lists the attributes of the kind', () => {
+      expect(ruleAttributeNames(content, 'go_library')).to.deep.equal([
+        'deps',
+        'importpath',
+        'name',
+        'srcs',
+      ]);
+    });
+    it('lists the attributes of all rules', () => {
+      expect(ruleAttributeNames(content)).to.deep.equal([
+        'args',
+        'deps',
+        'embed',
+        'importpath',
+        'name',
+        'srcs',
+      ]);
+    });
+  });
+});
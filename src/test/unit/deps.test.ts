@@ -0,0 +1,244 @@
+'use strict';
+
+import fs = require('fs-extra');
+import * as os from 'os';
+import * as path from 'path';
+import { expect } from 'chai';
+import { after, before, describe, it } from 'mocha';
+import { parseBuildRules } from '../../bezel/buildFile';
+import {
+  DepsResolver,
+  findingFix,
+  importCandidates,
+  normalizeLabel,
+  parseGoImports,
+  parseGoPrefix,
+  parseJavaImports,
+  parsePythonImports,
+  parseProtoImports,
+} from '../../bezel/deps';
+
+describe('deps', function () {
+  describe('parseBuildRules', () => {
+    const content = [
+      'load("@rules_go//go:def.bzl", "go_library")',
+      '',
+      'FILES = glob(["*.txt"])',
+      '',
+      'go_library(',
+      '    name = "a",  # comment, with "quotes"',
+      '    srcs = ["a.go", "b.go",],',
+      '    deps = select({":x": []}),',
+      ')',
+    ].join('\n');
+
+    it('parses calls and literal attributes', () => {
+      const rules = parseBuildRules(content);
+      expect(rules.map(r => [r.kind, r.name])).to.deep.equal([
+        ['load', undefined],
+        ['go_library', 'a'],
+      ]);
+      const srcs = rules[1].attrs.get('srcs')!;
+      expect(srcs.literal).to.be.true;
+      expect(srcs.values.map(v => v.value)).to.deep.equal(['a.go', 'b.go']);
+      expect(content.slice(srcs.values[0].start, srcs.values[0].end)).to.equal('"a.go"');
+      expect(rules[1].attrs.get('deps')!.literal).to.be.false;
+    });
+  });
+
+  describe('normalizeLabel', () => {
+    const cases: { d: string; input: string; want: string }[] = [
+      { d: 'relative', input: ':b', want: '//a:b' },
+      { d: 'bare name', input: 'b', want: '//a:b' },
+      { d: 'implicit name', input: '//x/y', want: '//x/y:y' },
+      { d: 'main repo', input: '@//x:y', want: '//x:y' },
+      { d: 'external', input: '@com_google//x', want: '@com_google//x' },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(normalizeLabel(tc.input, 'a')).to.equal(tc.want);
+      });
+    });
+  });
+
+  describe('parseGoImports', () => {
+    it('reads single and grouped imports', () => {
+      const content = [
+        'package a',
+        'import "fmt"',
+        'import (',
+        '  "os"',
+        '  x "example.com/x" // comment',
+        '  // "example.com/commented"',
+        ')',
+      ].join('\n');
+      expect(parseGoImports(content)).to.deep.equal(['fmt', 'os', 'example.com/x']);
+    });
+  });
+
+  describe('parseJavaImports', () => {
+    it('reads classes and static imports', () => {
+      const content = [
+        'package com.example.a;',
+        'import com.example.b.B;',
+        'import static com.example.c.C.helper;',
+        'import java.util.*;',
+      ].join('\n');
+      expect(parseJavaImports(content)).to.deep.equal({
+        pkg: 'com.example.a',
+        imports: ['com.example.b.B', 'com.example.c.C'],
+        wildcards: ['java.util'],
+      });
+    });
+  });
+
+  describe('parsePythonImports', () => {
+    it('reads import and from statements', () => {
+      const content = [
+        'import os, a.b as ab',
+        'from . import sibling',
+        'from ..c import (d,',
+        '    e)',
+      ].join('\n');
+      expect(parsePythonImports(content)).to.deep.equal([
+        { module: 'os', names: [], level: 0 },
+        { module: 'a.b', names: [], level: 0 },
+        { module: '', names: ['sibling'], level: 1 },
+        { module: 'c', names: ['d', 'e'], level: 2 },
+      ]);
+    });
+  });
+
+  describe('parseProtoImports', () => {
+    it('reads imports', () => {
+      expect(parseProtoImports('import "a/b.proto";\nimport public "c.proto";')).to.deep.equal([
+        'a/b.proto',
+        'c.proto',
+      ]);
+    });
+  });
+
+  describe('parseGoPrefix', () => {
+    it('reads gazelle directives and go.mod', () => {
+      expect(parseGoPrefix('# gazelle:prefix example.com/repo\n')).to.equal('example.com/repo');
+      expect(parseGoPrefix('module example.com/mod\n\ngo 1.16\n')).to.equal('example.com/mod');
+    });
+  });
+
+  describe('importCandidates', () => {
+    it('resolves java imports against the source root', () => {
+      const content = 'package com.x;\nimport com.y.Y;\n';
+      expect(importCandidates('java', 'src/main/java/com/x/X.java', content)).to.deep.equal([
+        { name: 'com.y.Y', files: ['src/main/java/com/y/Y.java', 'src/main/java/com/y.java'] },
+      ]);
+    });
+    it('resolves relative python imports', () => {
+      expect(importCandidates('py', 'a/b/m.py', 'from ..c import d\n')).to.deep.equal([
+        { name: '..c', files: ['a/c.py', 'a/c/__init__.py', 'a/c/d.py'] },
+      ]);
+    });
+    it('skips go imports outside the prefix', () => {
+      const content = 'import (\n "fmt"\n "example.com/r/b"\n)\n';
+      expect(importCandidates('go', 'a/a.go', content, 'example.com/r')).to.deep.equal([
+        { name: 'example.com/r/b', goPackage: { dir: 'b', importpath: 'example.com/r/b' } },
+      ]);
+    });
+  });
+
+  describe('DepsResolver', () => {
+    let root: string;
+
+    before(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'deps-'));
+      const files: { [name: string]: string } = {
+        'BUILD.bazel': '# gazelle:prefix example.com/r\n',
+        'a/BUILD.bazel': [
+          'go_library(',
+          '    name = "a",',
+          '    srcs = ["a.go"],',
+          '    importpath = "example.com/r/a",',
+          '    deps = ["//c", "//py:lib"],',
+          ')',
+          'go_test(',
+          '    name = "a_test",',
+          '    srcs = ["a_test.go"],',
+          '    embed = [":a"],',
+          ')',
+        ].join('\n'),
+        'a/a.go': 'package a\n\nimport "example.com/r/b"\n',
+        'a/a_test.go': 'package a\n\nimport "example.com/r/b"\n',
+        'b/BUILD.bazel':
+          'go_library(name = "b", srcs = ["b.go"], importpath = "example.com/r/b")\n',
+        'b/b.go': 'package b\n',
+        'c/BUILD.bazel':
+          'go_library(name = "c", srcs = ["c.go"], importpath = "example.com/r/c")\n',
+        'c/c.go': 'package c\n',
+        'py/BUILD': 'py_library(name = "lib", srcs = ["lib.py"])\n',
+        'py/lib.py': '',
+        'd/BUILD.bazel': [
+          'go_macro(name = "m", srcs = ["m.go"])',
+          'go_library(name = "g", srcs = glob(["*.go"]))',
+          'genrule(name = "gen", srcs = ["in.txt"], outs = ["out.txt"], cmd = "cp $< $@")',
+        ].join('\n'),
+        'd/m.go': 'package d\n',
+        'j/BUILD': [
+          'java_library(name = "main", srcs = ["Main.java"])',
+          'java_library(name = "other", srcs = ["Other.java"])',
+          'java_test(name = "same", srcs = ["MainTest.java"], deps = [":main"])',
+          'java_test(name = "star", srcs = ["StarTest.java"], deps = [":other"])',
+          'java_test(name = "unused", srcs = ["UnusedTest.java"], deps = [":other"])',
+        ].join('\n'),
+        'j/Main.java': 'package j;\n',
+        'j/Other.java': 'package o;\n',
+        'j/MainTest.java': 'package j;\n',
+        'j/StarTest.java': 'package j;\nimport o.*;\n',
+        'j/UnusedTest.java': 'package j;\n',
+      };
+      for (const name of Object.keys(files)) {
+        fs.outputFileSync(path.join(root, name), files[name]);
+      }
+    });
+
+    after(() => {
+      fs.removeSync(root);
+    });
+
+    it('reports missing and unused deps', async () => {
+      const findings = await new DepsResolver(root).analyzePackage('a');
+      expect(findings.map(f => [f.problem, f.target, f.dep, f.importName])).to.deep.equal([
+        ['missing', '//a:a', '//b:b', 'example.com/r/b'],
+        ['unused', '//a:a', '//c:c', undefined],
+      ]);
+      expect(findings.map(findingFix)).to.deep.equal(['add deps //b:b', 'remove deps //c:c']);
+    });
+
+    it('does not report java deps that may be used without an import', async () => {
+      const findings = await new DepsResolver(root).analyzePackage('j');
+      expect(findings.map(f => [f.problem, f.target, f.dep])).to.deep.equal([
+        ['unused', '//j:unused', '//j:other'],
+      ]);
+    });
+
+    it('analyzes the given content of the BUILD file', async () => {
+      const resolver = new DepsResolver(root);
+      const content = '\n' + fs.readFileSync(path.join(root, 'a/BUILD.bazel'), 'utf8');
+      resolver.setPackage('a', path.join(root, 'a/BUILD.bazel'), content);
+      const findings = await resolver.analyzePackage('a');
+      const unused = findings.find(f => f.problem === 'unused');
+      expect(unused && content.slice(unused.start, unused.end)).to.equal('"//c"');
+    });
+
+    it('reports the skipped rules', async () => {
+      const resolver = new DepsResolver(root);
+      expect(await resolver.analyzePackage('d')).to.deep.equal([]);
+      expect(resolver.skipped.map(s => [s.target, s.reason.split(';')[0]])).to.deep.equal([
+        ['//d:m', 'the kind go_macro is not supported'],
+        ['//d:g', 'the srcs attribute of the rule is not a literal list'],
+      ]);
+
+      const withKinds = new DepsResolver(root, new Map([['//d:m', 'go_library']]));
+      await withKinds.analyzePackage('d');
+      expect(withKinds.skipped.map(s => s.target)).to.deep.equal(['//d:g']);
+    });
+  });
+});
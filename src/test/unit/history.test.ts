@@ -0,0 +1,208 @@
+'use strict';
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { BuildEvent as BuildEventStreamEvent } from '../../proto/build_event_stream/BuildEvent';
+import {
+  compareInvocationSummaries,
+  filterHistory,
+  HistoryEntry,
+  HistoryFilter,
+  HistorySource,
+  summarizeBuildEvents,
+  tableRow,
+} from '../../bezel/history';
+
+describe('history', function () {
+  describe('filterHistory', () => {
+    const entries: HistoryEntry[] = [
+      {
+        id: '1',
+        source: HistorySource.Recorded,
+        command: 'build',
+        args: ['build', '//foo:bar'],
+        cwd: '/ws',
+        timeMillis: 3000,
+        success: true,
+      },
+      {
+        id: '2',
+        source: HistorySource.Recorded,
+        command: 'test',
+        args: ['test', '//foo:bar_test'],
+        cwd: '/ws',
+        timeMillis: 2000,
+        success: false,
+      },
+      {
+        id: '3',
+        source: HistorySource.Bzl,
+        command: 'build',
+        args: ['build', '//baz/...'],
+        cwd: '/ws',
+        timeMillis: 1000,
+      },
+    ];
+
+    const cases: {
+      d: string; // description
+      filter: HistoryFilter;
+      want: string[]; // expected ids
+    }[] = [
+      {
+        d: 'empty filter',
+        filter: {},
+        want: ['1', '2', '3'],
+      },
+      {
+        d: 'by command',
+        filter: { command: 'build' },
+        want: ['1', '3'],
+      },
+      {
+        d: 'by success',
+        filter: { success: true },
+        want: ['1'],
+      },
+      {
+        d: 'by failure excludes unknown outcome',
+        filter: { success: false },
+        want: ['2'],
+      },
+      {
+        d: 'by date',
+        filter: { sinceMillis: 2000 },
+        want: ['1', '2'],
+      },
+      {
+        d: 'by text',
+        filter: { text: '//foo' },
+        want: ['1', '2'],
+      },
+      {
+        d: 'combined',
+        filter: { command: 'build', text: 'foo' },
+        want: ['1'],
+      },
+    ];
+
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(filterHistory(entries, tc.filter).map(e => e.id)).to.deep.equal(tc.want);
+      });
+    });
+  });
+
+  describe('summarizeBuildEvents', () => {
+    it('collects targets, tests and failed actions', () => {
+      const events: BuildEventStreamEvent[] = [
+        { payload: 'started', started: { command: 'test', startTimeMillis: '1000' } },
+        { payload: 'expanded', id: { pattern: { pattern: ['//...'] } }, expanded: {} },
+        {
+          payload: 'action',
+          id: { actionCompleted: { label: '//a:lib' } },
+          action: { success: false, type: 'GoCompile' },
+        },
+        {
+          payload: 'completed',
+          id: { targetCompleted: { label: '//a:lib' } },
+          completed: { success: false },
+        },
+        {
+          payload: 'completed',
+          id: { targetCompleted: { label: '//b:test' } },
+          completed: { success: true },
+        },
+        {
+          payload: 'testResult',
+          id: { testResult: { label: '//b:test' } },
+          testResult: { status: 'FAILED' },
+        },
+        {
+          payload: 'testSummary',
+          id: { testSummary: { label: '//b:test' } },
+          testSummary: { overallStatus: 'FLAKY' },
+        },
+        {
+          payload: 'finished',
+          finished: {
+            overallSuccess: false,
+            exitCode: { name: 'BUILD_FAILURE', code: 1 },
+            finishTimeMillis: '3500',
+          },
+        },
+      ];
+
+      const summary = summarizeBuildEvents(events);
+      expect(summary.command).to.equal('test');
+      expect(summary.patterns).to.deep.equal(['//...']);
+      expect(summary.success).to.equal(false);
+      expect(summary.exitCode).to.equal('BUILD_FAILURE');
+      expect(summary.durationMillis).to.equal(2500);
+      expect(Array.from(summary.targets.entries())).to.deep.equal([
+        ['//a:lib', false],
+        ['//b:test', true],
+      ]);
+      expect(Array.from(summary.tests.entries())).to.deep.equal([['//b:test', 'FLAKY']]);
+      expect(summary.failedActions).to.deep.equal(['//a:lib GoCompile']);
+    });
+  });
+
+  describe('compareInvocationSummaries', () => {
+    it('reports changed targets and tests only', () => {
+      const a = summarizeBuildEvents([
+        {
+          payload: 'completed',
+          id: { targetCompleted: { label: '//a:lib' } },
+          completed: { success: false },
+        },
+        {
+          payload: 'completed',
+          id: { targetCompleted: { label: '//b:lib' } },
+          completed: { success: true },
+        },
+        {
+          payload: 'testSummary',
+          id: { testSummary: { label: '//b:test' } },
+          testSummary: { overallStatus: 'PASSED' },
+        },
+      ]);
+      const b = summarizeBuildEvents([
+        {
+          payload: 'completed',
+          id: { targetCompleted: { label: '//a:lib' } },
+          completed: { success: true },
+        },
+        {
+          payload: 'completed',
+          id: { targetCompleted: { label: '//b:lib' } },
+          completed: { success: true },
+        },
+        {
+          payload: 'testSummary',
+          id: { testSummary: { label: '//b:test' } },
+          testSummary: { overallStatus: 'PASSED' },
+        },
+      ]);
+
+      const report = compareInvocationSummaries('a', a, 'b', b);
+      expect(report).to.contain('## Targets');
+      expect(report).to.contain('| `//a:lib` | failure | success |');
+      expect(report).not.to.contain('`//b:lib`');
+      expect(report).not.to.contain('## Tests');
+    });
+
+    it('notes when there are no differences', () => {
+      const a = summarizeBuildEvents([]);
+      const report = compareInvocationSummaries('a', a, 'b', a);
+      expect(report).to.contain('No differences');
+    });
+
+    it('escapes pipes in table cells', () => {
+      const a = summarizeBuildEvents([]);
+      const report = compareInvocationSummaries('query a|b', a, 'b', a);
+      expect(report).to.contain('|  | query a\\|b | b |');
+      expect(tableRow('x\ny', '`a|b`')).to.equal('| x y | `a\\|b` |');
+    });
+  });
+});
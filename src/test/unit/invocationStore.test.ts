@@ -0,0 +1,112 @@
+'use strict';
+
+import fs = require('fs-extra');
+import os = require('os');
+import path = require('path');
+import { expect } from 'chai';
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import { InvocationStore, isInvocationId } from '../../bezel/invocationStore';
+import { BuildEvent as BuildEventStreamEvent } from '../../proto/build_event_stream/BuildEvent';
+
+const id1 = '0b6a3c32-3f27-4b4e-9d44-5b5f3c0c7a01';
+const id2 = '9f1e0a7e-8d0c-4a4b-bb7e-0e2a1f3c5d02';
+
+describe('invocationStore', function () {
+  let tmpPath: string;
+  let store: InvocationStore;
+
+  beforeEach(async () => {
+    tmpPath = await fs.mkdtemp(path.join(os.tmpdir(), 'invocations-'));
+    store = new InvocationStore(path.join(tmpPath, 'invocations'));
+  });
+
+  afterEach(async () => {
+    store.dispose();
+    await fs.remove(tmpPath);
+  });
+
+  describe('isInvocationId', () => {
+    const cases: { d: string; id: string; want: boolean }[] = [
+      { d: 'uuid', id: id1, want: true },
+      { d: 'upper case uuid', id: id1.toUpperCase(), want: true },
+      { d: 'parent directory', id: '../../escape', want: false },
+      { d: 'absolute path', id: '/etc', want: false },
+      { d: 'uuid with suffix', id: id1 + '/..', want: false },
+      { d: 'empty', id: '', want: false },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(isInvocationId(tc.id)).to.equal(tc.want);
+      });
+    });
+  });
+
+  async function record(invocationId: string, startTimeMillis: number) {
+    const recorder = store.createRecorder(invocationId);
+    const started: BuildEventStreamEvent = {
+      payload: 'started',
+      started: { command: 'build', workspaceDirectory: '/ws', startTimeMillis },
+    };
+    recorder.append(Buffer.from('started'), started);
+    recorder.append(Buffer.from('finished'), {
+      payload: 'finished',
+      finished: { overallSuccess: true, exitCode: { name: 'SUCCESS' } },
+    });
+    await recorder.close();
+  }
+
+  it('records invocations', async () => {
+    await record(id1, 1000);
+    await record(id2, 2000);
+    const invocations = await store.list();
+    expect(invocations.map(inv => [inv.invocationId, inv.command, inv.exitCode])).to.deep.equal([
+      [id2, 'build', 'SUCCESS'],
+      [id1, 'build', 'SUCCESS'],
+    ]);
+    expect(invocations[0].eventCount).to.equal(2);
+    expect(fs.existsSync(store.eventsFile(id1))).to.be.true;
+  });
+
+  it('closes a recorder whose events cannot be written', async () => {
+    const recorder = store.createRecorder(id1);
+    fs.removeSync(path.join(store.dir, id1));
+    recorder.append(Buffer.from('started'), {
+      payload: 'started',
+      started: { command: 'build', startTimeMillis: 1000 },
+    });
+    await recorder.close();
+    expect(await store.list()).to.deep.equal([]);
+  });
+
+  it('prunes the oldest invocations', async () => {
+    await record(id1, 1000);
+    await record(id2, 2000);
+    await store.prune(1);
+    expect((await store.list()).map(inv => inv.invocationId)).to.deep.equal([id2]);
+  });
+
+  it('rejects invalid invocation ids', async () => {
+    expect(() => store.createRecorder('../escape')).to.throw('invalid invocation id');
+    expect(fs.existsSync(path.join(tmpPath, 'escape'))).to.be.false;
+
+    await fs.outputFile(path.join(tmpPath, 'keep'), '');
+    let error: Error | undefined;
+    await store.delete('../keep').catch(e => (error = e));
+    expect(error?.message).to.contain('invalid invocation id');
+    expect(fs.existsSync(path.join(tmpPath, 'keep'))).to.be.true;
+    expect(await store.get('../keep')).to.be.undefined;
+  });
+
+  it('skips directories that are not invocations', async () => {
+    await record(id1, 1000);
+    await fs.outputJson(path.join(store.dir, 'other', 'invocation.json'), {
+      invocationId: '..',
+      startTimeMillis: 0,
+    });
+    await fs.outputJson(path.join(store.dir, id2, 'invocation.json'), {
+      invocationId: id1,
+      startTimeMillis: 0,
+    });
+    expect((await store.list()).map(inv => inv.invocationId)).to.deep.equal([id1]);
+  });
+});
@@ -0,0 +1,221 @@
+'use strict';
+
+import * as zlib from 'zlib';
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import {
+  criticalPath,
+  findRuleLine,
+  formatMicros,
+  layoutTimeline,
+  parseProfile,
+  profileLogUri,
+  summarizeByMnemonic,
+  TraceEvent,
+} from '../../bezel/profile';
+
+const events: TraceEvent[] = [
+  { name: 'thread_name', ph: 'M', pid: 1, tid: 1, args: { name: 'skyframe-evaluator 1' } },
+  {
+    cat: 'action processing',
+    name: 'Compiling a.cc',
+    ph: 'X',
+    ts: 0,
+    dur: 100,
+    pid: 1,
+    tid: 1,
+    args: { mnemonic: 'CppCompile', target: '//a:a' },
+  },
+  {
+    cat: 'action processing',
+    name: 'Compiling b.cc',
+    ph: 'X',
+    ts: 10,
+    dur: 300,
+    pid: 1,
+    tid: 2,
+    args: { mnemonic: 'CppCompile', target: '//b:b' },
+  },
+  {
+    cat: 'action processing',
+    name: 'Linking bin',
+    ph: 'X',
+    ts: 320,
+    dur: 50,
+    pid: 1,
+    tid: 1,
+    args: { mnemonic: 'CppLink', target: '//:bin' },
+  },
+  { cat: 'remote action execution', name: 'upload', ph: 'X', ts: 20, dur: 30, pid: 1, tid: 1 },
+];
+
+describe('profile', function () {
+  describe('parseProfile', () => {
+    it('reads gzipped trace objects', () => {
+      const data = zlib.gzipSync(Buffer.from(JSON.stringify({ traceEvents: events })));
+      const profile = parseProfile(data);
+      expect(profile.events).to.have.length(events.length);
+      expect(profile.threads.get('1:1')).to.equal('skyframe-evaluator 1');
+    });
+
+    it('reads unterminated arrays', () => {
+      const text = '[' + events.map(e => JSON.stringify(e)).join(',\n') + ',\n';
+      expect(parseProfile(Buffer.from(text)).events).to.have.length(events.length);
+    });
+  });
+
+  describe('profileLogUri', () => {
+    it('finds the profile', () => {
+      expect(
+        profileLogUri([
+          { name: 'elapsed time', contents: '1.2' },
+          { name: 'command.profile.gz', uri: 'file:///tmp/command.profile.gz' },
+        ])
+      ).to.equal('file:///tmp/command.profile.gz');
+    });
+    it('ignores remote uris', () => {
+      expect(profileLogUri([{ name: 'command.profile.gz', uri: 'bytestream://x/blobs/a/1' }])).to.be
+        .undefined;
+    });
+  });
+
+  describe('criticalPath', () => {
+    it('uses recorded components', () => {
+      const profile = parseProfile(
+        Buffer.from(
+          JSON.stringify(
+            events.concat([
+              {
+                cat: 'critical path component',
+                name: "action 'Linking bin'",
+                ph: 'X',
+                ts: 320,
+                dur: 50,
+              },
+              {
+                cat: 'critical path component',
+                name: "action 'Compiling b.cc'",
+                ph: 'X',
+                ts: 10,
+                dur: 300,
+              },
+            ])
+          )
+        )
+      );
+      const path = criticalPath(profile);
+      expect(path.estimated).to.be.false;
+      expect(path.actions.map(a => [a.name, a.mnemonic, a.target])).to.deep.equal([
+        ['Compiling b.cc', 'CppCompile', '//b:b'],
+        ['Linking bin', 'CppLink', '//:bin'],
+      ]);
+    });
+
+    it('estimates the path', () => {
+      const path = criticalPath({ events, threads: new Map() });
+      expect(path.estimated).to.be.true;
+      expect(path.actions.map(a => a.name)).to.deep.equal(['Compiling b.cc', 'Linking bin']);
+    });
+
+    it('estimates the path with zero-duration actions', () => {
+      const path = criticalPath({
+        events: events.concat([
+          {
+            cat: 'action processing',
+            name: 'Symlinking bin',
+            ph: 'X',
+            ts: 400,
+            dur: 0,
+            pid: 1,
+            tid: 1,
+            args: { mnemonic: 'Symlink' },
+          },
+          {
+            cat: 'action processing',
+            name: 'Writing stamp',
+            ph: 'X',
+            ts: 400,
+            dur: 0,
+            pid: 1,
+            tid: 2,
+            args: { mnemonic: 'Stamp' },
+          },
+        ]),
+        threads: new Map(),
+      });
+      expect(path.actions.map(a => a.name)).to.deep.equal([
+        'Compiling b.cc',
+        'Linking bin',
+        'Symlinking bin',
+      ]);
+    });
+  });
+
+  describe('summarizeByMnemonic', () => {
+    it('orders by total time', () => {
+      const { actions } = criticalPath({ events, threads: new Map() });
+      const all = actions.concat([
+        { name: 'Compiling a.cc', mnemonic: 'CppCompile', start: 0, duration: 100 },
+      ]);
+      expect(
+        summarizeByMnemonic(all).map(s => [s.mnemonic, s.count, s.total, s.slowest.name])
+      ).to.deep.equal([
+        ['CppCompile', 2, 400, 'Compiling b.cc'],
+        ['CppLink', 1, 50, 'Linking bin'],
+      ]);
+    });
+  });
+
+  describe('layoutTimeline', () => {
+    it('nests spans per thread', () => {
+      const timeline = layoutTimeline({
+        events,
+        threads: new Map([['1:1', 'skyframe-evaluator 1']]),
+      });
+      expect(timeline.start).to.equal(0);
+      expect(timeline.end).to.equal(370);
+      expect(
+        timeline.lanes.map(l => [l.thread, l.depth, l.spans.map(s => [s.name, s.depth])])
+      ).to.deep.equal([
+        ['1:2', 1, [['Compiling b.cc', 0]]],
+        [
+          'skyframe-evaluator 1',
+          2,
+          [
+            ['Compiling a.cc', 0],
+            ['upload', 1],
+            ['Linking bin', 0],
+          ],
+        ],
+      ]);
+    });
+
+    it('keeps the longest spans', () => {
+      const timeline = layoutTimeline({ events, threads: new Map() }, 1);
+      expect(timeline.lanes.map(l => l.spans.map(s => s.name))).to.deep.equal([['Compiling b.cc']]);
+    });
+  });
+
+  describe('findRuleLine', () => {
+    const content = 'load(":x.bzl", "x")\n\ncc_library(\n    name = "a.b",\n)\n';
+    it('finds the rule', () => {
+      expect(findRuleLine(content, 'a.b')).to.equal(4);
+    });
+    it('does not treat the name as a pattern', () => {
+      expect(findRuleLine(content, 'a_b')).to.equal(1);
+    });
+  });
+
+  describe('formatMicros', () => {
+    const cases: { d: string; input: number; want: string }[] = [
+      { d: 'micros', input: 12, want: '12µs' },
+      { d: 'millis', input: 1500, want: '1.5ms' },
+      { d: 'seconds', input: 2500000, want: '2.50s' },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(formatMicros(tc.input)).to.equal(tc.want);
+      });
+    });
+  });
+});
@@ -0,0 +1,127 @@
+'use strict';
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import {
+  addQueryHistory,
+  applyQueryCompletion,
+  parseAqueryActions,
+  parseLabelKindOutput,
+  queryCompletions,
+} from '../../bezel/queryConsole';
+
+describe('query console', function () {
+  describe('queryCompletions', () => {
+    const cases: {
+      d: string;
+      text: string;
+      command: 'query' | 'cquery' | 'aquery';
+      want: string[];
+    }[] = [
+      { d: 'empty', text: '', command: 'query', want: [] },
+      { d: 'prefix', text: 'kind(rule, r', command: 'query', want: ['rbuildfiles', 'rdeps'] },
+      { d: 'command specific', text: 'rd', command: 'cquery', want: ['rdeps'] },
+      { d: 'aquery', text: 'mn', command: 'aquery', want: ['mnemonic'] },
+      { d: 'complete word', text: 'deps', command: 'query', want: [] },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(queryCompletions(tc.text, tc.command).map(fn => fn.name)).to.deep.equal(tc.want);
+      });
+    });
+  });
+
+  describe('applyQueryCompletion', () => {
+    it('replaces the partial function name', () => {
+      expect(applyQueryCompletion('kind(rule, de', 'deps')).to.equal('kind(rule, deps(');
+    });
+    it('adds a space after operators', () => {
+      expect(applyQueryCompletion('//a:b ex', 'except')).to.equal('//a:b except ');
+    });
+  });
+
+  describe('addQueryHistory', () => {
+    it('moves repeated queries to the front', () => {
+      const history = addQueryHistory(
+        [
+          { command: 'query', expression: 'a' },
+          { command: 'query', expression: 'b' },
+          { command: 'cquery', expression: 'a' },
+        ],
+        { command: 'query', expression: 'b' },
+        2
+      );
+      expect(history).to.deep.equal([
+        { command: 'query', expression: 'b' },
+        { command: 'query', expression: 'a' },
+      ]);
+    });
+  });
+
+  describe('parseLabelKindOutput', () => {
+    it('parses query and cquery output', () => {
+      const stdout = [
+        'go_library rule //a:lib',
+        'source file //a:lib.go',
+        'cc_library rule @zlib//:zlib (e1b5ec4)',
+        'Loading: 0 packages loaded',
+        '',
+      ].join('\n');
+      expect(parseLabelKindOutput(stdout)).to.deep.equal([
+        { kind: 'go_library', label: '//a:lib' },
+        { kind: 'source file', label: '//a:lib.go' },
+        { kind: 'cc_library', label: '@zlib//:zlib', config: 'e1b5ec4' },
+      ]);
+    });
+  });
+
+  describe('parseAqueryActions', () => {
+    it('resolves artifacts, targets and dep sets', () => {
+      const container = {
+        artifacts: [
+          { id: 1, pathFragmentId: 2 },
+          { id: 2, pathFragmentId: 3 },
+          { id: 3, pathFragmentId: 5 },
+        ],
+        pathFragments: [
+          { id: 1, label: 'a' },
+          { id: 2, label: 'a.go', parentId: 1 },
+          { id: 3, label: 'b.go', parentId: 1 },
+          { id: 4, label: 'bazel-out' },
+          { id: 5, label: 'a.a', parentId: 4 },
+        ],
+        depSetOfFiles: [
+          { id: 1, directArtifactIds: [1], transitiveDepSetIds: [2] },
+          { id: 2, directArtifactIds: [2, 1] },
+        ],
+        targets: [{ id: 1, label: '//a:lib' }],
+        actions: [
+          {
+            targetId: 1,
+            mnemonic: 'GoCompile',
+            arguments: ['go', 'tool', 'compile'],
+            inputDepSetIds: [1],
+            outputIds: [3],
+          },
+        ],
+      };
+      expect(parseAqueryActions(JSON.stringify(container))).to.deep.equal([
+        {
+          mnemonic: 'GoCompile',
+          target: '//a:lib',
+          inputs: ['a/a.go', 'a/b.go'],
+          outputs: ['bazel-out/a.a'],
+          argv: ['go', 'tool', 'compile'],
+        },
+      ]);
+    });
+    it('reads exec paths', () => {
+      const container = {
+        artifacts: [{ id: '1', execPath: 'x/y.c' }],
+        depSetOfFiles: [{ id: '1', directArtifactIds: ['1'] }],
+        actions: [{ mnemonic: 'CppCompile', inputDepSetIds: ['1'] }],
+      };
+      expect(parseAqueryActions(JSON.stringify(container))[0].inputs).to.deep.equal(['x/y.c']);
+    });
+  });
+});
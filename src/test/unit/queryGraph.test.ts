@@ -0,0 +1,128 @@
+'use strict';
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { isQuerySuccess, queryArgs, queryErrorMessage } from '../../bezel/query';
+import {
+  collapseByPackage,
+  layoutGraph,
+  packageOf,
+  parseGraphOutput,
+  renderGraphSvg,
+} from '../../bezel/queryGraph';
+
+const graphOutput = [
+  'digraph mygraph {',
+  '  node [shape=box];',
+  '  "//app:main"',
+  '  "//app:main" -> "//app:lib"',
+  '  "//app:main" -> "//legacy:util\\n//legacy:old"',
+  '  "//app:lib"',
+  '  "//app:lib" -> "//legacy:util"',
+  '  "//legacy:util"',
+  '  "//legacy:old"',
+  '}',
+].join('\n');
+
+describe('query graph', function () {
+  describe('query', () => {
+    it('builds arguments', () => {
+      expect(
+        queryArgs({ command: 'cquery', expression: 'deps(//a)', options: ['--output=label'] })
+      ).to.deep.equal(['cquery', '--output=label', 'deps(//a)']);
+    });
+    it('accepts partial success', () => {
+      expect([0, 1, 2, 3, 7].map(isQuerySuccess)).to.deep.equal([true, false, false, true, false]);
+    });
+    it('summarizes errors', () => {
+      const stderr = [
+        'Loading: 0 packages loaded',
+        '\x1b[31mERROR:\x1b[0m no such target //a:b',
+        'INFO: Elapsed time: 0.1s',
+      ].join('\n');
+      expect(queryErrorMessage(stderr)).to.equal('ERROR: no such target //a:b');
+    });
+  });
+
+  describe('parseGraphOutput', () => {
+    it('expands factored nodes', () => {
+      const graph = parseGraphOutput(graphOutput);
+      expect(graph.nodes).to.deep.equal([
+        '//app:main',
+        '//app:lib',
+        '//legacy:util',
+        '//legacy:old',
+      ]);
+      expect(graph.edges).to.deep.equal([
+        ['//app:main', '//app:lib'],
+        ['//app:main', '//legacy:util'],
+        ['//app:main', '//legacy:old'],
+        ['//app:lib', '//legacy:util'],
+      ]);
+    });
+  });
+
+  describe('packageOf', () => {
+    const cases: { d: string; input: string; want: string }[] = [
+      { d: 'main', input: '//a/b:c', want: '//a/b' },
+      { d: 'external', input: '@r//a:c', want: '@r//a' },
+      { d: 'implicit', input: '//a/b', want: '//a/b' },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(packageOf(tc.input)).to.equal(tc.want);
+      });
+    });
+  });
+
+  describe('collapseByPackage', () => {
+    it('merges targets and drops self loops', () => {
+      const graph = collapseByPackage(parseGraphOutput(graphOutput), new Set());
+      expect(graph.nodes).to.deep.equal(['//app', '//legacy']);
+      expect(graph.edges).to.deep.equal([['//app', '//legacy']]);
+      expect(graph.members.get('//legacy')).to.deep.equal(['//legacy:util', '//legacy:old']);
+    });
+    it('keeps expanded packages', () => {
+      const graph = collapseByPackage(parseGraphOutput(graphOutput), new Set(['//app']));
+      expect(graph.nodes).to.deep.equal(['//app:main', '//app:lib', '//legacy']);
+      expect(graph.edges).to.deep.equal([
+        ['//app:main', '//app:lib'],
+        ['//app:main', '//legacy'],
+        ['//app:lib', '//legacy'],
+      ]);
+    });
+  });
+
+  describe('layoutGraph', () => {
+    it('assigns layers by longest path', () => {
+      const layout = layoutGraph(parseGraphOutput(graphOutput));
+      const layers = ['//app:main', '//app:lib', '//legacy:util', '//legacy:old'].map(
+        n => layout.positions.get(n)!.layer
+      );
+      expect(layers).to.deep.equal([0, 1, 2, 1]);
+    });
+    it('tolerates cycles', () => {
+      const layout = layoutGraph({
+        nodes: ['a', 'b', 'c'],
+        edges: [
+          ['a', 'b'],
+          ['b', 'c'],
+          ['c', 'b'],
+        ],
+      });
+      expect(['a', 'b', 'c'].map(n => layout.positions.get(n)!.layer)).to.deep.equal([0, 1, 2]);
+    });
+  });
+
+  describe('renderGraphSvg', () => {
+    it('highlights paths', () => {
+      const graph = collapseByPackage(parseGraphOutput(graphOutput), new Set(['//app']));
+      const svg = renderGraphSvg(graph, layoutGraph(graph), {
+        nodes: ['//app:main', '//legacy'],
+        edges: [['//app:main', '//legacy']],
+      });
+      expect(svg.match(/class="edge path"/g)).to.have.length(1);
+      expect(svg).to.contain('class="node package path" data-id="//legacy"');
+    });
+  });
+});
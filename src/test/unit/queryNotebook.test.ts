@@ -0,0 +1,127 @@
+'use strict';
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import {
+  formatQueryNotebook,
+  parseInfoOutput,
+  parseQueryCell,
+  parseQueryNotebook,
+  QueryCell,
+  renderStoredOutput,
+} from '../../bezel/queryNotebook';
+
+describe('query notebook', function () {
+  describe('parseQueryCell', () => {
+    const cases: { d: string; input: string; want: QueryCell }[] = [
+      {
+        d: 'default command',
+        input: 'deps(//app)',
+        want: { command: 'query', options: [], expression: 'deps(//app)' },
+      },
+      {
+        d: 'flags',
+        input: 'cquery --config=ci somepath(//app,\n  //legacy)',
+        want: {
+          command: 'cquery',
+          options: ['--config=ci'],
+          expression: 'somepath(//app,\n  //legacy)',
+        },
+      },
+      {
+        d: 'flag with a separate value',
+        input: 'query --output label --keep_going deps(//app)',
+        want: {
+          command: 'query',
+          options: ['--output=label', '--keep_going'],
+          expression: 'deps(//app)',
+        },
+      },
+      {
+        d: 'quoted values',
+        input: 'cquery --output=starlark --starlark:expr "str(target.label) + \' x\'" //app',
+        want: {
+          command: 'cquery',
+          options: ['--output=starlark', "--starlark:expr=str(target.label) + ' x'"],
+          expression: '//app',
+        },
+      },
+      {
+        d: 'verbatim expression',
+        input: 'attr(name, "a  b", //...) except --foo',
+        want: {
+          command: 'query',
+          options: [],
+          expression: 'attr(name, "a  b", //...) except --foo',
+        },
+      },
+      {
+        d: 'comments',
+        input: '# why?\naquery mnemonic(GoLink, //app)',
+        want: { command: 'aquery', options: [], expression: 'mnemonic(GoLink, //app)' },
+      },
+      {
+        d: 'info',
+        input: 'info output_base',
+        want: { command: 'info', options: [], expression: 'output_base' },
+      },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(parseQueryCell(tc.input)).to.deep.equal(tc.want);
+      });
+    });
+  });
+
+  describe('parseInfoOutput', () => {
+    it('reads all keys', () => {
+      expect(parseInfoOutput('release: release 4.2.1\noutput_base: /tmp/ob\n')).to.deep.equal([
+        { key: 'release', value: 'release 4.2.1' },
+        { key: 'output_base', value: '/tmp/ob' },
+      ]);
+    });
+    it('reads a single key', () => {
+      expect(parseInfoOutput('/tmp/ob\n', 'output_base')).to.deep.equal([
+        { key: 'output_base', value: '/tmp/ob' },
+      ]);
+    });
+  });
+
+  describe('notebook file', () => {
+    it('round trips', () => {
+      const file = {
+        cells: [
+          { kind: 'markdown' as const, value: '# Why?' },
+          {
+            kind: 'query' as const,
+            value: 'somepath(//app, //legacy)',
+            output: { labels: [{ kind: 'go_library', label: '//app:lib' }] },
+          },
+        ],
+      };
+      expect(parseQueryNotebook(formatQueryNotebook(file))).to.deep.equal(file);
+    });
+    it('reads empty files', () => {
+      expect(parseQueryNotebook('')).to.deep.equal({ cells: [] });
+    });
+  });
+
+  describe('renderStoredOutput', () => {
+    it('renders labels as a table', () => {
+      expect(
+        renderStoredOutput({ labels: [{ kind: 'alias', label: '//a:b', config: 'x|y' }] })
+      ).to.equal(
+        [
+          '1 targets',
+          '',
+          '| label | kind | configuration |',
+          '| --- | --- | --- |',
+          '| `//a:b` | alias | x\\|y |',
+        ].join('\n')
+      );
+    });
+    it('renders errors', () => {
+      expect(renderStoredOutput({ error: 'no such target' })).to.equal('```\nno such target\n```');
+    });
+  });
+});
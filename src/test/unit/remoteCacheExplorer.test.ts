@@ -0,0 +1,113 @@
+'use strict';
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { Digest } from '../../proto/build/bazel/remote/execution/v2/Digest';
+import { Directory } from '../../proto/build/bazel/remote/execution/v2/Directory';
+import {
+  formatActionResult,
+  hexDump,
+  listDirectoryTree,
+  parseDigest,
+} from '../../bezel/remoteCacheExplorer';
+
+const sha256 = 'a'.repeat(64);
+
+describe('remoteCacheExplorer', function () {
+  describe('parseDigest', () => {
+    const cases: {
+      d: string; // description
+      input: string;
+      want: Digest | undefined;
+    }[] = [
+      {
+        d: 'hash/size',
+        input: `${sha256}/142`,
+        want: { hash: sha256, sizeBytes: '142' },
+      },
+      {
+        d: 'hash:size with whitespace',
+        input: ` ${sha256}:7\n`,
+        want: { hash: sha256, sizeBytes: '7' },
+      },
+      {
+        d: 'bytestream uri with instance name and extension',
+        input: `bytestream://localhost:1985/main/blobs/${sha256.toUpperCase()}/99.txt`,
+        want: { hash: sha256, sizeBytes: '99' },
+      },
+      {
+        d: 'hash too short',
+        input: 'abc/1',
+        want: undefined,
+      },
+      {
+        d: 'missing size',
+        input: sha256,
+        want: undefined,
+      },
+    ];
+
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(parseDigest(tc.input)).to.deep.equal(tc.want);
+      });
+    });
+  });
+
+  describe('formatActionResult', () => {
+    it('renders outputs and inline streams', () => {
+      const text = formatActionResult(
+        { hash: sha256, sizeBytes: 10 },
+        {
+          exitCode: 1,
+          outputFiles: [{ path: 'bin/foo', digest: { hash: 'b'.repeat(64), sizeBytes: 3 } }],
+          outputDirectories: [{ path: 'out', treeDigest: { hash: 'c'.repeat(64), sizeBytes: 5 } }],
+          stdoutRaw: Buffer.from('hello\n'),
+          stderrDigest: { hash: 'd'.repeat(64), sizeBytes: 1000 },
+        }
+      );
+      expect(text).to.contain(`# Action ${sha256}/10`);
+      expect(text).to.contain('- Exit code: 1');
+      expect(text).to.contain(`| bin/foo | ${'b'.repeat(64)}/3 |  |`);
+      expect(text).to.contain(`| out | ${'c'.repeat(64)}/5 |`);
+      expect(text).to.contain('## stdout\n\n```\nhello\n```');
+      expect(text).to.contain(`Not inlined, see blob ${'d'.repeat(64)}/1000`);
+    });
+  });
+
+  describe('listDirectoryTree', () => {
+    it('resolves child directories by digest', () => {
+      const child: Directory = {
+        files: [{ name: 'b.txt', digest: { hash: 'b', sizeBytes: 2 } }],
+      };
+      const root: Directory = {
+        files: [{ name: 'run.sh', digest: { hash: 'a', sizeBytes: 1 }, isExecutable: true }],
+        directories: [
+          { name: 'sub', digest: { hash: 'c', sizeBytes: 3 } },
+          { name: 'gone', digest: { hash: 'd', sizeBytes: 4 } },
+        ],
+        symlinks: [{ name: 'link', target: 'run.sh' }],
+      };
+      expect(listDirectoryTree(root, new Map([['c', child]]))).to.deep.equal([
+        'run.sh*\ta/1',
+        'link -> run.sh',
+        'sub/\tc/3',
+        'sub/b.txt\tb/2',
+        'gone/\td/4 (missing)',
+      ]);
+    });
+  });
+
+  describe('hexDump', () => {
+    it('formats offsets, bytes and ascii', () => {
+      const dump = hexDump(Buffer.from([0x00, 0x41, 0x42, 0x0a]));
+      expect(dump).to.equal(`00000000  00 41 42 0a${' '.repeat(36)}  .AB.\n`);
+    });
+
+    it('truncates', () => {
+      const dump = hexDump(Buffer.alloc(40), 16);
+      expect(dump.split('\n')).to.have.length(3);
+      expect(dump).to.contain('... 24 more bytes');
+    });
+  });
+});
@@ -0,0 +1,165 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import fs = require('fs-extra');
+import os = require('os');
+import path = require('path');
+import { expect } from 'chai';
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import { BEPRunner } from '../../bezel/bepRunner';
+import { RemoteCacheConfiguration } from '../../bezel/configuration';
+import {
+  applyExecutionLog,
+  formatBytes,
+  formatHitRate,
+  InvocationCacheStats,
+  parseExecutionLog,
+  parseProcessSummary,
+  RemoteCacheStatsCollector,
+  sparkline,
+} from '../../bezel/remoteCacheStats';
+import { Settings } from '../../bezel/settings';
+
+describe('remoteCacheStats', function () {
+  describe('parseProcessSummary', () => {
+    const cases: {
+      d: string; // description
+      input: string;
+      want: ReturnType<typeof parseProcessSummary>;
+    }[] = [
+      {
+        d: 'runners',
+        input: 'INFO: 25 processes: 3 remote cache hit, 20 internal, 2 linux-sandbox.\n',
+        want: {
+          processes: 25,
+          runners: { 'remote cache hit': 3, internal: 20, 'linux-sandbox': 2 },
+        },
+      },
+      {
+        d: 'ansi colors and preceding lines',
+        input: 'Target //:a up-to-date\n\u001b[32mINFO: \u001b[0m1 process: 1 internal.',
+        want: { processes: 1, runners: { internal: 1 } },
+      },
+      {
+        d: 'no runner breakdown',
+        input: 'INFO: 4 processes.',
+        want: { processes: 4, runners: {} },
+      },
+      {
+        d: 'unrelated output',
+        input: 'INFO: Build completed successfully, 1 total action',
+        want: undefined,
+      },
+    ];
+
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(parseProcessSummary(tc.input)).to.deep.equal(tc.want);
+      });
+    });
+  });
+
+  describe('formatHitRate', () => {
+    it('formats a percentage', () => {
+      expect(formatHitRate({ hits: 1, misses: 3 })).to.equal('25% hit (1/4)');
+    });
+    it('handles no processes', () => {
+      expect(formatHitRate({ hits: 0, misses: 0 })).to.equal('no cacheable processes');
+    });
+  });
+
+  describe('formatBytes', () => {
+    const cases: { d: string; input: number; want: string }[] = [
+      { d: 'bytes', input: 512, want: '512 B' },
+      { d: 'kilobytes', input: 1536, want: '1.5 KB' },
+      { d: 'gigabytes', input: 3 * 1024 * 1024 * 1024, want: '3.0 GB' },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(formatBytes(tc.input)).to.equal(tc.want);
+      });
+    });
+  });
+
+  describe('sparkline', () => {
+    it('maps values to bars', () => {
+      expect(sparkline([0, 0.5, 1, 2, -1])).to.equal('▁▅██▁');
+    });
+  });
+
+  describe('execution log', () => {
+    const log = `{
+  "mnemonic": "CppCompile",
+  "remoteCacheHit": true,
+  "progressMessage": "Compiling {a}.cc \\"quoted\\"",
+  "actualOutputs": [{ "path": "a.o", "digest": { "hash": "aa", "sizeBytes": "100" } }]
+}{
+  "mnemonic": "CppCompile",
+  "remoteCacheable": true,
+  "actualOutputs": [{ "path": "b.o", "digest": { "hash": "bb", "sizeBytes": "20" } }]
+}
+{
+  "mnemonic": "GoLink",
+  "remoteCacheable": true,
+  "exitCode": 1,
+  "actualOutputs": [{ "path": "bin", "digest": { "hash": "cc", "sizeBytes": "5" } }]
+}`;
+
+    it('parses concatenated objects', () => {
+      const spawns = parseExecutionLog(log);
+      expect(spawns.map(s => s.mnemonic)).to.deep.equal(['CppCompile', 'CppCompile', 'GoLink']);
+    });
+
+    it('aggregates mnemonics and bytes', () => {
+      const stats: InvocationCacheStats = {
+        invocationId: 'id',
+        command: 'build',
+        patterns: [],
+        timeMillis: 0,
+        processes: 3,
+        runners: {},
+        hits: 1,
+        misses: 2,
+      };
+      applyExecutionLog(stats, parseExecutionLog(log));
+      expect(stats.mnemonics).to.deep.equal({
+        CppCompile: { hits: 1, misses: 1 },
+        GoLink: { hits: 0, misses: 1 },
+      });
+      expect([stats.hits, stats.misses]).to.deep.equal([1, 2]);
+      expect(stats.bytesDownloaded).to.equal(100);
+      expect(stats.bytesUploaded).to.equal(20);
+    });
+  });
+
+  describe('RemoteCacheStatsCollector', () => {
+    let tmpPath: string;
+    let collector: RemoteCacheStatsCollector;
+
+    beforeEach(async () => {
+      tmpPath = await fs.mkdtemp(path.join(os.tmpdir(), 'remote-cache-'));
+      const bepRunner = {
+        onDidReceiveBazelBuildEvent: new vscode.EventEmitter(),
+        onDidReceiveExecutionLog: new vscode.EventEmitter(),
+      };
+      collector = new RemoteCacheStatsCollector(
+        bepRunner as unknown as BEPRunner,
+        {} as Settings<RemoteCacheConfiguration>,
+        {} as vscode.Memento
+      );
+    });
+
+    afterEach(async () => {
+      collector.dispose();
+      await fs.remove(tmpPath);
+    });
+
+    it('reuses the disk usage for a while', async () => {
+      await fs.outputFile(path.join(tmpPath, 'ac', 'a'), '12345');
+      expect(await collector.diskUsage(tmpPath, 0)).to.equal(5);
+      await fs.outputFile(path.join(tmpPath, 'cas', 'b'), '123');
+      expect(await collector.diskUsage(tmpPath, 1000)).to.equal(5);
+      expect(await collector.diskUsage(tmpPath, 61 * 1000)).to.equal(8);
+    });
+  });
+});
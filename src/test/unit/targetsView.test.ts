@@ -0,0 +1,84 @@
+'use strict';
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import {
+  filterPackages,
+  nestPackages,
+  parseTargetsFilter,
+  ruleContextValue,
+  ruleKindIcon,
+  targetName,
+} from '../../bezel/targetsView';
+
+describe('targets view', function () {
+  describe('parseTargetsFilter', () => {
+    const cases: { d: string; input: string; want: { pkg: string; name: string } }[] = [
+      { d: 'empty', input: ' ', want: { pkg: '', name: '' } },
+      { d: 'package', input: 'Foo/bar', want: { pkg: 'foo/bar', name: '' } },
+      { d: 'label', input: '//foo:baz', want: { pkg: 'foo', name: 'baz' } },
+      { d: 'name only', input: ':baz', want: { pkg: '', name: 'baz' } },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(parseTargetsFilter(tc.input)).to.deep.equal(tc.want);
+      });
+    });
+  });
+
+  describe('filterPackages', () => {
+    const dirs = ['', 'a', 'a/b', 'a/b/c', 'd/e'];
+    const cases: { d: string; filter: string; want: string[] }[] = [
+      { d: 'empty', filter: '', want: dirs },
+      { d: 'keeps ancestors', filter: 'c', want: ['a', 'a/b', 'a/b/c'] },
+      { d: 'missing intermediate', filter: 'E', want: ['d/e'] },
+      { d: 'no match', filter: 'x', want: [] },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(filterPackages(dirs, tc.filter)).to.deep.equal(tc.want);
+      });
+    });
+  });
+
+  describe('nestPackages', () => {
+    it('groups by nearest ancestor', () => {
+      const nested = nestPackages(['a/b/c', 'a', '', 'd/e', 'a/x/y']);
+      expect(Array.from(nested.entries())).to.deep.equal([
+        [undefined, ['', 'a', 'd/e']],
+        ['a', ['a/b/c', 'a/x/y']],
+      ]);
+    });
+  });
+
+  describe('targetName', () => {
+    const cases: { d: string; input: string; want: string }[] = [
+      { d: 'label', input: '//a/b:c', want: 'c' },
+      { d: 'external', input: '@r//a:c', want: 'c' },
+      { d: 'implicit', input: '//a/b', want: 'b' },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(targetName(tc.input)).to.equal(tc.want);
+      });
+    });
+  });
+
+  describe('ruleKindIcon', () => {
+    const cases: { d: string; kind: string; icon: string; context: string }[] = [
+      { d: 'test', kind: 'go_test', icon: 'beaker', context: 'rule-test' },
+      { d: 'test suite', kind: 'test_suite', icon: 'beaker', context: 'rule-test' },
+      { d: 'binary', kind: 'java_binary', icon: 'file-binary', context: 'rule-binary' },
+      { d: 'proto', kind: 'proto_library', icon: 'symbol-interface', context: 'rule' },
+      { d: 'library', kind: 'cc_library', icon: 'library', context: 'rule' },
+      { d: 'filegroup', kind: 'filegroup', icon: 'files', context: 'rule' },
+      { d: 'unknown', kind: 'my_macro', icon: 'symbol-misc', context: 'rule' },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(ruleKindIcon(tc.kind)).to.equal(tc.icon);
+        expect(ruleContextValue(tc.kind)).to.equal(tc.context);
+      });
+    });
+  });
+});
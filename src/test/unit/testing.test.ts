@@ -0,0 +1,101 @@
+'use strict';
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { JUnitTestCase, parseJUnitXml, testSummaryOutcome } from '../../bezel/testing';
+import { TestSummary } from '../../proto/build_event_stream/TestSummary';
+
+describe('testing', function () {
+  describe('parseJUnitXml', () => {
+    const cases: {
+      d: string; // description
+      xml: string; // input
+      want: JUnitTestCase[]; // expected result
+    }[] = [
+      {
+        d: 'empty',
+        xml: '<testsuites></testsuites>',
+        want: [],
+      },
+      {
+        d: 'passed, self-closing',
+        xml: `<testsuites><testsuite name="s">
+          <testcase name="TestFoo" classname="pkg.Foo" time="0.25"/>
+        </testsuite></testsuites>`,
+        want: [{ name: 'TestFoo', classname: 'pkg.Foo', duration: 250, status: 'passed' }],
+      },
+      {
+        d: 'failure with message and body',
+        xml: `<testcase name="TestBar" classname="" time="1">
+          <failure message="expected &quot;a&quot;">foo_test.go:12: mismatch</failure>
+        </testcase>`,
+        want: [
+          {
+            name: 'TestBar',
+            classname: '',
+            duration: 1000,
+            status: 'failed',
+            message: 'expected "a"\nfoo_test.go:12: mismatch',
+          },
+        ],
+      },
+      {
+        d: 'error with cdata',
+        xml:
+          '<testcase name="//pkg:test">' +
+          '<error message="exited with error code 1"><![CDATA[boom]]></error>' +
+          '</testcase>',
+        want: [
+          {
+            name: '//pkg:test',
+            classname: '',
+            status: 'errored',
+            message: 'exited with error code 1\nboom',
+          },
+        ],
+      },
+      {
+        d: 'skipped',
+        xml: '<testcase name="TestSkip" classname="x"><skipped/></testcase>',
+        want: [{ name: 'TestSkip', classname: 'x', status: 'skipped' }],
+      },
+    ];
+
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(parseJUnitXml(tc.xml)).to.deep.equal(tc.want);
+      });
+    });
+  });
+
+  describe('testSummaryOutcome', () => {
+    const cases: {
+      d: string; // description
+      summary: TestSummary;
+      want: ReturnType<typeof testSummaryOutcome>;
+    }[] = [
+      { d: 'passed', summary: { overallStatus: 'PASSED' }, want: { outcome: 'passed' } },
+      {
+        d: 'flaky',
+        summary: { overallStatus: 'FLAKY', totalRunCount: 3, failed: [{ name: 'test.log' }] },
+        want: { outcome: 'flaky', message: '//a:test: FLAKY, failed 1 of 3 attempts' },
+      },
+      {
+        d: 'numeric status',
+        summary: { overallStatus: 3 },
+        want: { outcome: 'failed', message: '//a:test: TIMEOUT' },
+      },
+      {
+        d: 'failed to build',
+        summary: { overallStatus: 'FAILED_TO_BUILD' },
+        want: { outcome: 'errored', message: '//a:test: FAILED_TO_BUILD' },
+      },
+      { d: 'no status', summary: {}, want: { outcome: 'skipped' } },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(testSummaryOutcome('//a:test', tc.summary)).to.deep.equal(tc.want);
+      });
+    });
+  });
+});
@@ -0,0 +1,228 @@
+'use strict';
+
+import fs = require('fs-extra');
+import os = require('os');
+import path = require('path');
+import crypto = require('crypto');
+import { expect } from 'chai';
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import {
+  listInstalledTools,
+  mirrorURL,
+  parseToolManifest,
+  provisionTool,
+  staleTools,
+  ToolsConfiguration,
+  toolPlatform,
+} from '../../tools';
+
+const sha256 = (text: string) => crypto.createHash('sha256').update(text).digest('hex');
+
+describe('tools', function () {
+  describe('parseToolManifest', () => {
+    const sum = sha256('buildifier');
+    const cases: { d: string; input: string; want?: any; error?: string }[] = [
+      {
+        d: 'relative url',
+        input: JSON.stringify({
+          buildifier: { '5.1.0': { 'linux-amd64': { sha256: sum.toUpperCase(), url: 'bin/b' } } },
+        }),
+        want: {
+          buildifier: { '5.1.0': { 'linux-amd64': { sha256: sum, url: '/etc/tools/bin/b' } } },
+        },
+      },
+      {
+        d: 'http url',
+        input: JSON.stringify({
+          bzl: { 'v1.4.8': { 'darwin-arm64': { sha256: sum, url: 'https://example.com/bzl' } } },
+        }),
+        want: {
+          bzl: { 'v1.4.8': { 'darwin-arm64': { sha256: sum, url: 'https://example.com/bzl' } } },
+        },
+      },
+      {
+        d: 'bad sha256',
+        input: JSON.stringify({ buildifier: { '5.1.0': { 'linux-amd64': { sha256: 'abc' } } } }),
+        error: 'buildifier 5.1.0 linux-amd64: sha256 must be 64 hex digits',
+      },
+      { d: 'not an object', input: '[]', error: 'expected an object of tools' },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        if (tc.error) {
+          expect(() => parseToolManifest(tc.input, '/etc/tools/manifest.json')).to.throw(
+            `invalid tool manifest /etc/tools/manifest.json: ${tc.error}`
+          );
+        } else {
+          expect(parseToolManifest(tc.input, '/etc/tools/manifest.json')).to.deep.equal(tc.want);
+        }
+      });
+    });
+  });
+
+  describe('toolPlatform', () => {
+    const cases: { d: string; arch: string; platform: string; want: string }[] = [
+      { d: 'linux', arch: 'x64', platform: 'linux', want: 'linux-amd64' },
+      { d: 'linux arm64', arch: 'arm64', platform: 'linux', want: 'linux-arm64' },
+      { d: 'apple silicon', arch: 'arm64', platform: 'darwin', want: 'darwin-arm64' },
+      { d: 'windows', arch: 'x64', platform: 'win32', want: 'windows-amd64' },
+    ];
+    cases.forEach(tc => {
+      it(tc.d, () => {
+        expect(toolPlatform(tc.arch, tc.platform)).to.equal(tc.want);
+      });
+    });
+  });
+
+  describe('provisionTool', () => {
+    let tmpPath: string;
+    const platform = toolPlatform(os.arch(), process.platform);
+
+    beforeEach(async () => {
+      tmpPath = await fs.mkdtemp(path.join(os.tmpdir(), 'tools-'));
+      await fs.outputFile(path.join(tmpPath, 'mirror/buildifier/5.1.0/buildifier'), 'buildifier');
+    });
+
+    afterEach(async () => {
+      await fs.remove(tmpPath);
+    });
+
+    const configuration = (
+      pinned: string | undefined,
+      extra: Partial<ToolsConfiguration> = {}
+    ): ToolsConfiguration => ({
+      enabled: true,
+      manifestFile: undefined,
+      manifest: pinned ? { buildifier: { '5.1.0': { [platform]: { sha256: pinned } } } } : {},
+      mirror: path.join(tmpPath, 'mirror'),
+      requireChecksum: false,
+      ...extra,
+    });
+
+    const request = () => ({
+      tool: 'buildifier',
+      version: '5.1.0',
+      assetName: 'buildifier',
+      filename: path.join(tmpPath, 'storage/5.1.0/buildifier'),
+      mode: 0o755,
+    });
+
+    const noDownload = async (): Promise<string> => {
+      throw new Error('unexpected download');
+    };
+
+    it('copies a verified file from the mirror', async () => {
+      const req = request();
+      const filename = await provisionTool(configuration(sha256('buildifier')), req, noDownload);
+      expect(filename).to.equal(req.filename);
+      expect(await fs.readFile(filename, 'utf8')).to.equal('buildifier');
+    });
+
+    it('accepts a file:// mirror', async () => {
+      const mirror = 'file://' + path.join(tmpPath, 'mirror');
+      const filename = await provisionTool(
+        configuration(undefined, { mirror }),
+        request(),
+        noDownload
+      );
+      expect(fs.existsSync(filename)).to.be.true;
+    });
+
+    it('rejects a file that does not match', async () => {
+      const req = request();
+      let error: Error | undefined;
+      await provisionTool(configuration(sha256('other')), req, noDownload).catch(e => (error = e));
+      expect(error?.message).to.contain('did not match the pinned sha256');
+      expect(fs.existsSync(req.filename)).to.be.false;
+    });
+
+    it('replaces an installed file that does not match', async () => {
+      const req = request();
+      await fs.outputFile(req.filename, 'tampered');
+      const filename = await provisionTool(configuration(sha256('buildifier')), req, noDownload);
+      expect(await fs.readFile(filename, 'utf8')).to.equal('buildifier');
+    });
+
+    it('removes an installed file that does not match', async () => {
+      const req = request();
+      await fs.outputFile(req.filename, 'tampered');
+      let error: Error | undefined;
+      await provisionTool(configuration(sha256('other')), req, noDownload).catch(e => (error = e));
+      expect(error?.message).to.contain(`want ${sha256('other')}, got ${sha256('buildifier')}`);
+      expect(fs.existsSync(req.filename)).to.be.false;
+    });
+
+    it('keeps an installed file that is not pinned', async () => {
+      const req = request();
+      await fs.outputFile(req.filename, 'local');
+      const filename = await provisionTool(configuration(undefined), req, noDownload);
+      expect(await fs.readFile(filename, 'utf8')).to.equal('local');
+    });
+
+    it('requires a checksum', async () => {
+      const tools = configuration(undefined, { requireChecksum: true });
+      let error: Error | undefined;
+      await provisionTool(tools, request(), noDownload).catch(e => (error = e));
+      expect(error?.message).to.contain('is not pinned in the tool manifest');
+    });
+
+    it('downloads from the release without a mirror', async () => {
+      const req = request();
+      let given: string | undefined;
+      const filename = await provisionTool(
+        configuration(sha256('released'), { mirror: undefined }),
+        req,
+        async sum => {
+          given = sum;
+          await fs.outputFile(req.filename, 'released');
+          return req.filename;
+        }
+      );
+      expect(given).to.equal(sha256('released'));
+      expect(filename).to.equal(req.filename);
+    });
+  });
+
+  describe('installed tools', () => {
+    let tmpPath: string;
+
+    beforeEach(async () => {
+      tmpPath = await fs.mkdtemp(path.join(os.tmpdir(), 'tools-'));
+      for (const file of [
+        'bsv.buildifier/4.0.1/buildifier-linux-amd64',
+        'bsv.buildifier/5.1.0/buildifier-linux-amd64',
+        'bsv.buildifier/5.1.0/buildozer-linux-amd64',
+        'bsv.bzl/v1.4.8/bzl',
+        'file-downloader-downloads/v1.4.7-bzl',
+      ]) {
+        await fs.outputFile(path.join(tmpPath, file), '');
+      }
+    });
+
+    afterEach(async () => {
+      await fs.remove(tmpPath);
+    });
+
+    it('lists and prunes old versions', async () => {
+      const installed = await listInstalledTools(tmpPath);
+      expect(installed.map(t => `${t.tool} ${t.version}`).sort()).to.deep.equal([
+        'buildifier 4.0.1',
+        'buildifier 5.1.0',
+        'buildozer 5.1.0',
+        'bzl v1.4.7',
+        'bzl v1.4.8',
+      ]);
+      const stale = staleTools(installed, { buildifier: '5.1.0', bzl: 'v1.4.8' });
+      expect(stale.map(t => path.relative(tmpPath, t.filename)).sort()).to.deep.equal([
+        path.join('bsv.buildifier', '4.0.1', 'buildifier-linux-amd64'),
+        path.join('file-downloader-downloads', 'v1.4.7-bzl'),
+      ]);
+    });
+  });
+
+  it('mirrorURL', () => {
+    expect(mirrorURL('https://mirror/tools/', 'buildozer', '5.1.0', 'buildozer.exe')).to.equal(
+      'https://mirror/tools/buildozer/5.1.0/buildozer.exe'
+    );
+  });
+});
@@ -0,0 +1,528 @@
+'use strict';
+
+import * as fs from 'graceful-fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import * as vscode from 'vscode';
+import sha256File = require('sha256-file');
+import { ComponentConfiguration } from './bezel/configuration';
+import { Settings } from './bezel/settings';
+import { ConfigurationContext } from './common';
+import { BuiltInCommands, CommandName } from './constants';
+import { downloadAsset } from './download';
+
+/**
+ * The pinned files of the tools the extension downloads, by tool name (e.g.
+ * "buildifier"), version (e.g. "5.1.0") and platform (e.g. "linux-amd64").
+ */
+export interface ToolManifest {
+  [tool: string]: { [version: string]: { [platform: string]: ToolAsset } };
+}
+
+/**
+ * A pinned file of a tool.
+ */
+export interface ToolAsset {
+  // the hex encoded sha256 of the file
+  sha256: string;
+  // where to fetch the file from instead of its release: an http(s) or
+  // file:// URL, or a path relative to the manifest
+  url?: string;
+}
+
+/**
+ * Configuration for tool provisioning.
+ */
+export interface ToolsConfiguration extends ComponentConfiguration {
+  // path of the manifest file, if any
+  manifestFile: string | undefined;
+  manifest: ToolManifest;
+  // a local directory, file:// URL or http(s) URL the tools are fetched from
+  // instead of their release, laid out as <tool>/<version>/<file>
+  mirror: string | undefined;
+  // if true, a tool that is not pinned in the manifest is not downloaded
+  requireChecksum: boolean;
+}
+
+/**
+ * A tool to install.
+ */
+export interface ToolRequest {
+  // the name of the tool in the manifest, e.g. "buildozer"
+  tool: string;
+  version: string;
+  // the name of the release file, e.g. "buildozer-linux-amd64"
+  assetName: string;
+  // where the file is installed
+  filename: string;
+  mode: number;
+}
+
+/**
+ * An installed file of a tool in the extension storage.
+ */
+export interface InstalledTool {
+  tool: string;
+  version: string;
+  filename: string;
+}
+
+/**
+ * The sha256 check of an installed tool: 'verified' if it matches the
+ * manifest, 'mismatch' if it does not and 'unpinned' if the manifest has no
+ * entry for it.
+ */
+export type ToolStatus = 'verified' | 'mismatch' | 'unpinned';
+
+/**
+ * The directory of the vendored file downloader, in which bzl is downloaded
+ * as <release>-bzl.
+ */
+const FILE_DOWNLOADER_DIRECTORY = 'file-downloader-downloads';
+
+/**
+ * The directories of the extension storage tools are installed to as
+ * <version>/<file>.
+ */
+const TOOL_DIRECTORIES = ['bsv.buildifier', 'bsv.bzl'];
+
+export class ToolsSettings extends Settings<ToolsConfiguration> {
+  constructor(configCtx: ConfigurationContext, section: string) {
+    super(configCtx, section);
+  }
+
+  protected async configure(config: vscode.WorkspaceConfiguration): Promise<ToolsConfiguration> {
+    const cfg: ToolsConfiguration = {
+      enabled: true,
+      manifestFile: config.get<string>('manifest') || undefined,
+      manifest: {},
+      mirror: config.get<string>('mirror') || undefined,
+      requireChecksum: config.get<boolean>('requireChecksum', false),
+    };
+
+    if (cfg.manifestFile) {
+      const folder = vscode.workspace.workspaceFolders?.[0];
+      if (folder && !path.isAbsolute(cfg.manifestFile)) {
+        cfg.manifestFile = path.join(folder.uri.fsPath, cfg.manifestFile);
+      }
+      const text = await fs.promises.readFile(cfg.manifestFile, 'utf8');
+      cfg.manifest = parseToolManifest(text, cfg.manifestFile);
+    }
+
+    return cfg;
+  }
+}
+
+/**
+ * Parses a tool manifest.  Relative asset URLs are resolved against the
+ * directory of the manifest.
+ *
+ * @param filename the manifest file, for errors and relative URLs
+ */
+export function parseToolManifest(text: string, filename: string): ToolManifest {
+  const fail = (message: string) => {
+    throw new Error(`invalid tool manifest ${filename}: ${message}`);
+  };
+  const isObject = (value: any) => typeof value === 'object' && value && !Array.isArray(value);
+
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    fail(e instanceof Error ? e.message : String(e));
+  }
+  if (!isObject(json)) {
+    fail('expected an object of tools');
+  }
+
+  const manifest: ToolManifest = {};
+  for (const [tool, versions] of Object.entries<any>(json)) {
+    if (!isObject(versions)) {
+      fail(`${tool}: expected an object of versions`);
+    }
+    manifest[tool] = {};
+    for (const [version, platforms] of Object.entries<any>(versions)) {
+      if (!isObject(platforms)) {
+        fail(`${tool} ${version}: expected an object of platforms`);
+      }
+      manifest[tool][version] = {};
+      for (const [platform, asset] of Object.entries<any>(platforms)) {
+        const where = `${tool} ${version} ${platform}`;
+        if (!(isObject(asset) && /^[0-9a-fA-F]{64}$/.test(asset.sha256))) {
+          fail(`${where}: sha256 must be 64 hex digits`);
+        }
+        if (asset.url !== undefined && typeof asset.url !== 'string') {
+          fail(`${where}: url must be a string`);
+        }
+        let url: string | undefined = asset.url;
+        if (url && isLocalPath(url) && !path.isAbsolute(url)) {
+          url = path.join(path.dirname(filename), url);
+        }
+        manifest[tool][version][platform] = { sha256: asset.sha256.toLowerCase(), url };
+      }
+    }
+  }
+  return manifest;
+}
+
+/**
+ * Returns the manifest platform name for the os.arch() and process.platform
+ * values, such as linux-amd64.
+ */
+export function toolPlatform(arch: string, platform: string): string {
+  let osName = 'linux';
+  if (platform === 'win32') {
+    osName = 'windows';
+  } else if (platform === 'darwin') {
+    osName = 'darwin';
+  }
+  const osArch = arch === 'arm' || arch === 'arm64' ? 'arm64' : 'amd64';
+  return `${osName}-${osArch}`;
+}
+
+/**
+ * Returns the pinned file of the tool for this machine, if any.
+ */
+export function manifestAsset(
+  tools: ToolsConfiguration | undefined,
+  tool: string,
+  version: string
+): ToolAsset | undefined {
+  return tools?.manifest[tool]?.[version]?.[toolPlatform(os.arch(), process.platform)];
+}
+
+/**
+ * Returns the location of the tool file in the mirror.
+ */
+export function mirrorURL(mirror: string, tool: string, version: string, assetName: string) {
+  return [mirror.replace(/[/\\]+$/, ''), tool, version, assetName].join('/');
+}
+
+/**
+ * Returns true if the location is a file path rather than a URL.
+ */
+function isLocalPath(location: string): boolean {
+  return !/^[a-z][\w+.-]*:\/\//i.test(location);
+}
+
+/**
+ * Returns the file path of a local location: a path or a file:// URL.
+ */
+export function localFilePath(location: string): string | undefined {
+  if (location.startsWith('file://')) {
+    return fileURLToPath(location);
+  }
+  return isLocalPath(location) ? location : undefined;
+}
+
+function sha256Of(filename: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    sha256File(filename, (err, sum) => (err ? reject(err) : resolve(sum)));
+  });
+}
+
+/**
+ * Checks the file against the sha256.  Throws an error if it does not match.
+ */
+async function checkSha256(filename: string, sha256: string): Promise<void> {
+  const actual = await sha256Of(filename);
+  if (actual !== sha256) {
+    throw new Error(`${filename} did not match the pinned sha256: want ${sha256}, got ${actual}`);
+  }
+}
+
+/**
+ * Fetches the file of a tool from a URL or a local path and verifies it
+ * before moving it into place.
+ *
+ * @param sha256 the sha256 to verify, if known
+ */
+export async function fetchToolAsset(
+  location: string,
+  filename: string,
+  mode: number,
+  sha256?: string
+): Promise<void> {
+  const local = localFilePath(location);
+  if (!local) {
+    return downloadAsset(location, filename, mode, sha256);
+  }
+  if (!fs.existsSync(local)) {
+    throw new Error(`${local} not found`);
+  }
+  await fs.promises.mkdir(path.dirname(filename), { recursive: true });
+  const tmpFile = `${filename}.tmp`;
+  await fs.promises.copyFile(local, tmpFile);
+  try {
+    if (sha256) {
+      await checkSha256(tmpFile, sha256);
+    }
+    await fs.promises.chmod(tmpFile, mode);
+    await fs.promises.rename(tmpFile, filename);
+  } catch (e) {
+    await fs.promises.unlink(tmpFile).catch(() => undefined);
+    throw e;
+  }
+}
+
+/**
+ * Checks an installed file of the tool against the manifest.  Throws an error
+ * if it does not match.
+ */
+export async function verifyInstalledTool(
+  tools: ToolsConfiguration | undefined,
+  tool: string,
+  version: string,
+  filename: string
+): Promise<void> {
+  const asset = manifestAsset(tools, tool, version);
+  if (asset) {
+    await checkSha256(filename, asset.sha256);
+  }
+}
+
+/**
+ * Installs a tool, unless it is installed already.  The file is fetched from
+ * the URL of its manifest entry, the mirror, or else by the download function
+ * (from the release), and checked against the manifest sha256.  An installed
+ * file that does not match the manifest is removed and fetched again.
+ *
+ * @param download fetches the file from its release, verifying the sha256 if
+ * given, and returns the path it was saved to
+ * @returns the path of the installed file
+ */
+export async function provisionTool(
+  tools: ToolsConfiguration | undefined,
+  req: ToolRequest,
+  download: (sha256?: string) => Promise<string>
+): Promise<string> {
+  const asset = manifestAsset(tools, req.tool, req.version);
+  if (fs.existsSync(req.filename)) {
+    try {
+      await verifyInstalledTool(tools, req.tool, req.version, req.filename);
+      return req.filename;
+    } catch (e) {
+      // the file was modified or pinned after it was installed: fetch it again.
+      console.warn(`${e instanceof Error ? e.message : e}; removing it`);
+      await fs.promises.unlink(req.filename);
+    }
+  }
+  if (!asset && tools?.requireChecksum) {
+    const platform = toolPlatform(os.arch(), process.platform);
+    throw new Error(
+      `${req.tool} ${req.version} (${platform}) is not pinned in the tool manifest ` +
+        'and bsv.tools.requireChecksum is set'
+    );
+  }
+
+  let filename = req.filename;
+  const location =
+    asset?.url || (tools?.mirror && mirrorURL(tools.mirror, req.tool, req.version, req.assetName));
+  if (location) {
+    await fetchToolAsset(location, filename, req.mode, asset?.sha256);
+  } else {
+    filename = await download(asset?.sha256);
+  }
+  if (asset) {
+    try {
+      await checkSha256(filename, asset.sha256);
+    } catch (e) {
+      await fs.promises.unlink(filename).catch(() => undefined);
+      throw e;
+    }
+  }
+  return filename;
+}
+
+/**
+ * Returns the tool name of a release file, e.g. buildifier for
+ * buildifier-linux-amd64 or buildifier.exe.
+ */
+function toolName(basename: string): string {
+  return basename.split(/[-.]/)[0];
+}
+
+async function readDirectory(dir: string): Promise<fs.Dirent[]> {
+  try {
+    return await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch (e) {
+    return [];
+  }
+}
+
+/**
+ * Lists the tools installed in the extension storage.
+ *
+ * @param storageDir the global storage directory of the extension
+ */
+export async function listInstalledTools(storageDir: string): Promise<InstalledTool[]> {
+  const installed: InstalledTool[] = [];
+  for (const toolDir of TOOL_DIRECTORIES) {
+    for (const version of await readDirectory(path.join(storageDir, toolDir))) {
+      if (!version.isDirectory()) {
+        continue;
+      }
+      const versionDir = path.join(storageDir, toolDir, version.name);
+      for (const file of await readDirectory(versionDir)) {
+        if (file.isFile() && !file.name.endsWith('.tmp')) {
+          installed.push({
+            tool: toolName(file.name),
+            version: version.name,
+            filename: path.join(versionDir, file.name),
+          });
+        }
+      }
+    }
+  }
+  const downloads = path.join(storageDir, FILE_DOWNLOADER_DIRECTORY);
+  for (const file of await readDirectory(downloads)) {
+    const match = /^(.+)-bzl(\.exe)?$/.exec(file.name);
+    if (file.isFile() && match) {
+      installed.push({ tool: 'bzl', version: match[1], filename: path.join(downloads, file.name) });
+    }
+  }
+  return installed;
+}
+
+/**
+ * Returns the installed tools that are not of the configured version of
+ * their tool.  Tools whose configured version is unknown are kept.
+ *
+ * @param versions the configured version by tool name
+ */
+export function staleTools(
+  installed: InstalledTool[],
+  versions: { [tool: string]: string | undefined }
+): InstalledTool[] {
+  return installed.filter(t => {
+    const version = versions[t.tool];
+    return version !== undefined && version !== t.version;
+  });
+}
+
+/**
+ * Returns the sha256 check of an installed tool.
+ */
+export async function installedToolStatus(
+  tools: ToolsConfiguration | undefined,
+  installed: InstalledTool
+): Promise<ToolStatus> {
+  const asset =
+    tools?.manifest[installed.tool]?.[installed.version]?.[
+      toolPlatform(os.arch(), process.platform)
+    ];
+  if (!asset) {
+    return 'unpinned';
+  }
+  return (await sha256Of(installed.filename)) === asset.sha256 ? 'verified' : 'mismatch';
+}
+
+const statusDescriptions: { [status in ToolStatus]: string } = {
+  verified: '$(pass) sha256 verified',
+  mismatch: '$(error) sha256 does not match the manifest',
+  unpinned: '$(question) not pinned in the manifest',
+};
+
+interface ToolQuickPickItem extends vscode.QuickPickItem {
+  installed?: InstalledTool;
+  prune?: boolean;
+}
+
+/**
+ * ToolsManager implements the command that lists the tools installed in the
+ * extension storage with their sha256 check, and prunes the versions that are
+ * no longer configured.
+ */
+export class ToolsManager implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+
+  /**
+   * @param versions returns the configured version by tool name
+   */
+  constructor(
+    private readonly configCtx: ConfigurationContext,
+    private readonly tools: Settings<ToolsConfiguration>,
+    private readonly versions: () => Promise<{ [tool: string]: string | undefined }>
+  ) {
+    this.disposables.push(
+      vscode.commands.registerCommand(CommandName.ManageTools, this.handleCommandManageTools, this)
+    );
+  }
+
+  async handleCommandManageTools(): Promise<void> {
+    const storageDir = this.configCtx.globalStorageUri.fsPath;
+    let tools: ToolsConfiguration | undefined;
+    try {
+      tools = await this.tools.get();
+    } catch (e) {
+      vscode.window.showErrorMessage(e instanceof Error ? e.message : String(e));
+    }
+
+    const installed = await listInstalledTools(storageDir);
+    const stale = staleTools(installed, await this.versions());
+    const items: ToolQuickPickItem[] = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Window, title: 'Verifying tools...' },
+      () =>
+        Promise.all(
+          installed.map(async t => ({
+            label: `${t.tool} ${t.version}`,
+            description: statusDescriptions[await installedToolStatus(tools, t)],
+            detail: t.filename,
+            installed: t,
+          }))
+        )
+    );
+    if (stale.length) {
+      items.push({
+        label: '$(trash) Prune old versions',
+        description: stale.map(t => `${t.tool} ${t.version}`).join(', '),
+        prune: true,
+      });
+    }
+    if (!items.length) {
+      vscode.window.showInformationMessage(`No tools are installed in ${storageDir}`);
+      return;
+    }
+
+    const item = await vscode.window.showQuickPick(items, {
+      placeHolder: tools?.manifestFile
+        ? `Installed tools, verified against ${tools.manifestFile}`
+        : 'Installed tools (set bsv.tools.manifest to pin their sha256)',
+      matchOnDetail: true,
+    });
+    if (item?.prune) {
+      await this.prune(stale);
+    } else if (item?.installed) {
+      await vscode.commands.executeCommand(
+        BuiltInCommands.RevealFileInOS,
+        vscode.Uri.file(item.installed.filename)
+      );
+    }
+  }
+
+  private async prune(stale: InstalledTool[]): Promise<void> {
+    const remove = 'Remove';
+    const answer = await vscode.window.showWarningMessage(
+      `Remove ${stale.length} old tool version(s)?`,
+      { modal: true, detail: stale.map(t => t.filename).join('\n') },
+      remove
+    );
+    if (answer !== remove) {
+      return;
+    }
+    for (const t of stale) {
+      await fs.promises.unlink(t.filename);
+      // remove the version directory once empty
+      await fs.promises.rmdir(path.dirname(t.filename)).catch(() => undefined);
+    }
+    vscode.window.showInformationMessage(`Removed ${stale.length} old tool version(s)`);
+  }
+
+  public dispose() {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables.length = 0;
+  }
+}